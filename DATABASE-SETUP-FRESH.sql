@@ -73,7 +73,7 @@ CREATE TABLE IF NOT EXISTS public.expenses (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE,
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
-    source TEXT DEFAULT 'manual' CHECK (source IN ('manual', 'upload', 'camera', 'voice')),
+    source TEXT DEFAULT 'manual' CHECK (source IN ('manual', 'upload', 'camera', 'voice', 'import')),
     status TEXT DEFAULT 'unreviewed' CHECK (status IN ('unreviewed', 'reviewed', 'flagged')),
     txn_date DATE NOT NULL,
     merchant TEXT NOT NULL,
@@ -117,7 +117,7 @@ const AICategorizationModal: React.FC<AICategorizationModalProps> = ({
                 <div>
                   <p className="text-sm font-medium text-yellow-800">AI Not Available</p>
                   <p className="text-xs text-yellow-700">
-                    Add VITE_OPENAI_API_KEY to your environment variables to enable AI categorization.
+                    Add VITE_SUPABASE_URL to your environment variables and deploy the AI edge functions to enable AI categorization.
                   </p>
                 </div>
               </div>
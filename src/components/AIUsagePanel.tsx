@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, Loader2, AlertCircle } from 'lucide-react';
+import { aiUsageRepository, AIUsageMonth } from '../lib/repositories';
+
+// The signed-in user's AI calls per month (categorization, chat, receipts and voice), shown
+// on the profile page
+const AIUsagePanel: React.FC = () => {
+  const [usage, setUsage] = useState<AIUsageMonth[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    aiUsageRepository.getMonthlyUsage()
+      .then(({ data, error: usageError }) => {
+        if (usageError) throw usageError;
+        setUsage(data);
+      })
+      .catch(err => {
+        console.error('Error loading AI usage:', err);
+        setError('Failed to load AI usage');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const formatMonth = (month: string) =>
+    new Date(`${month}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Sparkles className="w-5 h-5 text-brand-muted-teal" />
+        <h3 className="text-lg font-semibold text-brand-text-dark">AI Usage</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-brand-text-muted">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          <span>Loading usage...</span>
+        </div>
+      ) : error ? (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      ) : usage.length === 0 ? (
+        <p className="text-sm text-brand-text-muted">No AI calls in the last 12 months.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-brand-text-muted border-b border-brand-soft-gray/20">
+                <th className="py-2 pr-4 font-medium">Month</th>
+                <th className="py-2 pr-4 font-medium text-right">AI calls</th>
+                <th className="py-2 pr-4 font-medium text-right">Failed</th>
+                <th className="py-2 pr-4 font-medium text-right">Rate limited</th>
+                <th className="py-2 pr-4 font-medium text-right" title="Answers reused from earlier calls">Cached</th>
+                <th className="py-2 pr-4 font-medium text-right">Tokens</th>
+                <th className="py-2 font-medium text-right">Avg. time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map(month => (
+                <tr key={month.month} className="border-b border-brand-soft-gray/10 last:border-0">
+                  <td className="py-2 pr-4 text-brand-text-dark">{formatMonth(month.month)}</td>
+                  <td className="py-2 pr-4 text-right font-medium text-brand-text-dark">{month.calls.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right text-brand-text-muted">{month.failed_calls.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right text-brand-text-muted">{month.rate_limited_calls.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right text-brand-text-muted">
+                    {month.cache_hits + month.cache_misses > 0
+                      ? `${Math.round((month.cache_hits / (month.cache_hits + month.cache_misses)) * 100)}%`
+                      : '—'}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-brand-text-muted">
+                    {(month.prompt_tokens + month.completion_tokens).toLocaleString()}
+                  </td>
+                  <td className="py-2 text-right text-brand-text-muted">{(month.avg_latency_ms / 1000).toFixed(1)}s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIUsagePanel;
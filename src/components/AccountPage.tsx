@@ -15,7 +15,6 @@ import {
   Filter, 
   MoreHorizontal,
   Check,
-  X,
   Eye,
   Trash2,
   Download,
@@ -28,55 +27,75 @@ import {
   ChevronLeft,
   ChevronRight,
   RotateCw,
-  ZoomIn,
-  ZoomOut,
   Building,
-  Loader2
+  Loader2,
+  Paperclip,
+  Users,
+  History,
+  RotateCcw,
+  Scissors,
+  Receipt,
+  Store,
+  Wand2
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import {
+  expenseRepository,
+  workspaceRepository,
+  categoryRepository,
+  paymentMethodRepository,
+  workspaceMemberRepository,
+  Expense,
+  ExpenseSummary,
+  ExpenseFilters,
+  ExpenseSort,
+  Workspace,
+  Category,
+  PaymentMethod,
+  WorkspaceRole,
+  ApprovalPolicy,
+  DEFAULT_BASE_CURRENCY
+} from '../lib/repositories';
+import {
+  parseExpenseViewState,
+  serializeExpenseViewState,
+  countActiveFilters,
+  DEFAULT_EXPENSE_VIEW_STATE,
+  EXPENSE_VIEW_PARAMS
+} from '../lib/expense-filters';
+import {
+  resolveDateRange,
+  DateRangeSelection,
+  DATE_RANGE_PRESETS,
+  LAST_N_DAYS_OPTIONS
+} from '../lib/date-ranges';
+import { expenseExportService, EXPORT_FORMATS, ExportFormat } from '../lib/expense-export';
+import { EMPTY_GST_DETAILS } from '../lib/gst';
+import { receiptUploadQueue } from '../lib/receipt-upload-queue';
+import { formatCurrency } from '../lib/currency';
+import { recurringExpenseService } from '../lib/recurrence';
+import { can } from '../lib/team';
+import { trashService, UNDO_DELETE_TIMEOUT_MS } from '../lib/trash';
+import { approvalService, isApprover, canApproveExpense, INBOX_STATUSES, EMPTY_APPROVAL_POLICY, EXPENSE_STATUS_LABELS, EXPENSE_STATUS_COLORS } from '../lib/approvals';
+import { categorizationRuleService } from '../lib/categorization-rules';
 import BusinessModal from './BusinessModal';
 import AddExpenseModal from './AddExpenseModal';
+import ImportExpensesModal from './ImportExpensesModal';
+import GstReportModal from './GstReportModal';
+import MerchantsModal from './MerchantsModal';
+import CategorizationRulesModal from './CategorizationRulesModal';
+import ReceiptPreviewPanel, { ExpensePanelTab } from './ReceiptPreviewPanel';
+import ReceiptUploadQueuePanel from './ReceiptUploadQueuePanel';
+import CurrencySettingsModal from './CurrencySettingsModal';
+import SubscriptionsView from './SubscriptionsView';
+import ReimbursementsView from './ReimbursementsView';
+import TrashView from './TrashView';
+import SplitExpenseModal from './SplitExpenseModal';
+import BudgetsPanel from './BudgetsPanel';
+import TeamModal from './TeamModal';
+import PendingInvitationsBanner from './PendingInvitationsBanner';
+import ApprovalsPanel from './ApprovalsPanel';
 import ConversationalExpenseChat from './ConversationalExpenseChat';
 
-interface Expense {
-  id: string;
-  merchant: string;
-  amount: number;
-  txn_date: string;
-  global_category_id: string; // FIXED: Match actual database column name
-  category_confidence: number;
-  payment_method_id?: string;
-  source: 'upload' | 'camera' | 'voice' | 'manual';
-  status: 'unreviewed' | 'reviewed' | 'flagged';
-  notes?: string;
-  workspace_id: string;
-  user_id: string;
-  currency: string;
-  is_reimbursable: boolean;
-  created_at: string;
-  // Joined fields
-  category_name?: string;
-  payment_method_name?: string;
-}
-
-interface Business {
-  id: string;
-  name: string;
-  type: string;
-}
-
-interface Category {
-  id: string;
-  name: string;
-  color: string;
-}
-
-interface PaymentMethod {
-  id: string;
-  name: string;
-  type: string;
-}
-
 interface AccountPageProps {
   onBack: () => void;
   onLogout: () => void;
@@ -85,7 +104,9 @@ interface AccountPageProps {
 
 const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) => {
   // State management
-  const [currentView, setCurrentView] = useState<'dashboard' | 'inbox' | 'expenses' | 'manual-entry' | 'profile'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'inbox' | 'expenses' | 'subscriptions' | 'reimbursements' | 'trash' | 'manual-entry' | 'profile'>(
+    () => new URLSearchParams(window.location.search).get('view') === 'expenses' ? 'expenses' : 'dashboard'
+  );
   const [selectedExpenses, setSelectedExpenses] = useState<string[]>([]);
   const [showAddExpenseModal, setShowAddExpenseModal] = useState(false);
   const [showChatInterface, setShowChatInterface] = useState(false);
@@ -94,20 +115,43 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
   const [showBusinessModal, setShowBusinessModal] = useState(false);
   const [showCreateBusinessModal, setShowCreateBusinessModal] = useState(false);
   const [showReceiptPreview, setShowReceiptPreview] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [dateRange, setDateRange] = useState('This Month');
-  const [isUploading, setIsUploading] = useState(false);
+  const [receiptPreviewTab, setReceiptPreviewTab] = useState<ExpensePanelTab>('receipt');
+  const [splitExpenseId, setSplitExpenseId] = useState<string | null>(null);
+  const [expenseFilters, setExpenseFilters] = useState<ExpenseFilters>(() => parseExpenseViewState(window.location.search).filters);
+  const [expenseSort, setExpenseSort] = useState<ExpenseSort>(() => parseExpenseViewState(window.location.search).sort);
+  const [searchQuery, setSearchQuery] = useState(expenseFilters.search || '');
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showGstReport, setShowGstReport] = useState(false);
+  const [showMerchantsModal, setShowMerchantsModal] = useState(false);
+  const [showRulesModal, setShowRulesModal] = useState(false);
+  const [showCurrencySettings, setShowCurrencySettings] = useState(false);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+  // Set when submitting or approving from the inbox fails, e.g. a missing second approver
+  const [inboxError, setInboxError] = useState('');
+  const [dateRangeSelection, setDateRangeSelection] = useState<DateRangeSelection>({ preset: 'this-month' });
+  const [showDateRangeMenu, setShowDateRangeMenu] = useState(false);
+  const [customRangeDraft, setCustomRangeDraft] = useState({ start: '', end: '' });
+  const [expenseSummary, setExpenseSummary] = useState<ExpenseSummary | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [activeWorkspace, setActiveWorkspace] = useState<string>('');
   const [workspaceDropdownOpen, setWorkspaceDropdownOpen] = useState(false);
+  // The current user's role in the active workspace; RLS enforces it, the UI hides what it can't do
+  const [workspaceRole, setWorkspaceRole] = useState<WorkspaceRole | null>(null);
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(EMPTY_APPROVAL_POLICY);
+  // Bumped to refetch workspaces after joining, leaving or deleting one
+  const [workspacesReloadKey, setWorkspacesReloadKey] = useState(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropzoneRef = useRef<HTMLDivElement>(null);
   const workspaceSelectorRef = useRef<HTMLButtonElement>(null);
 
   // Real data from database
-  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [businesses, setBusinesses] = useState<Workspace[]>([]);
   const [workspaces, setWorkspaces] = useState([{ id: '', name: 'Select a business...' }]);
   const [isLoadingWorkspaces, setIsLoadingWorkspaces] = useState(true);
   const [expenses, setExpenses] = useState<Expense[]>([]);
@@ -116,6 +160,15 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
   const [isLoadingExpenses, setIsLoadingExpenses] = useState(false);
   const [isLoadingDashboard, setIsLoadingDashboard] = useState(false);
   const [isRefreshingExpenses, setIsRefreshingExpenses] = useState(false); // Add this flag
+  // Server-side paginated rows for the Expenses table view
+  const [expenseTableRows, setExpenseTableRows] = useState<Expense[]>([]);
+  const [expenseTableCursor, setExpenseTableCursor] = useState<string | null>(null);
+  const [isLoadingExpenseTable, setIsLoadingExpenseTable] = useState(false);
+  const expenseTableRequestRef = useRef(0);
+
+  // Expenses just moved to the trash, offered for undo until the toast times out
+  const [undoDelete, setUndoDelete] = useState<{ ids: string[]; label: string } | null>(null);
+  const undoDeleteTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Debug: Check user and workspace state
   React.useEffect(() => {
@@ -146,42 +199,14 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
         setIsLoadingWorkspaces(true);
         console.log('Fetching workspaces for user:', user.id);
         
-        // Simple approach: fetch workspaces where user is the creator
-        // This should work with the existing RLS policies
-        const { data: workspacesData, error: workspacesError } = await supabase
-          .from('workspaces')
-          .select('*')
-          .order('created_at', { ascending: false });
+        const { data: transformedWorkspaces, error: workspacesError } = await workspaceRepository.list();
 
         if (workspacesError) {
           console.error('Error fetching workspaces:', workspacesError);
-          // Try alternative approach if the first fails
-          console.log('Trying alternative workspace fetch...');
-          
-          // Alternative: check if user can access any workspaces
-          const { data: testData, error: testError } = await supabase
-            .from('workspaces')
-            .select('id, name')
-            .limit(1);
-            
-          if (testError) {
-            console.error('Alternative approach also failed:', testError);
-            console.log('This suggests an RLS policy issue');
-          } else {
-            console.log('Alternative approach succeeded, found:', testData);
-          }
         } else {
-          console.log('Successfully fetched workspaces:', workspacesData);
+          console.log('Successfully fetched workspaces:', transformedWorkspaces);
           
-          if (workspacesData && workspacesData.length > 0) {
-            // Transform data to match our interface
-            const transformedWorkspaces = workspacesData.map(ws => ({
-              id: ws.id,
-              name: ws.name,
-              type: ws.business_type || 'Business',
-              description: ws.description
-            }));
-
+          if (transformedWorkspaces.length > 0) {
             setBusinesses(transformedWorkspaces);
             
             // Update workspace dropdown
@@ -210,7 +235,43 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     };
 
     fetchWorkspaces();
-  }, [user]); // Remove activeWorkspace dependency to avoid infinite loop
+  }, [user, workspacesReloadKey]); // Remove activeWorkspace dependency to avoid infinite loop
+
+  // Load the current user's role whenever the workspace changes
+  const loadWorkspaceRole = async () => {
+    if (!activeWorkspace || !user) {
+      setWorkspaceRole(null);
+      return;
+    }
+
+    const { data, error } = await workspaceMemberRepository.getMyRole(activeWorkspace);
+    if (error) {
+      console.error('Error fetching workspace role:', error);
+    }
+    setWorkspaceRole(data);
+  };
+
+  // Approvers and the second approval amount decide who sees Approve in the inbox
+  const loadApprovalPolicy = async () => {
+    if (!activeWorkspace) {
+      setApprovalPolicy(EMPTY_APPROVAL_POLICY);
+      return;
+    }
+
+    try {
+      setApprovalPolicy(await approvalService.loadPolicy(activeWorkspace));
+    } catch (error) {
+      console.error('Error fetching approval policy:', error);
+      setApprovalPolicy(EMPTY_APPROVAL_POLICY);
+    }
+  };
+
+  useEffect(() => {
+    loadWorkspaceRole();
+    loadApprovalPolicy();
+  }, [activeWorkspace, user]);
+
+  const canApproveExpenses = isApprover(approvalPolicy, user?.id, workspaceRole);
 
   // Fetch expenses when workspace changes
   useEffect(() => {
@@ -220,6 +281,24 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     }
   }, [activeWorkspace, user]); // Remove fetchExpenses from dependencies to prevent infinite loops
 
+  // Create any recurring expenses that fell due since the workspace was last opened
+  useEffect(() => {
+    if (!activeWorkspace || !user) return;
+
+    recurringExpenseService.generateDue(activeWorkspace).then(created => {
+      if (created > 0) {
+        fetchExpenses();
+        fetchExpenseSummary();
+      }
+    });
+  }, [activeWorkspace, user]);
+
+  // Purge expenses that have been in the trash longer than the workspace keeps them
+  useEffect(() => {
+    if (!activeWorkspace || !user) return;
+    trashService.purgeExpired(activeWorkspace);
+  }, [activeWorkspace, user]);
+
   // Fetch expenses from database
   const fetchExpenses = async () => {
     if (!activeWorkspace) return;
@@ -227,51 +306,14 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     try {
       setIsLoadingExpenses(true);
       
-      // First, try to fetch expenses without joins to see if the basic query works
-      const { data: expensesData, error: expensesError } = await supabase
-        .from('expenses')
-        .select('*')
-        .eq('workspace_id', activeWorkspace)
-        .order('created_at', { ascending: false })
-        .limit(100);
+      const { data: expensesData, error: expensesError } = await expenseRepository.listForWorkspace(activeWorkspace, { limit: 100 });
 
       if (expensesError) {
         console.error('Error fetching expenses:', expensesError);
         console.error('Error details:', expensesError.message, expensesError.details, expensesError.hint);
       } else {
-        console.log('Raw expenses data:', expensesData);
-        console.log('Number of expenses fetched:', expensesData?.length || 0);
-        
-        // Transform the data to match our interface
-        const transformedExpenses = expensesData?.map(expense => ({
-          ...expense,
-          // Since we're not joining categories/payment_methods, set default values
-          category_name: 'Uncategorized', // We'll fetch this separately if needed
-          payment_method_name: 'Not specified', // We'll fetch this separately if needed
-          // Map database fields to our interface
-          merchant: expense.merchant,
-          amount: expense.amount,
-          txn_date: expense.txn_date,
-          global_category_id: expense.global_category_id,
-          category_confidence: expense.category_confidence || 0,
-          payment_method_id: expense.payment_method_id,
-          source: expense.source,
-          status: expense.status,
-          notes: expense.notes,
-          workspace_id: expense.workspace_id,
-          user_id: expense.user_id,
-          currency: expense.currency,
-          is_reimbursable: expense.is_reimbursable,
-          created_at: expense.created_at
-        })) || [];
-
-        console.log('Transformed expenses:', transformedExpenses);
-        setExpenses(transformedExpenses);
-        
-        // If we have expenses, try to fetch category and payment method names
-        if (transformedExpenses.length > 0) {
-          await enrichExpensesWithNames(transformedExpenses);
-        }
+        console.log('Number of expenses fetched:', expensesData.length);
+        setExpenses(expensesData);
       }
     } catch (error) {
       console.error('Error fetching expenses:', error);
@@ -280,46 +322,130 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     }
   };
 
-  // Function to enrich expenses with category and payment method names
-  const enrichExpensesWithNames = async (expenses: Expense[]) => {
+  // Fetch a page of the Expenses table; without a cursor the table is reloaded from the first page
+  const fetchExpenseTablePage = async (cursor: string | null = null) => {
+    if (!activeWorkspace) return;
+
+    // Ignore responses from requests superseded by a newer filter change
+    const requestId = ++expenseTableRequestRef.current;
+
     try {
-      // Get unique category and payment method IDs
-      const categoryIds = [...new Set(expenses.map(e => e.global_category_id).filter(Boolean))];
-      const paymentMethodIds = [...new Set(expenses.map(e => e.payment_method_id).filter(Boolean))];
-      
-      // Fetch category names from global_categories table
-      if (categoryIds.length > 0) {
-        const { data: categoryData, error: categoryError } = await supabase
-          .from('global_categories')
-          .select('id, name')
-          .in('id', categoryIds);
-          
-        if (!categoryError && categoryData) {
-          const categoryMap = new Map(categoryData.map(c => [c.id, c.name]));
-          setExpenses(prev => prev.map(expense => ({
-            ...expense,
-            category_name: expense.global_category_id ? (categoryMap.get(expense.global_category_id) || 'Uncategorized') : 'Uncategorized'
-          })));
-        }
+      setIsLoadingExpenseTable(true);
+
+      const { data: page, error } = await expenseRepository.listPage(activeWorkspace, expenseFilters, {
+        sort: expenseSort,
+        cursor
+      });
+
+      if (requestId !== expenseTableRequestRef.current) return;
+
+      if (error) {
+        console.error('Error fetching expense page:', error);
+        return;
       }
-      
-      // Fetch payment method names
-      if (paymentMethodIds.length > 0) {
-        const { data: paymentMethodData, error: paymentMethodError } = await supabase
-          .from('payment_methods')
-          .select('id, name')
-          .in('id', paymentMethodIds);
-          
-        if (!paymentMethodError && paymentMethodData) {
-          const paymentMethodMap = new Map(paymentMethodData.map(pm => [pm.id, pm.name]));
-          setExpenses(prev => prev.map(expense => ({
-            ...expense,
-            payment_method_name: expense.payment_method_id ? (paymentMethodMap.get(expense.payment_method_id) || 'Not specified') : 'Not specified'
-          })));
-        }
+
+      setExpenseTableRows(prev => cursor ? [...prev, ...page.expenses] : page.expenses);
+      setExpenseTableCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching expense page:', error);
+    } finally {
+      if (requestId === expenseTableRequestRef.current) {
+        setIsLoadingExpenseTable(false);
       }
+    }
+  };
+
+  // Reload the Expenses table whenever its filters, sort or workspace change
+  useEffect(() => {
+    if (currentView === 'expenses' && activeWorkspace && user) {
+      fetchExpenseTablePage();
+    }
+  }, [currentView, activeWorkspace, user, expenseFilters, expenseSort]); // fetchExpenseTablePage reads these, so they are the real dependencies
+
+  // Debounce the search box into the server-side filters
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setExpenseFilters(prev => (prev.search || '') === searchQuery.trim()
+        ? prev
+        : { ...prev, search: searchQuery.trim() || undefined });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Keep the Expenses view state in the URL so filtered views can be bookmarked
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (currentView === 'expenses') {
+      params.set('view', 'expenses');
+      serializeExpenseViewState({ filters: expenseFilters, sort: expenseSort }, params);
+    } else {
+      EXPENSE_VIEW_PARAMS.forEach(key => params.delete(key));
+    }
+
+    const query = params.toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, [currentView, expenseFilters, expenseSort]);
+
+  const updateExpenseFilter = <K extends keyof ExpenseFilters>(key: K, value: ExpenseFilters[K]) => {
+    setExpenseFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const clearExpenseFilters = () => {
+    setSearchQuery('');
+    setExpenseFilters({ ...DEFAULT_EXPENSE_VIEW_STATE.filters });
+  };
+
+  const dateRange = resolveDateRange(dateRangeSelection);
+
+  // Fetch dashboard totals for the selected date range
+  const fetchExpenseSummary = async () => {
+    if (!activeWorkspace) return;
+
+    try {
+      const { data: summary, error } = await expenseRepository.getSummary(activeWorkspace, dateRange);
+
+      if (error) {
+        console.error('Error fetching expense summary:', error);
+        return;
+      }
+
+      setExpenseSummary(summary);
     } catch (error) {
-      console.error('Error enriching expenses with names:', error);
+      console.error('Error fetching expense summary:', error);
+    }
+  };
+
+  // Refetch totals when the workspace or date range changes
+  useEffect(() => {
+    if (activeWorkspace && user) {
+      fetchExpenseSummary();
+    }
+  }, [activeWorkspace, user, dateRange.start, dateRange.end]); // fetchExpenseSummary reads these, so they are the real dependencies
+
+  const selectDateRange = (selection: DateRangeSelection) => {
+    setDateRangeSelection(selection);
+    setShowDateRangeMenu(false);
+  };
+
+  // Export the expenses matching the current Expenses view filters
+  const handleExport = async (format: ExportFormat) => {
+    if (!activeWorkspace) {
+      setShowBusinessModal(true);
+      return;
+    }
+
+    setShowExportMenu(false);
+    setExportError('');
+
+    try {
+      setIsExporting(true);
+      await expenseExportService.exportExpenses(activeWorkspace, activeWorkspaceName, expenseFilters, expenseSort, format);
+    } catch (error) {
+      console.error('Error exporting expenses:', error);
+      setExportError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -328,69 +454,20 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     if (!activeWorkspace) return;
 
     try {
-      console.log('🔍 Starting to fetch categories for dashboard workspace:', activeWorkspace);
-      
-      // Try to fetch categories from the new global categories system first
-      console.log('📡 Attempting to fetch global categories for dashboard...');
-      const { data: globalCategoriesData, error: globalCategoriesError } = await supabase
-        .from('workspace_category_mappings')
-        .select(`
-          id,
-          global_categories!inner(
-            id,
-            name,
-            color
-          )
-        `)
-        .eq('workspace_id', activeWorkspace)
-        .eq('is_active', true)
-        .order('name', { foreignTable: 'global_categories' });
-
-      console.log('📊 Dashboard global categories response:', { data: globalCategoriesData, error: globalCategoriesError });
-
-      if (!globalCategoriesError && globalCategoriesData && globalCategoriesData.length > 0) {
-        // FIXED: Use the global_categories.id instead of the mapping id
-        const transformedCategories = globalCategoriesData.map((item: any) => ({
-          id: item.global_categories.id, // Use the actual category ID, not the mapping ID
-          name: item.global_categories.name,
-          color: item.global_categories.color
-        }));
-        
-        setCategories(transformedCategories);
-        console.log('✅ Successfully fetched global categories for dashboard:', transformedCategories.length, transformedCategories);
-      } else {
-        console.log('⚠️ Global categories failed or empty for dashboard, falling back to old method');
-        console.log('❌ Error details:', globalCategoriesError);
-        console.log('📊 Data received:', globalCategoriesData);
-        
-        // FIXED: Use global_categories table directly instead of old categories table
-        console.log('📡 Attempting to fetch global categories directly for dashboard...');
-        const { data: fallbackData, error: fallbackError } = await supabase
-          .from('global_categories')
-          .select('id, name, color')
-          .order('name');
-        
-        if (fallbackError) {
-          console.error('❌ Direct global categories fetch failed for dashboard:', fallbackError);
-          // Set empty categories array as last resort
-          setCategories([]);
-        } else {
-          setCategories(fallbackData || []);
-          console.log('✅ Fetched global categories directly for dashboard:', fallbackData?.length || 0);
-        }
-      }
+      const [categoriesResult, paymentMethodsResult] = await Promise.all([
+        categoryRepository.listForWorkspace(activeWorkspace),
+        paymentMethodRepository.listForWorkspace(activeWorkspace)
+      ]);
 
-      // Fetch payment methods (unchanged)
-      const { data: paymentMethodsData, error: paymentMethodsError } = await supabase
-        .from('payment_methods')
-        .select('id, name, type')
-        .eq('workspace_id', activeWorkspace)
-        .order('name');
+      if (categoriesResult.error) {
+        console.error('Error fetching categories:', categoriesResult.error);
+      }
+      setCategories(categoriesResult.data);
 
-      if (paymentMethodsError) {
-        console.error('Error fetching payment methods:', paymentMethodsError);
+      if (paymentMethodsResult.error) {
+        console.error('Error fetching payment methods:', paymentMethodsResult.error);
       } else {
-        setPaymentMethods(paymentMethodsData || []);
+        setPaymentMethods(paymentMethodsResult.data);
       }
     } catch (error) {
       console.error('Error fetching categories/payment methods:', error);
@@ -403,6 +480,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       setIsLoadingDashboard(true);
       await Promise.all([
         fetchExpenses(),
+        fetchExpenseSummary(),
         fetchCategoriesAndPaymentMethods()
       ]);
       setIsLoadingDashboard(false);
@@ -418,90 +496,38 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
 
   // Computed values - filtered by active workspace
   const workspaceExpenses = expenses.filter(e => !activeWorkspace || e.workspace_id === activeWorkspace);
-  const unreviewedExpenses = workspaceExpenses.filter(e => e.status === 'unreviewed');
-  const reviewedExpenses = workspaceExpenses.filter(e => e.status === 'reviewed');
-
-  // Calculate monthly totals
-  const getCurrentMonthExpenses = () => {
-    const now = new Date();
-    const currentMonth = now.getMonth();
-    const currentYear = now.getFullYear();
-    
-    console.log('Calculating current month expenses...');
-    console.log('Current month/year:', currentMonth, currentYear);
-    console.log('Total workspace expenses:', workspaceExpenses.length);
-    
-    const currentMonthExpenses = workspaceExpenses.filter(expense => {
-      const expenseDate = new Date(expense.txn_date);
-      const isCurrentMonth = expenseDate.getMonth() === currentMonth && 
-                           expenseDate.getFullYear() === currentYear;
-      
-      if (isCurrentMonth) {
-        console.log('Found current month expense:', expense.merchant, expense.amount, expense.txn_date);
-      }
-      
-      return isCurrentMonth;
-    });
-    
-    console.log('Current month expenses count:', currentMonthExpenses.length);
-    return currentMonthExpenses;
-  };
+  // Expenses waiting on their submitter: new, flagged or sent back by an approver
+  const unreviewedExpenses = workspaceExpenses.filter(e => INBOX_STATUSES.includes(e.status));
 
-  const currentMonthExpenses = getCurrentMonthExpenses();
-  const thisMonthTotal = currentMonthExpenses.reduce((sum, e) => sum + e.amount, 0);
-
-  // Calculate last month total for comparison
-  const getLastMonthExpenses = () => {
-    const now = new Date();
-    const lastMonth = now.getMonth() === 0 ? 11 : now.getMonth() - 1;
-    const lastMonthYear = now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear();
-    
-    return workspaceExpenses.filter(expense => {
-      const expenseDate = new Date(expense.txn_date);
-      return expenseDate.getMonth() === lastMonth && 
-             expenseDate.getFullYear() === lastMonthYear;
-    });
-  };
-
-  const lastMonthExpenses = getLastMonthExpenses();
-  const lastMonthTotal = lastMonthExpenses.reduce((sum, e) => sum + e.amount, 0);
+  // Totals for the selected period come from the get_expense_summary RPC, in the base currency
+  const baseCurrency = expenseSummary?.currency
+    || businesses.find(b => b.id === activeWorkspace)?.base_currency
+    || DEFAULT_BASE_CURRENCY;
+  const periodTotal = expenseSummary?.total ?? 0;
+  const previousPeriodTotal = expenseSummary?.previous_total ?? 0;
 
   // Calculate percentage change
-  const percentageChange = lastMonthTotal > 0 
-    ? ((thisMonthTotal - lastMonthTotal) / lastMonthTotal) * 100 
+  const percentageChange = previousPeriodTotal > 0 
+    ? ((periodTotal - previousPeriodTotal) / previousPeriodTotal) * 100 
     : 0;
 
-  // Get top categories by spending
-  const getTopCategories = () => {
-    const categoryTotals = currentMonthExpenses.reduce((acc, expense) => {
-      const categoryName = expense.category_name || 'Uncategorized';
-      acc[categoryName] = (acc[categoryName] || 0) + expense.amount;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(categoryTotals)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 3)
-      .map(([name, total]) => ({
-        name,
-        total,
-        percentage: (total / thisMonthTotal) * 100
-      }));
-  };
-
-  const topCategories = getTopCategories();
+  // Top categories by spending in the selected period
+  const topCategories = (expenseSummary?.top_categories || []).map(category => ({
+    name: category.name,
+    total: category.total,
+    percentage: periodTotal > 0 ? (category.total / periodTotal) * 100 : 0
+  }));
 
   // Get recent expenses (last 10)
   const recentExpenses = workspaceExpenses.slice(0, 10);
  // console.log('Recent expenses (first 10):', recentExpenses);
 
-  // Format currency
-  const formatCurrency = (amount: number, currency: string = 'INR') => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2
-    }).format(amount);
+  // Converted amount shown under foreign-currency expenses
+  const formatBaseAmount = (expense: Expense) => {
+    if (expense.currency === baseCurrency) return null;
+    return expense.base_amount !== null
+      ? `≈ ${formatCurrency(expense.base_amount, baseCurrency)}`
+      : `No ${expense.currency} rate`;
   };
 
   // Format date
@@ -560,7 +586,8 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     const newBusinessItem = { 
       id: newBusiness.id, 
       name: newBusiness.name, 
-      type: 'business' 
+      type: 'business',
+      base_currency: newBusiness.base_currency || DEFAULT_BASE_CURRENCY
     };
     
     setWorkspaces(prev => [...prev.filter(w => w.id !== ''), newWorkspace]);
@@ -573,39 +600,30 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
     setShowCreateBusinessModal(false);
   };
 
-  // File upload handling
-  const handleFileUpload = async (files: FileList | null) => {
+  // File upload handling: queue every file for OCR and save each as an unreviewed expense
+  const handleFileUpload = (files: FileList | null) => {
     if (!files || files.length === 0) return;
-    if (!activeWorkspace) {
+    if (!activeWorkspace || !user) {
       handleDisabledAction();
       return;
     }
-    
-    setIsUploading(true);
-    
-    // Simulate OCR processing
-    setTimeout(() => {
-      const newExpense: Expense = {
-        id: Date.now().toString(),
-        merchant: 'New Receipt',
-        amount: Math.random() * 100,
-        txn_date: new Date().toISOString().split('T')[0],
-        global_category_id: 'cat1', // AI categorization
-        category_confidence: Math.floor(Math.random() * 30) + 70,
-        source: 'upload',
-        status: 'unreviewed',
-        workspace_id: activeWorkspace,
-        user_id: user?.id,
-        currency: 'INR',
-        is_reimbursable: false,
-        created_at: new Date().toISOString()
-      };
-      
-      setExpenses(prev => [newExpense, ...prev]);
-      setIsUploading(false);
-    }, 2000);
+
+    receiptUploadQueue.enqueue(Array.from(files), activeWorkspace, user.id);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    handleFileUpload(event.dataTransfer.files);
   };
 
+  // Expenses saved by the upload queue land at the top of the inbox
+  useEffect(() => {
+    return receiptUploadQueue.onExpenseCreated(expense => {
+      setExpenses(prev => [expense, ...prev]);
+    });
+  }, []);
+
   // Voice recording
   const handleVoiceRecord = () => {
     if (!activeWorkspace) {
@@ -618,16 +636,30 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       const newExpense: Expense = {
         id: Date.now().toString(),
         merchant: 'Voice Entry',
+        merchant_id: null,
         amount: Math.random() * 50,
         txn_date: new Date().toISOString().split('T')[0],
-        global_category_id: 'cat2', // AI categorization
+        category_id: null, // AI categorization
+        category_name: 'Uncategorized',
         category_confidence: Math.floor(Math.random() * 25) + 75,
+        payment_method_id: null,
+        payment_method_name: 'Not specified',
         source: 'voice',
         status: 'unreviewed',
         workspace_id: activeWorkspace,
         user_id: user?.id,
-        currency: 'INR',
+        currency: baseCurrency,
+        base_amount: null,
+        base_currency: baseCurrency,
+        fx_rate: null,
         is_reimbursable: false,
+        approval_count: 0,
+        is_split: false,
+        subtotal_amount: null,
+        tax_amount: null,
+        tip_amount: null,
+        discount_amount: null,
+        ...EMPTY_GST_DETAILS,
         created_at: new Date().toISOString()
       };
       
@@ -664,29 +696,24 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
   // NOTE: When integrated with Supabase, these operations will be automatically
   // subject to RLS policies that ensure users can only modify expenses from
   // workspaces they're members of, providing secure workspace isolation
+  // Submits the expenses for approval, approving them too when the user is an approver
   const acceptExpense = async (id: string) => {
     try {
       console.log('Accepting expense:', id);
+      setInboxError('');
       
       // Set flag to prevent fetchExpenses from running
       setIsRefreshingExpenses(true);
       
       // Update the database first
-      const { error } = await supabase
-        .from('expenses')
-        .update({ status: 'reviewed' })
-        .eq('id', id)
-        .eq('workspace_id', activeWorkspace);
-
-      if (error) {
-        console.error('Error updating expense status:', error);
-        setIsRefreshingExpenses(false);
-        return;
-      }
+      const updated = await approvalService.accept(
+        expenses.filter(e => e.id === id),
+        canApproveExpenses ? user?.id : undefined
+      );
 
       // If database update succeeds, update local state
       setExpenses(prev => prev.map(e => 
-        e.id === id ? { ...e, status: 'reviewed' as const } : e
+        updated.has(e.id) ? { ...e, ...updated.get(e.id), rejection_reason: null } : e
       ));
 
       console.log('Expense status updated successfully in database');
@@ -695,39 +722,60 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       setTimeout(() => setIsRefreshingExpenses(false), 100);
     } catch (error) {
       console.error('Error accepting expense:', error);
+      setInboxError(error instanceof Error ? error.message : 'Failed to submit expense');
       setIsRefreshingExpenses(false);
     }
   };
 
+  // Offer to undo a delete for a few seconds
+  const showUndoDelete = (ids: string[], label: string) => {
+    if (undoDeleteTimeoutRef.current) clearTimeout(undoDeleteTimeoutRef.current);
+    setUndoDelete({ ids, label });
+    undoDeleteTimeoutRef.current = setTimeout(() => setUndoDelete(null), UNDO_DELETE_TIMEOUT_MS);
+  };
+
+  // Reload everything that lists expenses after some come back from the trash
+  const handleExpensesRestored = () => {
+    fetchExpenses();
+    fetchExpenseSummary();
+    if (currentView === 'expenses') fetchExpenseTablePage();
+  };
+
+  const handleUndoDelete = async () => {
+    if (!undoDelete) return;
+    if (undoDeleteTimeoutRef.current) clearTimeout(undoDeleteTimeoutRef.current);
+    setUndoDelete(null);
+
+    try {
+      await trashService.restore(undoDelete.ids);
+      handleExpensesRestored();
+    } catch (error) {
+      console.error('Error undoing delete:', error);
+      setInboxError(error instanceof Error ? error.message : 'Failed to restore expenses');
+    }
+  };
+
   const deleteExpense = async (id: string) => {
     try {
       console.log('Deleting expense:', id);
+      setInboxError('');
       
       // Set flag to prevent fetchExpenses from running
       setIsRefreshingExpenses(true);
       
-      // Delete from database first
-      const { error } = await supabase
-        .from('expenses')
-        .delete()
-        .eq('id', id)
-        .eq('workspace_id', activeWorkspace);
-
-      if (error) {
-        console.error('Error deleting expense:', error);
-        setIsRefreshingExpenses(false);
-        return;
-      }
+      // Move to the trash in the database first
+      await trashService.moveToTrash([id]);
 
-      // If database delete succeeds, update local state
+      // If that succeeds, update local state
+      const merchant = expenses.find(e => e.id === id)?.merchant;
       setExpenses(prev => prev.filter(e => e.id !== id));
-      
-      console.log('Expense deleted successfully from database');
+      showUndoDelete([id], merchant ? `${merchant} moved to trash` : 'Expense moved to trash');
       
       // Reset flag after a short delay to allow UI updates to settle
       setTimeout(() => setIsRefreshingExpenses(false), 100);
     } catch (error) {
       console.error('Error deleting expense:', error);
+      setInboxError(error instanceof Error ? error.message : 'Failed to delete expense');
       setIsRefreshingExpenses(false);
     }
   };
@@ -744,25 +792,58 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
   };
 
   // Update expense category
-  const updateExpenseCategory = (expenseId: string, categoryId: string) => {
+  const updateExpenseCategory = async (expenseId: string, categoryId: string) => {
     // RLS will ensure this expense belongs to user's active workspace
     const category = categories.find(c => c.id === categoryId);
+    const previous = expenses.find(e => e.id === expenseId);
     setExpenses(prev => prev.map(e => 
       e.id === expenseId 
-        ? { ...e, global_category_id: categoryId, category_name: category?.name }
+        ? { ...e, category_id: categoryId, category_name: category?.name || 'Uncategorized', category_source: 'manual' }
         : e
     ));
+
+    const { error } = await expenseRepository.update(activeWorkspace, [expenseId], {
+      category_id: categoryId || null,
+      category_source: 'manual'
+    });
+    if (error) {
+      console.error('Error updating expense category:', error);
+      setInboxError(error.message || 'Failed to save the category');
+      return;
+    }
+
+    // Overriding a category picked by the AI or a rule teaches the workspace's rules
+    if (previous && (previous.category_source === 'ai' || previous.category_source === 'rule')) {
+      await categorizationRuleService.recordCorrection(
+        previous.workspace_id, previous.merchant, previous.category_id, categoryId || null
+      );
+    }
   };
 
   // Update expense payment method
-  const updateExpensePaymentMethod = (expenseId: string, paymentMethodId: string) => {
+  const updateExpensePaymentMethod = async (expenseId: string, paymentMethodId: string) => {
     // RLS will ensure this expense belongs to user's active workspace
     const paymentMethod = paymentMethods.find(pm => pm.id === paymentMethodId);
     setExpenses(prev => prev.map(e => 
       e.id === expenseId 
-        ? { ...e, payment_method_id: paymentMethodId, payment_method_name: paymentMethod?.name }
+        ? { ...e, payment_method_id: paymentMethodId, payment_method_name: paymentMethod?.name || 'Not specified', payment_method_source: 'manual' }
         : e
     ));
+
+    const { error } = await expenseRepository.update(activeWorkspace, [expenseId], {
+      payment_method_id: paymentMethodId || null,
+      payment_method_source: 'manual'
+    });
+    if (error) {
+      console.error('Error updating expense payment method:', error);
+      setInboxError(error.message || 'Failed to save the payment method');
+    }
+  };
+
+  // Open the receipt/history panel of an expense
+  const openExpensePanel = (expenseId: string, tab: ExpensePanelTab) => {
+    setReceiptPreviewTab(tab);
+    setShowReceiptPreview(expenseId);
   };
 
   // Helper function to check if all items are selected
@@ -818,26 +899,20 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       if (workspaceSelectedExpenses.length === 0) return;
 
       console.log('Bulk accepting expenses:', workspaceSelectedExpenses);
+      setInboxError('');
 
       // Set flag to prevent fetchExpenses from running
       setIsRefreshingExpenses(true);
 
       // Update all selected expenses in database
-      const { error } = await supabase
-        .from('expenses')
-        .update({ status: 'reviewed' })
-        .in('id', workspaceSelectedExpenses)
-        .eq('workspace_id', activeWorkspace);
-
-      if (error) {
-        console.error('Error bulk updating expenses:', error);
-        setIsRefreshingExpenses(false);
-        return;
-      }
+      const updated = await approvalService.accept(
+        expenses.filter(e => workspaceSelectedExpenses.includes(e.id)),
+        canApproveExpenses ? user?.id : undefined
+      );
 
       // Update local state
       setExpenses(prev => prev.map(e => 
-        workspaceSelectedExpenses.includes(e.id) ? { ...e, status: 'reviewed' as const } : e
+        updated.has(e.id) ? { ...e, ...updated.get(e.id), rejection_reason: null } : e
       ));
       
       setSelectedExpenses([]);
@@ -847,6 +922,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       setTimeout(() => setIsRefreshingExpenses(false), 100);
     } catch (error) {
       console.error('Error in bulk accept:', error);
+      setInboxError(error instanceof Error ? error.message : 'Failed to submit expenses');
       setIsRefreshingExpenses(false);
     }
   };
@@ -861,47 +937,49 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       if (workspaceSelectedExpenses.length === 0) return;
 
       console.log('Bulk deleting expenses:', workspaceSelectedExpenses);
+      setInboxError('');
 
       // Set flag to prevent fetchExpenses from running
       setIsRefreshingExpenses(true);
 
-      // Delete all selected expenses from database
-      const { error } = await supabase
-        .from('expenses')
-        .delete()
-        .in('id', workspaceSelectedExpenses)
-        .eq('workspace_id', activeWorkspace);
-
-      if (error) {
-        console.error('Error bulk deleting expenses:', error);
-        setIsRefreshingExpenses(false);
-        return;
-      }
+      // Move all selected expenses to the trash in the database
+      const moved = await trashService.moveToTrash(workspaceSelectedExpenses);
 
       // Update local state
       setExpenses(prev => prev.filter(e => !workspaceSelectedExpenses.includes(e.id)));
       setSelectedExpenses([]);
-      
-      console.log('Bulk delete completed successfully in database');
+      showUndoDelete(workspaceSelectedExpenses, `${moved} expense${moved !== 1 ? 's' : ''} moved to trash`);
       
       // Reset flag after a short delay to allow UI updates to settle
       setTimeout(() => setIsRefreshingExpenses(false), 100);
     } catch (error) {
       console.error('Error in bulk delete:', error);
+      setInboxError(error instanceof Error ? error.message : 'Failed to delete expenses');
       setIsRefreshingExpenses(false);
     }
   };
 
-  // Filter expenses
-  // NOTE: When integrated with Supabase, the base expense list will already be
-  // filtered by RLS to only include expenses from workspaces the user is a member of.
-  // The activeWorkspace filter here provides additional UI-level filtering for
-  // single-workspace views and ensures consistent user experience.
-  const filteredExpenses = reviewedExpenses.filter(expense => {
-    const matchesSearch = expense.merchant.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesCategory = !selectedCategory || expense.category_name === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+  // Expense whose receipt is open in the preview panel (from the inbox or the Expenses table)
+  const receiptPreviewExpense = showReceiptPreview
+    ? expenses.find(e => e.id === showReceiptPreview) || expenseTableRows.find(e => e.id === showReceiptPreview)
+    : undefined;
+
+  const splitExpense = splitExpenseId
+    ? expenses.find(e => e.id === splitExpenseId) || expenseTableRows.find(e => e.id === splitExpenseId) || null
+    : null;
+
+  // Splits change what the dashboard and budgets count, so reload the summary too
+  const handleSplitSaved = (expenseId: string, isSplit: boolean) => {
+    setExpenses(prev => prev.map(e => e.id === expenseId ? { ...e, is_split: isSplit } : e));
+    setExpenseTableRows(prev => prev.map(e => e.id === expenseId ? { ...e, is_split: isSplit } : e));
+    fetchExpenseSummary();
+  };
+
+  const handleReceiptChanged = (expenseId: string, receiptUrl: string | null) => {
+    const applyChange = (list: Expense[]) => list.map(e => e.id === expenseId ? { ...e, receipt_url: receiptUrl } : e);
+    setExpenses(applyChange);
+    setExpenseTableRows(applyChange);
+  };
 
   // Get active workspace name
   const activeWorkspaceName = activeWorkspace 
@@ -1047,11 +1125,71 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
 
               {/* Date Range Picker */}
               <div className="relative">
-                <button className="flex items-center space-x-2 px-3 py-2 rounded-lg border border-brand-soft-gray/30 hover:border-brand-muted-teal transition-colors">
+                <button
+                  onClick={() => setShowDateRangeMenu(!showDateRangeMenu)}
+                  className="flex items-center space-x-2 px-3 py-2 rounded-lg border border-brand-soft-gray/30 hover:border-brand-muted-teal transition-colors"
+                >
                   <Calendar className="w-4 h-4 text-brand-soft-gray" />
-                  <span className="text-sm font-medium text-brand-text-dark">{dateRange}</span>
+                  <span className="text-sm font-medium text-brand-text-dark">{dateRange.label}</span>
                   <ChevronDown className="w-4 h-4 text-brand-soft-gray" />
                 </button>
+
+                {showDateRangeMenu && (
+                  <div className="absolute top-full left-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-brand-soft-gray/20 py-2 z-50">
+                    {DATE_RANGE_PRESETS.map(({ preset, label }) => (
+                      <button
+                        key={preset}
+                        onClick={() => selectDateRange({ preset })}
+                        className={`w-full px-4 py-2 text-left text-sm hover:bg-brand-soft-gray/10 transition-colors ${
+                          dateRangeSelection.preset === preset ? 'text-brand-dark-teal font-medium' : 'text-brand-text-dark'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {LAST_N_DAYS_OPTIONS.map(days => (
+                      <button
+                        key={days}
+                        onClick={() => selectDateRange({ preset: 'last-n-days', days })}
+                        className={`w-full px-4 py-2 text-left text-sm hover:bg-brand-soft-gray/10 transition-colors ${
+                          dateRangeSelection.preset === 'last-n-days' && dateRangeSelection.days === days
+                            ? 'text-brand-dark-teal font-medium'
+                            : 'text-brand-text-dark'
+                        }`}
+                      >
+                        Last {days} days
+                      </button>
+                    ))}
+                    <div className="border-t border-brand-soft-gray/20 mt-2 pt-2 px-4 space-y-2">
+                      <p className="text-xs font-medium text-brand-text-muted">Custom range</p>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="date"
+                          value={customRangeDraft.start}
+                          onChange={(e) => setCustomRangeDraft(prev => ({ ...prev, start: e.target.value }))}
+                          className="w-full px-2 py-1 text-sm border border-brand-soft-gray/30 rounded"
+                        />
+                        <input
+                          type="date"
+                          value={customRangeDraft.end}
+                          onChange={(e) => setCustomRangeDraft(prev => ({ ...prev, end: e.target.value }))}
+                          className="w-full px-2 py-1 text-sm border border-brand-soft-gray/30 rounded"
+                        />
+                      </div>
+                      <button
+                        onClick={() => selectDateRange({
+                          preset: 'custom',
+                          customStart: customRangeDraft.start,
+                          customEnd: customRangeDraft.end
+                        })}
+                        disabled={!customRangeDraft.start || !customRangeDraft.end || customRangeDraft.start > customRangeDraft.end}
+                        className="w-full px-3 py-1.5 text-sm bg-brand-dark-teal text-white rounded hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -1137,10 +1275,78 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
             <button className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors">
               Manage Categories
             </button>
-            <button className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1">
-              <Download className="w-4 h-4" />
-              <span>Export Data</span>
+            {(!activeWorkspace || can(workspaceRole, 'manage_settings')) && (
+              <button
+                onClick={() => activeWorkspace ? setShowCurrencySettings(true) : setShowBusinessModal(true)}
+                className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors"
+              >
+                Currencies ({baseCurrency})
+              </button>
+            )}
+            <button
+              onClick={() => activeWorkspace ? setShowTeamModal(true) : setShowBusinessModal(true)}
+              className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1"
+            >
+              <Users className="w-4 h-4" />
+              <span>Team</span>
+            </button>
+            <button
+              onClick={() => activeWorkspace ? setShowMerchantsModal(true) : setShowBusinessModal(true)}
+              className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1"
+            >
+              <Store className="w-4 h-4" />
+              <span>Merchants</span>
+            </button>
+            <button
+              onClick={() => activeWorkspace ? setShowRulesModal(true) : setShowBusinessModal(true)}
+              className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1"
+            >
+              <Wand2 className="w-4 h-4" />
+              <span>Rules</span>
+            </button>
+            <button
+              onClick={() => activeWorkspace ? setShowImportModal(true) : setShowBusinessModal(true)}
+              className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import</span>
             </button>
+            <button
+              onClick={() => activeWorkspace ? setShowGstReport(true) : setShowBusinessModal(true)}
+              className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1"
+            >
+              <Receipt className="w-4 h-4" />
+              <span>GST Report</span>
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                disabled={isExporting}
+                title="Exports the expenses matching the current Expenses filters"
+                className="text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                <span>{isExporting ? 'Exporting...' : 'Export Data'}</span>
+              </button>
+
+              {showExportMenu && (
+                <div className="absolute top-full right-0 mt-2 w-44 bg-white rounded-lg shadow-lg border border-brand-soft-gray/20 py-2 z-50">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      className="w-full px-4 py-2 text-left text-sm text-brand-text-dark hover:bg-brand-soft-gray/10 transition-colors"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {exportError && (
+                <p className="absolute top-full right-0 mt-2 w-64 text-xs text-red-600">{exportError}</p>
+              )}
+            </div>
           </div>
         </div>
 
@@ -1181,6 +1387,36 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
           >
             All Expenses
           </button>
+          <button
+            onClick={() => setCurrentView('subscriptions')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all ${
+              currentView === 'subscriptions'
+                ? 'bg-white text-brand-dark-teal shadow-sm'
+                : 'text-brand-text-muted hover:text-brand-dark-teal'
+            }`}
+          >
+            Subscriptions
+          </button>
+          <button
+            onClick={() => setCurrentView('reimbursements')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all ${
+              currentView === 'reimbursements'
+                ? 'bg-white text-brand-dark-teal shadow-sm'
+                : 'text-brand-text-muted hover:text-brand-dark-teal'
+            }`}
+          >
+            Reimbursements
+          </button>
+          <button
+            onClick={() => setCurrentView('trash')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all ${
+              currentView === 'trash'
+                ? 'bg-white text-brand-dark-teal shadow-sm'
+                : 'text-brand-text-muted hover:text-brand-dark-teal'
+            }`}
+          >
+            Trash
+          </button>
           <button
             onClick={() => setCurrentView('profile')}
             className={`px-4 py-2 rounded-lg font-medium transition-all ${
@@ -1196,6 +1432,15 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
         {/* Dashboard View */}
         {currentView === 'dashboard' && (
           <div className="space-y-8">
+            {/* Invitations to other businesses */}
+            <PendingInvitationsBanner
+              currentUser={user}
+              onAccepted={(workspaceId) => {
+                setActiveWorkspace(workspaceId);
+                setWorkspacesReloadKey(key => key + 1);
+              }}
+            />
+
             {/* Business Selection or Creation Prompt */}
             {!activeWorkspace ? (
               <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-8 text-center">
@@ -1268,18 +1513,26 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                              <DollarSign className="w-5 h-5 text-brand-dark-teal" />
                            </div>
                            <div>
-                             <h3 className="font-semibold text-brand-text-dark">This Month</h3>
+                             <h3 className="font-semibold text-brand-text-dark">{dateRange.label}</h3>
                              <p className="text-2xl font-bold text-brand-dark-teal">
-                               {thisMonthTotal > 0 ? formatCurrency(thisMonthTotal) : '₹0.00'}
+                               {formatCurrency(periodTotal, baseCurrency)}
                              </p>
                            </div>
                          </div>
-                         {thisMonthTotal > 0 ? (
+                         {periodTotal > 0 ? (
                            <p className={`text-sm ${percentageChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                             {percentageChange >= 0 ? '+' : ''}{percentageChange.toFixed(1)}% from last month
+                             {percentageChange >= 0 ? '+' : ''}{percentageChange.toFixed(1)}% from {dateRange.comparisonLabel}
                            </p>
                          ) : (
-                           <p className="text-sm text-brand-text-muted">No expenses this month</p>
+                           <p className="text-sm text-brand-text-muted">No expenses in this period</p>
+                         )}
+                         {expenseSummary && expenseSummary.unconverted_count > 0 && (
+                           <button
+                             onClick={() => setShowCurrencySettings(true)}
+                             className="mt-2 text-xs text-amber-600 hover:underline text-left"
+                           >
+                             {expenseSummary.unconverted_count} expense{expenseSummary.unconverted_count !== 1 ? 's' : ''} left out: no exchange rate to {baseCurrency}
+                           </button>
                          )}
                        </div>
 
@@ -1294,7 +1547,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                          </div>
                          {topCategories.length === 0 ? (
                            <div className="text-center py-4">
-                             <p className="text-sm text-brand-text-muted">No expenses this month</p>
+                             <p className="text-sm text-brand-text-muted">No expenses in this period</p>
                            </div>
                          ) : (
                            <div className="space-y-1">
@@ -1325,6 +1578,16 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                        </div>
                     </div>
 
+                    {/* Budgets */}
+                    <BudgetsPanel
+                      activeWorkspaceId={activeWorkspace}
+                      currentUser={user}
+                      categories={categories}
+                      baseCurrency={baseCurrency}
+                      refreshKey={`${expenses.length}:${expenseSummary?.total ?? 0}`}
+                      canManage={can(workspaceRole, 'manage_settings')}
+                    />
+
                                          {/* Recent Activity */}
                      <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-6">
                        <h3 className="text-lg font-semibold text-brand-text-dark mb-4">Recent Activity</h3>
@@ -1351,7 +1614,10 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                                </div>
                                <div className="text-right">
                                  <p className="font-semibold text-brand-text-dark">{formatCurrency(expense.amount, expense.currency)}</p>
-                                 <p className="text-sm text-brand-text-muted capitalize">{expense.status}</p>
+                                 {formatBaseAmount(expense) && (
+                                   <p className="text-xs text-brand-text-muted">{formatBaseAmount(expense)}</p>
+                                 )}
+                                 <p className="text-sm text-brand-text-muted">{EXPENSE_STATUS_LABELS[expense.status]}</p>
                                </div>
                              </div>
                            ))}
@@ -1368,6 +1634,53 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
         {/* Inbox View */}
         {currentView === 'inbox' && (
           <div className="space-y-6">
+            {/* Receipt Drop Zone */}
+            <div
+              ref={dropzoneRef}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDraggingFiles(true);
+              }}
+              onDragLeave={() => setIsDraggingFiles(false)}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-xl p-6 text-center transition-colors ${
+                isDraggingFiles
+                  ? 'border-brand-dark-teal bg-brand-dark-teal/5'
+                  : 'border-brand-soft-gray/40 bg-white'
+              }`}
+            >
+              <Upload className="w-8 h-8 text-brand-muted-teal mx-auto mb-2" />
+              <p className="text-sm text-brand-text-dark">
+                Drop receipts here or{' '}
+                <button
+                  onClick={() => activeWorkspace ? fileInputRef.current?.click() : handleDisabledAction()}
+                  className="text-brand-dark-teal font-medium hover:underline"
+                >
+                  browse
+                </button>
+              </p>
+              <p className="text-xs text-brand-text-muted mt-1">Images or PDFs, up to 10MB each. Add as many as you like.</p>
+            </div>
+
+            <ReceiptUploadQueuePanel />
+
+            {/* Submitted expenses for approvers, approved ones for admins to pay */}
+            <ApprovalsPanel
+              activeWorkspaceId={activeWorkspace}
+              currentUser={user}
+              myRole={workspaceRole}
+              policy={approvalPolicy}
+              refreshKey={`${expenses.length}:${unreviewedExpenses.length}`}
+              onChanged={fetchExpenses}
+            />
+
+            {inboxError && (
+              <div className="flex items-center space-x-2 p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{inboxError}</span>
+              </div>
+            )}
+
             {/* Bulk Actions */}
             {selectedExpenses.length > 0 && (
               <div className="bg-green-50 border border-green-200 p-4 rounded-xl shadow-sm flex items-center justify-between animate-in slide-in-from-top-2 duration-200">
@@ -1383,7 +1696,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                     className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors flex items-center space-x-2"
                   >
                     <Check className="w-4 h-4" />
-                    Accept All
+                    {canApproveExpenses && expenses.some(e => selectedExpenses.includes(e.id) && canApproveExpense(e, user?.id)) ? 'Approve All' : 'Submit All'}
                   </button>
                   <button
                     onClick={handleBulkDelete}
@@ -1476,10 +1789,18 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                         <div className="flex-1">
                           <div className="flex items-center space-x-3 mb-2">
                             <h4 className="font-semibold text-brand-text-dark">{expense.merchant}</h4>
-                            <span className="text-2xl font-bold text-brand-dark-teal">${expense.amount.toFixed(2)}</span>
+                            <span className="text-2xl font-bold text-brand-dark-teal">{formatCurrency(expense.amount, expense.currency)}</span>
+                            {formatBaseAmount(expense) && (
+                              <span className="text-sm text-brand-text-muted">{formatBaseAmount(expense)}</span>
+                            )}
                             <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getConfidenceColor(expense.category_confidence)}`}>
                               {expense.category_confidence}% confident
                             </span>
+                            {expense.ocr_confidence != null && (
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getConfidenceColor(Math.round(expense.ocr_confidence * 100))}`}>
+                                OCR {Math.round(expense.ocr_confidence * 100)}%
+                              </span>
+                            )}
                           </div>
                           
                           <div className="flex items-center space-x-4 text-sm text-brand-text-muted mb-4">
@@ -1488,6 +1809,15 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                             <span className="text-brand-dark-teal">{expense.category_name}</span>
                           </div>
 
+                          {expense.status === 'rejected' && (
+                            <div className="flex items-start space-x-2 mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              <span>
+                                <strong>Rejected</strong>{expense.rejection_reason && `: ${expense.rejection_reason}`}. Fix it and submit again.
+                              </span>
+                            </div>
+                          )}
+
                           {/* AI Category Chip */}
                           <div className="mb-4">
                             <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getConfidenceColor(expense.category_confidence)}`}>
@@ -1511,7 +1841,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                             
                             {/* Category Selector */}
                             <select 
-                              value={expense.global_category_id}
+                              value={expense.category_id || ''}
                               onChange={(e) => updateExpenseCategory(expense.id, e.target.value)}
                               className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
                             >
@@ -1522,7 +1852,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                             
                             {/* Payment Method */}
                             <select 
-                              value={expense.payment_method_id}
+                              value={expense.payment_method_id || ''}
                               onChange={(e) => updateExpensePaymentMethod(expense.id, e.target.value)}
                               className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
                             >
@@ -1550,13 +1880,36 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
 
                       {/* Actions */}
                       <div className="flex items-center space-x-2">
-                        {/* Receipt preview is handled by a separate modal */}
+                        <button
+                          onClick={() => openExpensePanel(expense.id, 'receipt')}
+                          title={expense.receipt_url ? 'View receipt' : 'Attach receipt'}
+                          className="p-2 text-brand-muted-teal hover:text-brand-dark-teal hover:bg-brand-soft-gray/10 rounded-lg transition-colors"
+                        >
+                          {expense.receipt_url ? <Eye className="w-4 h-4" /> : <Paperclip className="w-4 h-4" />}
+                        </button>
+
+                        <button
+                          onClick={() => openExpensePanel(expense.id, 'history')}
+                          title="History"
+                          className="p-2 text-brand-muted-teal hover:text-brand-dark-teal hover:bg-brand-soft-gray/10 rounded-lg transition-colors"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+
+                        <button
+                          onClick={() => setSplitExpenseId(expense.id)}
+                          title={expense.is_split ? 'Edit split' : 'Split expense'}
+                          className={`p-2 hover:text-brand-dark-teal hover:bg-brand-soft-gray/10 rounded-lg transition-colors ${expense.is_split ? 'text-brand-dark-teal' : 'text-brand-muted-teal'}`}
+                        >
+                          <Scissors className="w-4 h-4" />
+                        </button>
                         
                         <button
                           onClick={() => acceptExpense(expense.id)}
+                          title={canApproveExpenses && canApproveExpense(expense, user?.id) ? 'Submit and approve' : 'Submit for approval'}
                           className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors"
                         >
-                          Accept
+                          {canApproveExpenses && canApproveExpense(expense, user?.id) ? 'Approve' : 'Submit'}
                         </button>
                         
                         <button className="border border-brand-muted-teal text-brand-muted-teal px-4 py-2 rounded-lg text-sm font-medium hover:bg-brand-muted-teal hover:text-white transition-colors">
@@ -1578,6 +1931,35 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
           </div>
         )}
 
+        {/* Subscriptions View */}
+        {currentView === 'subscriptions' && (
+          <SubscriptionsView
+            activeWorkspaceId={activeWorkspace}
+            currentUser={user}
+            categories={categories}
+            baseCurrency={baseCurrency}
+          />
+        )}
+
+        {/* Reimbursements View */}
+        {currentView === 'reimbursements' && (
+          <ReimbursementsView
+            activeWorkspaceId={activeWorkspace}
+            workspaceName={activeWorkspaceName}
+            currentUser={user}
+            myRole={workspaceRole}
+          />
+        )}
+
+        {/* Trash View */}
+        {currentView === 'trash' && (
+          <TrashView
+            activeWorkspaceId={activeWorkspace}
+            myRole={workspaceRole}
+            onRestored={handleExpensesRestored}
+          />
+        )}
+
         {/* Expenses Table View */}
         {currentView === 'expenses' && (
           <div className="space-y-6">
@@ -1588,7 +1970,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-brand-soft-gray" />
                   <input
                     type="text"
-                    placeholder="Search expenses..."
+                    placeholder="Search merchant or notes..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className="w-full pl-10 pr-4 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
@@ -1596,21 +1978,155 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                 </div>
                 
                 <select
-                  value={selectedCategory}
-                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  value={expenseFilters.categoryId || ''}
+                  onChange={(e) => updateExpenseFilter('categoryId', e.target.value || undefined)}
                   className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
                 >
                   <option value="">All categories</option>
                   {categories.map(cat => (
-                    <option key={cat.id} value={cat.name}>{cat.name}</option>
+                    <option key={cat.id} value={cat.id}>{cat.name}</option>
                   ))}
                 </select>
+
+                <select
+                  value={`${expenseSort.field}.${expenseSort.ascending ? 'asc' : 'desc'}`}
+                  onChange={(e) => {
+                    const [field, direction] = e.target.value.split('.');
+                    setExpenseSort({ field: field as ExpenseSort['field'], ascending: direction === 'asc' });
+                  }}
+                  className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                >
+                  <option value="txn_date.desc">Newest first</option>
+                  <option value="txn_date.asc">Oldest first</option>
+                  <option value="amount.desc">Highest amount</option>
+                  <option value="amount.asc">Lowest amount</option>
+                  <option value="merchant.asc">Merchant A–Z</option>
+                  <option value="merchant.desc">Merchant Z–A</option>
+                  <option value="created_at.desc">Recently added</option>
+                </select>
                 
-                <button className="flex items-center space-x-2 px-4 py-2 border border-brand-soft-gray/30 rounded-lg hover:border-brand-muted-teal transition-colors">
+                <button
+                  onClick={() => setShowMoreFilters(prev => !prev)}
+                  className={`flex items-center space-x-2 px-4 py-2 border rounded-lg transition-colors ${
+                    showMoreFilters ? 'border-brand-muted-teal text-brand-dark-teal' : 'border-brand-soft-gray/30 hover:border-brand-muted-teal'
+                  }`}
+                >
                   <Filter className="w-4 h-4" />
                   <span>More Filters</span>
+                  {countActiveFilters(expenseFilters) > 0 && (
+                    <span className="px-1.5 py-0.5 rounded-full text-xs bg-brand-dark-teal text-white">
+                      {countActiveFilters(expenseFilters)}
+                    </span>
+                  )}
                 </button>
               </div>
+
+              {showMoreFilters && (
+                <div className="mt-4 pt-4 border-t border-brand-soft-gray/20 grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">From</label>
+                    <input
+                      type="date"
+                      value={expenseFilters.dateFrom || ''}
+                      onChange={(e) => updateExpenseFilter('dateFrom', e.target.value || undefined)}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">To</label>
+                    <input
+                      type="date"
+                      value={expenseFilters.dateTo || ''}
+                      onChange={(e) => updateExpenseFilter('dateTo', e.target.value || undefined)}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">Min amount</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={expenseFilters.minAmount ?? ''}
+                      onChange={(e) => updateExpenseFilter('minAmount', e.target.value === '' ? undefined : Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">Max amount</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={expenseFilters.maxAmount ?? ''}
+                      onChange={(e) => updateExpenseFilter('maxAmount', e.target.value === '' ? undefined : Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">Payment method</label>
+                    <select
+                      value={expenseFilters.paymentMethodId || ''}
+                      onChange={(e) => updateExpenseFilter('paymentMethodId', e.target.value || undefined)}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      <option value="">All payment methods</option>
+                      {paymentMethods.map(pm => (
+                        <option key={pm.id} value={pm.id}>{pm.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">Status</label>
+                    <select
+                      value={expenseFilters.status || ''}
+                      onChange={(e) => updateExpenseFilter('status', (e.target.value || undefined) as ExpenseFilters['status'])}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      <option value="">All statuses</option>
+                      {Object.entries(EXPENSE_STATUS_LABELS).map(([status, label]) => (
+                        <option key={status} value={status}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">Source</label>
+                    <select
+                      value={expenseFilters.source || ''}
+                      onChange={(e) => updateExpenseFilter('source', (e.target.value || undefined) as ExpenseFilters['source'])}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      <option value="">All sources</option>
+                      <option value="manual">Manual</option>
+                      <option value="upload">Upload</option>
+                      <option value="camera">Camera</option>
+                      <option value="voice">Voice</option>
+                      <option value="import">Import</option>
+                      <option value="recurring">Recurring</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-brand-text-muted mb-1">Reimbursable</label>
+                    <select
+                      value={expenseFilters.isReimbursable === undefined ? '' : String(expenseFilters.isReimbursable)}
+                      onChange={(e) => updateExpenseFilter('isReimbursable', e.target.value === '' ? undefined : e.target.value === 'true')}
+                      className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      <option value="">Any</option>
+                      <option value="true">Reimbursable</option>
+                      <option value="false">Not reimbursable</option>
+                    </select>
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <button
+                      onClick={clearExpenseFilters}
+                      className="text-sm text-brand-muted-teal hover:text-brand-dark-teal"
+                    >
+                      Clear filters
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Expenses Table */}
@@ -1624,12 +2140,13 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                       <th className="px-6 py-3 text-left text-xs font-medium text-brand-text-muted uppercase tracking-wider">Category</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-brand-text-muted uppercase tracking-wider">Amount</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-brand-text-muted uppercase tracking-wider">Payment</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-brand-text-muted uppercase tracking-wider">Status</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-brand-text-muted uppercase tracking-wider">Tags</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-brand-text-muted uppercase tracking-wider">Actions</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-brand-soft-gray/20">
-                    {filteredExpenses.map((expense) => (
+                    {expenseTableRows.map((expense) => (
                       <tr key={expense.id} className="hover:bg-brand-soft-gray/5">
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-brand-text-dark">
                           {formatDate(expense.txn_date)}
@@ -1641,13 +2158,27 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                           <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getConfidenceColor(expense.category_confidence)}`}>
                             {expense.category_name}
                           </span>
+                          {expense.is_split && (
+                            <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-brand-light-beige text-brand-dark-teal">Split</span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-brand-text-dark">
-                          ${expense.amount.toFixed(2)}
+                          {formatCurrency(expense.amount, expense.currency)}
+                          {formatBaseAmount(expense) && (
+                            <div className="text-xs font-normal text-brand-text-muted">{formatBaseAmount(expense)}</div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-brand-text-muted">
                           {expense.payment_method_name || '-'}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            title={expense.rejection_reason || undefined}
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${EXPENSE_STATUS_COLORS[expense.status]}`}
+                          >
+                            {EXPENSE_STATUS_LABELS[expense.status]}
+                          </span>
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {/* Tags are not directly stored in the expense table, but could be added */}
                           {/* {expense.tags?.map(tag => (
@@ -1658,7 +2189,27 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-brand-text-muted">
                           <div className="flex items-center space-x-2">
-                            {/* Receipt preview is handled by a separate modal */}
+                            <button
+                              onClick={() => openExpensePanel(expense.id, 'receipt')}
+                              title={expense.receipt_url ? 'View receipt' : 'Attach receipt'}
+                              className={expense.receipt_url ? 'text-brand-muted-teal hover:text-brand-dark-teal' : 'text-brand-soft-gray hover:text-brand-muted-teal'}
+                            >
+                              {expense.receipt_url ? <Eye className="w-4 h-4" /> : <Paperclip className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => openExpensePanel(expense.id, 'history')}
+                              title="History"
+                              className="text-brand-muted-teal hover:text-brand-dark-teal"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setSplitExpenseId(expense.id)}
+                              title={expense.is_split ? 'Edit split' : 'Split expense'}
+                              className={expense.is_split ? 'text-brand-dark-teal' : 'text-brand-muted-teal hover:text-brand-dark-teal'}
+                            >
+                              <Scissors className="w-4 h-4" />
+                            </button>
                             <button className="text-brand-muted-teal hover:text-brand-dark-teal">
                               <Edit3 className="w-4 h-4" />
                             </button>
@@ -1672,6 +2223,27 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
                   </tbody>
                 </table>
               </div>
+
+              {!isLoadingExpenseTable && expenseTableRows.length === 0 && (
+                <div className="p-8 text-center text-brand-text-muted">
+                  No expenses match these filters.
+                </div>
+              )}
+
+              {(isLoadingExpenseTable || expenseTableCursor) && (
+                <div className="p-4 border-t border-brand-soft-gray/20 flex justify-center">
+                  {isLoadingExpenseTable ? (
+                    <Loader2 className="w-5 h-5 text-brand-muted-teal animate-spin" />
+                  ) : (
+                    <button
+                      onClick={() => fetchExpenseTablePage(expenseTableCursor)}
+                      className="px-4 py-2 border border-brand-soft-gray/30 rounded-lg text-sm text-brand-text-dark hover:border-brand-muted-teal transition-colors"
+                    >
+                      Load more
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -1711,49 +2283,37 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
       )}
 
       {/* Receipt Preview Panel */}
-      {showReceiptPreview && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden">
-            <div className="flex items-center justify-between p-4 border-b border-brand-soft-gray/20">
-              <h3 className="text-lg font-semibold text-brand-text-dark">Receipt Preview</h3>
-              <div className="flex items-center space-x-2">
-                <button className="p-2 text-brand-muted-teal hover:text-brand-dark-teal rounded-lg hover:bg-brand-soft-gray/10 transition-colors">
-                  <ZoomOut className="w-4 h-4" />
-                </button>
-                <button className="p-2 text-brand-muted-teal hover:text-brand-dark-teal rounded-lg hover:bg-brand-soft-gray/10 transition-colors">
-                  <ZoomIn className="w-4 h-4" />
-                </button>
-                <button className="p-2 text-brand-muted-teal hover:text-brand-dark-teal rounded-lg hover:bg-brand-soft-gray/10 transition-colors">
-                  <RotateCw className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => setShowReceiptPreview(null)}
-                  className="p-2 text-brand-muted-teal hover:text-brand-dark-teal rounded-lg hover:bg-brand-soft-gray/10 transition-colors"
-                >
-                  <X className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-            <div className="p-4 bg-brand-soft-gray/10 flex items-center justify-center min-h-96">
-              <div className="text-center">
-                <FileText className="w-16 h-16 text-brand-soft-gray mx-auto mb-4" />
-                <p className="text-brand-text-muted">Receipt preview would appear here</p>
-              </div>
-            </div>
-          </div>
-        </div>
+      {receiptPreviewExpense && (
+        <ReceiptPreviewPanel
+          expense={receiptPreviewExpense}
+          currentUser={user}
+          onClose={() => setShowReceiptPreview(null)}
+          onReceiptChanged={handleReceiptChanged}
+          initialTab={receiptPreviewTab}
+        />
       )}
 
-      {/* Upload Progress */}
-      {isUploading && (
-        <div className="fixed bottom-4 right-4 bg-white rounded-xl shadow-lg border border-brand-soft-gray/20 p-4 z-50">
-          <div className="flex items-center space-x-3">
-            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-brand-dark-teal"></div>
-            <div>
-              <p className="font-medium text-brand-text-dark">Processing receipt...</p>
-              <p className="text-sm text-brand-text-muted">Extracting data with AI</p>
-            </div>
-          </div>
+      {/* Split Expense Modal */}
+      <SplitExpenseModal
+        isOpen={!!splitExpense}
+        onClose={() => setSplitExpenseId(null)}
+        expense={splitExpense}
+        businesses={businesses}
+        onSaved={handleSplitSaved}
+      />
+
+      {/* Undo Delete Toast */}
+      {undoDelete && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-brand-text-dark text-white px-5 py-3 rounded-xl shadow-lg flex items-center space-x-4 z-50 animate-in slide-in-from-bottom-2">
+          <Trash2 className="w-4 h-4" />
+          <span className="text-sm">{undoDelete.label}</span>
+          <button
+            onClick={handleUndoDelete}
+            className="flex items-center space-x-1 text-sm font-medium text-brand-light-beige hover:text-white"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Undo</span>
+          </button>
         </div>
       )}
 
@@ -1763,7 +2323,10 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
         type="file"
         accept="image/*,.pdf"
         multiple
-        onChange={(e) => handleFileUpload(e.target.files)}
+        onChange={(e) => {
+          handleFileUpload(e.target.files);
+          e.target.value = '';
+        }}
         className="hidden"
       />
 
@@ -1796,6 +2359,79 @@ const AccountPage: React.FC<AccountPageProps> = ({ onBack, onLogout, user }) =>
         }}
       />
 
+      {/* Currency Settings */}
+      <CurrencySettingsModal
+        isOpen={showCurrencySettings}
+        onClose={() => setShowCurrencySettings(false)}
+        activeWorkspaceId={activeWorkspace}
+        currentUser={user}
+        onChanged={(currency) => {
+          setBusinesses(prev => prev.map(b => b.id === activeWorkspace ? { ...b, base_currency: currency } : b));
+          // Converted amounts were recomputed server-side
+          fetchExpenses();
+          fetchExpenseSummary();
+          if (currentView === 'expenses') fetchExpenseTablePage();
+        }}
+      />
+
+      {/* Team */}
+      <TeamModal
+        isOpen={showTeamModal}
+        onClose={() => setShowTeamModal(false)}
+        activeWorkspaceId={activeWorkspace}
+        workspaceName={businesses.find(b => b.id === activeWorkspace)?.name || ''}
+        currentUser={user}
+        myRole={workspaceRole}
+        baseCurrency={baseCurrency}
+        onRoleChanged={loadWorkspaceRole}
+        onPolicyChanged={setApprovalPolicy}
+        onLeftOrDeleted={() => {
+          setActiveWorkspace('');
+          setWorkspacesReloadKey(key => key + 1);
+        }}
+      />
+
+      {/* Statement Import Wizard */}
+      <ImportExpensesModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        activeWorkspaceId={activeWorkspace}
+        currentUser={user}
+        onImported={() => {
+          fetchExpenses(); // Imported rows land in the inbox
+          fetchExpenseSummary();
+        }}
+      />
+
+      {/* Merchant Directory */}
+      <MerchantsModal
+        isOpen={showMerchantsModal}
+        onClose={() => setShowMerchantsModal(false)}
+        activeWorkspaceId={activeWorkspace}
+        canManage={can(workspaceRole, 'manage_settings')}
+        onChanged={() => {
+          // Renames and merges rename the merchants' expenses
+          fetchExpenses();
+          if (currentView === 'expenses') fetchExpenseTablePage();
+        }}
+      />
+
+      {/* Categorization Rules */}
+      <CategorizationRulesModal
+        isOpen={showRulesModal}
+        onClose={() => setShowRulesModal(false)}
+        activeWorkspaceId={activeWorkspace}
+        canManage={can(workspaceRole, 'manage_settings')}
+      />
+
+      {/* GST Report */}
+      <GstReportModal
+        isOpen={showGstReport}
+        onClose={() => setShowGstReport(false)}
+        activeWorkspaceId={activeWorkspace}
+        workspaceName={activeWorkspaceName}
+      />
+
       {/* Conversational Expense Chat */}
       <ConversationalExpenseChat
         isOpen={showChatInterface}
@@ -2,7 +2,16 @@ import React, { useState, useEffect, useRef } from 'react';
 import { X, Mic, Upload, Camera, Edit3, ArrowLeft, DollarSign, Calendar, Building, FileText, Tag, CreditCard, Loader2, AlertCircle, CheckCircle, Trash2 } from 'lucide-react';
 import { voiceAnalysisService, VoiceAnalysisResult } from '../lib/voice-analysis';
 import { receiptProcessingService, ReceiptProcessingResult } from '../lib/receipt-processing';
-import { supabase } from '../lib/supabase';
+import { expenseRepository, loadExpenseFormData, Category, PaymentMethod, ExpenseInput, GstDetails, DEFAULT_BASE_CURRENCY } from '../lib/repositories';
+import { receiptStorageService } from '../lib/receipt-storage';
+import { SUPPORTED_CURRENCIES } from '../lib/currency';
+import ConvertedAmountHint from './ConvertedAmountHint';
+import ReceiptLineItemsEditor from './ReceiptLineItemsEditor';
+import { lineItemService } from '../lib/receipt-line-items';
+import GstDetailsFields from './GstDetailsFields';
+import { EMPTY_GST_DETAILS, isValidGstin, normalizeGstin } from '../lib/gst';
+import { merchantService, MerchantMatch } from '../lib/merchants';
+import { categorizationRuleService } from '../lib/categorization-rules';
 import { AICategorizationResult } from '../lib/ai-categorization';
 
 interface AddExpenseModalProps {
@@ -17,6 +26,7 @@ interface FormData {
   date: string;
   merchant: string;
   amount: string;
+  currency: string;
   description: string;
   categoryId: string;
   customCategory: string;
@@ -25,27 +35,13 @@ interface FormData {
   isReimbursable: boolean;
 }
 
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-  color: string;
-  icon: string;
-}
-
-interface PaymentMethod {
-  id: string;
-  name: string;
-  description: string;
-  type: string;
-}
-
 interface FormErrors {
   merchant?: string;
   amount?: string;
   description?: string;
   categoryId?: string;
   customCategory?: string;
+  gst?: string;
   submit?: string;
 }
 
@@ -73,10 +69,13 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
   const [isDragOver, setIsDragOver] = useState(false);
   
   // Form state
+  const [gstDetails, setGstDetails] = useState<GstDetails>(EMPTY_GST_DETAILS);
+  const [merchantMatch, setMerchantMatch] = useState<MerchantMatch | null>(null);
   const [formData, setFormData] = useState<FormData>({
     date: new Date().toISOString().split('T')[0],
     merchant: '',
     amount: '',
+    currency: DEFAULT_BASE_CURRENCY,
     description: '',
     categoryId: '',
     customCategory: '',
@@ -87,6 +86,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
   
   const [categories, setCategories] = useState<Category[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
   const [errors, setErrors] = useState<FormErrors>({});
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -124,76 +124,15 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
   }, []);
 
   const loadFormData = async () => {
+    if (!activeWorkspaceId) return;
+
     setIsLoadingData(true);
     try {
-      console.log('🔍 Starting to fetch categories for modal workspace:', activeWorkspaceId);
-      
-      // Try to fetch categories from the workspace mappings first (consistent with other components)
-      console.log('📡 Attempting to fetch workspace-specific categories for modal...');
-      const { data: globalCategoriesData, error: globalCategoriesError } = await supabase
-        .from('workspace_category_mappings')
-        .select(`
-          id,
-          global_categories!inner(
-            id,
-            name,
-            description,
-            color,
-            icon
-          )
-        `)
-        .eq('workspace_id', activeWorkspaceId)
-        .eq('is_active', true)
-        .order('name', { foreignTable: 'global_categories' });
-
-      console.log('📊 Modal workspace categories response:', { data: globalCategoriesData, error: globalCategoriesError });
-
-      let categories: Category[] = [];
-      if (!globalCategoriesError && globalCategoriesData && globalCategoriesData.length > 0) {
-        // Use the global_categories.id instead of the mapping id
-        categories = globalCategoriesData.map((item: any) => ({
-          id: item.global_categories.id, // Use the actual category ID, not the mapping ID
-          name: item.global_categories.name,
-          description: item.global_categories.description,
-          color: item.global_categories.color,
-          icon: item.global_categories.icon
-        }));
-        
-        console.log('✅ Successfully fetched workspace categories for modal:', categories.length, categories);
-      } else {
-        console.log('⚠️ Workspace categories failed or empty for modal, falling back to global categories');
-        console.log('❌ Error details:', globalCategoriesError);
-        
-        // Fallback to global categories directly
-        console.log('📡 Attempting to fetch global categories directly for modal...');
-        const { data: fallbackData, error: fallbackError } = await supabase
-          .from('global_categories')
-          .select('id, name, description, color, icon')
-          .order('name');
-        
-        if (fallbackError) {
-          console.error('❌ Direct global categories fetch failed for modal:', fallbackError);
-          categories = [];
-        } else {
-          categories = fallbackData || [];
-          console.log('✅ Fetched global categories directly for modal:', categories.length);
-        }
-      }
-
-      // Fetch payment methods
-      const { data: paymentMethodsData, error: paymentMethodsError } = await supabase
-        .from('payment_methods')
-        .select('*')
-        .eq('workspace_id', activeWorkspaceId)
-        .order('name');
-
-      if (paymentMethodsError) {
-        console.error('❌ Payment methods fetch failed for modal:', paymentMethodsError);
-      }
-
+      const { categories, paymentMethods, baseCurrency } = await loadExpenseFormData(activeWorkspaceId);
       setCategories(categories);
-      setPaymentMethods(paymentMethodsData || []);
-      
+      setPaymentMethods(paymentMethods);
+      setBaseCurrency(baseCurrency);
+      setFormData(prev => ({ ...prev, currency: prev.amount ? prev.currency : baseCurrency }));
     } catch (error) {
       console.error('Error loading form data:', error);
     } finally {
@@ -215,6 +154,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       date: new Date().toISOString().split('T')[0],
       merchant: '',
       amount: '',
+      currency: baseCurrency,
       description: '',
       categoryId: '',
       customCategory: '',
@@ -222,6 +162,8 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       notes: '',
       isReimbursable: false
     });
+    setGstDetails(EMPTY_GST_DETAILS);
+    setMerchantMatch(null);
     setErrors({});
     setAiResult(null);
     onClose();
@@ -236,7 +178,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       console.log('🎤 Processing voice input:', voiceText);
       
       // Analyze the voice input using our voice analysis service
-      const analysisResult = await voiceAnalysisService.analyzeVoiceInput(voiceText);
+      const analysisResult = await voiceAnalysisService.analyzeVoiceInput(voiceText, baseCurrency, activeWorkspaceId ?? undefined);
       console.log('🔍 Voice analysis result:', analysisResult);
       
       if ('error' in analysisResult) {
@@ -273,6 +215,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       ...prev,
       merchant: voiceData.merchant || prev.merchant,
       amount: voiceData.amount ? voiceData.amount.toString() : prev.amount,
+      currency: voiceData.currency || prev.currency,
       description: voiceData.description || prev.description,
       date: voiceData.date || prev.date,
       notes: voiceData.notes || prev.notes
@@ -284,6 +227,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       
       // Create AI result object for display
       const aiResult = {
+        categoryId: voiceData.aiCategoryId,
         category: voiceData.aiCategory,
         confidence: voiceData.aiConfidence || 0.8,
         reasoning: voiceData.aiReasoning || 'AI categorization from voice analysis',
@@ -293,8 +237,8 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       setAiResult(aiResult);
       
       // Auto-select the suggested category if available
-      if (voiceData.aiCategory && categories.length > 0) {
-        const suggestedCategory = categories.find(cat => cat.name === voiceData.aiCategory);
+      if (voiceData.aiCategoryId && categories.length > 0) {
+        const suggestedCategory = categories.find(cat => cat.id === voiceData.aiCategoryId);
         if (suggestedCategory) {
           setFormData(prev => ({
             ...prev,
@@ -316,6 +260,26 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
         }
       }
     }
+
+    applyMerchantMatch(voiceData.merchant);
+  };
+
+  // Use the directory name of a known merchant, and its defaults over any AI suggestion
+  const applyMerchantMatch = async (merchantName?: string) => {
+    if (!activeWorkspaceId) return null;
+
+    const match = await merchantService.match(activeWorkspaceId, merchantName);
+    setMerchantMatch(match);
+    if (match) {
+      const { merchant } = match;
+      setFormData(prev => ({
+        ...prev,
+        merchant: merchant.name,
+        categoryId: merchant.default_category_id || prev.categoryId,
+        paymentMethodId: merchant.default_payment_method_id || prev.paymentMethodId
+      }));
+    }
+    return match;
   };
 
 
@@ -351,7 +315,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       console.log('🔍 Starting receipt processing');
       
       // Process the receipt using our service
-      const result = await receiptProcessingService.processReceipt(file, currentUser?.id);
+      const result = await receiptProcessingService.processReceipt(file, currentUser?.id, activeWorkspaceId || undefined);
       console.log('✅ Receipt processed successfully:', result);
       
       setReceiptResult(result);
@@ -375,7 +339,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
     }
   };
 
-  const populateFormFromReceipt = (receiptData: ReceiptProcessingResult) => {
+  const populateFormFromReceipt = async (receiptData: ReceiptProcessingResult) => {
     setFormData(prev => ({
       ...prev,
       merchant: receiptData.merchant || prev.merchant,
@@ -384,9 +348,14 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       date: receiptData.date || prev.date,
       notes: receiptData.notes || prev.notes
     }));
+    setGstDetails(prev => ({ ...prev, ...receiptData.gst }));
     
     // Clear any previous AI results when using receipt input
     setAiResult(null);
+
+    // A known merchant's default category stands in for AI categorization
+    const match = await applyMerchantMatch(receiptData.merchant);
+    if (match?.merchant.default_category_id) return;
     
     // Trigger AI categorization after a 2-second delay
     setTimeout(() => {
@@ -405,23 +374,24 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       
       if (aiCategorizationService.aiCategorizationService.isAvailable()) {
         const expenseContext = {
+          workspaceId: activeWorkspaceId,
           merchant: receiptData.merchant,
           amount: receiptData.amount,
           description: receiptData.description,
           date: receiptData.date,
-          currency: 'INR',
+          currency: baseCurrency,
           notes: receiptData.notes
         };
         
-        const aiResult = await aiCategorizationService.aiCategorizationService.categorizeExpense(expenseContext);
+        const aiResult = await aiCategorizationService.aiCategorizationService.categorizeExpense(expenseContext, categories);
         
         if (aiResult && !('error' in aiResult)) {
           console.log('✅ AI categorization successful:', aiResult);
           setAiResult(aiResult);
           
           // Auto-select the suggested category if available
-          if (aiResult.category && categories.length > 0) {
-            const suggestedCategory = categories.find(cat => cat.name === aiResult.category);
+          if (aiResult.categoryId && categories.length > 0) {
+            const suggestedCategory = categories.find(cat => cat.id === aiResult.categoryId);
             if (suggestedCategory) {
               setFormData(prev => ({
                 ...prev,
@@ -522,22 +492,23 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       
       if (aiCategorizationService.aiCategorizationService.isAvailable()) {
         const expenseContext = {
+          workspaceId: activeWorkspaceId,
           merchant: formData.merchant,
           amount: parseFloat(formData.amount),
           description: formData.description,
           date: formData.date,
-          currency: 'INR'
+          currency: formData.currency
         };
         
-        const aiResult = await aiCategorizationService.aiCategorizationService.categorizeExpense(expenseContext);
+        const aiResult = await aiCategorizationService.aiCategorizationService.categorizeExpense(expenseContext, categories);
         
         if (aiResult && !('error' in aiResult)) {
           console.log('✅ AI categorization successful:', aiResult);
           setAiResult(aiResult);
           
           // Auto-select the suggested category if available and user hasn't selected one yet
-          if (aiResult.category && !formData.categoryId && categories.length > 0) {
-            const suggestedCategory = categories.find(cat => cat.name === aiResult.category);
+          if (aiResult.categoryId && !formData.categoryId && categories.length > 0) {
+            const suggestedCategory = categories.find(cat => cat.id === aiResult.categoryId);
             if (suggestedCategory) {
               setFormData(prev => ({
                 ...prev,
@@ -587,6 +558,12 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
     if (formData.categoryId && categories.find(cat => cat.id === formData.categoryId)?.name === 'Other' && !formData.customCategory.trim()) {
       newErrors.customCategory = 'Please specify the custom category';
     }
+
+    if (gstDetails.vendor_gstin && !isValidGstin(gstDetails.vendor_gstin)) {
+      newErrors.gst = 'Please enter a valid GSTIN or leave it empty';
+    } else if (gstDetails.hsn_sac_code && !/^[0-9]{4,8}$/.test(gstDetails.hsn_sac_code)) {
+      newErrors.gst = 'HSN/SAC codes are 4 to 8 digits';
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -603,30 +580,42 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
     setErrors({});
     
     try {
-      const expenseData = {
+      if (!activeWorkspaceId || !currentUser) return;
+
+      // A different category than the one suggested is a correction to learn from
+      const suggestedCategoryId = aiResult?.categoryId ?? null;
+      const isCategoryCorrected = !!aiResult && !!formData.categoryId && formData.categoryId !== suggestedCategoryId;
+
+      const expenseData: ExpenseInput = {
         merchant: formData.merchant.trim(),
+        merchant_id: merchantMatch?.merchant.name === formData.merchant.trim() ? merchantMatch.merchant.id : null,
         amount: parseFloat(formData.amount),
         description: formData.description.trim(),
         txn_date: formData.date,
-        global_category_id: formData.categoryId,
+        category_id: formData.categoryId,
         payment_method_id: formData.paymentMethodId || null,
         notes: formData.notes.trim() || null,
         is_reimbursable: formData.isReimbursable,
         workspace_id: activeWorkspaceId,
-        user_id: currentUser?.id,
-        currency: 'INR',
+        user_id: currentUser.id,
+        currency: formData.currency,
         source: expenseSource === 'receipt' ? 'upload' : expenseSource, // Map receipt to upload for enum
-        status: 'unreviewed' as const,
+        status: 'unreviewed',
         category_confidence: aiResult?.confidence || 0,
-        category_source: aiResult ? 'ai' : 'manual',
-        payment_method_source: aiResult ? 'ai' : 'manual',
-        receipt_url: receiptResult?.receiptUrl || null,
+        category_source: !aiResult || isCategoryCorrected ? 'manual' : aiResult.matchedRule?.setsCategory ? 'rule' : 'ai',
+        payment_method_source: !aiResult ? 'manual' : aiResult.matchedRule?.setsPaymentMethod ? 'rule' : 'ai',
         extracted_text: receiptResult?.extractedText || null,
+        subtotal_amount: receiptResult?.subtotal ?? null,
+        tax_amount: receiptResult?.tax ?? null,
+        tip_amount: receiptResult?.tip ?? null,
+        discount_amount: receiptResult?.discount ?? null,
+        ...gstDetails,
+        vendor_gstin: normalizeGstin(gstDetails.vendor_gstin),
       };
       
       console.log('💾 Submitting expense data:', expenseData);
       
-      const { error } = await supabase.from('expenses').insert([expenseData]);
+      const { data: createdExpense, error } = await expenseRepository.create(expenseData);
       
       if (error) {
         console.error('Error creating expense:', error);
@@ -648,6 +637,30 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       }
       
       console.log('✅ Expense created successfully');
+
+      if (isCategoryCorrected) {
+        await categorizationRuleService.recordCorrection(
+          activeWorkspaceId, expenseData.merchant, suggestedCategoryId, formData.categoryId
+        );
+      }
+
+      // Link the uploaded receipt now that the expense exists
+      if (uploadedFile && createdExpense) {
+        try {
+          await receiptStorageService.attachReceipt(createdExpense, uploadedFile, currentUser.id);
+        } catch (attachError) {
+          console.warn('⚠️ Expense saved but the receipt could not be attached:', attachError);
+        }
+      }
+
+      if (receiptResult && receiptResult.lineItems.length > 0 && createdExpense) {
+        try {
+          await lineItemService.saveLineItems(createdExpense.id, receiptResult.lineItems);
+        } catch (lineItemError) {
+          console.warn('⚠️ Expense saved but its line items could not be saved:', lineItemError);
+        }
+      }
+
       setShowSuccessToast(true);
       
       // Call onExpenseAdded callback
@@ -1097,6 +1110,11 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
                 <div>
                   <label htmlFor="merchant" className="block text-sm font-semibold text-gray-700 mb-2">
                     Merchant <span className="text-red-500">*</span>
+                    {merchantMatch && merchantMatch.merchant.name === formData.merchant && (
+                      <span className="ml-2 text-xs text-green-600 bg-green-100 px-2 py-1 rounded-full">
+                        Known merchant
+                      </span>
+                    )}
                   </label>
                   <div className="relative">
                     <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -1127,24 +1145,45 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
                   <label htmlFor="amount" className="block text-sm font-semibold text-gray-700 mb-2">
                     Amount <span className="text-red-500">*</span>
                   </label>
-                  <div className="relative">
-                    <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                    <input
-                      type="number"
-                      id="amount"
-                      name="amount"
-                      value={formData.amount}
+                  <div className="flex space-x-2">
+                    <div className="relative flex-1">
+                      <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                      <input
+                        type="number"
+                        id="amount"
+                        name="amount"
+                        value={formData.amount}
+                        onChange={handleInputChange}
+                        disabled={isFormDisabled || isSubmitting}
+                        className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
+                          errors.amount ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                        }`}
+                        placeholder="0.00"
+                        min="0"
+                        step="0.01"
+                        required
+                      />
+                    </div>
+                    <select
+                      name="currency"
+                      value={formData.currency}
                       onChange={handleInputChange}
                       disabled={isFormDisabled || isSubmitting}
-                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
-                        errors.amount ? 'border-red-500 bg-red-50' : 'border-gray-300'
-                      }`}
-                      placeholder="0.00"
-                      min="0"
-                      step="0.01"
-                      required
-                    />
+                      aria-label="Currency"
+                      className="px-3 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                      {[...new Set([baseCurrency, formData.currency, ...SUPPORTED_CURRENCIES])].map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
                   </div>
+                  <ConvertedAmountHint
+                    workspaceId={activeWorkspaceId}
+                    amount={formData.amount}
+                    currency={formData.currency}
+                    baseCurrency={baseCurrency}
+                    date={formData.date}
+                  />
                   {errors.amount && (
                     <p className="mt-1 text-sm text-red-600 flex items-center space-x-1">
                       <AlertCircle className="w-4 h-4" />
@@ -1202,7 +1241,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
                       disabled={isFormDisabled || isSubmitting || isLoadingData}
                       className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
                         errors.categoryId ? 'border-red-500 bg-red-50' : 
-                        aiResult && categories.find(cat => cat.name === aiResult.category)?.id === formData.categoryId ? 'border-blue-500 bg-blue-50' :
+                        aiResult?.categoryId && aiResult.categoryId === formData.categoryId ? 'border-blue-500 bg-blue-50' :
                         'border-gray-300'
                       }`}
                       required
@@ -1211,7 +1250,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
                       {categories.map((category) => (
                         <option key={category.id} value={category.id}>
                           {category.name}
-                          {aiResult && aiResult.category === category.name && ' (AI Suggested)'}
+                          {aiResult && aiResult.categoryId === category.id && ' (AI Suggested)'}
                         </option>
                       ))}
                     </select>
@@ -1222,11 +1261,15 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
                       <span>{errors.categoryId}</span>
                     </p>
                   )}
-                  {aiResult && aiResult.category && aiResult.confidence && (
+                  {aiResult && aiResult.category && (aiResult.matchedRule?.setsCategory ? (
+                    <p className="mt-1 text-xs text-blue-600">
+                      {aiResult.reasoning}
+                    </p>
+                  ) : aiResult.confidence && (
                     <p className="mt-1 text-xs text-blue-600">
                       AI confidence: {Math.round(aiResult.confidence * 100)}%
                     </p>
-                  )}
+                  ))}
                 </div>
 
                 {/* Custom Category Field (only shown when "Other" is selected) */}
@@ -1290,6 +1333,37 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
                   </div>
                 </div>
 
+                {/* Receipt Items */}
+                {receiptResult && (
+                  <ReceiptLineItemsEditor
+                    items={receiptResult.lineItems}
+                    totals={receiptResult}
+                    currency={formData.currency}
+                    amount={parseFloat(formData.amount) || 0}
+                    disabled={isFormDisabled || isSubmitting}
+                    onChange={(lineItems, totals) => setReceiptResult(prev => prev && { ...prev, ...totals, lineItems })}
+                  />
+                )}
+
+                {/* GST Details */}
+                {(formData.currency === 'INR' || gstDetails.vendor_gstin) && (
+                  <div>
+                    <GstDetailsFields
+                      details={gstDetails}
+                      currency={formData.currency}
+                      amount={parseFloat(formData.amount) || 0}
+                      disabled={isFormDisabled || isSubmitting}
+                      onChange={setGstDetails}
+                    />
+                    {errors.gst && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center space-x-1">
+                        <AlertCircle className="w-4 h-4" />
+                        <span>{errors.gst}</span>
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Reimbursable Checkbox */}
                 <div className="flex items-center space-x-2">
                   <input
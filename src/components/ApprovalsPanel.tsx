@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, Check, X, History, Loader2, AlertCircle, Banknote } from 'lucide-react';
+import {
+  expenseRepository,
+  Expense,
+  ApprovalPolicy,
+  ExpenseStatusChange,
+  WorkspaceRole
+} from '../lib/repositories';
+import {
+  approvalService,
+  approvalsRequired,
+  canApproveExpense,
+  isApprover,
+  APPROVAL_ACTION_LABELS,
+  EXPENSE_STATUS_LABELS
+} from '../lib/approvals';
+import { can } from '../lib/team';
+import { formatCurrency } from '../lib/currency';
+
+interface ApprovalsPanelProps {
+  activeWorkspaceId: string | null;
+  currentUser: { id: string } | null;
+  myRole: WorkspaceRole | null;
+  policy: ApprovalPolicy;
+  // Changes whenever expenses are submitted from the inbox so the queues are reloaded
+  refreshKey: string;
+  // Called after expenses change status
+  onChanged?: () => void;
+}
+
+// Status history of one expense, loaded when it is expanded
+const StatusHistory: React.FC<{ expenseId: string }> = ({ expenseId }) => {
+  const [history, setHistory] = useState<ExpenseStatusChange[] | null>(null);
+
+  useEffect(() => {
+    approvalService.loadHistory(expenseId)
+      .then(setHistory)
+      .catch(error => {
+        console.error('Error loading status history:', error);
+        setHistory([]);
+      });
+  }, [expenseId]);
+
+  if (!history) {
+    return <Loader2 className="w-4 h-4 animate-spin text-brand-dark-teal" />;
+  }
+  if (history.length === 0) {
+    return <p className="text-xs text-brand-text-muted">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-1">
+      {history.map(change => (
+        <li key={change.id} className="text-xs text-brand-text-muted">
+          <span className="text-brand-text-dark">{change.actor_name || change.actor_email || 'Someone'}</span>
+          {' '}{APPROVAL_ACTION_LABELS[change.action]}
+          {change.action === 'approve' && change.to_status === 'submitted' && ' (first approval)'}
+          {' '}on {new Date(change.created_at).toLocaleString()}
+          {change.reason && <span className="italic">: “{change.reason}”</span>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+// Queues for approvers (submitted expenses) and admins (approved expenses to pay), shown in the inbox
+const ApprovalsPanel: React.FC<ApprovalsPanelProps> = ({
+  activeWorkspaceId,
+  currentUser,
+  myRole,
+  policy,
+  refreshKey,
+  onChanged
+}) => {
+  const [submitted, setSubmitted] = useState<Expense[]>([]);
+  const [approved, setApproved] = useState<Expense[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const canApprove = isApprover(policy, currentUser?.id, myRole);
+  const canPay = can(myRole, 'review_expenses');
+
+  const loadQueues = async () => {
+    if (!activeWorkspaceId || (!canApprove && !canPay)) return;
+
+    setIsLoading(true);
+    const [submittedResult, approvedResult] = await Promise.all([
+      canApprove ? expenseRepository.listAll(activeWorkspaceId, { status: 'submitted' }) : Promise.resolve({ data: [] as Expense[], error: null }),
+      canPay ? expenseRepository.listAll(activeWorkspaceId, { status: 'approved' }) : Promise.resolve({ data: [] as Expense[], error: null })
+    ]);
+
+    if (submittedResult.error || approvedResult.error) {
+      console.error('Error loading approval queues:', submittedResult.error || approvedResult.error);
+      setError('Could not load expenses awaiting approval');
+    }
+    setSubmitted(submittedResult.data);
+    setApproved(approvedResult.data);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadQueues();
+  }, [activeWorkspaceId, refreshKey, canApprove, canPay]);
+
+  // Wraps a workflow step so errors, the busy state and reloading are handled in one place
+  const runTransition = async (ids: string[], action: () => Promise<unknown>) => {
+    setBusyIds(ids);
+    setError('');
+    try {
+      await action();
+      await loadQueues();
+      onChanged?.();
+    } catch (err) {
+      console.error('Error updating expense status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update expense');
+    } finally {
+      setBusyIds([]);
+    }
+  };
+
+  const handleReject = (expense: Expense) => {
+    const reason = window.prompt(`Why are you rejecting ${expense.merchant} (${formatCurrency(expense.amount, expense.currency)})?`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      setError('Give a reason for rejecting');
+      return;
+    }
+    runTransition([expense.id], () => approvalService.reject([expense.id], reason));
+  };
+
+  if (!activeWorkspaceId || (submitted.length === 0 && approved.length === 0 && !error)) return null;
+
+  const renderRow = (expense: Expense, actions: React.ReactNode, detail?: string) => (
+    <div key={expense.id} className="py-3">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-brand-text-dark truncate">
+            {expense.merchant}
+            <span className="ml-2 font-bold text-brand-dark-teal">{formatCurrency(expense.amount, expense.currency)}</span>
+          </p>
+          <p className="text-xs text-brand-text-muted">
+            {expense.txn_date} · {expense.category_name}{detail && ` · ${detail}`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          {busyIds.includes(expense.id) && <Loader2 className="w-4 h-4 animate-spin text-brand-dark-teal" />}
+          <button
+            onClick={() => setExpandedId(expandedId === expense.id ? null : expense.id)}
+            title="Status history"
+            className="p-1.5 text-brand-text-muted hover:text-brand-dark-teal"
+          >
+            <History className="w-4 h-4" />
+          </button>
+          {actions}
+        </div>
+      </div>
+      {expandedId === expense.id && (
+        <div className="mt-2 pl-3 border-l-2 border-brand-soft-gray/40">
+          <StatusHistory expenseId={expense.id} />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-brand-text-dark flex items-center space-x-2">
+        <ClipboardCheck className="w-5 h-5 text-brand-dark-teal" />
+        <span>Approvals</span>
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-brand-dark-teal" />}
+      </h3>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {submitted.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-brand-text-muted">{EXPENSE_STATUS_LABELS.submitted} ({submitted.length})</h4>
+          <div className="divide-y divide-brand-soft-gray/20">
+            {submitted.map(expense => {
+              const required = approvalsRequired(expense, policy);
+              const ownExpense = !canApproveExpense(expense, currentUser?.id);
+              return renderRow(
+                expense,
+                <>
+                  <button
+                    onClick={() => handleReject(expense)}
+                    disabled={busyIds.length > 0}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>Reject</span>
+                  </button>
+                  <button
+                    onClick={() => runTransition([expense.id], () => approvalService.transition([expense.id], 'approve'))}
+                    disabled={busyIds.length > 0 || ownExpense}
+                    title={ownExpense ? 'You recorded this expense, so someone else has to approve it' : undefined}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>Approve</span>
+                  </button>
+                </>,
+                required > 1 ? `${expense.approval_count} of ${required} approvals` : undefined
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {approved.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-brand-text-muted">Approved, not yet paid ({approved.length})</h4>
+            {approved.length > 1 && (
+              <button
+                onClick={() => runTransition(approved.map(e => e.id), () => approvalService.transition(approved.map(e => e.id), 'pay'))}
+                disabled={busyIds.length > 0}
+                className="text-sm text-brand-muted-teal hover:text-brand-dark-teal disabled:opacity-50"
+              >
+                Mark all paid
+              </button>
+            )}
+          </div>
+          <div className="divide-y divide-brand-soft-gray/20">
+            {approved.map(expense => renderRow(
+              expense,
+              <button
+                onClick={() => runTransition([expense.id], () => approvalService.transition([expense.id], 'pay'))}
+                disabled={busyIds.length > 0}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-brand-muted-teal text-brand-muted-teal rounded-lg hover:bg-brand-muted-teal hover:text-white transition-colors disabled:opacity-50"
+              >
+                <Banknote className="w-4 h-4" />
+                <span>Mark paid</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalsPanel;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Pencil, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Category, BudgetPeriod, BudgetPeriodActual } from '../lib/repositories';
+import {
+  budgetService,
+  BudgetStatus,
+  BUDGET_PERIODS,
+  BUDGET_REPORT_PERIODS,
+  formatBudgetPeriod,
+  budgetLabel,
+  budgetColor
+} from '../lib/budgets';
+import { formatCurrency } from '../lib/currency';
+
+interface BudgetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  currentUser: { id: string } | null;
+  categories: Category[];
+  baseCurrency: string;
+  budgets: BudgetStatus[];
+  // Members can view budgets and the report; only admins change them
+  canManage?: boolean;
+  // Called after budgets change so the dashboard can reload them
+  onChanged: () => void;
+}
+
+const emptyDraft = { categoryId: '', period: 'monthly' as BudgetPeriod, amount: '' };
+
+const BudgetsModal: React.FC<BudgetsModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  currentUser,
+  categories,
+  baseCurrency,
+  budgets,
+  canManage = true,
+  onChanged
+}) => {
+  const [activeTab, setActiveTab] = useState<'budgets' | 'report'>('budgets');
+  const [draft, setDraft] = useState(emptyDraft);
+  const [report, setReport] = useState<Map<string, BudgetPeriodActual[]>>(new Map());
+  const [isLoadingReport, setIsLoadingReport] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || activeTab !== 'report' || !activeWorkspaceId) return;
+
+    setIsLoadingReport(true);
+    budgetService.loadReport(activeWorkspaceId)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load budget report'))
+      .finally(() => setIsLoadingReport(false));
+  }, [isOpen, activeTab, activeWorkspaceId, budgets]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setDraft(emptyDraft);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Saving a category and period that already has a budget changes its limit
+  const existing = budgets.find(b => (b.category_id || '') === draft.categoryId && b.period === draft.period);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId) return;
+
+    const amount = parseFloat(draft.amount);
+    if (!(amount > 0)) {
+      setError('Enter a budget greater than 0');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await budgetService.saveBudget({
+        workspace_id: activeWorkspaceId,
+        category_id: draft.categoryId || null,
+        period: draft.period,
+        amount,
+        created_by: currentUser?.id ?? null
+      }, existing);
+      setDraft(emptyDraft);
+      onChanged();
+    } catch (err) {
+      console.error('Error saving budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: BudgetStatus) => {
+    if (!window.confirm(`Delete the ${budget.period} budget for ${budgetLabel(budget.category_id, categories)}?`)) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await budgetService.deleteBudget(budget.id);
+      onChanged();
+    } catch (err) {
+      console.error('Error deleting budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Budgets</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex space-x-1 mx-6 mt-6 bg-brand-soft-gray/10 p-1 rounded-xl w-fit">
+          {([['budgets', 'Budgets'], ['report', 'Budget vs actual']] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                activeTab === tab
+                  ? 'bg-white text-brand-dark-teal shadow-sm'
+                  : 'text-brand-text-muted hover:text-brand-dark-teal'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {activeTab === 'budgets' ? (
+            <>
+              {canManage && (
+                <form onSubmit={handleSave} className="flex flex-wrap items-end gap-2">
+                  <div className="flex-1 min-w-[10rem]">
+                    <label className="block text-xs text-gray-500 mb-1">Category</label>
+                    <select
+                      value={draft.categoryId}
+                      onChange={(e) => setDraft(prev => ({ ...prev, categoryId: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      <option value="">All spending</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Period</label>
+                    <select
+                      value={draft.period}
+                      onChange={(e) => setDraft(prev => ({ ...prev, period: e.target.value as BudgetPeriod }))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      {BUDGET_PERIODS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Limit ({baseCurrency})</label>
+                    <input
+                      type="number"
+                      value={draft.amount}
+                      onChange={(e) => setDraft(prev => ({ ...prev, amount: e.target.value }))}
+                      min="0"
+                      step="0.01"
+                      placeholder={existing ? String(existing.amount) : '0.00'}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={isSaving || !draft.amount}
+                    className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : existing ? <Pencil className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                    <span>{existing ? 'Update' : 'Add'}</span>
+                  </button>
+                </form>
+              )}
+
+              {budgets.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  No budgets yet. Alerts appear on the dashboard when spending reaches 50%, 80% and 100% of a budget.
+                </p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium">Category</th>
+                        <th className="px-3 py-2 text-left font-medium">Period</th>
+                        <th className="px-3 py-2 text-right font-medium">Limit</th>
+                        <th className="px-3 py-2 text-right font-medium">Spent so far</th>
+                        <th className="px-3 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {budgets.map(budget => (
+                        <tr key={budget.id}>
+                          <td className="px-3 py-2 font-medium text-gray-900">
+                            <span
+                              className="inline-block w-2 h-2 rounded-full mr-2"
+                              style={{ backgroundColor: budgetColor(budget.category_id, categories) }}
+                            />
+                            {budgetLabel(budget.category_id, categories)}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600 capitalize">{budget.period}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(budget.amount, baseCurrency)}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">{formatCurrency(budget.spent, baseCurrency)}</td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            {canManage && (
+                              <>
+                                <button
+                                  onClick={() => setDraft({ categoryId: budget.category_id || '', period: budget.period, amount: String(budget.amount) })}
+                                  disabled={isSaving}
+                                  title="Change limit"
+                                  className="p-1 text-gray-400 hover:text-brand-dark-teal disabled:opacity-50"
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(budget)}
+                                  disabled={isSaving}
+                                  title="Delete budget"
+                                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          ) : isLoadingReport ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            </div>
+          ) : budgets.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">Add a budget to compare it with actual spending.</p>
+          ) : (
+            <div className="space-y-8">
+              {budgets.map(budget => {
+                const rows = report.get(budget.id) || [];
+                const scale = Math.max(budget.amount, ...rows.map(row => row.spent), 1);
+                const overCount = rows.filter(row => row.spent > row.budget_amount).length;
+                return (
+                  <div key={budget.id}>
+                    <div className="flex items-baseline justify-between mb-3">
+                      <h3 className="font-semibold text-gray-900">
+                        {budgetLabel(budget.category_id, categories)}
+                        <span className="ml-2 text-sm font-normal text-gray-500 capitalize">{budget.period}, {formatCurrency(budget.amount, baseCurrency)}</span>
+                      </h3>
+                      <span className={`text-sm ${overCount > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        Over budget in {overCount} of {rows.length || BUDGET_REPORT_PERIODS} periods
+                      </span>
+                    </div>
+                    <div className="relative flex items-end space-x-1 h-32 border-b border-gray-200">
+                      {/* Budget line */}
+                      <div
+                        className="absolute left-0 right-0 border-t border-dashed border-red-400"
+                        style={{ bottom: `${(budget.amount / scale) * 100}%` }}
+                      />
+                      {rows.map(row => (
+                        <div
+                          key={row.period_start}
+                          className="flex-1 rounded-t"
+                          title={`${formatBudgetPeriod(budget.period, row.period_start)}: ${formatCurrency(row.spent, baseCurrency)} of ${formatCurrency(row.budget_amount, baseCurrency)}`}
+                          style={{
+                            height: `${(row.spent / scale) * 100}%`,
+                            backgroundColor: budgetColor(budget.category_id, categories),
+                            opacity: row.spent > row.budget_amount ? 1 : 0.6
+                          }}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex space-x-1 mt-1">
+                      {rows.map(row => (
+                        <span key={row.period_start} className="flex-1 text-center text-[10px] text-gray-500 truncate">
+                          {formatBudgetPeriod(budget.period, row.period_start)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-xs text-gray-500">
+                Bars show spending per period against the current limit (dashed line). Amounts in other currencies count once converted to {baseCurrency}.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetsModal;
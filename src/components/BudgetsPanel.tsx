@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { Target, Settings, AlertTriangle, X, Loader2 } from 'lucide-react';
+import { Category, BudgetAlert } from '../lib/repositories';
+import { budgetService, BudgetStatus, budgetThresholdReached, formatBudgetPeriod, budgetLabel, budgetColor } from '../lib/budgets';
+import { formatCurrency } from '../lib/currency';
+import BudgetsModal from './BudgetsModal';
+
+interface BudgetsPanelProps {
+  activeWorkspaceId: string | null;
+  currentUser: { id: string } | null;
+  categories: Category[];
+  baseCurrency: string;
+  // Changes whenever expenses are added or edited so spend is reloaded
+  refreshKey: string;
+  // Whether the current user may add and change budgets
+  canManage?: boolean;
+}
+
+// Budget progress for the current period plus threshold alerts, shown on the dashboard
+const BudgetsPanel: React.FC<BudgetsPanelProps> = ({
+  activeWorkspaceId,
+  currentUser,
+  categories,
+  baseCurrency,
+  refreshKey,
+  canManage = true
+}) => {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+
+  const loadStatus = async () => {
+    if (!activeWorkspaceId) return;
+
+    setIsLoading(true);
+    try {
+      const status = await budgetService.loadStatus(activeWorkspaceId);
+      setBudgets(status.budgets);
+      setAlerts(status.alerts);
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, [activeWorkspaceId, refreshKey]);
+
+  const handleDismiss = async (group: BudgetAlert[]) => {
+    try {
+      await budgetService.dismissAlerts(group);
+      setAlerts(prev => prev.filter(alert => !group.includes(alert)));
+    } catch (error) {
+      console.error('Error dismissing budget alerts:', error);
+    }
+  };
+
+  if (!activeWorkspaceId) return null;
+
+  // One alert per budget period, showing the highest threshold crossed
+  const alertGroups = Object.values(alerts.reduce<Record<string, BudgetAlert[]>>((acc, alert) => {
+    const key = `${alert.budget_id}|${alert.period_start}`;
+    acc[key] = [...(acc[key] || []), alert];
+    return acc;
+  }, {}));
+
+  return (
+    <>
+      {alertGroups.length > 0 && (
+        <div className="space-y-2">
+          {alertGroups.map(group => {
+            const top = group.reduce((max, alert) => alert.threshold > max.threshold ? alert : max, group[0]);
+            const budget = budgets.find(b => b.id === top.budget_id);
+            if (!budget) return null;
+
+            return (
+              <div
+                key={`${top.budget_id}-${top.period_start}`}
+                className={`flex items-center justify-between p-4 rounded-xl border ${
+                  top.threshold >= 100 ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  <p className="text-sm">
+                    <strong>{budgetLabel(budget.category_id, categories)}</strong>
+                    {top.threshold >= 100 ? ' is over budget' : ` has used ${top.threshold}% of its budget`}
+                    {' '}for {formatBudgetPeriod(budget.period, top.period_start)}: {formatCurrency(top.spent, baseCurrency)} of {formatCurrency(budget.amount, baseCurrency)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDismiss(group)}
+                  title="Dismiss"
+                  className="p-1 opacity-60 hover:opacity-100"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-brand-text-dark flex items-center space-x-2">
+            <Target className="w-5 h-5 text-brand-dark-teal" />
+            <span>Budgets</span>
+          </h3>
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center space-x-1 text-sm text-brand-muted-teal hover:text-brand-dark-teal"
+          >
+            <Settings className="w-4 h-4" />
+            <span>{!canManage ? 'Report' : budgets.length === 0 ? 'Set budgets' : 'Manage & report'}</span>
+          </button>
+        </div>
+
+        {isLoading && budgets.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 text-brand-dark-teal animate-spin" />
+          </div>
+        ) : budgets.length === 0 ? (
+          <p className="text-sm text-brand-text-muted">
+            No budgets yet. Set a monthly, quarterly or yearly limit per category to get alerts at 50%, 80% and 100%.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {budgets.map(budget => {
+              const percentage = budget.amount > 0 ? (budget.spent / budget.amount) * 100 : 0;
+              const reached = budgetThresholdReached(budget.spent, budget.amount);
+              return (
+                <div key={budget.id}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-brand-text-dark">
+                      {budgetLabel(budget.category_id, categories)}
+                      <span className="ml-2 text-xs font-normal text-brand-text-muted">
+                        {formatBudgetPeriod(budget.period, budget.period_start)}
+                      </span>
+                    </span>
+                    <span className={reached >= 100 ? 'text-red-600 font-medium' : 'text-brand-text-muted'}>
+                      {formatCurrency(budget.spent, baseCurrency)} / {formatCurrency(budget.amount, baseCurrency)}
+                      <span className="ml-1">({percentage.toFixed(0)}%)</span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-brand-soft-gray/20 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full transition-all"
+                      style={{
+                        width: `${Math.min(percentage, 100)}%`,
+                        backgroundColor: budgetColor(budget.category_id, categories)
+                      }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <BudgetsModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        activeWorkspaceId={activeWorkspaceId}
+        currentUser={currentUser}
+        categories={categories}
+        baseCurrency={baseCurrency}
+        budgets={budgets}
+        canManage={canManage}
+        onChanged={loadStatus}
+      />
+    </>
+  );
+};
+
+export default BudgetsPanel;
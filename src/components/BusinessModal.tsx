@@ -7,7 +7,7 @@ import {
   CheckCircle, 
   Loader2 
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { workspaceRepository } from '../lib/repositories';
 
 interface BusinessModalProps {
   isOpen: boolean;
@@ -58,37 +58,13 @@ const BusinessModal: React.FC<BusinessModalProps> = ({
       setError('');
       setSuccess('');
 
-      // Create the workspace
-      const { data: workspace, error: workspaceError } = await supabase
-        .from('workspaces')
-        .insert([
-          {
-            name: formData.name.trim(),
-            created_by: user.id
-          }
-        ])
-        .select('*')
-        .single();
+      // Create the workspace and the creator's owner membership
+      const { data: workspace, error: workspaceError } = await workspaceRepository.create(formData.name.trim(), user.id);
 
       if (workspaceError) {
         throw workspaceError;
       }
 
-      // Create workspace membership for the creator
-      const { error: membershipError } = await supabase
-        .from('workspace_members')
-        .insert([
-          {
-            workspace_id: workspace.id,
-            user_id: user.id,
-            role: 'owner'
-          }
-        ]);
-
-      if (membershipError) {
-        throw membershipError;
-      }
-
       setSuccess('Business created successfully!');
       
       // Call the callback with the new business
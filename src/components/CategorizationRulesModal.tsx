@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Pencil, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import {
+  loadExpenseFormData,
+  Category,
+  PaymentMethod,
+  CategorizationRule,
+  CategorizationRuleField,
+  CategorizationRuleMatchType
+} from '../lib/repositories';
+import { categorizationRuleService, describeRule, RULE_FIELDS, RULE_MATCH_TYPES } from '../lib/categorization-rules';
+
+interface CategorizationRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  // Members can see the rules; only admins change them
+  canManage?: boolean;
+}
+
+interface RuleDraft {
+  field: CategorizationRuleField;
+  matchType: CategorizationRuleMatchType;
+  pattern: string;
+  categoryId: string;
+  paymentMethodId: string;
+}
+
+const emptyDraft: RuleDraft = { field: 'merchant', matchType: 'contains', pattern: '', categoryId: '', paymentMethodId: '' };
+
+const toDraft = (rule: CategorizationRule): RuleDraft => ({
+  field: rule.field,
+  matchType: rule.match_type,
+  pattern: rule.pattern,
+  categoryId: rule.category_id || '',
+  paymentMethodId: rule.payment_method_id || ''
+});
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent';
+
+const CategorizationRulesModal: React.FC<CategorizationRulesModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  canManage = true
+}) => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  // null when the form is closed; editing holds the rule being changed
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [editing, setEditing] = useState<CategorizationRule | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadRules = async () => {
+    if (!activeWorkspaceId) return;
+    setRules(await categorizationRuleService.loadRules(activeWorkspaceId));
+  };
+
+  useEffect(() => {
+    if (!isOpen || !activeWorkspaceId) return;
+
+    setError('');
+    setDraft(null);
+    setEditing(null);
+    setIsLoading(true);
+    Promise.all([loadRules(), loadExpenseFormData(activeWorkspaceId)])
+      .then(([, formData]) => {
+        setCategories(formData.categories);
+        setPaymentMethods(formData.paymentMethods);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load rules'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, activeWorkspaceId]);
+
+  if (!isOpen) return null;
+
+  const runChange = async (change: () => Promise<void>, fallback: string) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await change();
+      await loadRules();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !draft) return;
+
+    const saved = await runChange(() => categorizationRuleService.saveRule({
+      workspace_id: activeWorkspaceId,
+      field: draft.field,
+      match_type: draft.matchType,
+      pattern: draft.pattern,
+      category_id: draft.categoryId || null,
+      payment_method_id: draft.paymentMethodId || null,
+      is_active: editing ? editing.is_active : true
+    }, editing || undefined), 'Failed to save rule');
+
+    if (saved) {
+      setDraft(null);
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!window.confirm(`Delete the rule "${describeRule(rule)}"? Expenses already categorized keep their category.`)) return;
+    await runChange(() => categorizationRuleService.deleteRule(rule), 'Failed to delete rule');
+  };
+
+  const categoryName = (id: string | null) => categories.find(c => c.id === id)?.name;
+  const paymentMethodName = (id: string | null) => paymentMethods.find(pm => pm.id === id)?.name;
+  const ruleGroups = [
+    { title: 'Rules', rules: rules.filter(rule => rule.source === 'user'), empty: 'No rules yet.' },
+    { title: 'Learned from corrections', rules: rules.filter(rule => rule.source === 'learned'), empty: 'Correct the same merchant to the same category twice and a rule is learned here.' }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Categorization Rules</h2>
+            <p className="text-sm text-gray-500">Applied to new expenses before AI categorization</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-3 p-4 border border-gray-200 rounded-xl">
+              <h3 className="text-sm font-semibold text-gray-700">{editing ? 'Edit rule' : 'Add rule'}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">When</label>
+                  <select
+                    value={draft.field}
+                    onChange={(e) => setDraft({ ...draft, field: e.target.value as CategorizationRuleField })}
+                    className={inputClassName}
+                  >
+                    {Object.entries(RULE_FIELDS).map(([field, label]) => (
+                      <option key={field} value={field}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Match</label>
+                  <select
+                    value={draft.matchType}
+                    onChange={(e) => setDraft({ ...draft, matchType: e.target.value as CategorizationRuleMatchType })}
+                    className={inputClassName}
+                  >
+                    {Object.entries(RULE_MATCH_TYPES).map(([matchType, label]) => (
+                      <option key={matchType} value={matchType}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Text</label>
+                  <input
+                    type="text"
+                    value={draft.pattern}
+                    onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                    placeholder="e.g. uber"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Category</label>
+                  <select
+                    value={draft.categoryId}
+                    onChange={(e) => setDraft({ ...draft, categoryId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">Let AI decide</option>
+                    {categories.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Payment method</label>
+                  <select
+                    value={draft.paymentMethodId}
+                    onChange={(e) => setDraft({ ...draft, paymentMethodId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">Let AI decide</option>
+                    {paymentMethods.map(method => (
+                      <option key={method.id} value={method.id}>{method.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {editing?.source === 'learned' && (
+                <p className="text-xs text-gray-500">Saving makes this your own rule; corrections won't change it anymore.</p>
+              )}
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => { setDraft(null); setEditing(null); }}
+                  className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>{editing ? 'Save' : 'Add'}</span>
+                </button>
+              </div>
+            </form>
+          ) : canManage && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => setDraft(emptyDraft)}
+                className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add rule</span>
+              </button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              <span>Loading rules...</span>
+            </div>
+          ) : ruleGroups.map(group => (
+            <div key={group.title} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">{group.title}</h3>
+              {group.rules.length === 0 ? (
+                <p className="text-sm text-gray-500">{group.empty}</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {group.rules.map(rule => (
+                    <div key={rule.id} className={`flex items-center gap-3 px-3 py-2 ${rule.is_active ? '' : 'opacity-60'}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {describeRule(rule).replace(/^./, c => c.toUpperCase())}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {[
+                            categoryName(rule.category_id),
+                            paymentMethodName(rule.payment_method_id)
+                          ].filter(Boolean).join(' · ') || 'Category and payment method were deleted'}
+                        </p>
+                      </div>
+                      {canManage ? (
+                        <div className="flex items-center gap-1 whitespace-nowrap">
+                          <label className="flex items-center space-x-1 text-xs text-gray-500 mr-1">
+                            <input
+                              type="checkbox"
+                              checked={rule.is_active}
+                              onChange={(e) => runChange(() => categorizationRuleService.setRuleActive(rule, e.target.checked), 'Failed to update rule')}
+                              disabled={isSaving}
+                              className="w-4 h-4 text-brand-dark-teal border-gray-300 rounded"
+                            />
+                            <span>Active</span>
+                          </label>
+                          <button
+                            onClick={() => { setEditing(rule); setDraft(toDraft(rule)); }}
+                            disabled={isSaving}
+                            title="Edit rule"
+                            className="p-1 text-gray-400 hover:text-brand-dark-teal disabled:opacity-50"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            disabled={isSaving}
+                            title="Delete rule"
+                            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : !rule.is_active && (
+                        <span className="text-xs text-gray-500">Inactive</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategorizationRulesModal;
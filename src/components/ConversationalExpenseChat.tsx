@@ -3,8 +3,9 @@ import { X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import ChatMessageList from './ChatMessageList';
 import ChatInputArea from './ChatInputArea';
 import { ChatMessageData } from './ChatMessage';
-import { supabase } from '../lib/supabase';
+import { expenseRepository, loadExpenseFormData, Category, PaymentMethod, ExpenseInput } from '../lib/repositories';
 import { conversationalAIService, ConversationContext, ConversationResponse } from '../lib/conversational-ai';
+import { merchantService } from '../lib/merchants';
 
 // Reuse interfaces from AddExpenseModal
 interface FormData {
@@ -19,21 +20,6 @@ interface FormData {
   isReimbursable: boolean;
 }
 
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-  color: string;
-  icon: string;
-}
-
-interface PaymentMethod {
-  id: string;
-  name: string;
-  description: string;
-  type: string;
-}
-
 interface ConversationalExpenseChatProps {
   isOpen: boolean;
   onClose: () => void;
@@ -228,7 +214,8 @@ class ExpenseParser {
     merchant: string, 
     description: string, 
     amount: number,
-    categories: Category[]
+    categories: Category[],
+    workspaceId?: string
   ): Promise<{ categoryId: string; confidence: number } | null> {
     try {
       // Use the existing AI categorization service
@@ -236,6 +223,7 @@ class ExpenseParser {
       
       if (aiCategorizationService.aiCategorizationService.isAvailable()) {
         const expenseContext = {
+          workspaceId,
           merchant,
           amount,
           description,
@@ -243,11 +231,10 @@ class ExpenseParser {
           currency: 'INR'
         };
         
-        const aiResult = await aiCategorizationService.aiCategorizationService.categorizeExpense(expenseContext);
+        const aiResult = await aiCategorizationService.aiCategorizationService.categorizeExpense(expenseContext, categories);
         
-        if (aiResult && !('error' in aiResult) && aiResult.category) {
-          // Find the category ID that matches the AI suggestion
-          const suggestedCategory = categories.find(cat => cat.name === aiResult.category);
+        if (aiResult && !('error' in aiResult) && aiResult.categoryId) {
+          const suggestedCategory = categories.find(cat => cat.id === aiResult.categoryId);
           if (suggestedCategory) {
             return {
               categoryId: suggestedCategory.id,
@@ -311,51 +298,12 @@ const ConversationalExpenseChat: React.FC<ConversationalExpenseChatProps> = ({
   }, [categories, conversationContext]);
 
   const loadFormData = async () => {
-    try {
-      // Fetch categories (same logic as AddExpenseModal)
-      const { data: globalCategoriesData, error: globalCategoriesError } = await supabase
-        .from('workspace_category_mappings')
-        .select(`
-          id,
-          global_categories!inner(
-            id,
-            name,
-            description,
-            color,
-            icon
-          )
-        `)
-        .eq('workspace_id', activeWorkspaceId)
-        .eq('is_active', true)
-        .order('name', { foreignTable: 'global_categories' });
-
-      let categories: Category[] = [];
-      if (!globalCategoriesError && globalCategoriesData && globalCategoriesData.length > 0) {
-        categories = globalCategoriesData.map((item: any) => ({
-          id: item.global_categories.id,
-          name: item.global_categories.name,
-          description: item.global_categories.description,
-          color: item.global_categories.color,
-          icon: item.global_categories.icon
-        }));
-      } else {
-        // Fallback to global categories
-        const { data: fallbackData } = await supabase
-          .from('global_categories')
-          .select('id, name, description, color, icon')
-          .order('name');
-        categories = fallbackData || [];
-      }
-
-      // Fetch payment methods
-      const { data: paymentMethodsData } = await supabase
-        .from('payment_methods')
-        .select('*')
-        .eq('workspace_id', activeWorkspaceId)
-        .order('name');
+    if (!activeWorkspaceId) return;
 
+    try {
+      const { categories, paymentMethods } = await loadExpenseFormData(activeWorkspaceId);
       setCategories(categories);
-      setPaymentMethods(paymentMethodsData || []);
+      setPaymentMethods(paymentMethods);
     } catch (error) {
       console.error('Error loading form data:', error);
     }
@@ -481,7 +429,8 @@ const ConversationalExpenseChat: React.FC<ConversationalExpenseChatProps> = ({
       // Use conversational AI to process the message
       const response: ConversationResponse = await conversationalAIService.processMessage(
         message, 
-        currentContext
+        currentContext,
+        activeWorkspaceId || undefined
       );
 
       // Update conversation context (for internal tracking only)
@@ -510,6 +459,17 @@ const ConversationalExpenseChat: React.FC<ConversationalExpenseChatProps> = ({
         notes: response.extractedData.notes || '',
         isReimbursable: false
       };
+
+      // File a known merchant under its directory name and defaults
+      const merchantMatch = activeWorkspaceId
+        ? await merchantService.match(activeWorkspaceId, updatedExpenseData.merchant)
+        : null;
+      if (merchantMatch) {
+        const { merchant } = merchantMatch;
+        updatedExpenseData.merchant = merchant.name;
+        updatedExpenseData.categoryId = merchant.default_category_id || updatedExpenseData.categoryId;
+        updatedExpenseData.paymentMethodId = merchant.default_payment_method_id || updatedExpenseData.paymentMethodId;
+      }
       setExpenseData(updatedExpenseData);
 
       // Update conversation step
@@ -614,7 +574,8 @@ const ConversationalExpenseChat: React.FC<ConversationalExpenseChatProps> = ({
               updatedData.merchant, 
               updatedData.description, 
               parseFloat(updatedData.amount),
-              categories
+              categories,
+              activeWorkspaceId ?? undefined
             );
             if (aiSuggestion) {
               updatedData.categoryId = aiSuggestion.categoryId;
@@ -693,20 +654,19 @@ const ConversationalExpenseChat: React.FC<ConversationalExpenseChatProps> = ({
         return;
       }
 
-      const expenseDataToSave = {
+      const expenseDataToSave: ExpenseInput = {
         merchant: expenseData.merchant?.trim() || '',
         amount: parseFloat(expenseData.amount || '0'),
         description: expenseData.description?.trim() || '',
         txn_date: expenseData.date || new Date().toISOString().split('T')[0],
-        global_category_id: expenseData.categoryId || null,
+        category_id: expenseData.categoryId || null,
         payment_method_id: expenseData.paymentMethodId || null,
         notes: expenseData.notes?.trim() || null,
         is_reimbursable: expenseData.isReimbursable || false,
         workspace_id: activeWorkspaceId,
-        user_id: currentUser?.id,
-        currency: 'INR',
+        user_id: currentUser.id,
         source: 'manual', // Use 'manual' instead of 'chat' to match enum
-        status: 'unreviewed' as const,
+        status: 'unreviewed',
         category_confidence: expenseData.categoryId ? 0.8 : 0,
         category_source: expenseData.categoryId ? 'ai' : 'manual',
         payment_method_source: 'manual',
@@ -716,7 +676,7 @@ const ConversationalExpenseChat: React.FC<ConversationalExpenseChatProps> = ({
 
       console.log('💾 Submitting expense data from chat:', expenseDataToSave);
       
-      const { error } = await supabase.from('expenses').insert([expenseDataToSave]);
+      const { error } = await expenseRepository.create(expenseDataToSave);
 
       if (error) {
         console.error('Error creating expense:', error);
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, AlertCircle } from 'lucide-react';
+import { exchangeRateService, formatCurrency, ConvertedAmount } from '../lib/currency';
+
+interface ConvertedAmountHintProps {
+  workspaceId: string | null;
+  amount: string;
+  currency: string;
+  baseCurrency: string;
+  date: string;
+}
+
+// Shows what a foreign-currency amount comes to in the workspace base currency
+const ConvertedAmountHint: React.FC<ConvertedAmountHintProps> = ({
+  workspaceId,
+  amount,
+  currency,
+  baseCurrency,
+  date
+}) => {
+  const [converted, setConverted] = useState<ConvertedAmount | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const numericAmount = parseFloat(amount);
+  const isForeign = currency !== baseCurrency;
+
+  useEffect(() => {
+    if (!workspaceId || !isForeign || !(numericAmount > 0)) {
+      setConverted(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    // Debounce lookups while the amount is being typed
+    const timeout = setTimeout(async () => {
+      const result = await exchangeRateService.convert(workspaceId, numericAmount, currency, baseCurrency, date);
+      if (!cancelled) {
+        setConverted(result);
+        setIsLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [workspaceId, numericAmount, currency, baseCurrency, date, isForeign]);
+
+  if (!isForeign || !(numericAmount > 0)) return null;
+
+  if (isLoading) {
+    return (
+      <p className="mt-1 text-sm text-gray-500 flex items-center space-x-1">
+        <RefreshCw className="w-3 h-3 animate-spin" />
+        <span>Converting to {baseCurrency}...</span>
+      </p>
+    );
+  }
+
+  if (!converted) {
+    return (
+      <p className="mt-1 text-sm text-amber-600 flex items-center space-x-1">
+        <AlertCircle className="w-4 h-4" />
+        <span>No {currency} → {baseCurrency} rate yet; this expense won't count towards totals until one is added.</span>
+      </p>
+    );
+  }
+
+  return (
+    <p className="mt-1 text-sm text-gray-600">
+      {formatCurrency(numericAmount, currency)} ≈ <strong>{formatCurrency(converted.amount, baseCurrency)}</strong>
+      <span className="text-gray-400"> at {converted.rate} {baseCurrency}/{currency}{converted.rateDate ? ` (${converted.rateDate})` : ''}</span>
+    </p>
+  );
+};
+
+export default ConvertedAmountHint;
@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Upload, Plus, Trash2, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { exchangeRateRepository, workspaceRepository, ExchangeRate, DEFAULT_BASE_CURRENCY } from '../lib/repositories';
+import { exchangeRateService, parseExchangeRateFile, SUPPORTED_CURRENCIES } from '../lib/currency';
+import { toISODate } from '../lib/date-ranges';
+
+// First currency other than the base, used as the default for new rates
+const defaultRateCurrency = (baseCurrency: string) => SUPPORTED_CURRENCIES.find(code => code !== baseCurrency) || 'USD';
+
+interface CurrencySettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  currentUser: { id: string } | null;
+  // Called after the base currency or rates change so totals can be reloaded
+  onChanged?: (baseCurrency: string) => void;
+}
+
+const CurrencySettingsModal: React.FC<CurrencySettingsModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  currentUser,
+  onChanged
+}) => {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [draft, setDraft] = useState({ currency: defaultRateCurrency(DEFAULT_BASE_CURRENCY), rate: '', date: toISODate(new Date()) });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadRates = async () => {
+    if (!activeWorkspaceId) return;
+
+    const { data, error: listError } = await exchangeRateRepository.listForWorkspace(activeWorkspaceId);
+    if (listError) {
+      console.error('Error loading exchange rates:', listError);
+      setError('Could not load exchange rates');
+    }
+    setRates(data);
+  };
+
+  const applyBaseCurrency = (currency: string) => {
+    setBaseCurrency(currency);
+    setDraft(prev => prev.currency === currency ? { ...prev, currency: defaultRateCurrency(currency) } : prev);
+  };
+
+  useEffect(() => {
+    if (!isOpen || !activeWorkspaceId) return;
+
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+    Promise.all([
+      workspaceRepository.getBaseCurrency(activeWorkspaceId).then(({ data }) => applyBaseCurrency(data)),
+      loadRates()
+    ]).finally(() => setIsLoading(false));
+  }, [isOpen, activeWorkspaceId]);
+
+  // Wraps a save so errors, the spinner and the change callback are handled in one place
+  const runSave = async (action: () => Promise<void>, successMessage: string, nextBaseCurrency = baseCurrency) => {
+    setIsSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      await loadRates();
+      setNotice(successMessage);
+      onChanged?.(nextBaseCurrency);
+    } catch (err) {
+      console.error('Error saving currency settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBaseCurrencyChange = (currency: string) => {
+    if (!activeWorkspaceId || currency === baseCurrency) return;
+    if (!window.confirm(`Report this business in ${currency}? Existing rates are quoted in ${baseCurrency} and will need to be replaced.`)) return;
+
+    runSave(async () => {
+      const { error: updateError } = await workspaceRepository.updateBaseCurrency(activeWorkspaceId, currency);
+      if (updateError) throw new Error(updateError.message || 'Failed to change base currency');
+      applyBaseCurrency(currency);
+    }, `Totals are now reported in ${currency}`, currency);
+  };
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !currentUser) return;
+
+    const rate = parseFloat(draft.rate);
+    if (!(rate > 0)) {
+      setError('Enter a rate greater than 0');
+      return;
+    }
+    if (draft.currency === baseCurrency) {
+      setError(`${baseCurrency} is the base currency`);
+      return;
+    }
+
+    runSave(async () => {
+      await exchangeRateService.saveRate(activeWorkspaceId, currentUser.id, {
+        currency: draft.currency,
+        rate_date: draft.date,
+        rate
+      });
+      setDraft(prev => ({ ...prev, rate: '' }));
+    }, `Saved ${draft.currency} rate for ${draft.date}`);
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !activeWorkspaceId || !currentUser) return;
+
+    const { rates: parsed, errors } = parseExchangeRateFile(await file.text(), file.name, baseCurrency);
+    if (parsed.length === 0) {
+      setError(errors[0] || 'No exchange rates found in this file');
+      return;
+    }
+
+    runSave(
+      () => exchangeRateService.importRates(activeWorkspaceId, currentUser.id, parsed),
+      `Loaded ${parsed.length} rate${parsed.length !== 1 ? 's' : ''}${errors.length > 0 ? `, skipped ${errors.length} invalid row${errors.length !== 1 ? 's' : ''}` : ''}`
+    );
+  };
+
+  const handleDeleteRate = (rate: ExchangeRate) => {
+    if (!activeWorkspaceId) return;
+    runSave(() => exchangeRateService.deleteRate(activeWorkspaceId, rate.id), `Deleted ${rate.currency} rate for ${rate.rate_date}`);
+  };
+
+  if (!isOpen) return null;
+
+  const currencyOptions = [...new Set([baseCurrency, ...SUPPORTED_CURRENCIES])];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Currencies</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {notice && (
+            <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{notice}</span>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Base currency */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">Base currency</label>
+                <p className="text-sm text-gray-500 mb-2">Dashboard totals and reports are converted to this currency.</p>
+                <select
+                  value={baseCurrency}
+                  onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                  disabled={isSaving}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                >
+                  {currencyOptions.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Add a rate */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-700">Exchange rates</h3>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isSaving}
+                    title="CSV with currency,rate,date columns or a JSON rates file"
+                    className="flex items-center space-x-1 text-sm text-brand-muted-teal hover:text-brand-dark-teal disabled:opacity-50"
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span>Load from file</span>
+                  </button>
+                </div>
+
+                <form onSubmit={handleAddRate} className="flex items-end space-x-2 mb-4">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">1 unit of</label>
+                    <select
+                      value={draft.currency}
+                      onChange={(e) => setDraft(prev => ({ ...prev, currency: e.target.value }))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      {currencyOptions.filter(code => code !== baseCurrency).map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">equals ({baseCurrency})</label>
+                    <input
+                      type="number"
+                      value={draft.rate}
+                      onChange={(e) => setDraft(prev => ({ ...prev, rate: e.target.value }))}
+                      min="0"
+                      step="any"
+                      placeholder="0.00"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">on</label>
+                    <input
+                      type="date"
+                      value={draft.date}
+                      onChange={(e) => setDraft(prev => ({ ...prev, date: e.target.value }))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={isSaving || !draft.rate}
+                    className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                    <span>Add</span>
+                  </button>
+                </form>
+
+                {rates.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    No exchange rates yet. Expenses in other currencies won't count towards totals until a rate is added.
+                  </p>
+                ) : (
+                  <div className="border border-gray-200 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-gray-600">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-medium">Currency</th>
+                          <th className="px-3 py-2 text-left font-medium">Date</th>
+                          <th className="px-3 py-2 text-right font-medium">Rate ({baseCurrency})</th>
+                          <th className="px-3 py-2 text-left font-medium">Source</th>
+                          <th className="px-3 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {rates.map(rate => (
+                          <tr key={rate.id}>
+                            <td className="px-3 py-2 font-medium text-gray-900">{rate.currency}</td>
+                            <td className="px-3 py-2 text-gray-600">{rate.rate_date}</td>
+                            <td className="px-3 py-2 text-right text-gray-900">{rate.rate}</td>
+                            <td className="px-3 py-2 text-gray-500 capitalize">{rate.source}</td>
+                            <td className="px-3 py-2 text-right">
+                              <button
+                                onClick={() => handleDeleteRate(rate)}
+                                disabled={isSaving}
+                                title="Delete rate"
+                                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurrencySettingsModal;
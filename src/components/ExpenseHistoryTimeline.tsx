@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, Sparkles, Upload, Mic, User, Clock } from 'lucide-react';
+import { AuditSource } from '../lib/repositories';
+import { auditService, ExpenseHistoryEntry, AUDIT_ACTION_LABELS, AUDIT_SOURCE_LABELS } from '../lib/audit';
+
+interface ExpenseHistoryTimelineProps {
+  expenseId: string;
+}
+
+const SOURCE_ICONS: Record<AuditSource, React.ElementType> = {
+  manual: User,
+  ai: Sparkles,
+  import: Upload,
+  voice: Mic,
+  system: Clock
+};
+
+const SOURCE_COLORS: Record<AuditSource, string> = {
+  manual: 'bg-brand-soft-gray/20 text-brand-text-dark',
+  ai: 'bg-purple-100 text-purple-700',
+  import: 'bg-blue-100 text-blue-700',
+  voice: 'bg-amber-100 text-amber-700',
+  system: 'bg-gray-100 text-gray-600'
+};
+
+// Every recorded change to one expense: who made it, when, from where, and what changed
+const ExpenseHistoryTimeline: React.FC<ExpenseHistoryTimelineProps> = ({ expenseId }) => {
+  const [entries, setEntries] = useState<ExpenseHistoryEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+
+    auditService.loadExpenseHistory(expenseId)
+      .then(loaded => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch(err => {
+        console.error('Error loading expense history:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Could not load history');
+          setEntries([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId]);
+
+  if (!entries) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="py-12 text-center text-sm text-brand-text-muted">No changes recorded for this expense yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-brand-soft-gray/30 ml-3 space-y-6">
+      {entries.map(entry => {
+        const SourceIcon = SOURCE_ICONS[entry.source];
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className={`absolute -left-[13px] flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${SOURCE_COLORS[entry.source]}`}>
+              <SourceIcon className="w-3 h-3" />
+            </span>
+            <div className="flex flex-wrap items-center gap-x-2 text-sm">
+              <span className="font-medium text-brand-text-dark">
+                {entry.actor_name || entry.actor_email || (entry.source === 'system' ? 'Automatic' : 'Someone')}
+              </span>
+              <span className="text-brand-text-muted">{AUDIT_ACTION_LABELS[entry.action]}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SOURCE_COLORS[entry.source]}`}>
+                {AUDIT_SOURCE_LABELS[entry.source]}
+              </span>
+            </div>
+            <p className="text-xs text-brand-text-muted">{new Date(entry.created_at).toLocaleString()}</p>
+            {entry.changes.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {entry.changes.map(change => (
+                  <li key={change.field} className="text-sm">
+                    <span className="text-brand-text-muted">{change.label}: </span>
+                    <span className="text-red-600 line-through">{change.from}</span>
+                    <span className="text-brand-text-muted"> → </span>
+                    <span className="text-green-700">{change.to}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ExpenseHistoryTimeline;
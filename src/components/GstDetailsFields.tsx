@@ -0,0 +1,150 @@
+import React from 'react';
+import { AlertCircle, Calculator } from 'lucide-react';
+import { GstDetails } from '../lib/repositories';
+import { GST_RATES, calculateGst, gstTotal, gstWarnings } from '../lib/gst';
+import { formatCurrency } from '../lib/currency';
+
+interface GstDetailsFieldsProps {
+  details: GstDetails;
+  currency: string;
+  // Expense amount the GST is calculated from
+  amount: number;
+  disabled?: boolean;
+  onChange: (details: GstDetails) => void;
+}
+
+// Empty inputs are kept as null rather than 0
+const parseOptional = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// GSTIN, HSN/SAC, rate and the CGST/SGST/IGST charged on an expense
+const GstDetailsFields: React.FC<GstDetailsFieldsProps> = ({
+  details,
+  currency,
+  amount,
+  disabled,
+  onChange
+}) => {
+  const update = (changes: Partial<GstDetails>) => onChange({ ...details, ...changes });
+
+  // IGST when IGST was already entered, CGST + SGST otherwise
+  const calculateFromRate = () => {
+    if (details.gst_rate === null || amount <= 0) return;
+    const interState = (details.igst_amount ?? 0) > 0;
+    update(calculateGst(amount, details.gst_rate, details.tax_inclusive, interState));
+  };
+
+  const warnings = gstWarnings(details);
+  const total = gstTotal(details);
+
+  return (
+    <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-700">GST</h4>
+        {total > 0 && (
+          <span className="text-xs text-gray-500">Total GST {formatCurrency(total, currency)}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Vendor GSTIN</label>
+          <input
+            type="text"
+            value={details.vendor_gstin ?? ''}
+            onChange={(e) => update({ vendor_gstin: e.target.value.toUpperCase() || null })}
+            disabled={disabled}
+            maxLength={15}
+            placeholder="e.g. 27AAPFU0939F1ZV"
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">HSN/SAC code</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={details.hsn_sac_code ?? ''}
+            onChange={(e) => update({ hsn_sac_code: e.target.value.replace(/\D/g, '') || null })}
+            disabled={disabled}
+            maxLength={8}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Rate</label>
+          <select
+            value={details.gst_rate ?? ''}
+            onChange={(e) => update({ gst_rate: parseOptional(e.target.value) })}
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="">—</option>
+            {GST_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate}%</option>
+            ))}
+          </select>
+        </div>
+        {(['cgst_amount', 'sgst_amount', 'igst_amount'] as const).map(key => (
+          <div key={key}>
+            <label className="block text-xs text-gray-500 mb-1">{key.split('_')[0].toUpperCase()}</label>
+            <input
+              type="number"
+              value={details[key] ?? ''}
+              onChange={(e) => update({ [key]: parseOptional(e.target.value) })}
+              disabled={disabled}
+              min="0"
+              step="0.01"
+              className={`${inputClassName} text-right`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={details.tax_inclusive}
+            onChange={(e) => update({ tax_inclusive: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>Amount includes GST</span>
+        </label>
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={details.itc_eligible}
+            onChange={(e) => update({ itc_eligible: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>Eligible for input tax credit</span>
+        </label>
+        <button
+          type="button"
+          onClick={calculateFromRate}
+          disabled={disabled || details.gst_rate === null || amount <= 0}
+          className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <Calculator className="w-4 h-4" />
+          <span>Calculate from rate</span>
+        </button>
+      </div>
+
+      {warnings.map(warning => (
+        <p key={warning} className="flex items-center space-x-1 text-xs text-amber-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{warning}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default GstDetailsFields;
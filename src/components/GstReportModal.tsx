@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, Loader2, AlertCircle } from 'lucide-react';
+import { gstService, GstReport, GstRateSummary } from '../lib/gst';
+import { formatCurrency } from '../lib/currency';
+
+interface GstReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  workspaceName: string;
+}
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// GST returns are filed monthly, so periods are whole months
+const monthRange = (monthsBack: number) => {
+  const now = new Date();
+  return {
+    start: toDateString(new Date(now.getFullYear(), now.getMonth() - monthsBack, 1)),
+    end: toDateString(new Date(now.getFullYear(), now.getMonth() - monthsBack + 1, 0))
+  };
+};
+
+const PRESETS = [
+  { label: 'This month', range: () => monthRange(0) },
+  { label: 'Last month', range: () => monthRange(1) }
+];
+
+const inr = (amount: number) => formatCurrency(amount, 'INR');
+
+const SummaryCells: React.FC<{ summary: GstRateSummary }> = ({ summary }) => (
+  <>
+    <td className="px-3 py-2 text-right text-gray-600">{summary.invoice_count}</td>
+    <td className="px-3 py-2 text-right text-gray-600">{inr(summary.taxable_value)}</td>
+    <td className="px-3 py-2 text-right text-gray-600">{inr(summary.cgst_amount)}</td>
+    <td className="px-3 py-2 text-right text-gray-600">{inr(summary.sgst_amount)}</td>
+    <td className="px-3 py-2 text-right text-gray-600">{inr(summary.igst_amount)}</td>
+    <td className="px-3 py-2 text-right font-medium text-gray-900">{inr(summary.total_tax)}</td>
+  </>
+);
+
+const SummaryHeader: React.FC<{ label: string }> = ({ label }) => (
+  <thead className="bg-gray-50 text-gray-600">
+    <tr>
+      <th className="px-3 py-2 text-left font-medium">{label}</th>
+      <th className="px-3 py-2 text-right font-medium">Invoices</th>
+      <th className="px-3 py-2 text-right font-medium">Taxable value</th>
+      <th className="px-3 py-2 text-right font-medium">CGST</th>
+      <th className="px-3 py-2 text-right font-medium">SGST</th>
+      <th className="px-3 py-2 text-right font-medium">IGST</th>
+      <th className="px-3 py-2 text-right font-medium">Total GST</th>
+    </tr>
+  </thead>
+);
+
+const GstReportModal: React.FC<GstReportModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  workspaceName
+}) => {
+  const [range, setRange] = useState(() => monthRange(0));
+  const [report, setReport] = useState<GstReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !activeWorkspaceId || !range.start || !range.end) return;
+
+    setIsLoading(true);
+    setError('');
+    gstService.loadReport(activeWorkspaceId, range)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the GST report'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, activeWorkspaceId, range]);
+
+  if (!isOpen) return null;
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    if (!report) return;
+    try {
+      gstService.exportReport(report, format, workspaceName);
+    } catch (err) {
+      console.error('Error exporting GST report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export the GST report');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">GST Report</h2>
+            <p className="text-sm text-gray-500">Input tax credit on INR expenses with GST details; expenses recorded in other currencies aren't included</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">From</label>
+              <input
+                type="date"
+                value={range.start}
+                onChange={(e) => setRange(prev => ({ ...prev, start: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">To</label>
+              <input
+                type="date"
+                value={range.end}
+                onChange={(e) => setRange(prev => ({ ...prev, end: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+              />
+            </div>
+            {PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => setRange(preset.range())}
+                className="px-3 py-2 text-sm text-brand-muted-teal hover:text-brand-dark-teal font-medium transition-colors"
+              >
+                {preset.label}
+              </button>
+            ))}
+            <div className="flex-1" />
+            {(['csv', 'xlsx'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!report || report.invoices.length === 0 || isLoading}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>{format.toUpperCase()}</span>
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              <span>Loading GST report...</span>
+            </div>
+          ) : report && report.invoices.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              No expenses with GST details in this period. Add a vendor GSTIN or the GST charged to INR expenses to see them here.
+            </p>
+          ) : report && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {([
+                  ['Claimable GST', report.claimable.total_tax],
+                  ['Taxable value', report.claimable.taxable_value],
+                  ['CGST + SGST', report.claimable.cgst_amount + report.claimable.sgst_amount],
+                  ['IGST', report.claimable.igst_amount]
+                ] as const).map(([label, amount]) => (
+                  <div key={label} className="p-3 bg-brand-soft-gray/10 rounded-lg">
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <p className="text-lg font-semibold text-brand-text-dark">{inr(amount)}</p>
+                  </div>
+                ))}
+              </div>
+
+              {report.ineligibleTax > 0 && (
+                <p className="text-sm text-gray-500">
+                  {inr(report.ineligibleTax)} of GST is on expenses marked not eligible for input tax credit or without a valid vendor GSTIN and isn't included above.
+                </p>
+              )}
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <SummaryHeader label="Rate" />
+                  <tbody className="divide-y divide-gray-100">
+                    {report.byRate.map(summary => (
+                      <tr key={String(summary.gst_rate)}>
+                        <td className="px-3 py-2 font-medium text-gray-900">
+                          {summary.gst_rate === null ? 'Unknown' : `${summary.gst_rate}%`}
+                        </td>
+                        <SummaryCells summary={summary} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <SummaryHeader label="Vendor" />
+                  <tbody className="divide-y divide-gray-100">
+                    {report.byVendor.map(vendor => (
+                      <tr key={vendor.vendor_gstin}>
+                        <td className="px-3 py-2">
+                          <p className="font-medium text-gray-900">{vendor.merchant}</p>
+                          <p className="text-xs font-mono text-gray-500">{vendor.vendor_gstin}</p>
+                        </td>
+                        <SummaryCells summary={vendor} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GstReportModal;
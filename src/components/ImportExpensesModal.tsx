@@ -0,0 +1,388 @@
+import React, { useState, useRef } from 'react';
+import { X, ArrowLeft, Upload, FileText, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { loadExpenseFormData, workspaceRepository } from '../lib/repositories';
+import {
+  statementImportService,
+  IMPORT_FIELDS,
+  ParsedStatement,
+  ColumnMapping,
+  DateFormat,
+  ImportRow,
+  ImportField
+} from '../lib/statement-import';
+
+interface ImportExpensesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  currentUser: { id: string } | null;
+  onImported?: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+const ImportExpensesModal: React.FC<ImportExpensesModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  currentUser,
+  onImported
+}) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DD/MM/YYYY');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ imported: number; categorized: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleClose = () => {
+    setStep('upload');
+    setFileName('');
+    setStatement(null);
+    setMapping(null);
+    setRows([]);
+    setSelectedRows(new Set());
+    setError('');
+    setResult(null);
+    onClose();
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const parsed = await statementImportService.parseFile(file);
+      setFileName(file.name);
+      setStatement(parsed);
+      setMapping(parsed.suggestedMapping);
+      setDateFormat(parsed.suggestedDateFormat);
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error parsing statement:', err);
+      setError(err instanceof Error ? err.message : 'Could not read this file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => prev && { ...prev, [field]: value === '' ? null : Number(value) });
+  };
+
+  const isMappingComplete = !!mapping && IMPORT_FIELDS.every(({ field, required }) => !required || mapping[field] !== null);
+
+  const handlePreview = async () => {
+    if (!statement || !mapping || !activeWorkspaceId) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      // Rows without a currency column are recorded in the workspace base currency
+      const { data: baseCurrency } = await workspaceRepository.getBaseCurrency(activeWorkspaceId);
+      const mapped = statementImportService.mapRows(statement.rows, mapping, dateFormat, baseCurrency);
+      const checked = await statementImportService.findDuplicates(activeWorkspaceId, mapped);
+      setRows(checked);
+      // Pre-select valid spending rows that don't look like duplicates
+      setSelectedRows(new Set(
+        checked
+          .filter(row => row.errors.length === 0 && !row.duplicateOf && !row.duplicateOfRow && !row.isCredit)
+          .map(row => row.rowNumber)
+      ));
+      setStep('preview');
+    } catch (err) {
+      console.error('Error preparing import preview:', err);
+      setError(err instanceof Error ? err.message : 'Could not prepare the preview');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!activeWorkspaceId || !currentUser) return;
+
+    const accepted = rows.filter(row => selectedRows.has(row.rowNumber) && row.errors.length === 0);
+    if (accepted.length === 0) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const { categories } = await loadExpenseFormData(activeWorkspaceId);
+      const outcome = await statementImportService.importRows(activeWorkspaceId, currentUser.id, accepted, categories);
+      setResult(outcome);
+      setStep('done');
+      onImported?.();
+    } catch (err) {
+      console.error('Error importing expenses:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const duplicateCount = rows.filter(row => row.duplicateOf || row.duplicateOfRow).length;
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            {(step === 'mapping' || step === 'preview') && (
+              <button
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                disabled={isWorking}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            )}
+            <h2 className="text-xl font-bold text-gray-900">
+              {step === 'upload' && 'Import Expenses'}
+              {step === 'mapping' && 'Map Columns'}
+              {step === 'preview' && 'Review Import'}
+              {step === 'done' && 'Import Complete'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="text-center">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.ofx,.qfx,text/csv"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isWorking}
+                className="w-full p-10 border-2 border-dashed border-gray-300 rounded-xl hover:border-brand-muted-teal transition-colors disabled:opacity-50"
+              >
+                {isWorking ? (
+                  <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin mx-auto mb-3" />
+                ) : (
+                  <Upload className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+                )}
+                <p className="font-medium text-gray-800">Choose a bank statement</p>
+                <p className="text-sm text-gray-500 mt-1">CSV, OFX or QFX exports from your bank or card provider</p>
+              </button>
+            </div>
+          )}
+
+          {step === 'mapping' && statement && mapping && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <FileText className="w-4 h-4" />
+                <span>{fileName} · {statement.rows.length} rows</span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label}{required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                    >
+                      <option value="">{required ? 'Select a column' : 'Not mapped'}</option>
+                      {statement.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date format</label>
+                  <select
+                    value={dateFormat}
+                    onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                  >
+                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                  </select>
+                </div>
+              </div>
+
+              {/* Raw sample so the mapping can be checked against the file */}
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {statement.headers.map((header, index) => (
+                        <th key={index} className="px-3 py-2 text-left font-medium text-gray-600">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {statement.rows.slice(0, 5).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {statement.headers.map((_, index) => (
+                          <td key={index} className="px-3 py-2 text-gray-700 whitespace-nowrap">{row[index]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handlePreview}
+                  disabled={!isMappingComplete || isWorking}
+                  className="flex items-center space-x-2 px-4 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>Preview</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="px-2 py-1 rounded-full bg-green-50 text-green-700">{selectedRows.size} selected</span>
+                {duplicateCount > 0 && (
+                  <span className="px-2 py-1 rounded-full bg-yellow-50 text-yellow-700">{duplicateCount} possible duplicates</span>
+                )}
+                {invalidCount > 0 && (
+                  <span className="px-2 py-1 rounded-full bg-red-50 text-red-700">{invalidCount} with problems</span>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-96">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2"></th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Date</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Merchant</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-600">Amount</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Notes</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Check</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50/50' : row.duplicateOf || row.duplicateOfRow ? 'bg-yellow-50/50' : ''}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedRows.has(row.rowNumber)}
+                            disabled={row.errors.length > 0}
+                            onChange={() => toggleRow(row.rowNumber)}
+                            className="rounded border-gray-300 text-brand-dark-teal focus:ring-brand-dark-teal"
+                          />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-700">{row.txn_date || '—'}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.merchant || '—'}</td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap text-gray-900">
+                          {row.amount.toFixed(2)} {row.currency}
+                        </td>
+                        <td className="px-3 py-2 text-gray-500 max-w-xs truncate">{row.notes}</td>
+                        <td className="px-3 py-2 text-xs whitespace-nowrap">
+                          {row.errors.length > 0 && <span className="text-red-600">{row.errors.join(', ')}</span>}
+                          {row.errors.length === 0 && row.duplicateOf && (
+                            <span className="text-yellow-700">
+                              Possible duplicate of {row.duplicateOf.merchant} ({row.duplicateOf.txn_date})
+                            </span>
+                          )}
+                          {row.errors.length === 0 && !row.duplicateOf && row.duplicateOfRow && (
+                            <span className="text-yellow-700">Same as row {row.duplicateOfRow}</span>
+                          )}
+                          {row.errors.length === 0 && !row.duplicateOf && !row.duplicateOfRow && row.isCredit && (
+                            <span className="text-gray-500">Credit / refund</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  Imported expenses land in the inbox as unreviewed and are categorized automatically.
+                </p>
+                <button
+                  onClick={handleImport}
+                  disabled={selectedRows.size === 0 || isWorking}
+                  className="flex items-center space-x-2 px-4 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>{isWorking ? 'Importing...' : `Import ${selectedRows.size} expenses`}</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="text-center py-6">
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+              <p className="text-lg font-semibold text-gray-900">
+                Imported {result.imported} expense{result.imported !== 1 ? 's' : ''}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                {result.categorized} categorized automatically. Review them in your inbox.
+              </p>
+              <button
+                onClick={handleClose}
+                className="mt-6 px-4 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExpensesModal;
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, DollarSign, Calendar, Building, FileText, AlertCircle, CheckCircle, Loader2, Tag, CreditCard, Receipt, Brain, Sparkles, Edit3 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { expenseRepository, loadExpenseFormData, Category, PaymentMethod, ExpenseInput, DEFAULT_BASE_CURRENCY } from '../lib/repositories';
 import { aiCategorizationService, AICategorizationResult, ExpenseContext } from '../lib/ai-categorization';
+import { SUPPORTED_CURRENCIES } from '../lib/currency';
+import ConvertedAmountHint from './ConvertedAmountHint';
+import RecurrencePicker from './RecurrencePicker';
+import { RecurrencePreset, resolveRecurrence, recurringExpenseService } from '../lib/recurrence';
 
 interface ManualExpensePageProps {
   onBack: () => void;
@@ -10,25 +14,11 @@ interface ManualExpensePageProps {
   onExpenseAdded?: () => void;
 }
 
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-  color: string;
-  icon: string;
-}
-
-interface PaymentMethod {
-  id: string;
-  name: string;
-  description: string;
-  type: string;
-}
-
 interface FormData {
   date: string;
   merchant: string;
   amount: string;
+  currency: string;
   description: string;
   categoryId: string;
   customCategory: string;
@@ -43,6 +33,7 @@ interface FormErrors {
   description?: string;
   categoryId?: string;
   customCategory?: string;
+  repeat?: string;
   submit?: string;
 }
 
@@ -56,6 +47,7 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
     date: new Date().toISOString().split('T')[0], // Today's date
     merchant: '',
     amount: '',
+    currency: DEFAULT_BASE_CURRENCY,
     description: '',
     categoryId: '',
     customCategory: '',
@@ -66,6 +58,7 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
 
   const [categories, setCategories] = useState<Category[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccessToast, setShowSuccessToast] = useState(false);
@@ -75,6 +68,7 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
   const [isAICategorizing, setIsAICategorizing] = useState(false);
   const [aiResult, setAiResult] = useState<AICategorizationResult | null>(null);
   const [showAIBadge, setShowAIBadge] = useState(false);
+  const [repeat, setRepeat] = useState<{ preset: RecurrencePreset; customRule: string }>({ preset: 'none', customRule: '' });
 
   // Check if form should be disabled
   const isFormDisabled = !activeWorkspaceId || !currentUser;
@@ -96,8 +90,7 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
       activeWorkspaceId,
       currentUser: currentUser?.id,
       supabaseUrl: import.meta.env.VITE_SUPABASE_URL ? 'Set' : 'Missing',
-      supabaseKey: import.meta.env.VITE_SUPABASE_ANON_KEY ? 'Set' : 'Missing',
-      openaiKey: import.meta.env.VITE_OPENAI_API_KEY ? 'Set' : 'Missing'
+      supabaseKey: import.meta.env.VITE_SUPABASE_ANON_KEY ? 'Set' : 'Missing'
     });
   }, [activeWorkspaceId, currentUser]);
 
@@ -135,75 +128,11 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
     
     setIsLoadingData(true);
     try {
-      console.log('🔍 Starting to fetch categories for workspace:', activeWorkspaceId);
-      
-      // Try to fetch categories from the new global categories system first
-      console.log('📡 Attempting to fetch global categories...');
-      const { data: globalCategoriesData, error: globalCategoriesError } = await supabase
-        .from('workspace_category_mappings')
-        .select(`
-          id,
-          global_categories!inner(
-            id,
-            name,
-            description,
-            color,
-            icon
-          )
-        `)
-        .eq('workspace_id', activeWorkspaceId)
-        .eq('is_active', true)
-        .order('name', { foreignTable: 'global_categories' });
-
-      console.log('📊 Global categories response:', { data: globalCategoriesData, error: globalCategoriesError });
-
-      if (!globalCategoriesError && globalCategoriesData && globalCategoriesData.length > 0) {
-        // FIXED: Use the global_categories.id instead of the mapping id
-        const transformedCategories = globalCategoriesData.map((item: any) => ({
-          id: item.global_categories.id, // Use the actual category ID, not the mapping ID
-          name: item.global_categories.name,
-          description: item.global_categories.description,
-          color: item.global_categories.color,
-          icon: item.global_categories.icon
-        }));
-        
-        setCategories(transformedCategories);
-        console.log('✅ Successfully fetched global categories:', transformedCategories.length, transformedCategories);
-      } else {
-        console.log('⚠️ Global categories failed or empty, falling back to old method');
-        console.log('❌ Error details:', globalCategoriesError);
-        console.log('📊 Data received:', globalCategoriesData);
-        
-        // FIXED: Use global_categories table directly instead of old categories table
-        console.log('📡 Attempting to fetch global categories directly...');
-        const { data: fallbackData, error: fallbackError } = await supabase
-          .from('global_categories')
-          .select('id, name, description, color, icon')
-          .order('name');
-        
-        if (fallbackError) {
-          console.error('❌ Direct global categories fetch failed:', fallbackError);
-          // Set empty categories array as last resort
-          setCategories([]);
-        } else {
-          setCategories(fallbackData || []);
-          console.log('✅ Fetched global categories directly:', fallbackData?.length || 0);
-        }
-      }
-
-      // Fetch payment methods (unchanged)
-      const { data: paymentMethodsData, error: paymentMethodsError } = await supabase
-        .from('payment_methods')
-        .select('id, name, description, type')
-        .eq('workspace_id', activeWorkspaceId)
-        .order('name');
-
-      if (paymentMethodsError) {
-        console.error('Error fetching payment methods', paymentMethodsError);
-      } else {
-        setPaymentMethods(paymentMethodsData || []);
-      }
-
+      const { categories, paymentMethods, baseCurrency } = await loadExpenseFormData(activeWorkspaceId);
+      setCategories(categories);
+      setPaymentMethods(paymentMethods);
+      setBaseCurrency(baseCurrency);
+      setFormData(prev => ({ ...prev, currency: prev.amount ? prev.currency : baseCurrency }));
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -218,16 +147,17 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
     setIsAICategorizing(true);
     try {
       const expense: ExpenseContext = {
+        workspaceId: activeWorkspaceId ?? undefined,
         merchant: formData.merchant,
         amount: parseFloat(formData.amount) || 0,
-        currency: 'INR',
+        currency: formData.currency,
         date: formData.date,
         description: formData.description,
         notes: formData.notes
       };
 
       console.log('🚀 Starting AI categorization for expense:', expense);
-      const result = await aiCategorizationService.categorizeExpense(expense);
+      const result = await aiCategorizationService.categorizeExpense(expense, categories);
       console.log('🤖 AI categorization result:', result);
       setAiResult(result);
       
@@ -252,46 +182,10 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
     console.log('📊 Available categories:', categories);
     console.log('💳 Available payment methods:', paymentMethods);
     
-    // Enhanced category matching with multiple strategies
-    let matchedCategory = null;
-    
-    // Strategy 1: Exact case-insensitive match
-    matchedCategory = categories.find(cat => 
-      cat.name.toLowerCase() === result.category.toLowerCase()
-    );
-    
-    // Strategy 2: Partial match (if exact fails)
-    if (!matchedCategory) {
-      matchedCategory = categories.find(cat => 
-        cat.name.toLowerCase().includes(result.category.toLowerCase()) ||
-        result.category.toLowerCase().includes(cat.name.toLowerCase())
-      );
-    }
-    
-    // Strategy 3: Fuzzy matching for common variations
-    if (!matchedCategory) {
-      const categoryVariations: Record<string, string[]> = {
-        'Office Supplies': ['office supplies', 'office', 'supplies', 'stationary', 'stationery', 'printer', 'desk', 'chair', 'mugs', 'software'],
-        'Food & Dining': ['food & dining', 'food', 'dining', 'meals', 'restaurant', 'lunch', 'coffee', 'cafe', 'starbucks'],
-        'Transportation': ['transportation', 'transport', 'travel', 'commute', 'uber', 'lyft', 'taxi', 'gas'],
-        'Utilities': ['utilities', 'utility', 'bills', 'services', 'water', 'electric', 'internet', 'water bill'],
-        'Entertainment': ['entertainment', 'entertain', 'leisure', 'recreation'],
-        'Healthcare': ['healthcare', 'health', 'medical', 'doctor'],
-        'Travel': ['travel', 'trip', 'vacation', 'business travel'],
-        'Shopping': ['shopping', 'retail', 'purchase', 'buy', 'amazon', 'walmart', 'target'],
-        'Education': ['education', 'learning', 'training', 'course'],
-        'Insurance': ['insurance', 'insure', 'coverage', 'policy'],
-        'Taxes': ['taxes', 'tax', 'taxation', 'irs'],
-        'Other': ['other', 'miscellaneous', 'misc', 'general', 'paid ads']
-      };
-      
-      const variations = categoryVariations[result.category] || [];
-      matchedCategory = categories.find(cat => 
-        variations.some(variation => 
-          cat.name.toLowerCase().includes(variation.toLowerCase())
-        )
-      );
-    }
+    // The AI answers with one of the workspace's category IDs
+    const matchedCategory = result.categoryId
+      ? categories.find(cat => cat.id === result.categoryId)
+      : undefined;
     
     if (matchedCategory) {
       console.log('✅ Found matching category:', matchedCategory);
@@ -433,6 +327,7 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
       date: new Date().toISOString().split('T')[0],
       merchant: '',
       amount: '',
+      currency: baseCurrency,
       description: '',
       categoryId: '',
       customCategory: '',
@@ -443,6 +338,7 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
     setErrors({});
     setTouched({});
     setAiResult(null);
+    setRepeat({ preset: 'none', customRule: '' });
   };
 
   // Show success toast
@@ -465,23 +361,25 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
     const amountError = validateAmount(formData.amount);
     const categoryError = validateCategory(formData.categoryId);
     const customCategoryError = validateCustomCategory(formData.customCategory);
+    const recurrence = resolveRecurrence(repeat.preset, repeat.customRule, formData.date);
 
     setErrors({
       merchant: merchantError,
       amount: amountError,
       categoryId: categoryError,
-      customCategory: customCategoryError
+      customCategory: customCategoryError,
+      repeat: recurrence.error
     });
 
     // Check if there are validation errors
-    if (merchantError || amountError || categoryError || customCategoryError) return;
+    if (merchantError || amountError || categoryError || customCategoryError || recurrence.error) return;
 
     setIsSubmitting(true);
 
     try {
       // Debug: Log the data being inserted
-      const insertData = {
-        workspace_id: activeWorkspaceId,
+      const insertData: ExpenseInput = {
+        workspace_id: activeWorkspaceId!,
         user_id: currentUser!.id,
         source: 'manual', // Default source for manual entry
         status: 'unreviewed',
@@ -489,12 +387,12 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
         merchant: formData.merchant.trim(),
         amount: parseFloat(formData.amount),
         description: formData.description.trim(),
-        currency: 'INR', // Default currency
-        global_category_id: formData.categoryId || null, // FIXED: Use global_category_id instead of category_id
+        currency: formData.currency,
+        category_id: formData.categoryId || null,
         category_confidence: aiResult?.confidence || null,
-        category_source: aiResult ? 'ai' : 'manual',
+        category_source: !aiResult ? 'manual' : aiResult.matchedRule?.setsCategory ? 'rule' : 'ai',
         payment_method_id: formData.paymentMethodId || null,
-        payment_method_source: aiResult ? 'ai' : 'manual',
+        payment_method_source: !aiResult ? 'manual' : aiResult.matchedRule?.setsPaymentMethod ? 'rule' : 'ai',
         payment_method_confidence: aiResult?.confidence || null,
         notes: formData.notes.trim() || null,
         is_reimbursable: formData.isReimbursable
@@ -507,15 +405,32 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
       console.log('🔍 Debug: Available categories:', categories);
       
       // Insert into Supabase
-      const { error } = await supabase
-        .from('expenses')
-        .insert(insertData);
+      const { error } = await expenseRepository.create(insertData);
 
       if (error) {
         console.error('Supabase error:', error);
         throw error;
       }
 
+      // Future occurrences are generated from a template; this one is already recorded
+      if (recurrence.rule) {
+        await recurringExpenseService.createTemplate({
+          ...recurrence.rule,
+          workspace_id: insertData.workspace_id,
+          user_id: insertData.user_id,
+          merchant: insertData.merchant,
+          amount: insertData.amount,
+          currency: insertData.currency ?? null,
+          description: insertData.description || null,
+          category_id: insertData.category_id ?? null,
+          payment_method_id: insertData.payment_method_id ?? null,
+          notes: insertData.notes ?? null,
+          is_reimbursable: insertData.is_reimbursable ?? false,
+          rrule: repeat.preset === 'custom' ? repeat.customRule.trim() : null,
+          start_date: formData.date
+        }, { startDateRecorded: true });
+      }
+
       // Success
       showToast();
       clearForm();
@@ -678,30 +593,51 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
                 <label htmlFor="amount" className="block text-sm font-semibold text-brand-text-dark mb-2">
                   Amount <span className="text-brand-muted-teal">*</span>
                 </label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-brand-soft-gray" />
-                  <input
-                    type="number"
-                    id="amount"
-                    name="amount"
-                    value={formData.amount}
+                <div className="flex space-x-2">
+                  <div className="relative flex-1">
+                    <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-brand-soft-gray" />
+                    <input
+                      type="number"
+                      id="amount"
+                      name="amount"
+                      value={formData.amount}
+                      onChange={handleInputChange}
+                      onBlur={handleBlur}
+                      disabled={isFormDisabled || isSubmitting}
+                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
+                        getFieldStatus('amount') === 'error' 
+                          ? 'border-red-500 bg-red-50' 
+                          : getFieldStatus('amount') === 'success'
+                          ? 'border-green-500 bg-green-50'
+                          : 'border-brand-soft-gray/50 hover:border-brand-muted-teal'
+                      }`}
+                      placeholder="0.00"
+                      step="0.01"
+                      min="0"
+                      max="999999.99"
+                      required
+                    />
+                  </div>
+                  <select
+                    name="currency"
+                    value={formData.currency}
                     onChange={handleInputChange}
-                    onBlur={handleBlur}
                     disabled={isFormDisabled || isSubmitting}
-                    className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
-                      getFieldStatus('amount') === 'error' 
-                        ? 'border-red-500 bg-red-50' 
-                        : getFieldStatus('amount') === 'success'
-                        ? 'border-green-500 bg-green-50'
-                        : 'border-brand-soft-gray/50 hover:border-brand-muted-teal'
-                    }`}
-                    placeholder="0.00"
-                    step="0.01"
-                    min="0"
-                    max="999999.99"
-                    required
-                  />
+                    aria-label="Currency"
+                    className="px-3 py-3 border border-brand-soft-gray/50 rounded-xl focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent hover:border-brand-muted-teal disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  >
+                    {[...new Set([baseCurrency, formData.currency, ...SUPPORTED_CURRENCIES])].map(code => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
                 </div>
+                <ConvertedAmountHint
+                  workspaceId={activeWorkspaceId}
+                  amount={formData.amount}
+                  currency={formData.currency}
+                  baseCurrency={baseCurrency}
+                  date={formData.date}
+                />
                 {errors.amount && touched.amount && (
                   <p className="mt-2 text-sm text-red-600 flex items-center space-x-1">
                     <AlertCircle className="w-4 h-4" />
@@ -927,6 +863,19 @@ const ManualExpensePage: React.FC<ManualExpensePageProps> = ({
                 </label>
               </div>
 
+              {/* Repeat */}
+              <RecurrencePicker
+                preset={repeat.preset}
+                customRule={repeat.customRule}
+                startDate={formData.date}
+                disabled={isFormDisabled || isSubmitting}
+                error={errors.repeat}
+                onChange={(preset, customRule) => {
+                  setRepeat({ preset, customRule });
+                  setErrors(prev => ({ ...prev, repeat: undefined }));
+                }}
+              />
+
               {/* Notes Field */}
               <div>
                 <label htmlFor="notes" className="block text-sm font-semibold text-brand-text-dark mb-2">
@@ -0,0 +1,427 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Pencil, Trash2, Loader2, AlertCircle, Merge, Search } from 'lucide-react';
+import { loadExpenseFormData, Category, Merchant, PaymentMethod } from '../lib/repositories';
+import { merchantService, findDuplicateMerchants, parseAliases, MERCHANT_COLORS } from '../lib/merchants';
+
+interface MerchantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  // Members can browse the directory; only admins change it
+  canManage?: boolean;
+  // Called after merchants are renamed or merged, which renames their expenses
+  onChanged?: () => void;
+}
+
+interface MerchantDraft {
+  name: string;
+  aliases: string;
+  categoryId: string;
+  paymentMethodId: string;
+  logoUrl: string;
+  color: string;
+}
+
+const emptyDraft: MerchantDraft = { name: '', aliases: '', categoryId: '', paymentMethodId: '', logoUrl: '', color: '' };
+
+const toDraft = (merchant: Merchant): MerchantDraft => ({
+  name: merchant.name,
+  aliases: merchant.aliases.join(', '),
+  categoryId: merchant.default_category_id || '',
+  paymentMethodId: merchant.default_payment_method_id || '',
+  logoUrl: merchant.logo_url || '',
+  color: merchant.color || ''
+});
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent';
+
+// Logo, or the first letter on the merchant's color
+const MerchantAvatar: React.FC<{ merchant: Pick<Merchant, 'name' | 'logo_url' | 'color'> }> = ({ merchant }) =>
+  merchant.logo_url ? (
+    <img src={merchant.logo_url} alt="" className="w-8 h-8 rounded-full object-cover flex-shrink-0 bg-gray-100" />
+  ) : (
+    <span
+      className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 text-sm font-semibold text-white"
+      style={{ backgroundColor: merchant.color || '#95A5A6' }}
+    >
+      {merchant.name.charAt(0).toUpperCase()}
+    </span>
+  );
+
+const MerchantsModal: React.FC<MerchantsModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  canManage = true,
+  onChanged
+}) => {
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [search, setSearch] = useState('');
+  // null when the form is closed; editing holds the merchant being changed
+  const [draft, setDraft] = useState<MerchantDraft | null>(null);
+  const [editing, setEditing] = useState<Merchant | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadMerchants = async () => {
+    if (!activeWorkspaceId) return;
+    setMerchants(await merchantService.loadMerchants(activeWorkspaceId));
+  };
+
+  useEffect(() => {
+    if (!isOpen || !activeWorkspaceId) return;
+
+    setError('');
+    setSearch('');
+    setDraft(null);
+    setEditing(null);
+    setSelectedIds([]);
+    setIsLoading(true);
+    Promise.all([loadMerchants(), loadExpenseFormData(activeWorkspaceId)])
+      .then(([, formData]) => {
+        setCategories(formData.categories);
+        setPaymentMethods(formData.paymentMethods);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load merchants'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, activeWorkspaceId]);
+
+  if (!isOpen) return null;
+
+  const runChange = async (change: () => Promise<void>, fallback: string) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await change();
+      await loadMerchants();
+      onChanged?.();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !draft) return;
+
+    if (!draft.name.trim()) {
+      setError('Enter the merchant name');
+      return;
+    }
+    if (draft.logoUrl.trim() && !/^https?:\/\//i.test(draft.logoUrl.trim())) {
+      setError('The logo must be an http(s) URL');
+      return;
+    }
+
+    const saved = await runChange(() => merchantService.saveMerchant({
+      workspace_id: activeWorkspaceId,
+      name: draft.name,
+      aliases: parseAliases(draft.aliases),
+      default_category_id: draft.categoryId || null,
+      default_payment_method_id: draft.paymentMethodId || null,
+      logo_url: draft.logoUrl.trim() || null,
+      color: draft.color || null
+    }, editing || undefined), 'Failed to save merchant');
+
+    if (saved) {
+      setDraft(null);
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async (merchant: Merchant) => {
+    if (!window.confirm(`Remove ${merchant.name} from the directory? Its expenses keep their merchant name.`)) return;
+    await runChange(() => merchantService.deleteMerchant(merchant), 'Failed to delete merchant');
+  };
+
+  const handleMerge = async (target: Merchant, group: Merchant[]) => {
+    const others = group.filter(m => m.id !== target.id);
+    if (!window.confirm(`Merge ${others.map(m => m.name).join(', ')} into ${target.name}? Their expenses will be renamed ${target.name}.`)) return;
+
+    const merged = await runChange(() => merchantService.mergeMerchants(target, others), 'Failed to merge merchants');
+    if (merged) {
+      setSelectedIds([]);
+      setMergeTargetId('');
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+
+  const query = search.trim().toLowerCase();
+  const visible = merchants.filter(m =>
+    !query || m.name.toLowerCase().includes(query) || m.aliases.some(alias => alias.toLowerCase().includes(query))
+  );
+  const duplicates = canManage ? findDuplicateMerchants(merchants) : [];
+  const selected = merchants.filter(m => selectedIds.includes(m.id));
+  const mergeTarget = selected.find(m => m.id === mergeTargetId) || selected[0];
+  const categoryName = (id: string | null) => categories.find(c => c.id === id)?.name;
+  const paymentMethodName = (id: string | null) => paymentMethods.find(pm => pm.id === id)?.name;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Merchants</h2>
+            <p className="text-sm text-gray-500">Receipts, voice and chat expenses are matched to these names</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-3 p-4 border border-gray-200 rounded-xl">
+              <h3 className="text-sm font-semibold text-gray-700">{editing ? `Edit ${editing.name}` : 'Add merchant'}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g. McDonald's"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Aliases (comma-separated)</label>
+                  <input
+                    type="text"
+                    value={draft.aliases}
+                    onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                    placeholder="e.g. mcd, McDonalds India"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Default category</label>
+                  <select
+                    value={draft.categoryId}
+                    onChange={(e) => setDraft({ ...draft, categoryId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">None</option>
+                    {categories.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Default payment method</label>
+                  <select
+                    value={draft.paymentMethodId}
+                    onChange={(e) => setDraft({ ...draft, paymentMethodId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">None</option>
+                    {paymentMethods.map(method => (
+                      <option key={method.id} value={method.id}>{method.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Logo URL</label>
+                  <input
+                    type="url"
+                    value={draft.logoUrl}
+                    onChange={(e) => setDraft({ ...draft, logoUrl: e.target.value })}
+                    placeholder="https://"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Color</label>
+                  <div className="flex items-center gap-2 py-1">
+                    {MERCHANT_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setDraft({ ...draft, color: draft.color === color ? '' : color })}
+                        title={color}
+                        className={`w-6 h-6 rounded-full border-2 ${draft.color === color ? 'border-gray-900' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => { setDraft(null); setEditing(null); }}
+                  className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>{editing ? 'Save' : 'Add'}</span>
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search merchants and aliases"
+                  className={`${inputClassName} pl-9`}
+                />
+              </div>
+              {canManage && (
+                <button
+                  onClick={() => setDraft(emptyDraft)}
+                  className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Suggested merges */}
+          {duplicates.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Possible duplicates</h3>
+              {duplicates.map(group => (
+                <div key={group[0].id} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+                  <span className="text-gray-700">
+                    {group.map(m => `${m.name} (${m.expense_count})`).join(', ')}
+                  </span>
+                  <button
+                    onClick={() => handleMerge(group[0], group)}
+                    disabled={isSaving}
+                    className="flex items-center space-x-1 text-brand-muted-teal hover:text-brand-dark-teal font-medium disabled:opacity-50"
+                  >
+                    <Merge className="w-4 h-4" />
+                    <span>Merge into {group[0].name}</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Manual merge of the selected merchants */}
+          {canManage && selected.length > 1 && mergeTarget && (
+            <div className="flex flex-wrap items-center gap-2 p-3 bg-brand-soft-gray/10 rounded-lg text-sm">
+              <span className="text-gray-700">Merge {selected.length} merchants into</span>
+              <select
+                value={mergeTarget.id}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              >
+                {selected.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleMerge(mergeTarget, selected)}
+                disabled={isSaving}
+                className="flex items-center space-x-1 px-3 py-1 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+              >
+                <Merge className="w-4 h-4" />
+                <span>Merge</span>
+              </button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              <span>Loading merchants...</span>
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              {merchants.length === 0 ? 'No merchants yet. They are added as expenses come in.' : 'No merchants match your search.'}
+            </p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {visible.map(merchant => (
+                <div key={merchant.id} className="flex items-center gap-3 px-3 py-2">
+                  {canManage && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(merchant.id)}
+                      onChange={() => toggleSelected(merchant.id)}
+                      title="Select to merge"
+                      className="w-4 h-4 text-brand-dark-teal border-gray-300 rounded"
+                    />
+                  )}
+                  <MerchantAvatar merchant={merchant} />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{merchant.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {[
+                        merchant.aliases.length > 0 && `Also: ${merchant.aliases.join(', ')}`,
+                        categoryName(merchant.default_category_id),
+                        paymentMethodName(merchant.default_payment_method_id)
+                      ].filter(Boolean).join(' · ') || 'No aliases or defaults'}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {merchant.expense_count} expense{merchant.expense_count === 1 ? '' : 's'}
+                  </span>
+                  {canManage && (
+                    <div className="flex items-center whitespace-nowrap">
+                      <button
+                        onClick={() => { setEditing(merchant); setDraft(toDraft(merchant)); }}
+                        disabled={isSaving}
+                        title="Edit merchant"
+                        className="p-1 text-gray-400 hover:text-brand-dark-teal disabled:opacity-50"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(merchant)}
+                        disabled={isSaving}
+                        title="Remove merchant"
+                        className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MerchantsModal;
@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { Users, Loader2 } from 'lucide-react';
+import { workspaceInvitationRepository, ReceivedInvitation } from '../lib/repositories';
+import { teamService } from '../lib/team';
+
+interface PendingInvitationsBannerProps {
+  currentUser: { id: string } | null;
+  // Called with the workspace id after an invitation is accepted
+  onAccepted: (workspaceId: string) => void;
+}
+
+// Invitations addressed to the signed-in user's email, shown above the dashboard
+const PendingInvitationsBanner: React.FC<PendingInvitationsBannerProps> = ({ currentUser, onAccepted }) => {
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    workspaceInvitationRepository.listReceived().then(({ data, error: listError }) => {
+      if (listError) {
+        console.error('Error loading invitations:', listError);
+        return;
+      }
+      setInvitations(data);
+    });
+  }, [currentUser]);
+
+  const handleRespond = async (invitation: ReceivedInvitation, accept: boolean) => {
+    setRespondingId(invitation.id);
+    setError('');
+    try {
+      const workspaceId = await teamService.respond(invitation, accept);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      if (accept && workspaceId) onAccepted(workspaceId);
+    } catch (err) {
+      console.error('Error responding to invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to respond to invitation');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {invitations.map(invitation => (
+        <div
+          key={invitation.id}
+          className="flex items-center justify-between p-4 rounded-xl border bg-brand-light-beige border-brand-soft-gray/40 text-brand-text-dark"
+        >
+          <div className="flex items-center space-x-3">
+            <Users className="w-5 h-5 flex-shrink-0 text-brand-dark-teal" />
+            <p className="text-sm">
+              {invitation.invited_by_email || 'A teammate'} invited you to join <strong>{invitation.workspace_name}</strong>
+              {' '}as {invitation.role === 'admin' ? 'an admin' : 'a member'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            {respondingId === invitation.id && <Loader2 className="w-4 h-4 animate-spin text-brand-dark-teal" />}
+            <button
+              onClick={() => handleRespond(invitation, false)}
+              disabled={respondingId !== null}
+              className="px-3 py-1.5 text-sm text-brand-text-muted hover:text-brand-text-dark disabled:opacity-50"
+            >
+              Decline
+            </button>
+            <button
+              onClick={() => handleRespond(invitation, true)}
+              disabled={respondingId !== null}
+              className="px-3 py-1.5 text-sm bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+            >
+              Accept
+            </button>
+          </div>
+        </div>
+      ))}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PendingInvitationsBanner;
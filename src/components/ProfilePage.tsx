@@ -17,6 +17,7 @@ import {
   Loader2
 } from 'lucide-react';
 import { supabase, getUserProfile, updateUserProfile, getUserMetadata } from '../lib/supabase';
+import AIUsagePanel from './AIUsagePanel';
 
 interface UserProfile {
   id: string;
@@ -477,6 +478,11 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ onBack, user }) => {
             )}
           </div>
         </div>
+
+        {/* AI Usage */}
+        <div className="mt-6">
+          <AIUsagePanel />
+        </div>
       </main>
     </div>
   );
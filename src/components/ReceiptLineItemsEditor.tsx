@@ -0,0 +1,165 @@
+import React from 'react';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { ExpenseLineItemInput } from '../lib/repositories';
+import { ReceiptTotals, RECEIPT_TOTAL_LABELS, lineItemsDifference } from '../lib/receipt-line-items';
+import { formatCurrency } from '../lib/currency';
+
+interface ReceiptLineItemsEditorProps {
+  items: ExpenseLineItemInput[];
+  totals: ReceiptTotals;
+  currency: string;
+  // Expense amount the items are checked against
+  amount: number;
+  disabled?: boolean;
+  onChange: (items: ExpenseLineItemInput[], totals: ReceiptTotals) => void;
+}
+
+// Empty inputs are kept as null/undefined rather than 0
+const parseOptional = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Review and correct the items, tax, tip and discount read from a receipt
+const ReceiptLineItemsEditor: React.FC<ReceiptLineItemsEditorProps> = ({
+  items,
+  totals,
+  currency,
+  amount,
+  disabled,
+  onChange
+}) => {
+  const updateItem = (index: number, changes: Partial<ExpenseLineItemInput>) => {
+    onChange(items.map((item, i) => {
+      if (i !== index) return item;
+      const updated = { ...item, ...changes };
+      // Keep the line total in step when quantity or unit price is edited
+      if (('quantity' in changes || 'unit_price' in changes) && updated.quantity !== null && updated.unit_price !== null) {
+        updated.total = Math.round(updated.quantity * updated.unit_price * 100) / 100;
+      }
+      return updated;
+    }), totals);
+  };
+
+  const updateTotal = (key: keyof ReceiptTotals, value: string) => {
+    const parsed = parseOptional(value);
+    onChange(items, { ...totals, [key]: parsed === null ? undefined : parsed });
+  };
+
+  const difference = lineItemsDifference(amount, items, totals);
+
+  return (
+    <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-700">Receipt items</h4>
+        <button
+          type="button"
+          onClick={() => onChange([...items, { name: '', quantity: null, unit_price: null, total: 0 }], totals)}
+          disabled={disabled}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add item</span>
+        </button>
+      </div>
+
+      {items.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500">
+            <tr>
+              <th className="text-left font-medium pb-1">Item</th>
+              <th className="text-right font-medium pb-1 w-16">Qty</th>
+              <th className="text-right font-medium pb-1 w-24">Unit price</th>
+              <th className="text-right font-medium pb-1 w-24">Total</th>
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, index) => (
+              <tr key={index}>
+                <td className="pr-2 py-1">
+                  <input
+                    type="text"
+                    value={item.name}
+                    onChange={(e) => updateItem(index, { name: e.target.value })}
+                    disabled={disabled}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <input
+                    type="number"
+                    value={item.quantity ?? ''}
+                    onChange={(e) => updateItem(index, { quantity: parseOptional(e.target.value) })}
+                    disabled={disabled}
+                    min="0"
+                    step="any"
+                    className="w-full px-2 py-1 text-right border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <input
+                    type="number"
+                    value={item.unit_price ?? ''}
+                    onChange={(e) => updateItem(index, { unit_price: parseOptional(e.target.value) })}
+                    disabled={disabled}
+                    min="0"
+                    step="0.01"
+                    className="w-full px-2 py-1 text-right border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <input
+                    type="number"
+                    value={item.total}
+                    onChange={(e) => updateItem(index, { total: Number(e.target.value) || 0 })}
+                    disabled={disabled}
+                    min="0"
+                    step="0.01"
+                    className="w-full px-2 py-1 text-right border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => onChange(items.filter((_, i) => i !== index), totals)}
+                    disabled={disabled}
+                    title="Remove item"
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {(Object.keys(RECEIPT_TOTAL_LABELS) as (keyof ReceiptTotals)[]).map(key => (
+          <div key={key}>
+            <label className="block text-xs text-gray-500 mb-1">{RECEIPT_TOTAL_LABELS[key]}</label>
+            <input
+              type="number"
+              value={totals[key] ?? ''}
+              onChange={(e) => updateTotal(key, e.target.value)}
+              disabled={disabled}
+              min="0"
+              step="0.01"
+              className="w-full px-2 py-1 text-right border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+
+      {difference !== null && difference !== 0 && (
+        <p className="flex items-center space-x-1 text-xs text-amber-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Items, tax and tip less discount come to {formatCurrency(amount - difference, currency)}, not {formatCurrency(amount, currency)}.
+          </span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptLineItemsEditor;
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, ZoomIn, ZoomOut, RotateCw, FileText, Upload, Trash2, ExternalLink, Loader2, AlertCircle, History } from 'lucide-react';
+import { attachmentRepository, Expense, ExpenseAttachment } from '../lib/repositories';
+import { receiptStorageService } from '../lib/receipt-storage';
+import ExpenseHistoryTimeline from './ExpenseHistoryTimeline';
+
+interface ReceiptPreviewPanelProps {
+  expense: Expense;
+  currentUser: { id: string } | null;
+  onClose: () => void;
+  // Called with the expense's new primary receipt path after attach/replace/remove
+  onReceiptChanged?: (expenseId: string, receiptUrl: string | null) => void;
+  initialTab?: ExpensePanelTab;
+}
+
+export type ExpensePanelTab = 'receipt' | 'history';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+const ReceiptPreviewPanel: React.FC<ReceiptPreviewPanelProps> = ({
+  expense,
+  currentUser,
+  onClose,
+  onReceiptChanged,
+  initialTab = 'receipt'
+}) => {
+  const [tab, setTab] = useState<ExpensePanelTab>(initialTab);
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(expense.receipt_url || null);
+  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadAttachments = async () => {
+    const { data, error: listError } = await attachmentRepository.listForExpense(expense.id);
+    if (listError) {
+      console.error('Error loading attachments:', listError);
+    }
+    setAttachments(data);
+    return data;
+  };
+
+  useEffect(() => {
+    loadAttachments().then(data => {
+      if (!expense.receipt_url && data.length > 0) {
+        setSelectedPath(data[data.length - 1].storage_path);
+      }
+    });
+  }, [expense.id]);
+
+  // Fetch a fresh signed URL whenever the displayed receipt changes
+  useEffect(() => {
+    let cancelled = false;
+    setZoom(1);
+    setRotation(0);
+    setError('');
+
+    if (!selectedPath) {
+      setSignedUrl(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    receiptStorageService.getSignedUrl(selectedPath).then(({ data, error: urlError }) => {
+      if (cancelled) return;
+      if (urlError || !data) {
+        console.error('Error creating signed URL:', urlError);
+        setError('Could not load this receipt');
+      }
+      setSignedUrl(data);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPath]);
+
+  const selectedAttachment = attachments.find(a => a.storage_path === selectedPath);
+  const isPdf = selectedAttachment?.mime_type === 'application/pdf' || /\.pdf($|\?)/i.test(selectedPath || '');
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !currentUser) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const attachment = selectedPath
+        ? await receiptStorageService.replaceReceipt(expense, file, currentUser.id)
+        : await receiptStorageService.attachReceipt(expense, file, currentUser.id);
+      await loadAttachments();
+      setSelectedPath(attachment.storage_path);
+      onReceiptChanged?.(expense.id, attachment.storage_path);
+    } catch (err) {
+      console.error('Error saving receipt:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save receipt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm('Remove the receipt from this expense? The file will be deleted.')) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await receiptStorageService.removeReceipts(expense);
+      setAttachments([]);
+      setSelectedPath(null);
+      onReceiptChanged?.(expense.id, null);
+    } catch (err) {
+      console.error('Error removing receipt:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove receipt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toolbarButton = 'p-2 text-brand-muted-teal hover:text-brand-dark-teal rounded-lg hover:bg-brand-soft-gray/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-brand-soft-gray/20">
+          <div className="flex items-center space-x-4">
+            <div>
+              <h3 className="text-lg font-semibold text-brand-text-dark">{tab === 'receipt' ? 'Receipt Preview' : 'History'}</h3>
+              <p className="text-sm text-brand-text-muted">{expense.merchant}</p>
+            </div>
+            <div className="flex bg-brand-soft-gray/10 rounded-lg p-1">
+              {(['receipt', 'history'] as ExpensePanelTab[]).map(panelTab => (
+                <button
+                  key={panelTab}
+                  onClick={() => setTab(panelTab)}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm transition-all ${
+                    tab === panelTab ? 'bg-white text-brand-dark-teal shadow-sm' : 'text-brand-text-muted hover:text-brand-dark-teal'
+                  }`}
+                >
+                  {panelTab === 'receipt' ? <FileText className="w-4 h-4" /> : <History className="w-4 h-4" />}
+                  <span>{panelTab === 'receipt' ? 'Receipt' : 'History'}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            {tab === 'receipt' && (
+              <>
+                <button
+                  onClick={() => setZoom(z => Math.max(MIN_ZOOM, z - ZOOM_STEP))}
+                  disabled={!signedUrl || zoom <= MIN_ZOOM}
+                  title="Zoom out"
+                  className={toolbarButton}
+                >
+                  <ZoomOut className="w-4 h-4" />
+                </button>
+                <span className="text-xs text-brand-text-muted w-10 text-center">{Math.round(zoom * 100)}%</span>
+                <button
+                  onClick={() => setZoom(z => Math.min(MAX_ZOOM, z + ZOOM_STEP))}
+                  disabled={!signedUrl || zoom >= MAX_ZOOM}
+                  title="Zoom in"
+                  className={toolbarButton}
+                >
+                  <ZoomIn className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setRotation(r => (r + 90) % 360)}
+                  disabled={!signedUrl}
+                  title="Rotate"
+                  className={toolbarButton}
+                >
+                  <RotateCw className="w-4 h-4" />
+                </button>
+                {signedUrl && (
+                  <a href={signedUrl} target="_blank" rel="noopener noreferrer" title="Open in new tab" className={toolbarButton}>
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                )}
+              </>
+            )}
+            <button onClick={onClose} className={toolbarButton}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {tab === 'history' ? (
+          <div className="flex-1 p-6 min-h-96 overflow-auto">
+            <ExpenseHistoryTimeline expenseId={expense.id} />
+          </div>
+        ) : (
+          <>
+          <div className="flex-1 p-4 bg-brand-soft-gray/10 flex items-center justify-center min-h-96 overflow-auto">
+            {isLoading || isSaving ? (
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            ) : signedUrl ? (
+              <div
+                className="transition-transform duration-200"
+                style={{ transform: `scale(${zoom}) rotate(${rotation}deg)` }}
+              >
+                {isPdf ? (
+                  <iframe src={signedUrl} title="Receipt PDF" className="w-[600px] h-[70vh] bg-white rounded-lg" />
+                ) : (
+                  <img src={signedUrl} alt={`Receipt for ${expense.merchant}`} className="max-h-[70vh] max-w-full rounded-lg shadow" />
+                )}
+              </div>
+            ) : (
+              <div className="text-center">
+                <FileText className="w-16 h-16 text-brand-soft-gray mx-auto mb-4" />
+                <p className="text-brand-text-muted">{error || 'No receipt attached to this expense'}</p>
+              </div>
+            )}
+          </div>
+
+          {error && signedUrl && (
+            <div className="px-4 py-2 flex items-center space-x-2 text-sm text-red-600 border-t border-brand-soft-gray/20">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between p-4 border-t border-brand-soft-gray/20">
+            <div className="flex items-center space-x-2 overflow-x-auto">
+              {attachments.length > 1 && attachments.map(attachment => (
+                <button
+                  key={attachment.id}
+                  onClick={() => setSelectedPath(attachment.storage_path)}
+                  className={`px-3 py-1 rounded-full text-xs border whitespace-nowrap ${
+                    attachment.storage_path === selectedPath
+                      ? 'border-brand-dark-teal text-brand-dark-teal'
+                      : 'border-brand-soft-gray/30 text-brand-text-muted'
+                  }`}
+                >
+                  {attachment.file_name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*,.pdf"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSaving || !currentUser}
+                className="flex items-center space-x-2 px-3 py-2 border border-brand-soft-gray/30 rounded-lg text-sm hover:border-brand-muted-teal transition-colors disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{selectedPath ? 'Replace' : 'Attach receipt'}</span>
+              </button>
+              {selectedPath && (
+                <button
+                  onClick={handleRemove}
+                  disabled={isSaving}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Remove</span>
+                </button>
+              )}
+            </div>
+          </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptPreviewPanel;
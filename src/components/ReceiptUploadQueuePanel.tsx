@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Loader2, CheckCircle, AlertCircle, RotateCw, X } from 'lucide-react';
+import { receiptUploadQueue, UploadQueueItem } from '../lib/receipt-upload-queue';
+
+const STATUS_LABELS: Record<UploadQueueItem['status'], string> = {
+  queued: 'Waiting',
+  processing: 'Reading receipt',
+  saving: 'Saving',
+  done: 'Added to inbox',
+  error: 'Failed'
+};
+
+// Rough progress per stage, since OCR doesn't report its own progress
+const STATUS_PROGRESS: Record<UploadQueueItem['status'], number> = {
+  queued: 0,
+  processing: 40,
+  saving: 85,
+  done: 100,
+  error: 100
+};
+
+const ReceiptUploadQueuePanel: React.FC = () => {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+
+  useEffect(() => receiptUploadQueue.subscribe(setItems), []);
+
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const errorCount = items.filter(item => item.status === 'error').length;
+  const pendingCount = items.length - doneCount - errorCount;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-brand-soft-gray/20">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold text-brand-text-dark">Receipt uploads</h3>
+          <p className="text-sm text-brand-text-muted">
+            {doneCount} of {items.length} done
+            {pendingCount > 0 && ` · ${pendingCount} in progress`}
+            {errorCount > 0 && ` · ${errorCount} failed`}
+          </p>
+        </div>
+        {pendingCount === 0 && (
+          <button
+            onClick={() => receiptUploadQueue.clearFinished()}
+            className="text-sm text-brand-muted-teal hover:text-brand-dark-teal"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center space-x-3 py-1">
+            <div className="w-8 h-8 bg-brand-dark-teal/10 rounded-lg flex items-center justify-center flex-shrink-0">
+              {item.status === 'done' ? (
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              ) : item.status === 'error' ? (
+                <AlertCircle className="w-4 h-4 text-red-600" />
+              ) : item.status === 'queued' ? (
+                <FileText className="w-4 h-4 text-brand-dark-teal" />
+              ) : (
+                <Loader2 className="w-4 h-4 text-brand-dark-teal animate-spin" />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-brand-text-dark truncate">{item.file.name}</p>
+                <span className={`text-xs ml-2 whitespace-nowrap ${item.status === 'error' ? 'text-red-600' : 'text-brand-text-muted'}`}>
+                  {STATUS_LABELS[item.status]}
+                </span>
+              </div>
+              {item.status === 'error' ? (
+                <p className="text-xs text-red-600 truncate">{item.error}</p>
+              ) : (
+                <div className="h-1.5 bg-brand-soft-gray/20 rounded-full mt-1 overflow-hidden">
+                  <div
+                    className="h-full bg-brand-dark-teal rounded-full transition-all duration-500"
+                    style={{ width: `${STATUS_PROGRESS[item.status]}%` }}
+                  />
+                </div>
+              )}
+            </div>
+
+            {item.status === 'error' && (
+              <button
+                onClick={() => receiptUploadQueue.retry(item.id)}
+                title="Retry"
+                className="p-1 text-brand-muted-teal hover:text-brand-dark-teal"
+              >
+                <RotateCw className="w-4 h-4" />
+              </button>
+            )}
+            {(item.status === 'error' || item.status === 'queued') && (
+              <button
+                onClick={() => receiptUploadQueue.remove(item.id)}
+                title="Remove"
+                className="p-1 text-brand-soft-gray hover:text-red-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptUploadQueuePanel;
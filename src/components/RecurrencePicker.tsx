@@ -0,0 +1,73 @@
+import React from 'react';
+import { Repeat, AlertCircle } from 'lucide-react';
+import { RECURRENCE_PRESETS, RecurrencePreset, resolveRecurrence, describeRecurrence, firstOccurrence } from '../lib/recurrence';
+
+interface RecurrencePickerProps {
+  preset: RecurrencePreset;
+  customRule: string;
+  startDate: string;
+  disabled?: boolean;
+  // Set by the form on submit, e.g. when "Custom" was chosen but no rule entered
+  error?: string;
+  onChange: (preset: RecurrencePreset, customRule: string) => void;
+}
+
+// "Repeat" control for the entry forms, with a live description of the schedule
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  preset,
+  customRule,
+  startDate,
+  disabled,
+  error: submitError,
+  onChange
+}) => {
+  const { rule, error: parseError } = resolveRecurrence(preset, customRule, startDate);
+  const error = submitError || (customRule.trim() ? parseError : undefined);
+
+  return (
+    <div>
+      <label htmlFor="repeat" className="block text-sm font-semibold text-brand-text-dark mb-2">
+        Repeat
+      </label>
+      <div className="relative">
+        <Repeat className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-brand-soft-gray" />
+        <select
+          id="repeat"
+          value={preset}
+          onChange={(e) => onChange(e.target.value as RecurrencePreset, customRule)}
+          disabled={disabled}
+          className="w-full pl-10 pr-4 py-3 border border-brand-soft-gray/50 rounded-xl focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent hover:border-brand-muted-teal disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {RECURRENCE_PRESETS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {preset === 'custom' && (
+        <input
+          type="text"
+          value={customRule}
+          onChange={(e) => onChange(preset, e.target.value)}
+          disabled={disabled}
+          placeholder="FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=5"
+          className="mt-2 w-full px-4 py-2 font-mono text-sm border border-brand-soft-gray/50 rounded-xl focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent disabled:opacity-50"
+        />
+      )}
+
+      {error && preset === 'custom' && (
+        <p className="mt-2 text-sm text-red-600 flex items-center space-x-1">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </p>
+      )}
+      {rule && (
+        <p className="mt-2 text-sm text-brand-text-muted">
+          {describeRecurrence(rule)}, starting {firstOccurrence(rule, startDate)}. New expenses land in the inbox for review.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrencePicker;
@@ -0,0 +1,471 @@
+import React, { useState, useEffect } from 'react';
+import { Receipt, Plus, X, Trash2, Loader2, AlertCircle, Send, Undo2, Banknote, Download, Printer } from 'lucide-react';
+import { Expense, WorkspaceRole } from '../lib/repositories';
+import {
+  reimbursementService,
+  ReportWithExpenses,
+  formatReportPeriod,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_COLORS
+} from '../lib/reimbursements';
+import { EXPENSE_STATUS_LABELS, EXPENSE_STATUS_COLORS } from '../lib/approvals';
+import { can } from '../lib/team';
+import { formatCurrency } from '../lib/currency';
+
+interface ReimbursementsViewProps {
+  activeWorkspaceId: string | null;
+  workspaceName: string;
+  currentUser: { id: string } | null;
+  myRole: WorkspaceRole | null;
+}
+
+const emptyDraft = { name: '', purpose: '', periodStart: '', periodEnd: '' };
+
+// Whether an expense falls inside a report period; open ends match everything
+const inPeriod = (expense: Expense, start: string, end: string) =>
+  (!start || expense.txn_date >= start) && (!end || expense.txn_date <= end);
+
+const ReimbursementsView: React.FC<ReimbursementsViewProps> = ({
+  activeWorkspaceId,
+  workspaceName,
+  currentUser,
+  myRole
+}) => {
+  const [reports, setReports] = useState<ReportWithExpenses[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Reimbursable expenses not on any report yet, for the claimant of the form or selected draft
+  const [unclaimed, setUnclaimed] = useState<Expense[]>([]);
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const isAdmin = can(myRole, 'review_expenses');
+  const selected = reports.find(report => report.id === selectedId) || null;
+  const canEditSelected = !!selected && selected.status === 'draft' && (selected.created_by === currentUser?.id || isAdmin);
+
+  const loadReports = async () => {
+    if (!activeWorkspaceId) return;
+
+    setIsLoading(true);
+    try {
+      const loaded = await reimbursementService.loadReports(activeWorkspaceId);
+      setReports(loaded);
+      setSelectedId(prev => prev && loaded.some(report => report.id === prev) ? prev : loaded[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error loading reimbursement reports:', err);
+      setError(err instanceof Error ? err.message : 'Could not load reimbursement reports');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadUnclaimed = async (claimantId: string) => {
+    if (!activeWorkspaceId) return;
+
+    try {
+      setUnclaimed(await reimbursementService.loadUnclaimed(activeWorkspaceId, claimantId));
+    } catch (err) {
+      console.error('Error loading reimbursable expenses:', err);
+      setUnclaimed([]);
+    }
+  };
+
+  useEffect(() => {
+    setError('');
+    setSelectedId(null);
+    loadReports();
+  }, [activeWorkspaceId]);
+
+  // Candidates for the create form are the current user's; for a draft, its claimant's
+  const claimantId = showCreateForm ? currentUser?.id : canEditSelected ? selected?.created_by : undefined;
+  useEffect(() => {
+    setPickedIds([]);
+    if (claimantId) {
+      loadUnclaimed(claimantId);
+    } else {
+      setUnclaimed([]);
+    }
+  }, [claimantId, selectedId, activeWorkspaceId]);
+
+  // Wraps an action so errors, the spinner and reloading are handled in one place
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await action();
+      await loadReports();
+      if (claimantId) await loadUnclaimed(claimantId);
+      setPickedIds([]);
+    } catch (err) {
+      console.error('Error updating reimbursement report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update report');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateDraftPeriod = (field: 'periodStart' | 'periodEnd', value: string) => {
+    const next = { ...draft, [field]: value };
+    setDraft(next);
+    // Pick everything in the period so a monthly report is one click
+    if (next.periodStart || next.periodEnd) {
+      setPickedIds(unclaimed.filter(expense => inPeriod(expense, next.periodStart, next.periodEnd)).map(expense => expense.id));
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !currentUser) return;
+
+    runAction(async () => {
+      const report = await reimbursementService.createReport({
+        workspace_id: activeWorkspaceId,
+        name: draft.name,
+        purpose: draft.purpose,
+        period_start: draft.periodStart || null,
+        period_end: draft.periodEnd || null,
+        created_by: currentUser.id
+      }, pickedIds);
+      setDraft(emptyDraft);
+      setShowCreateForm(false);
+      setSelectedId(report.id);
+    });
+  };
+
+  const handleDelete = (report: ReportWithExpenses) => {
+    if (!window.confirm(`Delete "${report.name}"? Its expenses stay and can be added to another report.`)) return;
+    runAction(() => reimbursementService.deleteReport(report));
+  };
+
+  const handlePrint = async (report: ReportWithExpenses) => {
+    // Open the window straight from the click so it isn't blocked as a popup
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Allow pop-ups for this site to print the report');
+      return;
+    }
+
+    try {
+      const html = await reimbursementService.buildDocument(report, workspaceName, { autoPrint: true });
+      printWindow.location.href = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+    } catch (err) {
+      printWindow.close();
+      console.error('Error building report document:', err);
+      setError(err instanceof Error ? err.message : 'Failed to build report');
+    }
+  };
+
+  const togglePicked = (id: string, checked: boolean) =>
+    setPickedIds(prev => checked ? [...prev, id] : prev.filter(pickedId => pickedId !== id));
+
+  if (!activeWorkspaceId) {
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-8 text-center text-brand-text-muted">
+        Select a business to see its reimbursement reports.
+      </div>
+    );
+  }
+
+  const renderUnclaimedPicker = (emptyText: string) => unclaimed.length === 0 ? (
+    <p className="text-sm text-brand-text-muted">{emptyText}</p>
+  ) : (
+    <div className="max-h-60 overflow-y-auto border border-brand-soft-gray/30 rounded-lg divide-y divide-brand-soft-gray/20 bg-white">
+      {unclaimed.map(expense => (
+        <label key={expense.id} className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer hover:bg-brand-soft-gray/5">
+          <span className="flex items-center space-x-2 min-w-0">
+            <input
+              type="checkbox"
+              checked={pickedIds.includes(expense.id)}
+              onChange={(e) => togglePicked(expense.id, e.target.checked)}
+              className="rounded border-brand-soft-gray/50 text-brand-dark-teal focus:ring-brand-dark-teal"
+            />
+            <span className="text-brand-text-muted">{expense.txn_date}</span>
+            <span className="text-brand-text-dark truncate">{expense.merchant}</span>
+          </span>
+          <span className="font-medium text-brand-text-dark whitespace-nowrap">{formatCurrency(expense.amount, expense.currency)}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Reports */}
+        <div className="bg-white rounded-xl shadow-sm border border-brand-soft-gray/20 self-start">
+          <div className="flex items-center justify-between p-6 border-b border-brand-soft-gray/20">
+            <h3 className="text-lg font-semibold text-brand-text-dark flex items-center space-x-2">
+              <Receipt className="w-5 h-5 text-brand-dark-teal" />
+              <span>Reports</span>
+            </h3>
+            <button
+              onClick={() => setShowCreateForm(prev => !prev)}
+              className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors text-sm"
+            >
+              {showCreateForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+              <span>{showCreateForm ? 'Cancel' : 'New report'}</span>
+            </button>
+          </div>
+
+          {showCreateForm && (
+            <form onSubmit={handleCreate} className="p-6 border-b border-brand-soft-gray/20 space-y-3 bg-brand-light-beige/40">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Name, e.g. Mumbai client visit"
+                className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+              />
+              <input
+                type="text"
+                value={draft.purpose}
+                onChange={(e) => setDraft(prev => ({ ...prev, purpose: e.target.value }))}
+                placeholder="Trip, client or purpose (optional)"
+                className="w-full px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+              />
+              <div className="flex space-x-2">
+                <input
+                  type="date"
+                  value={draft.periodStart}
+                  onChange={(e) => updateDraftPeriod('periodStart', e.target.value)}
+                  title="Period start (optional)"
+                  className="flex-1 min-w-0 px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                />
+                <input
+                  type="date"
+                  value={draft.periodEnd}
+                  onChange={(e) => updateDraftPeriod('periodEnd', e.target.value)}
+                  title="Period end (optional)"
+                  className="flex-1 min-w-0 px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                />
+              </div>
+              <div>
+                <p className="text-xs text-brand-text-muted mb-1">Reimbursable expenses to include ({pickedIds.length} selected)</p>
+                {renderUnclaimedPicker('You have no reimbursable expenses that aren\'t on a report yet.')}
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving || !draft.name.trim()}
+                className="flex items-center space-x-2 px-4 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Create draft</span>
+              </button>
+            </form>
+          )}
+
+          {isLoading && reports.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            </div>
+          ) : reports.length === 0 ? (
+            <p className="p-8 text-center text-sm text-brand-text-muted">
+              No reports yet. Mark expenses as reimbursable, then group them into a report for a period, trip or client.
+            </p>
+          ) : (
+            <div className="divide-y divide-brand-soft-gray/20">
+              {reports.map(report => (
+                <button
+                  key={report.id}
+                  onClick={() => { setShowCreateForm(false); setSelectedId(report.id); }}
+                  className={`w-full text-left px-6 py-4 transition-colors ${
+                    report.id === selectedId ? 'bg-brand-dark-teal/5' : 'hover:bg-brand-soft-gray/5'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-brand-text-dark truncate">{report.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REPORT_STATUS_COLORS[report.status]}`}>
+                      {REPORT_STATUS_LABELS[report.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-brand-text-muted">
+                    {report.totals.length === 0
+                      ? 'No expenses'
+                      : report.totals.map(total => formatCurrency(total.total, total.currency)).join(' + ')}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Report detail */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-brand-soft-gray/20">
+          {!selected ? (
+            <p className="p-8 text-center text-brand-text-muted">Select or create a report.</p>
+          ) : (
+            <>
+              <div className="p-6 border-b border-brand-soft-gray/20 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-xl font-semibold text-brand-text-dark">{selected.name}</h3>
+                    <p className="text-sm text-brand-text-muted">
+                      {[selected.purpose, formatReportPeriod(selected)].filter(Boolean).join(' · ') || 'No period set'}
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${REPORT_STATUS_COLORS[selected.status]}`}>
+                    {REPORT_STATUS_LABELS[selected.status]}
+                  </span>
+                </div>
+
+                {/* Totals per currency */}
+                <div className="flex flex-wrap gap-4">
+                  {selected.totals.map(total => (
+                    <div key={total.currency} className="px-4 py-3 rounded-lg bg-brand-light-beige">
+                      <p className="text-xs text-brand-text-muted">{total.currency} · {total.count} expense{total.count !== 1 ? 's' : ''}</p>
+                      <p className="text-xl font-bold text-brand-text-dark">{formatCurrency(total.total, total.currency)}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Actions */}
+                <div className="flex flex-wrap items-center gap-2">
+                  {canEditSelected && (
+                    <button
+                      onClick={() => runAction(() => reimbursementService.transition(selected, 'submit'))}
+                      disabled={isSaving || selected.expenses.length === 0}
+                      title="Submits the report and sends its new expenses for approval"
+                      className="flex items-center space-x-1 px-3 py-2 text-sm bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                    >
+                      <Send className="w-4 h-4" />
+                      <span>Submit</span>
+                    </button>
+                  )}
+                  {selected.status === 'submitted' && isAdmin && (
+                    <button
+                      onClick={() => runAction(() => reimbursementService.transition(selected, 'reimburse'))}
+                      disabled={isSaving}
+                      title="Marks the report reimbursed and its expenses paid"
+                      className="flex items-center space-x-1 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <Banknote className="w-4 h-4" />
+                      <span>Mark reimbursed</span>
+                    </button>
+                  )}
+                  {selected.status === 'submitted' && (selected.created_by === currentUser?.id || isAdmin) && (
+                    <button
+                      onClick={() => runAction(() => reimbursementService.transition(selected, 'reopen'))}
+                      disabled={isSaving}
+                      className="flex items-center space-x-1 px-3 py-2 text-sm border border-brand-soft-gray/40 text-brand-text-dark rounded-lg hover:bg-brand-soft-gray/10 transition-colors disabled:opacity-50"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                      <span>Reopen</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => runAction(() => reimbursementService.downloadDocument(selected, workspaceName))}
+                    disabled={isSaving || selected.expenses.length === 0}
+                    title="Self-contained HTML file with the receipts embedded"
+                    className="flex items-center space-x-1 px-3 py-2 text-sm text-brand-muted-teal hover:text-brand-dark-teal disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download HTML</span>
+                  </button>
+                  <button
+                    onClick={() => handlePrint(selected)}
+                    disabled={isSaving || selected.expenses.length === 0}
+                    title="Opens the printable report; choose Save as PDF in the print dialog"
+                    className="flex items-center space-x-1 px-3 py-2 text-sm text-brand-muted-teal hover:text-brand-dark-teal disabled:opacity-50"
+                  >
+                    <Printer className="w-4 h-4" />
+                    <span>Print / PDF</span>
+                  </button>
+                  {(canEditSelected || isAdmin) && (
+                    <button
+                      onClick={() => handleDelete(selected)}
+                      disabled={isSaving}
+                      className="ml-auto flex items-center space-x-1 px-3 py-2 text-sm text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete</span>
+                    </button>
+                  )}
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin text-brand-dark-teal" />}
+                </div>
+              </div>
+
+              {/* Expenses on the report */}
+              {selected.expenses.length === 0 ? (
+                <p className="p-6 text-sm text-brand-text-muted">No expenses on this report yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-brand-light-beige text-brand-text-muted">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium">Date</th>
+                        <th className="px-4 py-3 text-left font-medium">Merchant</th>
+                        <th className="px-4 py-3 text-left font-medium">Category</th>
+                        <th className="px-4 py-3 text-left font-medium">Status</th>
+                        <th className="px-4 py-3 text-right font-medium">Amount</th>
+                        <th className="px-4 py-3" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-brand-soft-gray/20">
+                      {selected.expenses.map(expense => (
+                        <tr key={expense.id}>
+                          <td className="px-4 py-3 text-brand-text-muted whitespace-nowrap">{expense.txn_date}</td>
+                          <td className="px-4 py-3 font-medium text-brand-text-dark">{expense.merchant}</td>
+                          <td className="px-4 py-3 text-brand-text-muted">{expense.category_name}</td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${EXPENSE_STATUS_COLORS[expense.status]}`}>
+                              {EXPENSE_STATUS_LABELS[expense.status]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-right font-medium text-brand-text-dark whitespace-nowrap">
+                            {formatCurrency(expense.amount, expense.currency)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {canEditSelected && (
+                              <button
+                                onClick={() => runAction(() => reimbursementService.removeExpenses(selected, [expense.id]))}
+                                disabled={isSaving}
+                                title="Take off this report"
+                                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Add more expenses to a draft */}
+              {canEditSelected && (
+                <div className="p-6 border-t border-brand-soft-gray/20 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-semibold text-brand-text-dark">Add reimbursable expenses</h4>
+                    <button
+                      onClick={() => runAction(() => reimbursementService.addExpenses(selected, pickedIds))}
+                      disabled={isSaving || pickedIds.length === 0}
+                      className="flex items-center space-x-1 text-sm text-brand-muted-teal hover:text-brand-dark-teal disabled:opacity-50"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add {pickedIds.length > 0 ? pickedIds.length : ''} selected</span>
+                    </button>
+                  </div>
+                  {renderUnclaimedPicker('No other reimbursable expenses to add.')}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReimbursementsView;
@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Loader2, AlertCircle, Scissors } from 'lucide-react';
+import { Category, Expense, ExpenseSplitInput } from '../lib/repositories';
+import { splitService, divideEvenly, unassignedAmount, validateSplits } from '../lib/splits';
+import { formatCurrency } from '../lib/currency';
+
+interface SplitExpenseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  expense: Expense | null;
+  // Businesses the user belongs to; parts can be booked to any of them
+  businesses: { id: string; name: string }[];
+  // Called after the splits are saved or removed
+  onSaved: (expenseId: string, isSplit: boolean) => void;
+}
+
+interface SplitDraft {
+  key: number;
+  workspaceId: string;
+  amount: string;
+  categoryId: string;
+  isReimbursable: boolean;
+  description: string;
+}
+
+let nextDraftKey = 0;
+
+const newDraft = (expense: Expense, amount: number): SplitDraft => ({
+  key: nextDraftKey++,
+  workspaceId: expense.workspace_id,
+  amount: amount ? amount.toFixed(2) : '',
+  categoryId: expense.category_id || '',
+  isReimbursable: expense.is_reimbursable,
+  description: ''
+});
+
+const toInput = (draft: SplitDraft): ExpenseSplitInput => ({
+  workspace_id: draft.workspaceId,
+  amount: Number(draft.amount) || 0,
+  category_id: draft.categoryId || null,
+  is_reimbursable: draft.isReimbursable,
+  description: draft.description
+});
+
+// Splits one expense into parts with their own amount, category, business and reimbursable flag
+const SplitExpenseModal: React.FC<SplitExpenseModalProps> = ({ isOpen, onClose, expense, businesses, onSaved }) => {
+  const [drafts, setDrafts] = useState<SplitDraft[]>([]);
+  const [categories, setCategories] = useState<Record<string, Category[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !expense) return;
+
+    setError('');
+    setIsLoading(true);
+    splitService.loadSplits(expense.id)
+      .then(splits => {
+        if (splits.length > 0) {
+          setDrafts(splits.map(split => ({
+            key: nextDraftKey++,
+            workspaceId: split.workspace_id,
+            amount: split.amount.toFixed(2),
+            categoryId: split.category_id || '',
+            isReimbursable: split.is_reimbursable,
+            description: split.description || ''
+          })));
+        } else {
+          // Start with the expense halved so there is something to adjust
+          setDrafts(divideEvenly(expense.amount, 2).map(amount => newDraft(expense, amount)));
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load splits'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, expense?.id]);
+
+  // Load the categories of any business a part is booked to
+  const workspaceKey = [...new Set(drafts.map(draft => draft.workspaceId))].sort().join(',');
+  useEffect(() => {
+    const missing = workspaceKey.split(',').filter(id => id && !categories[id]);
+    if (missing.length === 0) return;
+
+    splitService.loadCategories(missing)
+      .then(loaded => setCategories(prev => ({ ...prev, ...loaded })));
+  }, [workspaceKey]);
+
+  if (!isOpen || !expense) return null;
+
+  const inputs = drafts.map(toInput);
+  const remaining = unassignedAmount(expense.amount, inputs);
+
+  const updateDraft = (key: number, changes: Partial<SplitDraft>) => {
+    setDrafts(prev => prev.map(draft => {
+      if (draft.key !== key) return draft;
+      // A category from another business doesn't apply once the business changes
+      const categoryReset = changes.workspaceId && changes.workspaceId !== draft.workspaceId ? { categoryId: '' } : {};
+      return { ...draft, ...categoryReset, ...changes };
+    }));
+  };
+
+  const handleAddPart = () => {
+    setDrafts(prev => [...prev, newDraft(expense, Math.max(0, unassignedAmount(expense.amount, prev.map(toInput))))]);
+  };
+
+  const handleSplitEvenly = () => {
+    const amounts = divideEvenly(expense.amount, drafts.length);
+    setDrafts(prev => prev.map((draft, index) => ({ ...draft, amount: amounts[index].toFixed(2) })));
+  };
+
+  const save = async (splits: ExpenseSplitInput[]) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await splitService.saveSplits(expense, splits);
+      onSaved(expense.id, splits.length > 0);
+      onClose();
+    } catch (err) {
+      console.error('Error saving splits:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save splits');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(inputs);
+  };
+
+  const handleRemoveSplit = () => {
+    if (!window.confirm('Remove the split? The whole expense will count towards its own category again.')) return;
+    save([]);
+  };
+
+  const problem = validateSplits(expense, inputs);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Split expense</h2>
+            <p className="text-sm text-gray-500">
+              {expense.merchant} · {expense.txn_date} · {formatCurrency(expense.amount, expense.currency)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {drafts.map((draft, index) => (
+                  <div key={draft.key} className="flex flex-wrap items-end gap-2 p-3 border border-brand-soft-gray/30 rounded-lg">
+                    <div className="w-28">
+                      <label className="block text-xs text-gray-500 mb-1">Amount ({expense.currency})</label>
+                      <input
+                        type="number"
+                        value={draft.amount}
+                        onChange={(e) => updateDraft(draft.key, { amount: e.target.value })}
+                        min="0"
+                        step="0.01"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      />
+                    </div>
+                    <div className="flex-1 min-w-[9rem]">
+                      <label className="block text-xs text-gray-500 mb-1">Business</label>
+                      <select
+                        value={draft.workspaceId}
+                        onChange={(e) => updateDraft(draft.key, { workspaceId: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      >
+                        {businesses.map(business => (
+                          <option key={business.id} value={business.id}>{business.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex-1 min-w-[9rem]">
+                      <label className="block text-xs text-gray-500 mb-1">Category</label>
+                      <select
+                        value={draft.categoryId}
+                        onChange={(e) => updateDraft(draft.key, { categoryId: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      >
+                        <option value="">Uncategorized</option>
+                        {(categories[draft.workspaceId] || []).map(category => (
+                          <option key={category.id} value={category.id}>{category.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex-1 min-w-[9rem]">
+                      <label className="block text-xs text-gray-500 mb-1">Description</label>
+                      <input
+                        type="text"
+                        value={draft.description}
+                        onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                        placeholder={`Part ${index + 1}`}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      />
+                    </div>
+                    <label className="flex items-center space-x-2 py-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draft.isReimbursable}
+                        onChange={(e) => updateDraft(draft.key, { isReimbursable: e.target.checked })}
+                        className="rounded border-brand-soft-gray/50 text-brand-dark-teal focus:ring-brand-dark-teal"
+                      />
+                      <span>Reimbursable</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setDrafts(prev => prev.filter(d => d.key !== draft.key))}
+                      disabled={drafts.length <= 2}
+                      title="Remove part"
+                      className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={handleAddPart}
+                    className="flex items-center space-x-1 px-3 py-2 text-sm border border-brand-muted-teal text-brand-muted-teal rounded-lg hover:bg-brand-muted-teal hover:text-white transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add part</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSplitEvenly}
+                    className="px-3 py-2 text-sm text-brand-muted-teal hover:text-brand-dark-teal"
+                  >
+                    Split evenly
+                  </button>
+                </div>
+                <span className={`text-sm font-medium ${remaining === 0 ? 'text-green-700' : 'text-red-600'}`}>
+                  {remaining === 0
+                    ? 'Fully assigned'
+                    : remaining > 0
+                      ? `${formatCurrency(remaining, expense.currency)} left to assign`
+                      : `${formatCurrency(-remaining, expense.currency)} over the total`}
+                </span>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+            {expense.is_split ? (
+              <button
+                type="button"
+                onClick={handleRemoveSplit}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Remove split
+              </button>
+            ) : <span />}
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || isLoading || !!problem}
+                title={problem || undefined}
+                className="flex items-center space-x-2 px-4 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Scissors className="w-4 h-4" />}
+                <span>Save split</span>
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SplitExpenseModal;
@@ -0,0 +1,424 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat, Plus, Pause, Play, Trash2, Loader2, AlertCircle, CalendarClock, X } from 'lucide-react';
+import { recurringExpenseRepository, RecurringExpense, Category } from '../lib/repositories';
+import {
+  RecurrencePreset,
+  resolveRecurrence,
+  describeRecurrence,
+  annualizedAmount,
+  occurrencesUntil,
+  recurringExpenseService
+} from '../lib/recurrence';
+import { formatCurrency, SUPPORTED_CURRENCIES } from '../lib/currency';
+import { toISODate } from '../lib/date-ranges';
+import RecurrencePicker from './RecurrencePicker';
+
+// How far ahead the "Upcoming charges" list looks
+const UPCOMING_DAYS = 30;
+
+interface SubscriptionsViewProps {
+  activeWorkspaceId: string | null;
+  currentUser: { id: string } | null;
+  categories: Category[];
+  baseCurrency: string;
+}
+
+interface VendorSummary {
+  merchant: string;
+  currency: string;
+  templates: RecurringExpense[];
+  annualized: number;
+}
+
+const emptyDraft = (currency: string) => ({
+  merchant: '',
+  amount: '',
+  currency,
+  categoryId: '',
+  startDate: toISODate(new Date()),
+  preset: 'monthly' as RecurrencePreset,
+  customRule: ''
+});
+
+// Sum amounts per currency; rates aren't applied here, so mixed currencies are listed separately
+const totalsByCurrency = (items: { amount: number; currency: string }[]) => {
+  const totals = new Map<string, number>();
+  items.forEach(item => totals.set(item.currency, (totals.get(item.currency) || 0) + item.amount));
+  return [...totals.entries()].map(([currency, amount]) => ({ currency, amount }));
+};
+
+const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
+  activeWorkspaceId,
+  currentUser,
+  categories,
+  baseCurrency
+}) => {
+  const [templates, setTemplates] = useState<RecurringExpense[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft(baseCurrency));
+
+  const loadTemplates = async () => {
+    if (!activeWorkspaceId) return;
+
+    setIsLoading(true);
+    const { data, error: listError } = await recurringExpenseRepository.listForWorkspace(activeWorkspaceId);
+    if (listError) {
+      console.error('Error loading recurring expenses:', listError);
+      setError('Could not load recurring expenses');
+    }
+    setTemplates(data);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setError('');
+    loadTemplates();
+  }, [activeWorkspaceId]);
+
+  useEffect(() => {
+    setDraft(prev => prev.merchant || prev.amount ? prev : emptyDraft(baseCurrency));
+  }, [baseCurrency]);
+
+  // Wraps a change so errors and the spinner are handled in one place
+  const runSave = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await action();
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error saving recurring expense:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !currentUser) return;
+
+    const amount = parseFloat(draft.amount);
+    const { rule, error: ruleError } = resolveRecurrence(draft.preset, draft.customRule, draft.startDate);
+    if (!draft.merchant.trim()) {
+      setError('Enter a vendor');
+      return;
+    }
+    if (!(amount > 0)) {
+      setError('Enter an amount greater than 0');
+      return;
+    }
+    if (!rule) {
+      setError(ruleError || 'Choose how often this expense repeats');
+      return;
+    }
+
+    runSave(async () => {
+      await recurringExpenseService.createTemplate({
+        ...rule,
+        workspace_id: activeWorkspaceId,
+        user_id: currentUser.id,
+        merchant: draft.merchant.trim(),
+        amount,
+        currency: draft.currency,
+        description: null,
+        category_id: draft.categoryId || null,
+        payment_method_id: null,
+        notes: null,
+        is_reimbursable: false,
+        rrule: draft.preset === 'custom' ? draft.customRule.trim() : null,
+        start_date: draft.startDate
+      });
+      setDraft(emptyDraft(baseCurrency));
+      setShowAddForm(false);
+    });
+  };
+
+  const handleToggleActive = (template: RecurringExpense) => {
+    runSave(() => recurringExpenseService.setActive(template, !template.is_active));
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    if (!window.confirm(`Stop tracking ${template.merchant}? Expenses already created are kept.`)) return;
+
+    runSave(async () => {
+      const { error: deleteError } = await recurringExpenseRepository.delete(template.id);
+      if (deleteError) throw new Error(deleteError.message || 'Failed to delete recurring expense');
+    });
+  };
+
+  if (!activeWorkspaceId) {
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-8 text-center text-brand-text-muted">
+        Select a business to see its subscriptions.
+      </div>
+    );
+  }
+
+  const today = toISODate(new Date());
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + UPCOMING_DAYS);
+  const activeTemplates = templates.filter(t => t.is_active);
+  const currencyOf = (template: RecurringExpense) => template.currency || baseCurrency;
+
+  const upcoming = activeTemplates
+    .flatMap(template => template.next_due_date
+      ? occurrencesUntil(template, template.next_due_date, toISODate(horizon)).map(date => ({ date, template }))
+      : [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const vendors = Object.values(activeTemplates.reduce<Record<string, VendorSummary>>((acc, template) => {
+    const key = `${template.merchant.toLowerCase()}|${currencyOf(template)}`;
+    acc[key] = acc[key] || { merchant: template.merchant, currency: currencyOf(template), templates: [], annualized: 0 };
+    acc[key].templates.push(template);
+    acc[key].annualized += annualizedAmount(template.amount, template);
+    return acc;
+  }, {})).sort((a, b) => b.annualized - a.annualized);
+
+  const annualTotals = totalsByCurrency(vendors.map(v => ({ amount: v.annualized, currency: v.currency })));
+  const upcomingTotals = totalsByCurrency(upcoming.map(u => ({ amount: u.template.amount, currency: currencyOf(u.template) })));
+  const currencyOptions = [...new Set([baseCurrency, ...SUPPORTED_CURRENCIES])];
+
+  const renderTotals = (totals: { currency: string; amount: number }[]) => totals.length === 0
+    ? formatCurrency(0, baseCurrency)
+    : totals.map(t => formatCurrency(t.amount, t.currency)).join(' + ');
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-brand-soft-gray/20">
+          <p className="text-sm font-medium text-brand-text-muted">Active subscriptions</p>
+          <p className="text-2xl font-bold text-brand-text-dark">{activeTemplates.length}</p>
+          {templates.length > activeTemplates.length && (
+            <p className="text-sm text-brand-text-muted">{templates.length - activeTemplates.length} paused or ended</p>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-brand-soft-gray/20">
+          <p className="text-sm font-medium text-brand-text-muted">Annualized cost</p>
+          <p className="text-2xl font-bold text-brand-text-dark">{renderTotals(annualTotals)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-brand-soft-gray/20">
+          <p className="text-sm font-medium text-brand-text-muted">Due in the next {UPCOMING_DAYS} days</p>
+          <p className="text-2xl font-bold text-brand-text-dark">{renderTotals(upcomingTotals)}</p>
+          <p className="text-sm text-brand-text-muted">{upcoming.length} charge{upcoming.length !== 1 ? 's' : ''}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Vendors */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-brand-soft-gray/20">
+          <div className="flex items-center justify-between p-6 border-b border-brand-soft-gray/20">
+            <h3 className="text-lg font-semibold text-brand-text-dark flex items-center space-x-2">
+              <Repeat className="w-5 h-5 text-brand-dark-teal" />
+              <span>Recurring expenses</span>
+            </h3>
+            <button
+              onClick={() => setShowAddForm(prev => !prev)}
+              className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors text-sm"
+            >
+              {showAddForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+              <span>{showAddForm ? 'Cancel' : 'Add recurring'}</span>
+            </button>
+          </div>
+
+          {showAddForm && (
+            <form onSubmit={handleAdd} className="p-6 border-b border-brand-soft-gray/20 space-y-4 bg-brand-light-beige/40">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input
+                  type="text"
+                  value={draft.merchant}
+                  onChange={(e) => setDraft(prev => ({ ...prev, merchant: e.target.value }))}
+                  placeholder="Vendor, e.g. Figma"
+                  className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                />
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    value={draft.amount}
+                    onChange={(e) => setDraft(prev => ({ ...prev, amount: e.target.value }))}
+                    min="0"
+                    step="0.01"
+                    placeholder="0.00"
+                    className="flex-1 min-w-0 px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                  />
+                  <select
+                    value={draft.currency}
+                    onChange={(e) => setDraft(prev => ({ ...prev, currency: e.target.value }))}
+                    className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                  >
+                    {currencyOptions.map(code => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+                <select
+                  value={draft.categoryId}
+                  onChange={(e) => setDraft(prev => ({ ...prev, categoryId: e.target.value }))}
+                  className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                >
+                  <option value="">No category</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={draft.startDate}
+                  onChange={(e) => setDraft(prev => ({ ...prev, startDate: e.target.value }))}
+                  title="First charge on or after this date"
+                  className="px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                />
+              </div>
+              <RecurrencePicker
+                preset={draft.preset}
+                customRule={draft.customRule}
+                startDate={draft.startDate}
+                disabled={isSaving}
+                onChange={(preset, customRule) => setDraft(prev => ({ ...prev, preset, customRule }))}
+              />
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center space-x-2 px-4 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Save</span>
+              </button>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="p-8 text-center text-brand-text-muted">
+              No recurring expenses yet. Choose "Repeat" when adding an expense, or add one here.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-brand-light-beige text-brand-text-muted">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium">Vendor</th>
+                    <th className="px-4 py-3 text-left font-medium">Schedule</th>
+                    <th className="px-4 py-3 text-right font-medium">Amount</th>
+                    <th className="px-4 py-3 text-left font-medium">Next charge</th>
+                    <th className="px-4 py-3 text-right font-medium">Per year</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-soft-gray/20">
+                  {templates.map(template => (
+                    <tr key={template.id} className={template.is_active ? '' : 'opacity-60'}>
+                      <td className="px-4 py-3 font-medium text-brand-text-dark">
+                        {template.merchant}
+                        {categories.find(c => c.id === template.category_id) && (
+                          <span className="block text-xs font-normal text-brand-text-muted">
+                            {categories.find(c => c.id === template.category_id)?.name}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-brand-text-muted">{describeRecurrence(template)}</td>
+                      <td className="px-4 py-3 text-right text-brand-text-dark">{formatCurrency(template.amount, currencyOf(template))}</td>
+                      <td className="px-4 py-3 text-brand-text-muted">
+                        {!template.next_due_date ? 'Ended' : template.is_active ? template.next_due_date : 'Paused'}
+                      </td>
+                      <td className="px-4 py-3 text-right text-brand-text-dark">
+                        {formatCurrency(annualizedAmount(template.amount, template), currencyOf(template))}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {/* Ended schedules (no next date) can't be resumed */}
+                        {template.next_due_date && (
+                          <button
+                            onClick={() => handleToggleActive(template)}
+                            disabled={isSaving}
+                            title={template.is_active ? 'Pause' : 'Resume'}
+                            className="p-1 text-brand-soft-gray hover:text-brand-dark-teal disabled:opacity-50"
+                          >
+                            {template.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(template)}
+                          disabled={isSaving}
+                          title="Delete"
+                          className="p-1 text-brand-soft-gray hover:text-red-600 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {vendors.length > 1 && (
+            <div className="p-6 border-t border-brand-soft-gray/20">
+              <h4 className="text-sm font-semibold text-brand-text-dark mb-3">Annualized cost per vendor</h4>
+              <div className="space-y-2">
+                {vendors.map(vendor => {
+                  const total = annualTotals.find(t => t.currency === vendor.currency)?.amount || 0;
+                  return (
+                    <div key={`${vendor.merchant}|${vendor.currency}`}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-brand-text-dark">{vendor.merchant}</span>
+                        <span className="text-brand-text-muted">{formatCurrency(vendor.annualized, vendor.currency)}</span>
+                      </div>
+                      <div className="w-full bg-brand-soft-gray/20 rounded-full h-2">
+                        <div
+                          className="bg-brand-dark-teal h-2 rounded-full"
+                          style={{ width: `${total > 0 ? (vendor.annualized / total) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Upcoming Charges */}
+        <div className="bg-white rounded-xl shadow-sm border border-brand-soft-gray/20">
+          <div className="p-6 border-b border-brand-soft-gray/20">
+            <h3 className="text-lg font-semibold text-brand-text-dark flex items-center space-x-2">
+              <CalendarClock className="w-5 h-5 text-brand-dark-teal" />
+              <span>Upcoming charges</span>
+            </h3>
+          </div>
+          {upcoming.length === 0 ? (
+            <p className="p-6 text-sm text-center text-brand-text-muted">Nothing due in the next {UPCOMING_DAYS} days.</p>
+          ) : (
+            <ul className="divide-y divide-brand-soft-gray/20">
+              {upcoming.map(({ date, template }) => (
+                <li key={`${template.id}-${date}`} className="px-6 py-3 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-brand-text-dark">{template.merchant}</p>
+                    <p className="text-xs text-brand-text-muted">{date === today ? 'Today' : date}</p>
+                  </div>
+                  <span className="text-brand-text-dark">{formatCurrency(template.amount, currencyOf(template))}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionsView;
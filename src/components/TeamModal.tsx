@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from 'react';
+import { X, UserPlus, Trash2, Loader2, AlertCircle, CheckCircle, LogOut, Mail, ClipboardCheck } from 'lucide-react';
+import {
+  workspaceMemberRepository,
+  workspaceInvitationRepository,
+  ApprovalPolicy,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole
+} from '../lib/repositories';
+import { teamService, can, assignableRoles, ROLE_OPTIONS } from '../lib/team';
+import { approvalService, EMPTY_APPROVAL_POLICY } from '../lib/approvals';
+
+interface TeamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspaceId: string | null;
+  workspaceName: string;
+  currentUser: { id: string } | null;
+  myRole: WorkspaceRole | null;
+  baseCurrency: string;
+  // Called after the current user leaves or deletes the workspace
+  onLeftOrDeleted?: () => void;
+  // Called after the current user's own role changes
+  onRoleChanged?: () => void;
+  // Called after approvers or the second approval amount change
+  onPolicyChanged?: (policy: ApprovalPolicy) => void;
+}
+
+const roleLabel = (role: WorkspaceRole) => ROLE_OPTIONS.find(option => option.value === role)?.label || role;
+
+const TeamModal: React.FC<TeamModalProps> = ({
+  isOpen,
+  onClose,
+  activeWorkspaceId,
+  workspaceName,
+  currentUser,
+  myRole,
+  baseCurrency,
+  onLeftOrDeleted,
+  onRoleChanged,
+  onPolicyChanged
+}) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [draft, setDraft] = useState<{ email: string; role: WorkspaceInvitation['role'] }>({ email: '', role: 'member' });
+  const [policy, setPolicy] = useState<ApprovalPolicy>(EMPTY_APPROVAL_POLICY);
+  const [policyDraft, setPolicyDraft] = useState({ threshold: '', approverIds: [] as string[] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const canManageMembers = can(myRole, 'manage_members');
+
+  const loadTeam = async () => {
+    if (!activeWorkspaceId) return;
+
+    const [membersResult, invitationsResult] = await Promise.all([
+      workspaceMemberRepository.listForWorkspace(activeWorkspaceId),
+      canManageMembers
+        ? workspaceInvitationRepository.listPending(activeWorkspaceId)
+        : Promise.resolve({ data: [] as WorkspaceInvitation[], error: null })
+    ]);
+
+    if (membersResult.error || invitationsResult.error) {
+      console.error('Error loading team:', membersResult.error || invitationsResult.error);
+      setError('Could not load the team');
+    }
+    setMembers(membersResult.data);
+    setInvitations(invitationsResult.data);
+
+    try {
+      applyPolicy(await approvalService.loadPolicy(activeWorkspaceId));
+    } catch (err) {
+      console.error('Error loading approval settings:', err);
+    }
+  };
+
+  const applyPolicy = (next: ApprovalPolicy) => {
+    setPolicy(next);
+    setPolicyDraft({
+      threshold: next.second_approval_threshold === null ? '' : String(next.second_approval_threshold),
+      approverIds: next.approver_ids
+    });
+  };
+
+  useEffect(() => {
+    if (!isOpen || !activeWorkspaceId) return;
+
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+    loadTeam().finally(() => setIsLoading(false));
+  }, [isOpen, activeWorkspaceId, myRole]);
+
+  // Wraps an action so errors, the spinner and reloading the team are handled in one place
+  const runAction = async (action: () => Promise<string | void>, successMessage: string, reload = true) => {
+    setIsSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      const message = await action();
+      if (reload) await loadTeam();
+      setNotice(message || successMessage);
+    } catch (err) {
+      console.error('Error updating team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the team');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !currentUser) return;
+
+    runAction(async () => {
+      const { invitation, emailSent } = await teamService.invite(activeWorkspaceId, currentUser.id, draft.email, draft.role, members);
+      setDraft(prev => ({ ...prev, email: '' }));
+      return emailSent
+        ? `Invitation sent to ${invitation.email}`
+        : `Invited ${invitation.email}. No email could be sent, so let them know to sign in with this address to accept.`;
+    }, 'Invitation created');
+  };
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (role === member.role) return;
+
+    runAction(async () => {
+      await teamService.changeRole(member, role);
+      if (member.user_id === currentUser?.id) onRoleChanged?.();
+    }, `${member.email} is now ${roleLabel(role).toLowerCase()}`);
+  };
+
+  const handleRemove = (member: WorkspaceMember) => {
+    const isSelf = member.user_id === currentUser?.id;
+    const question = isSelf
+      ? `Leave ${workspaceName}? You will lose access to its expenses.`
+      : `Remove ${member.email} from ${workspaceName}?`;
+    if (!window.confirm(question)) return;
+
+    runAction(async () => {
+      await teamService.removeMember(member);
+      if (isSelf) {
+        onLeftOrDeleted?.();
+        onClose();
+      }
+    }, isSelf ? `You left ${workspaceName}` : `Removed ${member.email}`, !isSelf);
+  };
+
+  const handleSavePolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !currentUser) return;
+
+    const next: ApprovalPolicy = {
+      second_approval_threshold: policyDraft.threshold.trim() === '' ? null : parseFloat(policyDraft.threshold),
+      approver_ids: policyDraft.approverIds
+    };
+
+    runAction(async () => {
+      await approvalService.savePolicy(activeWorkspaceId, currentUser.id, next, policy);
+      onPolicyChanged?.(next);
+    }, 'Approval settings saved');
+  };
+
+  const toggleApprover = (userId: string, checked: boolean) => {
+    setPolicyDraft(prev => ({
+      ...prev,
+      approverIds: checked ? [...prev.approverIds, userId] : prev.approverIds.filter(id => id !== userId)
+    }));
+  };
+
+  const handleRevoke = (invitation: WorkspaceInvitation) => {
+    runAction(() => teamService.revoke(invitation), `Revoked the invitation for ${invitation.email}`);
+  };
+
+  const handleDeleteWorkspace = () => {
+    if (!activeWorkspaceId) return;
+
+    const confirmation = window.prompt(`This permanently deletes ${workspaceName} with all its expenses and receipts. Type the business name to confirm.`);
+    if (confirmation === null) return;
+    if (confirmation.trim() !== workspaceName) {
+      setError('The name did not match, nothing was deleted');
+      return;
+    }
+
+    runAction(async () => {
+      await teamService.deleteWorkspace(activeWorkspaceId);
+      onLeftOrDeleted?.();
+      onClose();
+    }, `Deleted ${workspaceName}`, false);
+  };
+
+  if (!isOpen) return null;
+
+  const roleOptions = assignableRoles(myRole);
+  const inviteRoleOptions = roleOptions.filter(option => option.value !== 'owner');
+
+  // Only owners can change or remove other owners
+  const canEditMember = (member: WorkspaceMember) =>
+    canManageMembers && member.user_id !== currentUser?.id && (member.role !== 'owner' || myRole === 'owner');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Team</h2>
+            <p className="text-sm text-gray-500">{workspaceName}{myRole && ` · you are ${roleLabel(myRole).toLowerCase()}`}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {notice && (
+            <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{notice}</span>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-brand-dark-teal animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Invite */}
+              {canManageMembers && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Invite someone</h3>
+                  <form onSubmit={handleInvite} className="flex items-end space-x-2">
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">Email</label>
+                      <input
+                        type="email"
+                        value={draft.email}
+                        onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+                        placeholder="name@company.com"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Role</label>
+                      <select
+                        value={draft.role}
+                        onChange={(e) => setDraft(prev => ({ ...prev, role: e.target.value as WorkspaceInvitation['role'] }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      >
+                        {inviteRoleOptions.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isSaving || !draft.email.trim()}
+                      className="flex items-center space-x-1 px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                    >
+                      {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                      <span>Invite</span>
+                    </button>
+                  </form>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {ROLE_OPTIONS.filter(option => option.value !== 'owner').map(option => `${option.label}s: ${option.description.toLowerCase()}.`).join(' ')}
+                  </p>
+                </div>
+              )}
+
+              {/* Members */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Members ({members.length})</h3>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {members.map(member => {
+                    const isSelf = member.user_id === currentUser?.id;
+                    return (
+                      <div key={member.id} className="flex items-center justify-between px-3 py-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {member.full_name || member.email}{isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                          </p>
+                          {member.full_name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          {canEditMember(member) ? (
+                            <select
+                              value={member.role}
+                              onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                              disabled={isSaving}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                            >
+                              {roleOptions.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="px-2 py-1 text-xs font-medium rounded-full bg-brand-soft-gray text-brand-text-dark">
+                              {roleLabel(member.role)}
+                            </span>
+                          )}
+                          {(isSelf || canEditMember(member)) && (
+                            <button
+                              onClick={() => handleRemove(member)}
+                              disabled={isSaving}
+                              title={isSelf ? 'Leave business' : 'Remove member'}
+                              className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                            >
+                              {isSelf ? <LogOut className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Pending invitations */}
+              {canManageMembers && invitations.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Pending invitations</h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {invitations.map(invitation => (
+                      <div key={invitation.id} className="flex items-center justify-between px-3 py-2">
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <Mail className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 truncate">{invitation.email}</p>
+                            <p className="text-xs text-gray-500">
+                              {roleLabel(invitation.role)} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleRevoke(invitation)}
+                          disabled={isSaving}
+                          className="text-sm text-gray-500 hover:text-red-600 disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Approvals */}
+              {canManageMembers && (
+                <form onSubmit={handleSavePolicy} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-700 flex items-center space-x-2">
+                    <ClipboardCheck className="w-4 h-4" />
+                    <span>Approvals</span>
+                  </h3>
+                  <div>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Approvers review submitted expenses. When nobody is ticked, admins and owners approve.
+                    </p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                      {members.map(member => (
+                        <label key={member.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={policyDraft.approverIds.includes(member.user_id)}
+                            onChange={(e) => toggleApprover(member.user_id, e.target.checked)}
+                            className="rounded border-gray-300 text-brand-dark-teal focus:ring-brand-dark-teal"
+                          />
+                          <span>{member.full_name || member.email}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-end space-x-2">
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Second approval needed from ({baseCurrency}, leave empty for never)
+                      </label>
+                      <input
+                        type="number"
+                        value={policyDraft.threshold}
+                        onChange={(e) => setPolicyDraft(prev => ({ ...prev, threshold: e.target.value }))}
+                        min="0"
+                        step="0.01"
+                        placeholder="e.g. 10000"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {/* Danger zone */}
+              {can(myRole, 'delete_workspace') && (
+                <div className="border border-red-200 rounded-lg p-4">
+                  <h3 className="text-sm font-semibold text-red-700 mb-1">Delete business</h3>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Removes {workspaceName} for everyone, including all expenses, receipts and settings. This cannot be undone.
+                  </p>
+                  <button
+                    onClick={handleDeleteWorkspace}
+                    disabled={isSaving}
+                    className="px-3 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    Delete business
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamModal;
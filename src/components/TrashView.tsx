@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, RotateCcw, Loader2, AlertCircle, Check } from 'lucide-react';
+import { Expense, WorkspaceRole, DEFAULT_TRASH_RETENTION_DAYS } from '../lib/repositories';
+import { trashService, daysUntilPurge } from '../lib/trash';
+import { can } from '../lib/team';
+import { formatCurrency } from '../lib/currency';
+
+interface TrashViewProps {
+  activeWorkspaceId: string | null;
+  myRole: WorkspaceRole | null;
+  // Called after expenses are restored so the other views reload them
+  onRestored?: () => void;
+}
+
+// Deleted expenses of the active workspace, with restore and permanent delete
+const TrashView: React.FC<TrashViewProps> = ({ activeWorkspaceId, myRole, onRestored }) => {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [retentionDraft, setRetentionDraft] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const canManageSettings = can(myRole, 'manage_settings');
+
+  const loadTrash = async () => {
+    if (!activeWorkspaceId) return;
+
+    setIsLoading(true);
+    try {
+      const trash = await trashService.loadTrash(activeWorkspaceId);
+      setExpenses(trash.expenses);
+      setRetentionDays(trash.retentionDays);
+      setRetentionDraft(String(trash.retentionDays));
+      setSelectedIds(prev => prev.filter(id => trash.expenses.some(expense => expense.id === id)));
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError(err instanceof Error ? err.message : 'Could not load the trash');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setError('');
+    setSuccess('');
+    setSelectedIds([]);
+    loadTrash();
+  }, [activeWorkspaceId]);
+
+  // Wraps an action so errors, the spinner and reloading are handled in one place
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+      await loadTrash();
+    } catch (err) {
+      console.error('Error updating trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the trash');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = (ids: string[]) => runAction(async () => {
+    const restored = await trashService.restore(ids);
+    onRestored?.();
+    return `Restored ${restored} expense${restored !== 1 ? 's' : ''}`;
+  });
+
+  const handlePurge = (ids: string[]) => {
+    if (!window.confirm(`Permanently delete ${ids.length} expense${ids.length !== 1 ? 's' : ''}? This can't be undone.`)) return;
+
+    runAction(async () => {
+      const purged = await trashService.purge(ids);
+      return `Permanently deleted ${purged} expense${purged !== 1 ? 's' : ''}`;
+    });
+  };
+
+  const handleSaveRetention = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId) return;
+
+    runAction(async () => {
+      await trashService.saveRetention(activeWorkspaceId, Number(retentionDraft));
+      return 'Retention period saved';
+    });
+  };
+
+  if (!activeWorkspaceId) {
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-brand-soft-gray/20 p-8 text-center text-brand-text-muted">
+        Select a business to see its deleted expenses.
+      </div>
+    );
+  }
+
+  const allSelected = expenses.length > 0 && selectedIds.length === expenses.length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-brand-soft-gray/20">
+      <div className="p-6 border-b border-brand-soft-gray/20 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-brand-text-dark flex items-center space-x-2">
+              <Trash2 className="w-5 h-5 text-brand-dark-teal" />
+              <span>Trash</span>
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin text-brand-dark-teal" />}
+            </h3>
+            <p className="text-sm text-brand-text-muted">
+              Deleted expenses are removed permanently after {retentionDays} day{retentionDays !== 1 ? 's' : ''}.
+            </p>
+          </div>
+
+          {canManageSettings && (
+            <form onSubmit={handleSaveRetention} className="flex items-center space-x-2 text-sm">
+              <label htmlFor="trash-retention" className="text-brand-text-muted">Keep for</label>
+              <input
+                id="trash-retention"
+                type="number"
+                min={1}
+                max={365}
+                value={retentionDraft}
+                onChange={(e) => setRetentionDraft(e.target.value)}
+                className="w-20 px-3 py-2 border border-brand-soft-gray/30 rounded-lg focus:ring-2 focus:ring-brand-dark-teal focus:border-transparent"
+              />
+              <span className="text-brand-text-muted">days</span>
+              <button
+                type="submit"
+                disabled={isSaving || retentionDraft === String(retentionDays)}
+                className="px-3 py-2 bg-brand-dark-teal text-white rounded-lg hover:bg-brand-dark-teal/90 transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        {success && (
+          <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+            <Check className="w-4 h-4 flex-shrink-0" />
+            <span>{success}</span>
+          </div>
+        )}
+
+        {selectedIds.length > 0 && (
+          <div className="flex items-center justify-between p-3 bg-brand-light-beige/40 rounded-lg">
+            <span className="text-sm text-brand-text-dark">
+              {selectedIds.length} item{selectedIds.length !== 1 ? 's' : ''} selected
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => handleRestore(selectedIds)}
+                disabled={isSaving}
+                className="flex items-center space-x-1 px-3 py-2 text-sm border border-brand-muted-teal text-brand-muted-teal rounded-lg hover:bg-brand-muted-teal hover:text-white transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Restore</span>
+              </button>
+              <button
+                onClick={() => handlePurge(selectedIds)}
+                disabled={isSaving}
+                className="flex items-center space-x-1 px-3 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Delete forever</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {expenses.length === 0 ? (
+        <p className="p-8 text-center text-sm text-brand-text-muted">
+          {isLoading ? 'Loading...' : 'The trash is empty.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-brand-light-beige text-brand-text-muted">
+              <tr>
+                <th className="px-4 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={(e) => setSelectedIds(e.target.checked ? expenses.map(expense => expense.id) : [])}
+                    className="rounded border-brand-soft-gray/50 text-brand-dark-teal focus:ring-brand-dark-teal"
+                  />
+                </th>
+                <th className="px-4 py-3 text-left font-medium">Date</th>
+                <th className="px-4 py-3 text-left font-medium">Merchant</th>
+                <th className="px-4 py-3 text-left font-medium">Category</th>
+                <th className="px-4 py-3 text-right font-medium">Amount</th>
+                <th className="px-4 py-3 text-left font-medium">Deleted</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-brand-soft-gray/20">
+              {expenses.map(expense => {
+                const daysLeft = daysUntilPurge(expense, retentionDays);
+                return (
+                  <tr key={expense.id} className="hover:bg-brand-soft-gray/5">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(expense.id)}
+                        onChange={(e) => setSelectedIds(prev => e.target.checked ? [...prev, expense.id] : prev.filter(id => id !== expense.id))}
+                        className="rounded border-brand-soft-gray/50 text-brand-dark-teal focus:ring-brand-dark-teal"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-brand-text-muted whitespace-nowrap">{expense.txn_date}</td>
+                    <td className="px-4 py-3 font-medium text-brand-text-dark">{expense.merchant}</td>
+                    <td className="px-4 py-3 text-brand-text-muted">{expense.category_name}</td>
+                    <td className="px-4 py-3 text-right font-medium text-brand-text-dark whitespace-nowrap">
+                      {formatCurrency(expense.amount, expense.currency)}
+                    </td>
+                    <td className="px-4 py-3 text-brand-text-muted whitespace-nowrap">
+                      {expense.deleted_at && new Date(expense.deleted_at).toLocaleDateString()}
+                      <span className="block text-xs">
+                        {daysLeft === 0 ? 'Removed today' : `Removed in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => handleRestore([expense.id])}
+                          disabled={isSaving}
+                          title="Restore"
+                          className="p-1.5 text-brand-muted-teal hover:text-brand-dark-teal disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handlePurge([expense.id])}
+                          disabled={isSaving}
+                          title="Delete forever"
+                          className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
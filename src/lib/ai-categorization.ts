@@ -1,14 +1,31 @@
 // AI Categorization Service using Supabase Edge Functions
-// This service automatically categorizes expenses based on merchant name and amount
+// This service automatically categorizes expenses based on merchant name and amount.
+// The workspace's categorization rules (see categorization-rules.ts) are applied first.
+// The AI chooses from the workspace's own categories and answers with a category ID.
+
+import type { RuleMatch } from './categorization-rules';
+import type { CategorizationRuleSource } from './repositories';
 
 export interface AICategorizationResult {
+  // One of the categories the AI was given; missing when none of them fits
+  categoryId?: string;
   category: string;
   confidence: number;
   reasoning: string;
   suggestedPaymentMethod?: string;
+  // Set when a categorization rule picked the category or payment method
+  matchedRule?: {
+    id: string;
+    description: string;
+    source: CategorizationRuleSource;
+    setsCategory: boolean;
+    setsPaymentMethod: boolean;
+  };
 }
 
 export interface ExpenseContext {
+  // Enables the workspace's categorization rules
+  workspaceId?: string;
   merchant: string;
   amount: number;
   currency: string;
@@ -17,7 +34,16 @@ export interface ExpenseContext {
   notes?: string;
 }
 
-// Default categories that the AI can choose from
+// A category the AI can choose, e.g. one of the workspace's categories
+export interface AICategoryOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export type AICategorySuggestion = Pick<AICategorizationResult, 'categoryId' | 'category'>;
+
+// Categories the AI chooses from when no workspace categories are sent
 export const DEFAULT_CATEGORIES = [
   'Food & Dining',
   'Transportation',
@@ -51,18 +77,16 @@ export const PAYMENT_METHOD_PATTERNS = {
 
 class AICategorizationService {
   private supabaseUrl: string | null = null;
-  private openaiApiKey: string | null = null;
   private isConfigured: boolean = false;
 
   constructor() {
     this.supabaseUrl = import.meta.env.VITE_SUPABASE_URL || null;
-    this.openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY || null;
-    this.isConfigured = !!(this.supabaseUrl && this.openaiApiKey);
+    // The AI provider's key is an edge function secret, so only the functions' URL is needed
+    this.isConfigured = !!this.supabaseUrl;
     
     if (!this.isConfigured) {
       console.warn('AI categorization is not configured. Missing:', {
-        supabaseUrl: !this.supabaseUrl ? 'VITE_SUPABASE_URL' : 'OK',
-        openaiKey: !this.openaiApiKey ? 'VITE_OPENAI_API_KEY' : 'OK'
+        supabaseUrl: !this.supabaseUrl ? 'VITE_SUPABASE_URL' : 'OK'
       });
     }
   }
@@ -75,13 +99,21 @@ class AICategorizationService {
   }
 
   /**
-   * Categorize an expense using Supabase Edge Function
+   * Categorize an expense using the workspace's rules, then the Supabase Edge Function.
+   * The AI chooses from `categories`, or when none are given those of the expense's workspace.
    */
-  async categorizeExpense(expense: ExpenseContext): Promise<AICategorizationResult> {
+  async categorizeExpense(expense: ExpenseContext, categories?: AICategoryOption[]): Promise<AICategorizationResult> {
+    const [ruleMatch] = await this.matchRules([expense]);
+    if (ruleMatch?.categoryName) {
+      return this.ruleResult(ruleMatch);
+    }
+
     if (!this.isAvailable()) {
       throw new Error('AI categorization is not configured. Please check your Supabase configuration.');
     }
 
+    const options = categories?.length ? categories : await this.workspaceCategories(expense.workspaceId);
+
     try {
       // Get the current session for authentication
       const { supabase } = await import('./supabase');
@@ -99,7 +131,7 @@ class AICategorizationService {
       const response = await fetch(`${this.supabaseUrl}/functions/v1/ai-categorization`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ expense })
+        body: JSON.stringify({ expense, categories: this.requestCategories(options) })
       });
 
       if (!response.ok) {
@@ -110,16 +142,11 @@ class AICategorizationService {
 
       const result = await response.json();
       
-      // Validate the response
-      if (!result.category || !result.confidence || !result.reasoning) {
-        throw new Error('Invalid response from AI categorization service');
-      }
-
-      return result;
+      return this.withRulePaymentMethod(this.validateResult(result, options), ruleMatch);
     } catch (error) {
       console.error('AI categorization failed:', error);
       // Fallback to rule-based categorization
-      return this.fallbackCategorization(expense);
+      return this.withRulePaymentMethod(this.fallbackCategorization(expense, options), ruleMatch);
     }
   }
 
@@ -127,9 +154,9 @@ class AICategorizationService {
    * Get suggested categories for a merchant (for autocomplete)
    * This now uses the Edge Function for better AI-powered suggestions
    */
-  async getCategorySuggestions(merchant: string): Promise<string[]> {
+  async getCategorySuggestions(merchant: string, categories: AICategoryOption[] = []): Promise<AICategorySuggestion[]> {
     if (!this.isAvailable() || !merchant.trim()) {
-      return this.getFallbackSuggestions(merchant);
+      return this.getFallbackSuggestions(merchant, categories);
     }
 
     try {
@@ -159,6 +186,7 @@ class AICategorizationService {
         headers,
         body: JSON.stringify({ 
           expense: expenseContext,
+          categories: this.requestCategories(categories),
           requestType: 'suggestions' // Add a flag to indicate this is for suggestions
         })
       });
@@ -166,30 +194,58 @@ class AICategorizationService {
       if (response.ok) {
         const result = await response.json();
         if (result.suggestions && Array.isArray(result.suggestions)) {
-          return result.suggestions;
+          // Suggestions of categories that weren't sent are dropped
+          return (result.suggestions as AICategorySuggestion[])
+            .filter(suggestion => categories.length === 0 || categories.some(c => c.id === suggestion.categoryId))
+            .map(suggestion => ({
+              category: suggestion.category,
+              categoryId: categories.length > 0 ? suggestion.categoryId : undefined
+            }));
         }
       }
 
       // Fallback to rule-based suggestions if Edge Function doesn't support suggestions yet
-      return this.getFallbackSuggestions(merchant);
+      return this.getFallbackSuggestions(merchant, categories);
     } catch (error) {
       console.error('Failed to get AI category suggestions:', error);
-      return this.getFallbackSuggestions(merchant);
+      return this.getFallbackSuggestions(merchant, categories);
     }
   }
 
   /**
-   * Get multiple expense categorizations in batch (useful for bulk imports)
+   * Get multiple expense categorizations in batch (useful for bulk imports). The AI
+   * chooses from `categories`, or when none are given those of the first expense's workspace.
    */
-  async categorizeExpensesBatch(expenses: ExpenseContext[]): Promise<AICategorizationResult[]> {
-    if (!this.isAvailable()) {
-      throw new Error('AI categorization is not configured. Please check your Supabase configuration.');
-    }
-
+  async categorizeExpensesBatch(expenses: ExpenseContext[], categories?: AICategoryOption[]): Promise<AICategorizationResult[]> {
     if (expenses.length === 0) {
       return [];
     }
 
+    // Expenses decided by a rule aren't sent to the AI
+    const ruleMatches = await this.matchRules(expenses);
+    const pending = expenses.filter((_, index) => !ruleMatches[index]?.categoryName);
+    const options = categories?.length
+      ? categories
+      : await this.workspaceCategories(expenses.find(e => e.workspaceId)?.workspaceId);
+    const aiResults = pending.length > 0 ? await this.categorizeWithAI(pending, options) : [];
+
+    let next = 0;
+    return expenses.map((_, index) => {
+      const ruleMatch = ruleMatches[index];
+      return ruleMatch?.categoryName
+        ? this.ruleResult(ruleMatch)
+        : this.withRulePaymentMethod(aiResults[next++], ruleMatch);
+    });
+  }
+
+  /**
+   * Categorize a batch with the Supabase Edge Function
+   */
+  private async categorizeWithAI(expenses: ExpenseContext[], categories: AICategoryOption[]): Promise<AICategorizationResult[]> {
+    if (!this.isAvailable()) {
+      throw new Error('AI categorization is not configured. Please check your Supabase configuration.');
+    }
+
     try {
       // Get the current session for authentication
       const { supabase } = await import('./supabase');
@@ -209,6 +265,7 @@ class AICategorizationService {
         headers,
         body: JSON.stringify({ 
           expenses,
+          categories: this.requestCategories(categories),
           requestType: 'batch'
         })
       });
@@ -226,28 +283,133 @@ class AICategorizationService {
         throw new Error('Invalid batch response from AI categorization service');
       }
 
-      return results.map(result => {
-        if (!result.category || !result.confidence || !result.reasoning) {
+      return results.map((result, index) => {
+        try {
+          return this.validateResult(result, categories);
+        } catch (error) {
           // Fallback for any invalid results in the batch
-          return this.fallbackCategorization({
-            merchant: result.merchant || 'Unknown',
-            amount: result.amount || 0,
-            currency: result.currency || 'USD'
-          });
+          console.error('Invalid result in AI categorization batch:', error);
+          return this.fallbackCategorization(expenses[index], categories);
         }
-        return result;
       });
     } catch (error) {
       console.error('Batch AI categorization failed:', error);
       // Fallback to individual categorization for each expense
-      return Promise.all(expenses.map(expense => this.fallbackCategorization(expense)));
+      return Promise.all(expenses.map(expense => this.fallbackCategorization(expense, categories)));
+    }
+  }
+
+  /**
+   * The categories of a workspace, for the AI to choose from. Without a workspace none are
+   * sent and the Edge Function falls back to its default category names.
+   */
+  private async workspaceCategories(workspaceId?: string): Promise<AICategoryOption[]> {
+    if (!workspaceId) return [];
+
+    const { categoryRepository } = await import('./repositories');
+    const { data, error } = await categoryRepository.listForWorkspace(workspaceId);
+    if (error) {
+      console.error('Failed to load workspace categories for AI categorization:', error);
+    }
+    return data;
+  }
+
+  private requestCategories(categories: AICategoryOption[]) {
+    return categories.map(({ id, name, description }) => ({ id, name, description: description || undefined }));
+  }
+
+  /**
+   * Check an answer from the Edge Function. Its category ID must be one of the categories
+   * sent; without any, the function answered with its default names and there is no ID.
+   */
+  private validateResult(result: Partial<AICategorizationResult>, categories: AICategoryOption[]): AICategorizationResult {
+    if (!result?.category || !result.confidence || !result.reasoning) {
+      throw new Error('Invalid response from AI categorization service');
+    }
+
+    const category = categories.length > 0 && result.categoryId
+      ? categories.find(c => c.id === result.categoryId)
+      : undefined;
+    if (categories.length > 0 && result.categoryId && !category) {
+      throw new Error(`AI categorization returned category ${result.categoryId}, which isn't one of the workspace's categories`);
     }
+
+    return {
+      categoryId: category?.id,
+      category: category?.name ?? result.category,
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      suggestedPaymentMethod: result.suggestedPaymentMethod
+    };
+  }
+
+  /**
+   * The category with this name, ignoring case, for answers that only have a name
+   */
+  private findCategory(categories: AICategoryOption[], name: string) {
+    return categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * The workspace rule that applies to each expense, if any. Expenses are matched against
+   * the rules of their own workspace; those without one have no rules.
+   */
+  private async matchRules(expenses: ExpenseContext[]): Promise<(RuleMatch | null)[]> {
+    const matches: (RuleMatch | null)[] = expenses.map(() => null);
+    const workspaceIds = [...new Set(expenses.map(e => e.workspaceId).filter((id): id is string => !!id))];
+    if (workspaceIds.length === 0) return matches;
+
+    const { categorizationRuleService } = await import('./categorization-rules');
+    for (const workspaceId of workspaceIds) {
+      const indexes = expenses.flatMap((e, index) => e.workspaceId === workspaceId ? [index] : []);
+      const workspaceMatches = await categorizationRuleService.matchExpenses(workspaceId, indexes.map(i => expenses[i]));
+      indexes.forEach((expenseIndex, i) => { matches[expenseIndex] = workspaceMatches[i]; });
+    }
+    return matches;
+  }
+
+  /**
+   * Result for an expense whose category was picked by a rule. Admins' rules are trusted
+   * fully; learned ones slightly less, since they come from a couple of corrections.
+   */
+  private ruleResult(match: RuleMatch): AICategorizationResult {
+    return {
+      categoryId: match.rule.category_id ?? undefined,
+      category: match.categoryName!,
+      confidence: match.rule.source === 'user' ? 1 : 0.95,
+      reasoning: `${match.rule.source === 'user' ? 'Rule' : 'Learned rule'}: ${match.description}`,
+      suggestedPaymentMethod: match.paymentMethodName
+        || PAYMENT_METHOD_PATTERNS[match.categoryName as keyof typeof PAYMENT_METHOD_PATTERNS]?.[0],
+      matchedRule: this.describeMatch(match)
+    };
+  }
+
+  /**
+   * Apply a rule that only sets the payment method on top of the AI's category
+   */
+  private withRulePaymentMethod(result: AICategorizationResult, match: RuleMatch | null): AICategorizationResult {
+    if (!match?.paymentMethodName) return result;
+    return {
+      ...result,
+      suggestedPaymentMethod: match.paymentMethodName,
+      matchedRule: this.describeMatch(match)
+    };
+  }
+
+  private describeMatch(match: RuleMatch): AICategorizationResult['matchedRule'] {
+    return {
+      id: match.rule.id,
+      description: match.description,
+      source: match.rule.source,
+      setsCategory: !!match.categoryName,
+      setsPaymentMethod: !!match.paymentMethodName
+    };
   }
 
   /**
    * Fallback categorization using rule-based logic
    */
-  private fallbackCategorization(expense: ExpenseContext): AICategorizationResult {
+  private fallbackCategorization(expense: ExpenseContext, categories: AICategoryOption[] = []): AICategorizationResult {
     const merchant = expense.merchant.toLowerCase();
     const description = expense.description?.toLowerCase() || '';
     const amount = expense.amount;
@@ -313,8 +475,12 @@ class AICategorizationService {
     // Payment method suggestion based on category
     const suggestedPaymentMethod = PAYMENT_METHOD_PATTERNS[category as keyof typeof PAYMENT_METHOD_PATTERNS]?.[0] || 'Credit Card';
 
+    // The pattern's category when the workspace has it, otherwise its "Other" category
+    const match = this.findCategory(categories, category) || this.findCategory(categories, 'Other');
+
     return {
-      category,
+      categoryId: match?.id,
+      category: match?.name ?? category,
       confidence,
       reasoning,
       suggestedPaymentMethod
@@ -324,7 +490,7 @@ class AICategorizationService {
   /**
    * Fallback category suggestions
    */
-  private getFallbackSuggestions(merchant: string): string[] {
+  private getFallbackSuggestions(merchant: string, categories: AICategoryOption[]): AICategorySuggestion[] {
     const suggestions = ['Other'];
     
     if (merchant.toLowerCase().includes('food') || merchant.toLowerCase().includes('restaurant')) {
@@ -337,7 +503,16 @@ class AICategorizationService {
       suggestions.unshift('Office Supplies');
     }
     
-    return suggestions.slice(0, 3);
+    if (categories.length === 0) {
+      return suggestions.slice(0, 3).map(category => ({ category }));
+    }
+
+    // Only the workspace's own categories can be suggested
+    return suggestions
+      .map(name => this.findCategory(categories, name))
+      .filter((category): category is AICategoryOption => !!category)
+      .slice(0, 3)
+      .map(category => ({ categoryId: category.id, category: category.name }));
   }
 
   /**
@@ -347,7 +522,6 @@ class AICategorizationService {
     return {
       isAvailable: this.isAvailable(),
       supabaseUrl: this.supabaseUrl,
-      openaiApiKey: this.openaiApiKey ? 'Set' : 'Missing',
       edgeFunctionUrl: this.supabaseUrl ? `${this.supabaseUrl}/functions/v1/ai-categorization` : null,
       categories: DEFAULT_CATEGORIES,
       paymentMethods: Object.keys(PAYMENT_METHOD_PATTERNS)
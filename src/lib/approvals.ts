@@ -0,0 +1,157 @@
+// Approval Service
+// Expenses are submitted by whoever recorded them, approved or rejected by the workspace's
+// approvers and marked paid by admins. Transitions run in transition_expenses() so the
+// rules and the status history live in the database; this service wraps them for the UI.
+
+import {
+  approvalRepository,
+  ApprovalPolicy,
+  ApprovalAction,
+  Expense,
+  ExpenseStatus,
+  WorkspaceRole
+} from './repositories';
+import { can } from './team';
+
+export const EXPENSE_STATUS_LABELS: Record<ExpenseStatus, string> = {
+  unreviewed: 'Unreviewed',
+  flagged: 'Flagged',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  paid: 'Paid'
+};
+
+export const EXPENSE_STATUS_COLORS: Record<ExpenseStatus, string> = {
+  unreviewed: 'bg-yellow-100 text-yellow-800',
+  flagged: 'bg-orange-100 text-orange-800',
+  submitted: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  paid: 'bg-gray-100 text-gray-700'
+};
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  submit: 'submitted',
+  approve: 'approved',
+  reject: 'rejected',
+  pay: 'marked as paid'
+};
+
+// Statuses the submitter still has to act on; these make up the inbox
+export const INBOX_STATUSES: ExpenseStatus[] = ['unreviewed', 'flagged', 'rejected'];
+
+export const EMPTY_APPROVAL_POLICY: ApprovalPolicy = { second_approval_threshold: null, approver_ids: [] };
+
+/**
+ * Whether a user approves expenses: a designated approver, or an admin when none are designated
+ */
+export const isApprover = (policy: ApprovalPolicy, userId: string | undefined, role: WorkspaceRole | null) =>
+  !!role && (policy.approver_ids.length > 0 ? !!userId && policy.approver_ids.includes(userId) : can(role, 'review_expenses'));
+
+/**
+ * Whether a user may approve an expense: nobody approves an expense they recorded
+ */
+export const canApproveExpense = (expense: Pick<Expense, 'user_id'>, userId: string | undefined) =>
+  !!userId && expense.user_id !== userId;
+
+/**
+ * Number of approvals an expense needs under a policy, judged on its base-currency amount
+ */
+export const approvalsRequired = (expense: Expense, policy: ApprovalPolicy) =>
+  policy.second_approval_threshold !== null && (expense.base_amount ?? expense.amount) >= policy.second_approval_threshold ? 2 : 1;
+
+class ApprovalService {
+  /**
+   * Load a workspace's approval policy
+   */
+  async loadPolicy(workspaceId: string) {
+    const { data, error } = await approvalRepository.getPolicy(workspaceId);
+    if (error) {
+      throw new Error(error.message || 'Failed to load approval settings');
+    }
+    return data;
+  }
+
+  /**
+   * Save the second-approval threshold and the list of approvers
+   */
+  async savePolicy(workspaceId: string, userId: string, policy: ApprovalPolicy, previous: ApprovalPolicy) {
+    if (policy.second_approval_threshold !== null && !(policy.second_approval_threshold > 0)) {
+      throw new Error('The second approval amount must be greater than 0');
+    }
+
+    const added = policy.approver_ids.filter(id => !previous.approver_ids.includes(id));
+    const removed = previous.approver_ids.filter(id => !policy.approver_ids.includes(id));
+
+    const results = await Promise.all([
+      policy.second_approval_threshold !== previous.second_approval_threshold
+        ? approvalRepository.updateThreshold(workspaceId, policy.second_approval_threshold)
+        : Promise.resolve({ error: null }),
+      approvalRepository.addApprovers(workspaceId, added, userId),
+      approvalRepository.removeApprovers(workspaceId, removed)
+    ]);
+
+    const error = results.find(result => result.error)?.error;
+    if (error) {
+      throw new Error(error.message || 'Failed to save approval settings');
+    }
+
+    console.log('✅ Approval settings saved:', policy);
+  }
+
+  /**
+   * Run a workflow step on a batch of expenses; returns their new status by id
+   */
+  async transition(expenseIds: string[], action: ApprovalAction, reason?: string) {
+    if (expenseIds.length === 0) return new Map<string, { status: ExpenseStatus; approval_count: number }>();
+
+    const { data, error } = await approvalRepository.transition(expenseIds, action, reason);
+    if (error) {
+      throw new Error(error.message || `Failed to update ${expenseIds.length === 1 ? 'expense' : 'expenses'}`);
+    }
+
+    console.log(`📋 ${expenseIds.length} expense(s) ${APPROVAL_ACTION_LABELS[action]}`);
+    return new Map(data.map(row => [row.expense_id, { status: row.status, approval_count: row.approval_count }]));
+  }
+
+  /**
+   * Accept expenses from the inbox: submit them, and when `approverId` is given approve
+   * the ones that approver didn't record straight away
+   */
+  async accept(expenses: Pick<Expense, 'id' | 'user_id'>[], approverId?: string) {
+    const submitted = await this.transition(expenses.map(expense => expense.id), 'submit');
+
+    const approvable = approverId
+      ? expenses.filter(expense => canApproveExpense(expense, approverId)).map(expense => expense.id)
+      : [];
+    if (approvable.length === 0) return submitted;
+
+    const approved = await this.transition(approvable, 'approve');
+    return new Map([...submitted, ...approved]);
+  }
+
+  /**
+   * Reject expenses back to their submitter
+   */
+  async reject(expenseIds: string[], reason: string) {
+    if (!reason.trim()) {
+      throw new Error('Give a reason for rejecting');
+    }
+    return this.transition(expenseIds, 'reject', reason.trim());
+  }
+
+  /**
+   * Load the status history of an expense
+   */
+  async loadHistory(expenseId: string) {
+    const { data, error } = await approvalRepository.getHistory(expenseId);
+    if (error) {
+      throw new Error(error.message || 'Failed to load history');
+    }
+    return data;
+  }
+}
+
+// Export singleton instance
+export const approvalService = new ApprovalService();
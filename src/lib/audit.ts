@@ -0,0 +1,137 @@
+// Audit Service
+// Every change to expenses, categories, payment methods and memberships is recorded by
+// database triggers (see the add_audit_log migration). This service turns the raw entries,
+// which are keyed by database column, into a readable timeline for the expense History tab.
+
+import {
+  auditLogRepository,
+  categoryRepository,
+  paymentMethodRepository,
+  AuditEntry,
+  AuditSource,
+  ExpenseStatus,
+  UNCATEGORIZED_LABEL,
+  NO_PAYMENT_METHOD_LABEL
+} from './repositories';
+import { EXPENSE_STATUS_LABELS } from './approvals';
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  manual: 'Manual',
+  ai: 'AI',
+  import: 'Import',
+  voice: 'Voice',
+  system: 'Automatic'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  insert: 'created this expense',
+  update: 'changed',
+  delete: 'deleted this expense'
+};
+
+// Expense columns shown in the timeline; bookkeeping columns (confidences, fx fields,
+// approval counts, OCR text) change alongside these and are left out
+const EXPENSE_FIELD_LABELS: Record<string, string> = {
+  merchant: 'Merchant',
+  amount: 'Amount',
+  currency: 'Currency',
+  txn_date: 'Date',
+  description: 'Description',
+  global_category_id: 'Category',
+  payment_method_id: 'Payment method',
+  notes: 'Notes',
+  is_reimbursable: 'Reimbursable',
+  status: 'Status',
+  rejection_reason: 'Rejection reason',
+  receipt_url: 'Receipt',
+  reimbursement_report_id: 'Reimbursement report',
+  deleted_at: 'Trash',
+  is_split: 'Split',
+  vendor_gstin: 'Vendor GSTIN',
+  itc_eligible: 'Input tax credit'
+};
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ExpenseHistoryEntry extends AuditEntry {
+  // Readable before/after values of the shown columns; empty for inserts and deletes
+  changes: AuditFieldChange[];
+}
+
+const EMPTY_VALUE = '—';
+
+class AuditService {
+  /**
+   * Timeline of an expense, oldest first, with category and payment method names resolved.
+   * Updates that only touched bookkeeping columns are left out.
+   */
+  async loadExpenseHistory(expenseId: string): Promise<ExpenseHistoryEntry[]> {
+    const { data: entries, error } = await auditLogRepository.listForRecord('expenses', expenseId);
+
+    if (error) {
+      console.error('❌ Error loading expense history:', error);
+      throw new Error(error.message || 'Failed to load history');
+    }
+
+    const idsOf = (field: string) => [...new Set(entries.flatMap(entry =>
+      [entry.old_values?.[field], entry.new_values?.[field]].filter((value): value is string => typeof value === 'string')
+    ))];
+
+    const [categoryNames, paymentMethodNames] = await Promise.all([
+      categoryRepository.getNames(idsOf('global_category_id')),
+      paymentMethodRepository.getNames(idsOf('payment_method_id'))
+    ]);
+
+    const format = (field: string, value: unknown): string => {
+      if (field === 'deleted_at') return value ? 'In trash' : 'Not in trash';
+      if (value === null || value === undefined || value === '') {
+        if (field === 'global_category_id') return UNCATEGORIZED_LABEL;
+        if (field === 'payment_method_id') return NO_PAYMENT_METHOD_LABEL;
+        return EMPTY_VALUE;
+      }
+
+      switch (field) {
+        case 'global_category_id':
+          return categoryNames.data.get(String(value)) || 'Deleted category';
+        case 'payment_method_id':
+          return paymentMethodNames.data.get(String(value)) || 'Deleted payment method';
+        case 'status':
+          return EXPENSE_STATUS_LABELS[value as ExpenseStatus] || String(value);
+        case 'is_reimbursable':
+        case 'is_split':
+          return value ? 'Yes' : 'No';
+        case 'itc_eligible':
+          return value ? 'Eligible' : 'Not eligible';
+        case 'receipt_url':
+          // Storage path or URL; the file name is enough to tell receipts apart
+          return String(value).split('/').pop() || 'Attached';
+        case 'reimbursement_report_id':
+          return 'On a report';
+        default:
+          return String(value);
+      }
+    };
+
+    return entries
+      .map(entry => ({
+        ...entry,
+        changes: entry.action !== 'update' ? [] : (entry.changed_fields || [])
+          .filter(field => field in EXPENSE_FIELD_LABELS)
+          .map(field => ({
+            field,
+            label: EXPENSE_FIELD_LABELS[field],
+            from: format(field, entry.old_values?.[field]),
+            to: format(field, entry.new_values?.[field])
+          }))
+      }))
+      .filter(entry => entry.action !== 'update' || entry.changes.length > 0);
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,154 @@
+// Budget Service
+// Spending limits per category and period. Spend and alerts are computed in Postgres
+// (get_budget_report, check_budget_alerts) so expenses from every entry path count;
+// this service combines them for the dashboard and the budget-vs-actual report.
+
+import {
+  budgetRepository,
+  Budget,
+  BudgetAlert,
+  BudgetInput,
+  BudgetPeriod,
+  BudgetPeriodActual,
+  Category
+} from './repositories';
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' }
+];
+
+// Percentages of a budget that raise an alert; must match the budget_alerts CHECK
+export const BUDGET_THRESHOLDS = [50, 80, 100];
+
+// Number of past periods shown in the budget-vs-actual report
+export const BUDGET_REPORT_PERIODS = 12;
+
+// Used for budgets on all spending and categories without a color
+const DEFAULT_BUDGET_COLOR = '#2C3E50';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// A budget with what has been spent in its current period
+export interface BudgetStatus extends Budget {
+  spent: number;
+  period_start: string;
+  period_end: string;
+}
+
+/**
+ * Short label for a budget period, e.g. "Aug 2025", "Q3 2025" or "2025"
+ */
+export const formatBudgetPeriod = (period: BudgetPeriod, periodStart: string) => {
+  const [year, month] = periodStart.split('-').map(Number);
+  if (period === 'monthly') return `${MONTH_LABELS[month - 1]} ${year}`;
+  if (period === 'quarterly') return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+  return String(year);
+};
+
+/**
+ * Display name of a budget: its category, or "All spending"
+ */
+export const budgetLabel = (categoryId: string | null, categories: Category[]) =>
+  categoryId ? categories.find(c => c.id === categoryId)?.name || 'Unknown category' : 'All spending';
+
+/**
+ * Progress bar color: the category's own color where it has one
+ */
+export const budgetColor = (categoryId: string | null, categories: Category[]) =>
+  (categoryId && categories.find(c => c.id === categoryId)?.color) || DEFAULT_BUDGET_COLOR;
+
+/**
+ * Highest alert threshold reached, or 0 when spending is below all of them
+ */
+export const budgetThresholdReached = (spent: number, amount: number) =>
+  BUDGET_THRESHOLDS.filter(threshold => amount > 0 && spent >= (amount * threshold) / 100).pop() || 0;
+
+class BudgetService {
+  /**
+   * Load budgets with their current-period spend plus any alerts not yet dismissed
+   */
+  async loadStatus(workspaceId: string) {
+    const [budgetsResult, reportResult, alertsResult] = await Promise.all([
+      budgetRepository.listForWorkspace(workspaceId),
+      budgetRepository.getReport(workspaceId, 1),
+      budgetRepository.listOpenAlerts(workspaceId)
+    ]);
+
+    const error = budgetsResult.error || reportResult.error || alertsResult.error;
+    if (error) {
+      throw new Error(error.message || 'Failed to load budgets');
+    }
+
+    const current = new Map(reportResult.data.map(row => [row.budget_id, row]));
+    const budgets: BudgetStatus[] = budgetsResult.data.map(budget => ({
+      ...budget,
+      spent: current.get(budget.id)?.spent ?? 0,
+      period_start: current.get(budget.id)?.period_start ?? '',
+      period_end: current.get(budget.id)?.period_end ?? ''
+    }));
+
+    return { budgets, alerts: alertsResult.data };
+  }
+
+  /**
+   * Budget vs actual for the last BUDGET_REPORT_PERIODS periods, keyed by budget id
+   */
+  async loadReport(workspaceId: string) {
+    const { data, error } = await budgetRepository.getReport(workspaceId, BUDGET_REPORT_PERIODS);
+    if (error) {
+      throw new Error(error.message || 'Failed to load budget report');
+    }
+
+    const byBudget = new Map<string, BudgetPeriodActual[]>();
+    data.forEach(row => byBudget.set(row.budget_id, [...(byBudget.get(row.budget_id) || []), row]));
+    return byBudget;
+  }
+
+  /**
+   * Create a budget, or change the limit of an existing one for the same category and period.
+   * Alerts for spending already over the new limit are raised straight away.
+   */
+  async saveBudget(input: BudgetInput, existing?: Budget) {
+    const { error } = existing
+      ? await budgetRepository.updateAmount(existing.id, input.amount)
+      : await budgetRepository.create(input);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to save budget');
+    }
+
+    const { error: alertError } = await budgetRepository.checkAlerts(input.workspace_id);
+    if (alertError) {
+      console.error('Error checking budget alerts:', alertError);
+    }
+
+    console.log(`💰 Budget ${existing ? 'updated' : 'created'}:`, input.period, input.amount);
+  }
+
+  /**
+   * Delete a budget along with its alerts
+   */
+  async deleteBudget(id: string) {
+    const { error } = await budgetRepository.delete(id);
+    if (error) {
+      throw new Error(error.message || 'Failed to delete budget');
+    }
+  }
+
+  /**
+   * Dismiss alerts; all thresholds of a budget period are dismissed together
+   */
+  async dismissAlerts(alerts: BudgetAlert[]) {
+    if (alerts.length === 0) return;
+
+    const { error } = await budgetRepository.dismissAlerts(alerts.map(alert => alert.id));
+    if (error) {
+      throw new Error(error.message || 'Failed to dismiss alerts');
+    }
+  }
+}
+
+// Export singleton instance
+export const budgetService = new BudgetService();
@@ -0,0 +1,229 @@
+// Categorization Rules Service
+// Rules pick the category and/or payment method of an expense before AI categorization
+// runs ("merchant contains uber -> Transportation, Company Card"). Admins write them, and
+// the database learns more from corrections: overriding an automatically picked category
+// is recorded, and once a merchant has been corrected to the same category twice a
+// learned rule files it there (20250811260000_add_categorization_rules.sql).
+
+import {
+  categorizationRuleRepository,
+  categoryRepository,
+  paymentMethodRepository,
+  CategorizationRule,
+  CategorizationRuleField,
+  CategorizationRuleInput,
+  CategorizationRuleMatchType
+} from './repositories';
+import { normalizeMerchantName } from './merchants';
+
+export const RULE_FIELDS: Record<CategorizationRuleField, string> = {
+  merchant: 'Merchant',
+  description: 'Description'
+};
+
+export const RULE_MATCH_TYPES: Record<CategorizationRuleMatchType, string> = {
+  contains: 'contains',
+  starts_with: 'starts with',
+  equals: 'is'
+};
+
+// Among matching rules of the same source, the most specific wins
+const MATCH_TYPE_PRIORITY: Record<CategorizationRuleMatchType, number> = {
+  equals: 0,
+  starts_with: 1,
+  contains: 2
+};
+
+// What a rule is matched against
+export interface RuleSubject {
+  merchant: string;
+  description?: string | null;
+}
+
+export interface RuleMatch {
+  rule: CategorizationRule;
+  // e.g. 'merchant contains "uber"'
+  description: string;
+  categoryName: string | null;
+  paymentMethodName: string | null;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Merchant rules compare normalized names, so "Uber" also matches "UBER *TRIP 1234"
+const normalizeForField = (field: CategorizationRuleField, text: string) =>
+  field === 'merchant' ? normalizeMerchantName(text) : normalizeText(text);
+
+/**
+ * Human-readable condition of a rule, e.g. 'merchant contains "uber"'
+ */
+export const describeRule = (rule: Pick<CategorizationRule, 'field' | 'match_type' | 'pattern'>) =>
+  `${RULE_FIELDS[rule.field].toLowerCase()} ${RULE_MATCH_TYPES[rule.match_type]} "${rule.pattern}"`;
+
+/**
+ * Whether an active rule applies to an expense
+ */
+export const ruleMatches = (rule: CategorizationRule, subject: RuleSubject) => {
+  const pattern = normalizeForField(rule.field, rule.pattern);
+  if (!rule.is_active || !pattern) return false;
+
+  const value = normalizeForField(rule.field, rule.field === 'merchant' ? subject.merchant : subject.description || '');
+  if (!value) return false;
+
+  switch (rule.match_type) {
+    case 'equals':
+      return value === pattern;
+    case 'starts_with':
+      return value.startsWith(pattern);
+    default:
+      return value.includes(pattern);
+  }
+};
+
+/**
+ * The rule that decides an expense, or null. Rules written by an admin beat learned ones,
+ * then exact matches beat prefixes beat substrings, then longer patterns win.
+ */
+export const findMatchingRule = (rules: CategorizationRule[], subject: RuleSubject) =>
+  rules
+    .filter(rule => ruleMatches(rule, subject))
+    .sort((a, b) =>
+      (a.source === b.source ? 0 : a.source === 'user' ? -1 : 1)
+      || MATCH_TYPE_PRIORITY[a.match_type] - MATCH_TYPE_PRIORITY[b.match_type]
+      || normalizeForField(b.field, b.pattern).length - normalizeForField(a.field, a.pattern).length
+    )[0] || null;
+
+class CategorizationRuleService {
+  /**
+   * A workspace's rules, including inactive ones
+   */
+  async loadRules(workspaceId: string) {
+    const { data, error } = await categorizationRuleRepository.listForWorkspace(workspaceId);
+
+    if (error) {
+      console.error('❌ Error loading categorization rules:', error);
+      throw new Error(error.message || 'Failed to load categorization rules');
+    }
+
+    return data;
+  }
+
+  /**
+   * The matching rule for each expense (null where none applies), with the names of the
+   * category and payment method it sets. Rules are a shortcut in front of AI
+   * categorization, so when they can't be loaded every expense falls through to the AI.
+   */
+  async matchExpenses(workspaceId: string, subjects: RuleSubject[]): Promise<(RuleMatch | null)[]> {
+    try {
+      const rules = (await this.loadRules(workspaceId)).filter(rule => rule.is_active);
+      const matched = subjects.map(subject => findMatchingRule(rules, subject));
+      const fired = matched.filter((rule): rule is CategorizationRule => !!rule);
+      if (fired.length === 0) return matched.map(() => null);
+
+      const [categoryNames, paymentMethodNames] = await Promise.all([
+        categoryRepository.getNames([...new Set(fired.map(r => r.category_id).filter((id): id is string => !!id))]),
+        paymentMethodRepository.getNames([...new Set(fired.map(r => r.payment_method_id).filter((id): id is string => !!id))])
+      ]);
+
+      return matched.map((rule, index) => {
+        if (!rule) return null;
+        const match: RuleMatch = {
+          rule,
+          description: describeRule(rule),
+          categoryName: (rule.category_id && categoryNames.data.get(rule.category_id)) || null,
+          paymentMethodName: (rule.payment_method_id && paymentMethodNames.data.get(rule.payment_method_id)) || null
+        };
+        // A rule whose category and payment method were both deleted no longer does anything
+        if (!match.categoryName && !match.paymentMethodName) return null;
+        console.log(`📏 Rule ${match.description} matched "${subjects[index].merchant}"`);
+        return match;
+      });
+    } catch (error) {
+      console.warn('⚠️ Categorization rules unavailable:', error);
+      return subjects.map(() => null);
+    }
+  }
+
+  /**
+   * Add a rule, or update it when `existing` is given. Editing a learned rule makes it an
+   * admin's rule, which corrections no longer change.
+   */
+  async saveRule(input: CategorizationRuleInput, existing?: CategorizationRule) {
+    if (!input.category_id && !input.payment_method_id) {
+      throw new Error('Choose a category or payment method for the rule');
+    }
+
+    const { workspace_id: workspaceId, ...fields } = { ...input, pattern: input.pattern.trim() };
+    if (!fields.pattern) {
+      throw new Error('Enter the text the rule should match');
+    }
+
+    if (existing) {
+      const { error } = await categorizationRuleRepository.update(existing.id, fields);
+      if (error) {
+        console.error('❌ Error updating categorization rule:', error);
+        throw new Error(error.message || 'Failed to update rule');
+      }
+      return;
+    }
+
+    const { error } = await categorizationRuleRepository.create({ workspace_id: workspaceId, ...fields });
+    if (error) {
+      console.error('❌ Error creating categorization rule:', error);
+      throw new Error(
+        error.code === '23505' ? `There is already a rule for ${describeRule(fields)}` : error.message || 'Failed to create rule'
+      );
+    }
+  }
+
+  /**
+   * Turn a rule on or off
+   */
+  async setRuleActive(rule: CategorizationRule, isActive: boolean) {
+    const { error } = await categorizationRuleRepository.setActive(rule.id, isActive);
+
+    if (error) {
+      console.error('❌ Error updating categorization rule:', error);
+      throw new Error(error.message || 'Failed to update rule');
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(rule: CategorizationRule) {
+    const { error } = await categorizationRuleRepository.delete(rule.id);
+
+    if (error) {
+      console.error('❌ Error deleting categorization rule:', error);
+      throw new Error(error.message || 'Failed to delete rule');
+    }
+  }
+
+  /**
+   * Record that a user replaced an automatically picked category. Learning is best effort,
+   * so a failure is logged and never blocks saving the expense.
+   */
+  async recordCorrection(
+    workspaceId: string,
+    merchant: string,
+    suggestedCategoryId: string | null,
+    correctedCategoryId: string | null
+  ) {
+    if (!merchant.trim() || !correctedCategoryId || correctedCategoryId === suggestedCategoryId) return;
+
+    const { data, error } = await categorizationRuleRepository.recordCorrection(
+      workspaceId, merchant, suggestedCategoryId, correctedCategoryId
+    );
+
+    if (error) {
+      console.warn('⚠️ Failed to record category correction:', error);
+      return;
+    }
+
+    data.forEach(rule => console.log(`🧠 Learned rule: ${describeRule(rule)}`));
+  }
+}
+
+// Export singleton instance
+export const categorizationRuleService = new CategorizationRuleService();
@@ -1,5 +1,5 @@
 // Conversational AI Service for Natural Expense Processing
-// Uses OpenAI GPT to handle natural language conversation about expenses
+// Uses the conversational-ai edge function to handle natural language conversation about expenses
 
 export interface ConversationContext {
   messages: Array<{
@@ -39,18 +39,16 @@ export interface ConversationResponse {
 
 class ConversationalAIService {
   private supabaseUrl: string | null = null;
-  private openaiApiKey: string | null = null;
   private isConfigured: boolean = false;
 
   constructor() {
     this.supabaseUrl = import.meta.env.VITE_SUPABASE_URL || null;
-    this.openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY || null;
-    this.isConfigured = !!(this.supabaseUrl && this.openaiApiKey);
+    // The AI provider's key is an edge function secret, so only the functions' URL is needed
+    this.isConfigured = !!this.supabaseUrl;
     
     if (!this.isConfigured) {
       console.warn('Conversational AI is not configured. Missing:', {
-        supabaseUrl: !this.supabaseUrl ? 'VITE_SUPABASE_URL' : 'OK',
-        openaiKey: !this.openaiApiKey ? 'VITE_OPENAI_API_KEY' : 'OK'
+        supabaseUrl: !this.supabaseUrl ? 'VITE_SUPABASE_URL' : 'OK'
       });
     }
   }
@@ -63,11 +61,13 @@ class ConversationalAIService {
   }
 
   /**
-   * Process a user message in the context of expense conversation
+   * Process a user message in the context of expense conversation. AI usage is billed to
+   * the workspace.
    */
   async processMessage(
     userMessage: string, 
-    context: ConversationContext
+    context: ConversationContext,
+    workspaceId?: string
   ): Promise<ConversationResponse> {
     console.log('🤖 ConversationalAI processMessage called');
     console.log('📊 Service available:', this.isAvailable());
@@ -99,6 +99,7 @@ class ConversationalAIService {
         body: JSON.stringify({
           userMessage,
           context,
+          workspaceId,
           requestType: 'conversation'
         })
       });
@@ -271,7 +272,6 @@ Remember: Always extract as much information as possible from each message, but
     return {
       isAvailable: this.isAvailable(),
       supabaseUrl: this.supabaseUrl,
-      openaiApiKey: this.openaiApiKey ? 'Set' : 'Missing',
       edgeFunctionUrl: this.supabaseUrl ? `${this.supabaseUrl}/functions/v1/conversational-ai` : null
     };
   }
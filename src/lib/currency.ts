@@ -0,0 +1,220 @@
+// Currency Service
+// Formatting helpers, currency detection and exchange-rate management. Converted
+// amounts are computed in Postgres when an expense is written; this service loads
+// and edits the rates behind them and previews conversions in the entry forms.
+
+import { exchangeRateRepository, expenseRepository, DEFAULT_BASE_CURRENCY } from './repositories';
+import { parseCsv } from './statement-import';
+import { toISODate } from './date-ranges';
+
+export const SUPPORTED_CURRENCIES = [
+  'INR', 'USD', 'EUR', 'GBP', 'AED', 'SGD', 'AUD', 'CAD', 'JPY', 'CHF', 'CNY', 'HKD', 'SAR', 'NZD', 'ZAR'
+];
+
+export interface ParsedExchangeRate {
+  currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  rate: number;
+  rateDate: string | null;
+}
+
+/**
+ * Format an amount in the given currency, e.g. ₹1,234.00 or US$12.50
+ */
+export const formatCurrency = (amount: number, currency: string = DEFAULT_BASE_CURRENCY) => {
+  try {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2
+    }).format(amount);
+  } catch {
+    // Unknown currency codes make Intl throw
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+// Symbols and words people use when saying or writing an amount
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+  [/₹|\brs\.?(?=\s|\d)|\binr\b|\brupees?\b/i, 'INR'],
+  [/€|\beur\b|\beuros?\b/i, 'EUR'],
+  [/£|\bgbp\b|\bpounds?\b/i, 'GBP'],
+  [/\baed\b|\bdirhams?\b/i, 'AED'],
+  [/\bsgd\b|\bsingapore dollars?\b/i, 'SGD'],
+  [/\baud\b|\baustralian dollars?\b/i, 'AUD'],
+  [/\bcad\b|\bcanadian dollars?\b/i, 'CAD'],
+  [/¥|\bjpy\b|\byen\b/i, 'JPY'],
+  [/\$|\busd\b|\bdollars?\b|\bbucks\b/i, 'USD']
+];
+
+/**
+ * Guess the currency mentioned in free text, or null if none is mentioned
+ */
+export const detectCurrency = (text: string): string | null => {
+  const match = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text));
+  return match ? match[1] : null;
+};
+
+const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+/**
+ * Parse an exchange-rate file into rates expressed in the workspace base currency.
+ *
+ * CSV: `currency,rate[,date]` with an optional header, where rate is base-currency
+ * units per unit of currency. JSON: either a list of `{ currency, rate, date }` in the
+ * same form, or the common `{ base, date, rates: { CODE: units per base } }` shape.
+ */
+export const parseExchangeRateFile = (text: string, fileName: string, baseCurrency: string) => {
+  const today = toISODate(new Date());
+  const rates: ParsedExchangeRate[] = [];
+  const errors: string[] = [];
+
+  const addRate = (currency: string, rate: number, date: string | undefined, label: string) => {
+    const code = currency.trim().toUpperCase();
+    const rateDate = date?.trim() || today;
+    if (!isCurrencyCode(code)) {
+      errors.push(`${label}: "${currency}" is not a currency code`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`${label}: rate for ${code} must be a positive number`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate)) {
+      errors.push(`${label}: date "${rateDate}" must be YYYY-MM-DD`);
+    } else if (code !== baseCurrency) {
+      rates.push({ currency: code, rate_date: rateDate, rate: Number(rate.toFixed(8)) });
+    }
+  };
+
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { rates, errors: ['The file is not valid JSON'] };
+    }
+
+    if (Array.isArray(parsed)) {
+      parsed.forEach((entry, index) => {
+        addRate(String(entry?.currency ?? ''), Number(entry?.rate), entry?.date, `Entry ${index + 1}`);
+      });
+    } else if (parsed && typeof parsed === 'object' && 'rates' in parsed) {
+      const { base, date, rates: quoted } = parsed as { base?: string; date?: string; rates: Record<string, number> };
+      const quoteBase = (base || '').toUpperCase();
+      // Quotes are "units of CODE per one quoteBase"; cross through the workspace base currency
+      const basePerQuoteBase = quoteBase === baseCurrency ? 1 : Number(quoted[baseCurrency]);
+      if (!basePerQuoteBase) {
+        return { rates, errors: [`The file has no ${baseCurrency} rate to convert from ${quoteBase || 'its base currency'}`] };
+      }
+      if (quoteBase && quoteBase !== baseCurrency) {
+        addRate(quoteBase, basePerQuoteBase, date, quoteBase);
+      }
+      Object.entries(quoted).forEach(([code, perQuoteBase]) => {
+        addRate(code, basePerQuoteBase / Number(perQuoteBase), date, code);
+      });
+    } else {
+      errors.push('Unrecognised JSON format');
+    }
+
+    return { rates, errors };
+  }
+
+  const rows = parseCsv(text).filter(row => row.some(cell => cell.trim()));
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = header.some(cell => /currency|code|rate|date/.test(cell));
+  const column = (pattern: RegExp, fallback: number) => {
+    const index = hasHeader ? header.findIndex(cell => pattern.test(cell)) : -1;
+    return index >= 0 ? index : fallback;
+  };
+  const currencyColumn = column(/currency|code|ccy/, 0);
+  const rateColumn = column(/rate/, 1);
+  const dateColumn = column(/date/, 2);
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    addRate(
+      row[currencyColumn] ?? '',
+      Number((row[rateColumn] ?? '').replace(/,/g, '')),
+      row[dateColumn],
+      `Row ${index + (hasHeader ? 2 : 1)}`
+    );
+  });
+
+  return { rates, errors };
+};
+
+class ExchangeRateService {
+  /**
+   * Save rates parsed from a file and reconvert the workspace's expenses
+   */
+  async importRates(workspaceId: string, userId: string, rates: ParsedExchangeRate[]) {
+    const { error } = await exchangeRateRepository.upsertMany(
+      rates.map(rate => ({ ...rate, workspace_id: workspaceId, source: 'file' as const, created_by: userId }))
+    );
+    if (error) {
+      throw new Error(error.message || 'Failed to save exchange rates');
+    }
+
+    await this.refresh(workspaceId);
+    console.log(`💱 Imported ${rates.length} exchange rates`);
+  }
+
+  /**
+   * Add or replace a single rate entered by hand
+   */
+  async saveRate(workspaceId: string, userId: string, rate: ParsedExchangeRate) {
+    const { error } = await exchangeRateRepository.upsertMany([
+      { ...rate, workspace_id: workspaceId, source: 'manual', created_by: userId }
+    ]);
+    if (error) {
+      throw new Error(error.message || 'Failed to save exchange rate');
+    }
+
+    await this.refresh(workspaceId);
+  }
+
+  /**
+   * Delete a rate and reconvert the expenses that used it
+   */
+  async deleteRate(workspaceId: string, id: string) {
+    const { error } = await exchangeRateRepository.delete(id);
+    if (error) {
+      throw new Error(error.message || 'Failed to delete exchange rate');
+    }
+
+    await this.refresh(workspaceId);
+  }
+
+  /**
+   * Preview an amount in the base currency using the rate the database would pick.
+   * Returns null when no rate is available for the currency.
+   */
+  async convert(workspaceId: string, amount: number, currency: string, baseCurrency: string, date: string): Promise<ConvertedAmount | null> {
+    if (currency === baseCurrency) {
+      return { amount, rate: 1, rateDate: null };
+    }
+
+    const { data: rate, error } = await exchangeRateRepository.findRate(workspaceId, currency, date);
+    if (error) {
+      console.error('Error looking up exchange rate:', error);
+    }
+    if (!rate) return null;
+
+    return {
+      amount: Math.round(amount * rate.rate * 100) / 100,
+      rate: rate.rate,
+      rateDate: rate.rate_date
+    };
+  }
+
+  private async refresh(workspaceId: string) {
+    const { error } = await expenseRepository.refreshBaseAmounts(workspaceId);
+    if (error) {
+      console.error('Error recomputing converted amounts:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const exchangeRateService = new ExchangeRateService();
@@ -0,0 +1,150 @@
+// Date range presets for the dashboard
+// Each range resolves to inclusive ISO dates plus the comparison period that precedes it.
+
+export type DateRangePreset =
+  | 'this-week'
+  | 'this-month'
+  | 'this-quarter'
+  | 'this-year'
+  | 'fiscal-year'
+  | 'last-n-days'
+  | 'custom';
+
+export interface DateRangeSelection {
+  preset: DateRangePreset;
+  // Used by 'last-n-days'
+  days?: number;
+  // Used by 'custom' (YYYY-MM-DD, inclusive)
+  customStart?: string;
+  customEnd?: string;
+}
+
+export interface ResolvedDateRange {
+  label: string;
+  comparisonLabel: string;
+  start: string;
+  end: string;
+  previousStart: string;
+  previousEnd: string;
+}
+
+// Indian fiscal year runs April to March
+export const FISCAL_YEAR_START_MONTH = 3;
+
+export const LAST_N_DAYS_OPTIONS = [7, 30, 90];
+
+export const DATE_RANGE_PRESETS: { preset: DateRangePreset; label: string }[] = [
+  { preset: 'this-week', label: 'This Week' },
+  { preset: 'this-month', label: 'This Month' },
+  { preset: 'this-quarter', label: 'This Quarter' },
+  { preset: 'this-year', label: 'This Year' },
+  { preset: 'fiscal-year', label: 'This Fiscal Year' }
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Format a local date as YYYY-MM-DD without shifting through UTC
+export const toISODate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const fromISODate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// `length` whole calendar months starting at `month`, shifted back by `monthsBack`
+const monthPeriod = (year: number, month: number, length: number, monthsBack = 0) => {
+  const start = new Date(year, month - monthsBack, 1);
+  const end = new Date(start.getFullYear(), start.getMonth() + length, 0);
+  return { start, end };
+};
+
+/**
+ * Resolve a date range selection to concrete dates relative to `today`
+ */
+export const resolveDateRange = (selection: DateRangeSelection, today = new Date()): ResolvedDateRange => {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+
+  const build = (
+    label: string,
+    comparisonLabel: string,
+    current: { start: Date; end: Date },
+    previous: { start: Date; end: Date }
+  ): ResolvedDateRange => ({
+    label,
+    comparisonLabel,
+    start: toISODate(current.start),
+    end: toISODate(current.end),
+    previousStart: toISODate(previous.start),
+    previousEnd: toISODate(previous.end)
+  });
+
+  switch (selection.preset) {
+    case 'this-week': {
+      // Weeks start on Monday
+      const start = addDays(today, -((today.getDay() + 6) % 7));
+      return build(
+        'This Week',
+        'last week',
+        { start, end: addDays(start, 6) },
+        { start: addDays(start, -7), end: addDays(start, -1) }
+      );
+    }
+    case 'this-quarter': {
+      const quarterStart = month - (month % 3);
+      return build(
+        'This Quarter',
+        'last quarter',
+        monthPeriod(year, quarterStart, 3),
+        monthPeriod(year, quarterStart, 3, 3)
+      );
+    }
+    case 'this-year':
+      return build('This Year', 'last year', monthPeriod(year, 0, 12), monthPeriod(year, 0, 12, 12));
+    case 'fiscal-year': {
+      const fiscalStartYear = month >= FISCAL_YEAR_START_MONTH ? year : year - 1;
+      const label = `FY ${fiscalStartYear}-${String((fiscalStartYear + 1) % 100).padStart(2, '0')}`;
+      return build(
+        label,
+        'last fiscal year',
+        monthPeriod(fiscalStartYear, FISCAL_YEAR_START_MONTH, 12),
+        monthPeriod(fiscalStartYear, FISCAL_YEAR_START_MONTH, 12, 12)
+      );
+    }
+    case 'last-n-days': {
+      const days = Math.max(1, Math.floor(selection.days || 30));
+      const start = addDays(today, -(days - 1));
+      return build(
+        `Last ${days} Days`,
+        `previous ${days} days`,
+        { start, end: today },
+        { start: addDays(start, -days), end: addDays(start, -1) }
+      );
+    }
+    case 'custom': {
+      if (selection.customStart && selection.customEnd && selection.customStart <= selection.customEnd) {
+        const start = fromISODate(selection.customStart);
+        const end = fromISODate(selection.customEnd);
+        const days = Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1;
+        return build(
+          `${selection.customStart} – ${selection.customEnd}`,
+          'previous period',
+          { start, end },
+          { start: addDays(start, -days), end: addDays(start, -1) }
+        );
+      }
+      // An incomplete custom range falls back to the current month
+      return resolveDateRange({ preset: 'this-month' }, today);
+    }
+    case 'this-month':
+    default:
+      return build('This Month', 'last month', monthPeriod(year, month, 1), monthPeriod(year, month, 1, 1));
+  }
+};
@@ -0,0 +1,163 @@
+// Expense Export Service
+// Exports the expenses matching the current Expenses view filters as CSV, XLSX or JSON.
+// Receipts live in a private bucket, so exports carry signed links next to their paths.
+
+import { expenseRepository, Expense, ExpenseFilters, ExpenseSort } from './repositories';
+import { receiptStorageService } from './receipt-storage';
+import { buildXlsx, XlsxCell } from './xlsx-writer';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' }
+];
+
+// Receipt links in exports stay valid for a week
+const RECEIPT_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// An exported expense with a signed link to its receipt, when it has one
+export type ExportedExpense = Expense & { receipt_link?: string | null };
+
+interface ExportColumn {
+  header: string;
+  key: string;
+  value: (expense: ExportedExpense) => XlsxCell;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Date', key: 'date', value: e => e.txn_date },
+  { header: 'Merchant', key: 'merchant', value: e => e.merchant },
+  { header: 'Description', key: 'description', value: e => e.description || '' },
+  { header: 'Amount', key: 'amount', value: e => e.amount },
+  { header: 'Currency', key: 'currency', value: e => e.currency },
+  { header: 'Base Amount', key: 'base_amount', value: e => e.base_amount },
+  { header: 'Base Currency', key: 'base_currency', value: e => e.base_currency || '' },
+  { header: 'FX Rate', key: 'fx_rate', value: e => e.fx_rate },
+  { header: 'Category', key: 'category', value: e => e.category_name },
+  { header: 'Payment Method', key: 'payment_method', value: e => e.payment_method_name },
+  { header: 'Status', key: 'status', value: e => e.status },
+  { header: 'Source', key: 'source', value: e => e.source },
+  { header: 'Reimbursable', key: 'reimbursable', value: e => e.is_reimbursable },
+  { header: 'Vendor GSTIN', key: 'vendor_gstin', value: e => e.vendor_gstin || '' },
+  { header: 'HSN/SAC', key: 'hsn_sac_code', value: e => e.hsn_sac_code || '' },
+  { header: 'GST Rate', key: 'gst_rate', value: e => e.gst_rate },
+  { header: 'CGST', key: 'cgst_amount', value: e => e.cgst_amount },
+  { header: 'SGST', key: 'sgst_amount', value: e => e.sgst_amount },
+  { header: 'IGST', key: 'igst_amount', value: e => e.igst_amount },
+  { header: 'Notes', key: 'notes', value: e => e.notes || '' },
+  { header: 'Receipt Path', key: 'receipt_path', value: e => e.receipt_url || '' },
+  { header: 'Receipt Link', key: 'receipt_link', value: e => e.receipt_link || '' },
+  { header: 'Created At', key: 'created_at', value: e => e.created_at },
+  { header: 'Expense ID', key: 'id', value: e => e.id }
+];
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const toCsvCell = (value: XlsxCell) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+class ExpenseExportService {
+  /**
+   * Export every expense matching the filters and download it in the requested format
+   */
+  async exportExpenses(
+    workspaceId: string,
+    workspaceName: string,
+    filters: ExpenseFilters,
+    sort: ExpenseSort,
+    format: ExportFormat
+  ) {
+    console.log('📤 Exporting expenses:', { workspaceId, format, filters });
+
+    const { data: expenses, error } = await expenseRepository.listAll(workspaceId, filters, sort);
+    if (error) {
+      throw new Error(error.message || 'Failed to load expenses for export');
+    }
+
+    const blob = this.buildFile(await this.withReceiptLinks(expenses), format, workspaceName);
+    const fileName = this.buildFileName(workspaceName, format);
+    this.download(blob, fileName);
+
+    console.log(`✅ Exported ${expenses.length} expenses to ${fileName}`);
+    return { count: expenses.length, fileName };
+  }
+
+  /**
+   * Add signed receipt links to expenses. Without them the export still has the paths, so
+   * signing failures are only logged.
+   */
+  private async withReceiptLinks(expenses: Expense[]): Promise<ExportedExpense[]> {
+    const receiptUrls = expenses.flatMap(expense => (expense.receipt_url ? [expense.receipt_url] : []));
+    if (receiptUrls.length === 0) return expenses;
+
+    const { data: links, error } = await receiptStorageService.getSignedUrls(receiptUrls, RECEIPT_LINK_TTL_SECONDS);
+    if (error) {
+      console.warn('⚠️ Receipt links could not be created for the export:', error);
+    }
+
+    return expenses.map(expense => ({
+      ...expense,
+      receipt_link: expense.receipt_url ? links.get(expense.receipt_url) ?? null : null
+    }));
+  }
+
+  /**
+   * Serialize expenses into a file of the given format
+   */
+  buildFile(expenses: ExportedExpense[], format: ExportFormat, sheetName = 'Expenses'): Blob {
+    switch (format) {
+      case 'csv': {
+        const lines = [
+          EXPORT_COLUMNS.map(column => toCsvCell(column.header)).join(','),
+          ...expenses.map(expense => EXPORT_COLUMNS.map(column => toCsvCell(column.value(expense))).join(','))
+        ];
+        // Byte order mark so Excel opens the file as UTF-8 (₹, accented merchant names)
+        return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+      }
+      case 'xlsx':
+        return buildXlsx(sheetName, [
+          EXPORT_COLUMNS.map(column => column.header),
+          ...expenses.map(expense => EXPORT_COLUMNS.map(column => column.value(expense)))
+        ]);
+      case 'json': {
+        const records = expenses.map(expense =>
+          Object.fromEntries(EXPORT_COLUMNS.map(column => [column.key, column.value(expense) ?? null]))
+        );
+        return new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+      }
+    }
+  }
+
+  private buildFileName(workspaceName: string, format: ExportFormat) {
+    const slug = workspaceName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+    const date = new Date().toISOString().split('T')[0];
+    return `${slug}-expenses-${date}.${format}`;
+  }
+
+  /**
+   * Save a file through the browser's download prompt
+   */
+  download(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
+// Export singleton instance
+export const expenseExportService = new ExpenseExportService();
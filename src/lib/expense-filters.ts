@@ -0,0 +1,136 @@
+// URL encoding for the Expenses view filters
+// Keeps the filter and sort state in the query string so a filtered view can be bookmarked or shared.
+
+import { ExpenseFilters, ExpenseSort, ExpenseSortField, ExpenseSource, ExpenseStatus } from './repositories';
+
+export interface ExpenseViewState {
+  filters: ExpenseFilters;
+  sort: ExpenseSort;
+}
+
+// The Expenses view shows approved expenses by default; the inbox and approval queue handle the rest
+export const DEFAULT_EXPENSE_VIEW_STATE: ExpenseViewState = {
+  filters: { status: 'approved' },
+  sort: { field: 'txn_date', ascending: false }
+};
+
+const SORT_FIELDS: ExpenseSortField[] = ['txn_date', 'amount', 'merchant', 'created_at'];
+const STATUSES: ExpenseStatus[] = ['unreviewed', 'flagged', 'submitted', 'approved', 'rejected', 'paid'];
+
+// Statuses from before the approval workflow, so bookmarked links keep working
+const LEGACY_STATUSES: Record<string, ExpenseStatus> = { reviewed: 'approved' };
+const SOURCES: ExpenseSource[] = ['upload', 'camera', 'voice', 'manual', 'import', 'recurring'];
+
+// Marker for "any status", since an absent status param means the default
+const ANY_STATUS = 'all';
+
+const isDate = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const toNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Read the Expenses view state from a query string, ignoring malformed values
+ */
+export const parseExpenseViewState = (search: string): ExpenseViewState => {
+  const params = new URLSearchParams(search);
+  const filters: ExpenseFilters = {};
+
+  const q = params.get('q');
+  if (q) filters.search = q;
+
+  const from = params.get('from');
+  if (isDate(from)) filters.dateFrom = from;
+  const to = params.get('to');
+  if (isDate(to)) filters.dateTo = to;
+
+  filters.minAmount = toNumber(params.get('min'));
+  filters.maxAmount = toNumber(params.get('max'));
+
+  const category = params.get('category');
+  if (category) filters.categoryId = category;
+  const paymentMethod = params.get('pm');
+  if (paymentMethod) filters.paymentMethodId = paymentMethod;
+
+  const rawStatus = params.get('status');
+  const status = rawStatus !== null && LEGACY_STATUSES[rawStatus] ? LEGACY_STATUSES[rawStatus] : rawStatus;
+  if (status === null) {
+    filters.status = DEFAULT_EXPENSE_VIEW_STATE.filters.status;
+  } else if (STATUSES.includes(status as ExpenseStatus)) {
+    filters.status = status as ExpenseStatus;
+  }
+
+  const source = params.get('source');
+  if (SOURCES.includes(source as ExpenseSource)) filters.source = source as ExpenseSource;
+
+  const reimbursable = params.get('reimbursable');
+  if (reimbursable === 'true' || reimbursable === 'false') {
+    filters.isReimbursable = reimbursable === 'true';
+  }
+
+  const sort = { ...DEFAULT_EXPENSE_VIEW_STATE.sort };
+  const [field, direction] = (params.get('sort') || '').split('.');
+  if (SORT_FIELDS.includes(field as ExpenseSortField)) {
+    sort.field = field as ExpenseSortField;
+    sort.ascending = direction === 'asc';
+  }
+
+  return { filters, sort };
+};
+
+/**
+ * Write the Expenses view state into query string params, omitting defaults
+ */
+export const serializeExpenseViewState = (state: ExpenseViewState, params = new URLSearchParams()) => {
+  const { filters, sort } = state;
+  const set = (key: string, value: string | number | undefined) => {
+    if (value === undefined || value === '') {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  };
+
+  set('q', filters.search?.trim());
+  set('from', filters.dateFrom);
+  set('to', filters.dateTo);
+  set('min', filters.minAmount);
+  set('max', filters.maxAmount);
+  set('category', filters.categoryId);
+  set('pm', filters.paymentMethodId);
+  set('status', filters.status === DEFAULT_EXPENSE_VIEW_STATE.filters.status
+    ? undefined
+    : filters.status || ANY_STATUS);
+  set('source', filters.source);
+  set('reimbursable', filters.isReimbursable === undefined ? undefined : String(filters.isReimbursable));
+
+  const isDefaultSort = sort.field === DEFAULT_EXPENSE_VIEW_STATE.sort.field &&
+    sort.ascending === DEFAULT_EXPENSE_VIEW_STATE.sort.ascending;
+  set('sort', isDefaultSort ? undefined : `${sort.field}.${sort.ascending ? 'asc' : 'desc'}`);
+
+  return params;
+};
+
+/**
+ * Count the filters that differ from the defaults, for the "More Filters" badge
+ */
+export const countActiveFilters = (filters: ExpenseFilters) =>
+  [
+    filters.dateFrom,
+    filters.dateTo,
+    filters.minAmount,
+    filters.maxAmount,
+    filters.paymentMethodId,
+    filters.source,
+    filters.isReimbursable,
+    filters.status === DEFAULT_EXPENSE_VIEW_STATE.filters.status ? undefined : (filters.status ?? ANY_STATUS)
+  ].filter(value => value !== undefined && value !== '').length;
+
+// Every query string key owned by the Expenses view
+export const EXPENSE_VIEW_PARAMS = [
+  'view', 'q', 'from', 'to', 'min', 'max', 'category', 'pm', 'status', 'source', 'reimbursable', 'sort'
+];
@@ -0,0 +1,294 @@
+// GST Service
+// Tracks Indian GST on expenses for input tax credit (ITC). CGST + SGST are charged in equal
+// halves on purchases within a state and IGST on purchases across states; a GSTIN's first
+// two digits are the state code. Receipt extraction fills the details in, and the period
+// report sums the claimable GST by rate and by vendor for the accountant.
+
+import { expenseRepository, GstDetails, GstInvoice } from './repositories';
+import { buildXlsx, XlsxCell } from './xlsx-writer';
+import { expenseExportService, toCsvCell } from './expense-export';
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+export const EMPTY_GST_DETAILS: GstDetails = {
+  vendor_gstin: null,
+  hsn_sac_code: null,
+  gst_rate: null,
+  cgst_amount: null,
+  sgst_amount: null,
+  igst_amount: null,
+  tax_inclusive: true,
+  itc_eligible: true
+};
+
+// 2-digit state code, 10-character PAN, entity number, 'Z', check character
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_IN_TEXT = /\b[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Upper-case a GSTIN and drop spaces, or null when empty
+ */
+export const normalizeGstin = (value: string | null | undefined) =>
+  value?.replace(/\s+/g, '').toUpperCase() || null;
+
+/**
+ * Whether a GSTIN has the right shape and check character
+ */
+export const isValidGstin = (value: string | null | undefined) => {
+  const gstin = normalizeGstin(value);
+  if (!gstin || !GSTIN_PATTERN.test(gstin)) return false;
+
+  const sum = [...gstin.slice(0, 14)].reduce((total, char, index) => {
+    const product = GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === gstin[14];
+};
+
+/**
+ * CGST + SGST + IGST of an expense
+ */
+export const gstTotal = (details: Pick<GstDetails, 'cgst_amount' | 'sgst_amount' | 'igst_amount'>) =>
+  roundAmount((details.cgst_amount ?? 0) + (details.sgst_amount ?? 0) + (details.igst_amount ?? 0));
+
+/**
+ * GST charged on an amount at a rate, split into CGST/SGST halves or IGST
+ */
+export const calculateGst = (amount: number, rate: number, taxInclusive: boolean, interState: boolean) => {
+  const taxable = taxInclusive ? amount / (1 + rate / 100) : amount;
+  const tax = roundAmount(taxable * rate / 100);
+  if (interState) return { cgst_amount: null, sgst_amount: null, igst_amount: tax };
+
+  const half = roundAmount(tax / 2);
+  return { cgst_amount: half, sgst_amount: roundAmount(tax - half), igst_amount: null };
+};
+
+/**
+ * Things that look wrong with an expense's GST details, for showing next to the form
+ */
+export const gstWarnings = (details: GstDetails) => {
+  const warnings: string[] = [];
+
+  if (details.vendor_gstin && !isValidGstin(details.vendor_gstin)) {
+    warnings.push('The vendor GSTIN is not valid');
+  }
+  if (details.hsn_sac_code && !/^[0-9]{4,8}$/.test(details.hsn_sac_code)) {
+    warnings.push('HSN/SAC codes are 4 to 8 digits');
+  }
+  if (details.igst_amount && (details.cgst_amount || details.sgst_amount)) {
+    warnings.push('IGST is charged instead of CGST and SGST, not with them');
+  }
+  if ((details.cgst_amount ?? 0) !== (details.sgst_amount ?? 0)) {
+    warnings.push('CGST and SGST are usually equal');
+  }
+  if (gstTotal(details) > 0 && !details.vendor_gstin) {
+    warnings.push('Input tax credit needs the vendor GSTIN');
+  }
+
+  return warnings;
+};
+
+// Non-negative amount from an AI or OCR value, or null
+const toAmount = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.]/g, ''));
+  return Number.isFinite(parsed) ? roundAmount(Math.abs(parsed)) : null;
+};
+
+/**
+ * Pick the GST details out of an AI response; anything missing or malformed is left out
+ */
+export const normalizeGstDetails = (raw: object): Partial<GstDetails> => {
+  const source = raw as Record<string, unknown>;
+  const details: Partial<GstDetails> = {};
+
+  const gstin = normalizeGstin(String(source.vendorGstin ?? source.gstin ?? ''));
+  if (gstin && GSTIN_PATTERN.test(gstin)) details.vendor_gstin = gstin;
+
+  const code = String(source.hsnSacCode ?? source.hsn ?? source.sac ?? '').replace(/\D/g, '');
+  if (/^[0-9]{4,8}$/.test(code)) details.hsn_sac_code = code;
+
+  const rate = toAmount(source.gstRate);
+  if (rate !== null && rate <= 100) details.gst_rate = rate;
+
+  (['cgst', 'sgst', 'igst'] as const).forEach(part => {
+    const amount = toAmount(source[part]);
+    if (amount !== null) details[`${part}_amount`] = amount;
+  });
+
+  if (typeof source.taxInclusive === 'boolean') details.tax_inclusive = source.taxInclusive;
+
+  return details;
+};
+
+/**
+ * Read the GST details from raw OCR text, for when the AI couldn't
+ */
+export const parseGstFromText = (text: string): Partial<GstDetails> => {
+  const details: Partial<GstDetails> = {};
+  const upper = text.toUpperCase();
+
+  const gstin = upper.match(GSTIN_IN_TEXT);
+  if (gstin) details.vendor_gstin = gstin[0];
+
+  const code = upper.match(/\b(?:HSN|SAC)(?:\s*\/\s*SAC)?\s*(?:CODE)?\s*[:#-]?\s*([0-9]{4,8})\b/);
+  if (code) details.hsn_sac_code = code[1];
+
+  (['cgst', 'sgst', 'igst'] as const).forEach(part => {
+    // "CGST @ 9% 45.00" or "SGST 9.00% : 45.00"; the amount is the last number on the line
+    const line = upper.match(new RegExp(`^.*\\b${part === 'sgst' ? '(?:SGST|UTGST)' : part.toUpperCase()}\\b(.*)$`, 'm'));
+    if (!line) return;
+
+    const rate = line[1].match(/(\d+(?:\.\d+)?)\s*%/);
+    const amount = line[1].replace(/(\d+(?:\.\d+)?)\s*%/, '').match(/(\d[\d,]*\.\d{2})\s*$/);
+    if (amount) details[`${part}_amount`] = toAmount(amount[1]);
+    if (rate && details.gst_rate === undefined) {
+      const value = Number(rate[1]);
+      details.gst_rate = part === 'igst' ? value : value * 2;
+    }
+  });
+
+  return details;
+};
+
+export interface GstRateSummary {
+  gst_rate: number | null;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_tax: number;
+  invoice_count: number;
+}
+
+export interface GstVendorSummary extends GstRateSummary {
+  vendor_gstin: string;
+  merchant: string;
+}
+
+// Claimable GST of a period, with the ineligible invoices kept for reference. Only INR
+// expenses are reported.
+export interface GstReport {
+  start: string;
+  end: string;
+  invoices: GstInvoice[];
+  byRate: GstRateSummary[];
+  byVendor: GstVendorSummary[];
+  claimable: GstRateSummary;
+  ineligibleTax: number;
+}
+
+const emptySummary = (gstRate: number | null = null): GstRateSummary => ({
+  gst_rate: gstRate,
+  taxable_value: 0,
+  cgst_amount: 0,
+  sgst_amount: 0,
+  igst_amount: 0,
+  total_tax: 0,
+  invoice_count: 0
+});
+
+/**
+ * Whether an invoice's GST can be claimed: it's eligible for input tax credit and has a
+ * valid vendor GSTIN
+ */
+export const isClaimable = (invoice: Pick<GstInvoice, 'itc_eligible' | 'vendor_gstin'>) =>
+  invoice.itc_eligible && isValidGstin(invoice.vendor_gstin);
+
+const addInvoice = <T extends GstRateSummary>(summary: T, invoice: GstInvoice): T => ({
+  ...summary,
+  taxable_value: roundAmount(summary.taxable_value + invoice.taxable_value),
+  cgst_amount: roundAmount(summary.cgst_amount + invoice.cgst_amount),
+  sgst_amount: roundAmount(summary.sgst_amount + invoice.sgst_amount),
+  igst_amount: roundAmount(summary.igst_amount + invoice.igst_amount),
+  total_tax: roundAmount(summary.total_tax + gstTotal(invoice)),
+  invoice_count: summary.invoice_count + 1
+});
+
+interface GstExportColumn {
+  header: string;
+  value: (invoice: GstInvoice) => XlsxCell;
+}
+
+// Invoice-level columns, in the order accountants usually map them for GSTR-2B reconciliation
+const GST_EXPORT_COLUMNS: GstExportColumn[] = [
+  { header: 'Invoice Date', value: i => i.txn_date },
+  { header: 'Vendor Name', value: i => i.merchant },
+  { header: 'Vendor GSTIN', value: i => i.vendor_gstin || '' },
+  { header: 'Vendor State Code', value: i => i.vendor_gstin?.slice(0, 2) || '' },
+  { header: 'HSN/SAC', value: i => i.hsn_sac_code || '' },
+  { header: 'GST Rate (%)', value: i => i.gst_rate },
+  { header: 'Taxable Value', value: i => i.taxable_value },
+  { header: 'CGST', value: i => i.cgst_amount },
+  { header: 'SGST/UTGST', value: i => i.sgst_amount },
+  { header: 'IGST', value: i => i.igst_amount },
+  { header: 'Total Tax', value: i => gstTotal(i) },
+  { header: 'Invoice Value', value: i => i.invoice_value },
+  { header: 'ITC Eligible', value: i => isClaimable(i) },
+  { header: 'Expense ID', value: i => i.expense_id }
+];
+
+class GstService {
+  /**
+   * GST invoices of a period summarized by rate and by vendor; only claimable invoices
+   * count towards the totals
+   */
+  async loadReport(workspaceId: string, range: { start: string; end: string }): Promise<GstReport> {
+    const { data: invoices, error } = await expenseRepository.getGstReport(workspaceId, range);
+
+    if (error) {
+      console.error('❌ Error loading GST report:', error);
+      throw new Error(error.message || 'Failed to load the GST report');
+    }
+
+    const eligible = invoices.filter(isClaimable);
+    const byRate = new Map<string, GstRateSummary>();
+    const byVendor = new Map<string, GstVendorSummary>();
+
+    eligible.forEach(invoice => {
+      const rateKey = String(invoice.gst_rate ?? '');
+      byRate.set(rateKey, addInvoice(byRate.get(rateKey) || emptySummary(invoice.gst_rate), invoice));
+
+      const vendorGstin = normalizeGstin(invoice.vendor_gstin) ?? '';
+      const vendor = byVendor.get(vendorGstin)
+        || { ...emptySummary(), vendor_gstin: vendorGstin, merchant: invoice.merchant };
+      byVendor.set(vendorGstin, addInvoice(vendor, invoice));
+    });
+
+    return {
+      ...range,
+      invoices,
+      byRate: [...byRate.values()].sort((a, b) => (a.gst_rate ?? -1) - (b.gst_rate ?? -1)),
+      byVendor: [...byVendor.values()].sort((a, b) => b.total_tax - a.total_tax),
+      claimable: eligible.reduce(addInvoice, emptySummary()),
+      ineligibleTax: roundAmount(invoices
+        .filter(invoice => !isClaimable(invoice))
+        .reduce((sum, invoice) => sum + gstTotal(invoice), 0))
+    };
+  }
+
+  /**
+   * Download the invoices of a report as CSV or XLSX
+   */
+  exportReport(report: GstReport, format: 'csv' | 'xlsx', workspaceName: string) {
+    const rows = report.invoices.map(invoice => GST_EXPORT_COLUMNS.map(column => column.value(invoice)));
+    const headers = GST_EXPORT_COLUMNS.map(column => column.header);
+
+    const blob = format === 'csv'
+      // Byte order mark so Excel opens the file as UTF-8
+      ? new Blob(['\uFEFF' + [headers, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' })
+      : buildXlsx('GST Purchases', [headers, ...rows]);
+
+    const slug = workspaceName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+    const fileName = `${slug}-gst-${report.start}-to-${report.end}.${format}`;
+    expenseExportService.download(blob, fileName);
+
+    console.log(`✅ Exported ${rows.length} GST invoices to ${fileName}`);
+    return fileName;
+  }
+}
+
+// Export singleton instance
+export const gstService = new GstService();
@@ -0,0 +1,211 @@
+// Merchant Service
+// Each workspace keeps a directory of merchants with canonical names, aliases and defaults.
+// Names from receipts, voice and chat are fuzzy-matched against it before an expense is
+// saved, so "MCDONALDS #1234" is filed as "McDonald's". The database links whatever is
+// saved by exact normalized name or alias (20250811250000_add_merchant_directory.sql) and
+// adds unknown names, which end up here as duplicates to merge.
+
+import { merchantRepository, Merchant, MerchantInput } from './repositories';
+
+// Lowest similarity (0-1) at which a name is taken to be a known merchant
+export const MERCHANT_MATCH_THRESHOLD = 0.8;
+
+// Store numbers and company suffixes; must match normalize_merchant_name() in SQL
+const IGNORED_WORDS = /^([0-9]+|inc|llc|ltd|pvt|private|limited|co|corp|corporation|company|the)$/;
+
+export const MERCHANT_COLORS = ['#E74C3C', '#E67E22', '#F1C40F', '#2ECC71', '#1ABC9C', '#3498DB', '#9B59B6', '#2C3E50'];
+
+export interface MerchantMatch {
+  merchant: Merchant;
+  // 1 for an exact name or alias match
+  score: number;
+}
+
+/**
+ * Normalized key of a merchant name: lower case, without punctuation, store numbers or
+ * company suffixes, e.g. "McDonald's #1234" -> "mcdonalds". Letters of any script are kept
+ * with their combining marks (Devanagari and Tamil vowel signs), like [:alnum:] in SQL.
+ */
+export const normalizeMerchantName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(word => word && !IGNORED_WORDS.test(word))
+    .join(' ');
+
+const bigrams = (key: string) => {
+  const compact = key.replace(/ /g, '');
+  const pairs = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) pairs.add(compact.slice(i, i + 2));
+  return pairs;
+};
+
+/**
+ * Similarity of two normalized keys (0-1). A key whose words start the other's counts as
+ * the same merchant ("starbucks" and "starbucks coffee mumbai"); otherwise the Dice
+ * coefficient of their letter pairs.
+ */
+export const merchantKeySimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 4 && longer.startsWith(`${shorter} `)) return 0.9;
+
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.size === 0 || pairsB.size === 0) return 0;
+
+  let shared = 0;
+  pairsA.forEach(pair => { if (pairsB.has(pair)) shared++; });
+  return (2 * shared) / (pairsA.size + pairsB.size);
+};
+
+/**
+ * Best match for a name among a workspace's merchants, by name and aliases, or null when
+ * nothing is similar enough
+ */
+export const matchMerchant = (name: string, merchants: Merchant[]): MerchantMatch | null => {
+  const key = normalizeMerchantName(name);
+  if (!key) return null;
+
+  let best: MerchantMatch | null = null;
+  for (const merchant of merchants) {
+    const score = Math.max(...[merchant.normalized_name, ...merchant.alias_keys].map(known => merchantKeySimilarity(key, known)));
+    if (score >= MERCHANT_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { merchant, score };
+      if (score === 1) break;
+    }
+  }
+  return best;
+};
+
+/**
+ * Groups of merchants that look like the same vendor, for suggesting merges. Each group
+ * is ordered with the most used merchant first.
+ */
+export const findDuplicateMerchants = (merchants: Merchant[]) => {
+  const groups: Merchant[][] = [];
+  const grouped = new Set<string>();
+
+  merchants.forEach((merchant, index) => {
+    if (grouped.has(merchant.id)) return;
+    const keys = [merchant.normalized_name, ...merchant.alias_keys];
+
+    const group = [merchant, ...merchants.slice(index + 1).filter(other =>
+      !grouped.has(other.id)
+      && [other.normalized_name, ...other.alias_keys].some(otherKey =>
+        keys.some(key => merchantKeySimilarity(key, otherKey) >= MERCHANT_MATCH_THRESHOLD))
+    )];
+
+    if (group.length > 1) {
+      group.forEach(m => grouped.add(m.id));
+      groups.push(group.sort((a, b) => b.expense_count - a.expense_count));
+    }
+  });
+
+  return groups;
+};
+
+/**
+ * Clean up aliases typed as a comma-separated list
+ */
+export const parseAliases = (text: string) =>
+  [...new Set(text.split(',').map(alias => alias.trim()).filter(Boolean))];
+
+class MerchantService {
+  /**
+   * A workspace's merchant directory
+   */
+  async loadMerchants(workspaceId: string) {
+    const { data, error } = await merchantRepository.listForWorkspace(workspaceId);
+
+    if (error) {
+      console.error('❌ Error loading merchants:', error);
+      throw new Error(error.message || 'Failed to load merchants');
+    }
+
+    return data;
+  }
+
+  /**
+   * Find the known merchant for a name from a receipt, voice note or chat. Matching is a
+   * convenience, so a failed lookup returns null instead of blocking the expense.
+   */
+  async match(workspaceId: string, name: string | null | undefined): Promise<MerchantMatch | null> {
+    if (!name?.trim()) return null;
+
+    try {
+      const match = matchMerchant(name, await this.loadMerchants(workspaceId));
+      if (match) {
+        console.log(`🏪 Matched "${name}" to ${match.merchant.name} (${Math.round(match.score * 100)}%)`);
+      }
+      return match;
+    } catch (error) {
+      console.warn('⚠️ Merchant matching unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a merchant, or update it when `existing` is given
+   */
+  async saveMerchant(input: MerchantInput, existing?: Merchant) {
+    const { workspace_id: workspaceId, ...fields } = {
+      ...input,
+      name: input.name.trim(),
+      aliases: input.aliases.map(alias => alias.trim()).filter(Boolean)
+    };
+
+    if (existing) {
+      const { error } = await merchantRepository.update(existing.id, fields);
+      if (error) {
+        console.error('❌ Error updating merchant:', error);
+        throw new Error(error.message || 'Failed to update merchant');
+      }
+      return;
+    }
+
+    const { error } = await merchantRepository.create({ workspace_id: workspaceId, ...fields });
+    if (error) {
+      console.error('❌ Error creating merchant:', error);
+      throw new Error(
+        error.code === '23505' ? `${fields.name} is already in the directory` : error.message || 'Failed to create merchant'
+      );
+    }
+  }
+
+  /**
+   * Remove a merchant from the directory
+   */
+  async deleteMerchant(merchant: Merchant) {
+    const { error } = await merchantRepository.delete(merchant.id);
+
+    if (error) {
+      console.error('❌ Error deleting merchant:', error);
+      throw new Error(error.message || 'Failed to delete merchant');
+    }
+  }
+
+  /**
+   * Merge duplicates into `target`; their expenses and names move to it
+   */
+  async mergeMerchants(target: Merchant, duplicates: Merchant[]) {
+    const sourceIds = duplicates.map(m => m.id).filter(id => id !== target.id);
+    if (sourceIds.length === 0) return;
+
+    const { error } = await merchantRepository.merge(target.id, sourceIds);
+
+    if (error) {
+      console.error('❌ Error merging merchants:', error);
+      throw new Error(error.message || 'Failed to merge merchants');
+    }
+
+    console.log(`🔗 Merged ${sourceIds.length} merchant(s) into ${target.name}`);
+  }
+}
+
+// Export singleton instance
+export const merchantService = new MerchantService();
@@ -1,4 +1,6 @@
 import { ReceiptProcessingResult } from './receipt-processing';
+import { normalizeLineItems, normalizeReceiptTotals } from './receipt-line-items';
+import { normalizeGstDetails } from './gst';
 
 // n8n webhook response interface
 export interface N8nPdfResponse {
@@ -11,6 +13,18 @@ export interface N8nPdfResponse {
     notes?: string;
     confidence?: number;
     extractedText?: string;
+    lineItems?: unknown;
+    subtotal?: number;
+    tax?: number;
+    tip?: number;
+    discount?: number;
+    vendorGstin?: string;
+    hsnSacCode?: string;
+    gstRate?: number;
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
+    taxInclusive?: boolean;
   };
   error?: string;
   message?: string;
@@ -87,7 +101,10 @@ export class N8nService {
         date: result.data.date,
         notes: result.data.notes || 'Processed via n8n workflow',
         confidence: result.data.confidence || 0.8,
-        extractedText: result.data.extractedText || `PDF processed: ${file.name}`
+        extractedText: result.data.extractedText || `PDF processed: ${file.name}`,
+        ...normalizeReceiptTotals(result.data),
+        lineItems: normalizeLineItems(result.data.lineItems),
+        gst: normalizeGstDetails(result.data)
       };
 
       console.log('✅ PDF processed successfully via n8n:', processedResult);
@@ -156,7 +173,19 @@ export class N8nService {
             date: parsedResponse.date,
             notes: parsedResponse.notes,
             confidence: parsedResponse.confidence,
-            extractedText: parsedResponse.extractedText
+            extractedText: parsedResponse.extractedText,
+            lineItems: parsedResponse.lineItems,
+            subtotal: parsedResponse.subtotal,
+            tax: parsedResponse.tax,
+            tip: parsedResponse.tip,
+            discount: parsedResponse.discount,
+            vendorGstin: parsedResponse.vendorGstin,
+            hsnSacCode: parsedResponse.hsnSacCode,
+            gstRate: parsedResponse.gstRate,
+            cgst: parsedResponse.cgst,
+            sgst: parsedResponse.sgst,
+            igst: parsedResponse.igst,
+            taxInclusive: parsedResponse.taxInclusive
           }
         };
       } else {
@@ -0,0 +1,157 @@
+// Receipt Line Items
+// Receipt extraction returns the items on a receipt along with its subtotal, tax, tip and
+// discount. The AI prompts ask for them directly; when the AI is unavailable or returns
+// none, they are read from the OCR text with the heuristics below. Items are saved with
+// the expense so the expense search can find it by what was bought.
+
+import { expenseLineItemRepository, ExpenseLineItemInput } from './repositories';
+
+// Totals printed on a receipt besides the grand total
+export interface ReceiptTotals {
+  subtotal?: number;
+  tax?: number;
+  tip?: number;
+  discount?: number;
+}
+
+export const RECEIPT_TOTAL_LABELS: Record<keyof ReceiptTotals, string> = {
+  subtotal: 'Subtotal',
+  tax: 'Tax',
+  tip: 'Tip',
+  discount: 'Discount'
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Non-negative amount from an AI or OCR value such as 12.5, "12.50" or "1,299.00"
+const toAmount = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? roundAmount(Math.abs(parsed)) : undefined;
+};
+
+/**
+ * Clean up line items returned by the AI; items without a name or total are dropped and a
+ * missing total is worked out from quantity x unit price
+ */
+export const normalizeLineItems = (raw: unknown): ExpenseLineItemInput[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): ExpenseLineItemInput[] => {
+    if (!item || typeof item !== 'object') return [];
+    const source = item as Record<string, unknown>;
+
+    const name = String(source.name ?? source.description ?? '').trim();
+    const quantity = toAmount(source.quantity ?? source.qty) ?? null;
+    const unitPrice = toAmount(source.unit_price ?? source.unitPrice ?? source.price) ?? null;
+    const total = toAmount(source.total ?? source.amount)
+      ?? (quantity !== null && unitPrice !== null ? roundAmount(quantity * unitPrice) : undefined);
+
+    if (!name || total === undefined) return [];
+    return [{ name, quantity, unit_price: unitPrice, total }];
+  });
+};
+
+/**
+ * Pick the subtotal, tax, tip and discount out of an AI response
+ */
+export const normalizeReceiptTotals = (raw: object): ReceiptTotals => {
+  const totals: ReceiptTotals = {};
+  (Object.keys(RECEIPT_TOTAL_LABELS) as (keyof ReceiptTotals)[]).forEach(key => {
+    const amount = toAmount((raw as Record<string, unknown>)[key]);
+    if (amount !== undefined) totals[key] = amount;
+  });
+  return totals;
+};
+
+// Lines that carry a total or payment rather than an item
+const NON_ITEM_LINE = /\b(total|balance|amount due|change|cash|card|visa|mastercard|amex|paid|payment|tender|rounding|round off)\b/i;
+const TOTAL_LINE_PATTERNS: [keyof ReceiptTotals, RegExp][] = [
+  ['subtotal', /^sub\s*-?\s*total\b/i],
+  ['tax', /^(sales\s+)?(tax|vat|gst|hst|pst|cgst|sgst|igst)\b/i],
+  ['tip', /^(tip|gratuity|service charge)\b/i],
+  ['discount', /^(discount|savings|coupon|promo)\b/i]
+];
+// "Coffee 3.50", "2 x Bagel @ 1.75 3.50", "Tea 2 @ 1.50 3.00"
+const PRICE_AT_END = /^(.*?)\s+-?[$€£₹]?\s?(\d{1,3}(?:,\d{3})*\.\d{2})$/;
+const QUANTITY_PREFIX = /^(\d{1,3})\s*[xX]?\s+(.+)$/;
+const QUANTITY_AT_PRICE = /^(.*?)\s+(\d{1,3})\s*[xX@]\s*[$€£₹]?\s?(\d+\.\d{2})$/;
+
+/**
+ * Read line items and totals from raw OCR text, for when the AI couldn't
+ */
+export const parseReceiptText = (text: string): ReceiptTotals & { lineItems: ExpenseLineItemInput[] } => {
+  const lineItems: ExpenseLineItemInput[] = [];
+  const totals: ReceiptTotals = {};
+
+  text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const priced = line.match(PRICE_AT_END);
+    if (!priced) return;
+
+    const label = priced[1].trim();
+    const amount = toAmount(priced[2]);
+    if (amount === undefined || !/[a-z]/i.test(label)) return;
+
+    const totalLine = TOTAL_LINE_PATTERNS.find(([, pattern]) => pattern.test(label));
+    if (totalLine) {
+      const [key] = totalLine;
+      // Tax is often printed in parts, e.g. CGST and SGST
+      totals[key] = key === 'tax' ? roundAmount((totals.tax ?? 0) + amount) : amount;
+      return;
+    }
+    if (NON_ITEM_LINE.test(label)) return;
+
+    let name = label;
+    let quantity: number | null = null;
+    let unitPrice: number | null = null;
+
+    const atPrice = label.match(QUANTITY_AT_PRICE);
+    const prefixed = label.match(QUANTITY_PREFIX);
+    if (atPrice) {
+      name = atPrice[1];
+      quantity = Number(atPrice[2]);
+      unitPrice = toAmount(atPrice[3]) ?? null;
+    } else if (prefixed) {
+      quantity = Number(prefixed[1]);
+      name = prefixed[2];
+      unitPrice = quantity > 0 ? roundAmount(amount / quantity) : null;
+    }
+
+    name = name.replace(/[@xX]\s*$/, '').trim();
+    if (name) lineItems.push({ name, quantity, unit_price: unitPrice, total: amount });
+  });
+
+  return { lineItems, ...totals };
+};
+
+/**
+ * How far the items, tax and tip less the discount are from the expense amount, or null
+ * when there are no items to check. Rounded to cents.
+ */
+export const lineItemsDifference = (amount: number, items: ExpenseLineItemInput[], totals: ReceiptTotals) => {
+  if (items.length === 0) return null;
+  const itemsTotal = items.reduce((sum, item) => sum + (Number(item.total) || 0), 0);
+  const expected = itemsTotal + (totals.tax ?? 0) + (totals.tip ?? 0) - (totals.discount ?? 0);
+  return roundAmount(amount - expected);
+};
+
+class LineItemService {
+  /**
+   * Save the line items of an expense, replacing any it had
+   */
+  async saveLineItems(expenseId: string, items: ExpenseLineItemInput[]) {
+    const { data, error } = await expenseLineItemRepository.replace(expenseId, items
+      .map(item => ({ ...item, name: item.name.trim() }))
+      .filter(item => item.name));
+
+    if (error) {
+      console.error('❌ Error saving line items:', error);
+      throw new Error(error.message || 'Failed to save line items');
+    }
+
+    console.log(`🧾 Saved ${data.length} line item(s)`);
+    return data;
+  }
+}
+
+// Export singleton instance
+export const lineItemService = new LineItemService();
@@ -1,9 +1,12 @@
 import { supabase } from './supabase';
 import { createWorker } from 'tesseract.js';
 import { n8nService } from './n8n-service';
+import { ExpenseLineItemInput, GstDetails } from './repositories';
+import { ReceiptTotals, normalizeLineItems, normalizeReceiptTotals, parseReceiptText } from './receipt-line-items';
+import { normalizeGstDetails, parseGstFromText } from './gst';
 
 // Types for receipt processing
-export interface ReceiptProcessingResult {
+export interface ReceiptProcessingResult extends ReceiptTotals {
   merchant: string;
   amount: number;
   description: string;
@@ -12,6 +15,10 @@ export interface ReceiptProcessingResult {
   confidence: number;
   extractedText: string;
   receiptUrl?: string;
+  // Items on the receipt; empty when none could be read
+  lineItems: ExpenseLineItemInput[];
+  // GST details printed on Indian invoices
+  gst: Partial<GstDetails>;
 }
 
 export interface ReceiptProcessingError {
@@ -21,7 +28,6 @@ export interface ReceiptProcessingError {
 }
 
 class ReceiptProcessingService {
-  private readonly OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
   private readonly SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
 
@@ -117,80 +123,42 @@ Amount: Please verify manually`;
     }
   }
 
-  // Analyze extracted text using OpenAI
-  private async analyzeReceiptText(extractedText: string): Promise<ReceiptProcessingResult> {
+  // Analyze extracted text with the receipt-analysis edge function
+  private async analyzeReceiptText(extractedText: string, workspaceId?: string): Promise<ReceiptProcessingResult> {
     try {
       console.log('🧠 Analyzing receipt text with AI...');
       
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert at analyzing receipt text and extracting structured expense data. 
-              
-Parse the receipt text and extract the following information:
-- merchant: The business name
-- amount: The total amount (number only, no currency symbols)
-- description: Brief description of what was purchased
-- date: Date in YYYY-MM-DD format (if available)
-- notes: Any additional relevant information
-
-Return ONLY a valid JSON object with these fields. If information is unclear or missing, use reasonable defaults or leave empty string for optional fields.
-
-Example:
-{
-  "merchant": "Starbucks",
-  "amount": 5.94,
-  "description": "Coffee",
-  "date": "2024-01-15",
-  "notes": "Business meeting coffee",
-  "confidence": 0.95
-}`
-            },
-            {
-              role: 'user',
-              content: `Analyze this receipt text and extract expense data:\n\n${extractedText}`
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 300
-        })
+      // The receipt-analysis edge function holds the AI provider's key
+      const { data, error } = await supabase.functions.invoke('receipt-analysis', {
+        body: { text: extractedText, workspaceId }
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
+      if (error) {
+        throw new Error(`Receipt analysis failed: ${error.message}`);
       }
 
-      const data = await response.json();
-      const aiResponse = data.choices[0]?.message?.content;
-
-      if (!aiResponse) {
+      if (!data?.analysis) {
         throw new Error('No response from AI analysis');
       }
 
-      try {
-        const parsedResult = JSON.parse(aiResponse);
-        
-        return {
-          merchant: parsedResult.merchant || 'Unknown Merchant',
-          amount: parseFloat(parsedResult.amount) || 0,
-          description: parsedResult.description || 'Receipt expense',
-          date: parsedResult.date || undefined,
-          notes: parsedResult.notes || '',
-          confidence: parsedResult.confidence || 0.8,
-          extractedText: extractedText
-        };
-      } catch (parseError) {
-        console.error('❌ Failed to parse AI response:', aiResponse);
-        throw new Error('Failed to parse receipt data from AI response');
-      }
+      const parsedResult = data.analysis;
+      const lineItems = normalizeLineItems(parsedResult.lineItems);
+      // Fill in whatever the AI left out from the OCR text
+      const fromText = parseReceiptText(extractedText);
+      
+      return {
+        merchant: parsedResult.merchant || 'Unknown Merchant',
+        amount: parseFloat(parsedResult.amount) || 0,
+        description: parsedResult.description || 'Receipt expense',
+        date: parsedResult.date || undefined,
+        notes: parsedResult.notes || '',
+        confidence: parsedResult.confidence || 0.8,
+        extractedText: extractedText,
+        ...fromText,
+        ...normalizeReceiptTotals(parsedResult),
+        lineItems: lineItems.length > 0 ? lineItems : fromText.lineItems,
+        gst: { ...parseGstFromText(extractedText), ...normalizeGstDetails(parsedResult) }
+      };
 
     } catch (error) {
       console.error('❌ AI analysis failed:', error);
@@ -224,12 +192,14 @@ Example:
       date: date,
       notes: 'Processed using fallback analysis',
       confidence: 0.6,
-      extractedText: text
+      extractedText: text,
+      ...parseReceiptText(text),
+      gst: parseGstFromText(text)
     };
   }
 
   // Process PDF receipt using n8n workflow with Supabase fallback
-  private async processPDFReceipt(file: File, userId?: string): Promise<ReceiptProcessingResult> {
+  private async processPDFReceipt(file: File, userId?: string, workspaceId?: string): Promise<ReceiptProcessingResult> {
     let result: ReceiptProcessingResult;
     let processingMethod = 'unknown';
     
@@ -245,7 +215,7 @@ Example:
       } else {
         console.log('⚠️ n8n not available, falling back to Supabase Edge Function');
         processingMethod = 'supabase';
-        result = await this.processPDFWithSupabase(file, userId);
+        result = await this.processPDFWithSupabase(file, userId, workspaceId);
       }
       
     } catch (n8nError) {
@@ -255,7 +225,7 @@ Example:
       if (processingMethod === 'n8n') {
         try {
           console.log('🔄 Falling back to Supabase Edge Function...');
-          result = await this.processPDFWithSupabase(file, userId);
+          result = await this.processPDFWithSupabase(file, userId, workspaceId);
           processingMethod = 'supabase-fallback';
         } catch (supabaseError) {
           console.error('❌ Supabase fallback also failed:', supabaseError);
@@ -266,16 +236,6 @@ Example:
       }
     }
     
-    // Upload file if user is provided and URL not already set
-    if (userId && !result.receiptUrl) {
-      try {
-        const receiptUrl = await this.uploadReceiptFile(file, userId);
-        result.receiptUrl = receiptUrl;
-      } catch (uploadError) {
-        console.warn('⚠️ File upload failed, continuing without URL:', uploadError);
-      }
-    }
-    
     // Add processing method to notes
     const processingNote = processingMethod === 'n8n' ? 'Processed via n8n workflow' :
                           processingMethod === 'supabase' ? 'Processed via Supabase Edge Function' :
@@ -288,7 +248,7 @@ Example:
   }
 
   // Process PDF using Supabase Edge Function (fallback method)
-  private async processPDFWithSupabase(file: File, userId?: string): Promise<ReceiptProcessingResult> {
+  private async processPDFWithSupabase(file: File, userId?: string, workspaceId?: string): Promise<ReceiptProcessingResult> {
     try {
       console.log('📡 Sending PDF to Supabase Edge Function for processing...');
       
@@ -301,7 +261,8 @@ Example:
         body: {
           fileData: base64String,
           fileName: file.name,
-          userId: userId
+          userId: userId,
+          workspaceId
         }
       });
       
@@ -321,7 +282,10 @@ Example:
         date: data.date,
         notes: data.notes,
         confidence: data.confidence || 0.7,
-        extractedText: data.extractedText || ''
+        extractedText: data.extractedText || '',
+        ...normalizeReceiptTotals(data),
+        lineItems: normalizeLineItems(data.lineItems),
+        gst: normalizeGstDetails(data)
       };
       
       return result;
@@ -398,35 +362,8 @@ Amount: Please verify manually`;
     }
   }
 
-  // Upload receipt file to Supabase storage
-  private async uploadReceiptFile(file: File, userId: string): Promise<string> {
-    try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-      const filePath = `receipts/${userId}/${fileName}`;
-
-      const { data, error } = await supabase.storage
-        .from('receipts')
-        .upload(filePath, file);
-
-      if (error) {
-        throw error;
-      }
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('receipts')
-        .getPublicUrl(filePath);
-
-      return urlData.publicUrl;
-    } catch (error) {
-      console.error('❌ File upload failed:', error);
-      throw new Error('Failed to upload receipt file');
-    }
-  }
-
-  // Main method to process a receipt file
-  async processReceipt(file: File, userId?: string): Promise<ReceiptProcessingResult> {
+  // Main method to process a receipt file; AI usage is billed to the workspace
+  async processReceipt(file: File, userId?: string, workspaceId?: string): Promise<ReceiptProcessingResult> {
     try {
       console.log('📄 Processing receipt:', file.name, `(${file.type})`);
 
@@ -439,7 +376,7 @@ Amount: Please verify manually`;
       // Handle PDF files using n8n workflow with fallback
       if (file.type === 'application/pdf') {
         console.log('📄 Processing PDF file...');
-        return await this.processPDFReceipt(file, userId);
+        return await this.processPDFReceipt(file, userId, workspaceId);
       }
 
       // Handle image files using OCR + AI analysis
@@ -450,17 +387,7 @@ Amount: Please verify manually`;
       console.log('📝 Extracted text:', extractedText);
 
       // Analyze with AI
-      const result = await this.analyzeReceiptText(extractedText);
-
-      // Upload file if user is provided
-      if (userId) {
-        try {
-          const receiptUrl = await this.uploadReceiptFile(file, userId);
-          result.receiptUrl = receiptUrl;
-        } catch (uploadError) {
-          console.warn('⚠️ File upload failed, continuing without URL:', uploadError);
-        }
-      }
+      const result = await this.analyzeReceiptText(extractedText, workspaceId);
 
       console.log('✅ Receipt processed successfully:', result);
       return result;
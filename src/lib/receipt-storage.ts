@@ -0,0 +1,178 @@
+// Receipt Storage Service
+// Uploads receipts to the private `receipts` bucket, links them to expenses and
+// hands out short-lived signed URLs for previewing them.
+
+import { supabase } from './supabase';
+import { attachmentRepository, expenseRepository, Expense, ExpenseAttachment } from './repositories';
+
+const BUCKET = 'receipts';
+
+// Signed preview links expire after an hour
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Public URLs saved before the bucket went private look like .../object/public/receipts/<path>
+const LEGACY_PUBLIC_URL = /\/storage\/v1\/object\/public\/receipts\/(.+)$/;
+
+class ReceiptStorageService {
+  /**
+   * Convert a stored receipt reference (storage path or legacy public URL) to a storage path
+   */
+  toStoragePath(receiptUrl: string): string | null {
+    const legacy = receiptUrl.match(LEGACY_PUBLIC_URL);
+    if (legacy) return decodeURIComponent(legacy[1]);
+    return /^https?:\/\//.test(receiptUrl) ? null : receiptUrl;
+  }
+
+  /**
+   * Create a signed URL for viewing a receipt; external URLs are returned unchanged
+   */
+  async getSignedUrl(receiptUrl: string, expiresIn = SIGNED_URL_TTL_SECONDS) {
+    const path = this.toStoragePath(receiptUrl);
+    if (!path) return { data: receiptUrl, error: null };
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(path, expiresIn);
+
+    return { data: data?.signedUrl ?? null, error };
+  }
+
+  /**
+   * Create signed URLs for many receipts at once, by stored reference; external URLs are
+   * returned unchanged and receipts that couldn't be signed are left out
+   */
+  async getSignedUrls(receiptUrls: string[], expiresIn = SIGNED_URL_TTL_SECONDS) {
+    const links = new Map<string, string>();
+    const receiptUrlsByPath = new Map<string, string>();
+    for (const receiptUrl of receiptUrls) {
+      const path = this.toStoragePath(receiptUrl);
+      if (path) receiptUrlsByPath.set(path, receiptUrl);
+      else links.set(receiptUrl, receiptUrl);
+    }
+
+    if (receiptUrlsByPath.size === 0) return { data: links, error: null };
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrls([...receiptUrlsByPath.keys()], expiresIn);
+
+    for (const signed of data || []) {
+      const receiptUrl = signed.path ? receiptUrlsByPath.get(signed.path) : undefined;
+      if (receiptUrl && signed.signedUrl && !signed.error) links.set(receiptUrl, signed.signedUrl);
+    }
+
+    return { data: links, error };
+  }
+
+  /**
+   * Download a receipt's file, e.g. to embed it in a report
+   */
+  async download(receiptUrl: string) {
+    const path = this.toStoragePath(receiptUrl);
+    if (!path) {
+      try {
+        const response = await fetch(receiptUrl);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return { data: await response.blob(), error: null };
+      } catch (error) {
+        return { data: null, error: error instanceof Error ? error : new Error('Failed to download receipt') };
+      }
+    }
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .download(path);
+
+    return { data, error };
+  }
+
+  /**
+   * Upload a receipt and link it to an expense, making it the expense's primary receipt
+   */
+  async attachReceipt(expense: Pick<Expense, 'id' | 'workspace_id'>, file: File, userId: string) {
+    const extension = file.name.includes('.') ? file.name.split('.').pop() : 'bin';
+    const path = `${expense.workspace_id}/${expense.id}/${Date.now()}-${Math.random().toString(36).substring(2)}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (uploadError) {
+      console.error('❌ Receipt upload failed:', uploadError);
+      throw new Error('Failed to upload receipt file');
+    }
+
+    const { data: attachment, error: attachmentError } = await attachmentRepository.create({
+      expense_id: expense.id,
+      workspace_id: expense.workspace_id,
+      storage_path: path,
+      file_name: file.name,
+      mime_type: file.type || null,
+      size_bytes: file.size,
+      uploaded_by: userId
+    });
+
+    if (attachmentError || !attachment) {
+      // Don't leave an orphaned object behind
+      await supabase.storage.from(BUCKET).remove([path]);
+      throw new Error(attachmentError?.message || 'Failed to link receipt to expense');
+    }
+
+    const { error: updateError } = await expenseRepository.update(expense.workspace_id, [expense.id], { receipt_url: path });
+    if (updateError) {
+      console.error('Error setting primary receipt:', updateError);
+    }
+
+    console.log('📎 Receipt attached:', path);
+    return attachment;
+  }
+
+  /**
+   * Replace all receipts on an expense with a new file
+   */
+  async replaceReceipt(expense: Pick<Expense, 'id' | 'workspace_id' | 'receipt_url'>, file: File, userId: string) {
+    const { data: existing } = await attachmentRepository.listForExpense(expense.id);
+    const attachment = await this.attachReceipt(expense, file, userId);
+    await this.deleteFiles(existing, expense.receipt_url);
+    return attachment;
+  }
+
+  /**
+   * Remove every receipt from an expense, deleting the stored files
+   */
+  async removeReceipts(expense: Pick<Expense, 'id' | 'workspace_id' | 'receipt_url'>) {
+    const { data: existing, error } = await attachmentRepository.listForExpense(expense.id);
+    if (error) {
+      throw new Error(error.message || 'Failed to load receipts');
+    }
+
+    const { error: updateError } = await expenseRepository.update(expense.workspace_id, [expense.id], { receipt_url: null });
+    if (updateError) {
+      throw new Error(updateError.message || 'Failed to unlink receipt');
+    }
+
+    await this.deleteFiles(existing, expense.receipt_url);
+  }
+
+  // Delete attachment rows and their objects, including a primary receipt that predates attachments
+  private async deleteFiles(attachments: ExpenseAttachment[], primaryReceiptUrl?: string | null) {
+    const paths = new Set(attachments.map(a => a.storage_path));
+    const primaryPath = primaryReceiptUrl ? this.toStoragePath(primaryReceiptUrl) : null;
+    if (primaryPath) paths.add(primaryPath);
+
+    const { error } = await attachmentRepository.delete(attachments.map(a => a.id));
+    if (error) {
+      console.error('Error deleting attachment records:', error);
+    }
+
+    if (paths.size > 0) {
+      const { error: storageError } = await supabase.storage.from(BUCKET).remove([...paths]);
+      if (storageError) {
+        console.error('Error deleting receipt files:', storageError);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const receiptStorageService = new ReceiptStorageService();
@@ -0,0 +1,190 @@
+// Receipt Upload Queue
+// Processes many receipt files with limited concurrency. Each file is run through
+// receipt processing, saved as an unreviewed expense and has the file attached.
+
+import { receiptProcessingService } from './receipt-processing';
+import { receiptStorageService } from './receipt-storage';
+import { lineItemService } from './receipt-line-items';
+import { merchantService } from './merchants';
+import { expenseRepository, Expense } from './repositories';
+
+export type UploadItemStatus = 'queued' | 'processing' | 'saving' | 'done' | 'error';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  workspaceId: string;
+  userId: string;
+  status: UploadItemStatus;
+  error?: string;
+  expense?: Expense;
+}
+
+type QueueListener = (items: UploadQueueItem[]) => void;
+type ExpenseCreatedListener = (expense: Expense) => void;
+
+// OCR and the AI call are heavy in the browser, so only a few files run at once
+const MAX_CONCURRENT_UPLOADS = 3;
+
+const isISODate = (value?: string): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+class ReceiptUploadQueue {
+  private items: UploadQueueItem[] = [];
+  private active = 0;
+  private listeners = new Set<QueueListener>();
+  private expenseListeners = new Set<ExpenseCreatedListener>();
+
+  /**
+   * Subscribe to queue changes; returns an unsubscribe function
+   */
+  subscribe(listener: QueueListener) {
+    this.listeners.add(listener);
+    listener(this.items);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to expenses created by the queue; returns an unsubscribe function
+   */
+  onExpenseCreated(listener: ExpenseCreatedListener) {
+    this.expenseListeners.add(listener);
+    return () => {
+      this.expenseListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add files to the queue; files that fail validation are added in the error state
+   */
+  enqueue(files: File[], workspaceId: string, userId: string) {
+    const newItems = files.map((file): UploadQueueItem => {
+      const validation = receiptProcessingService.validateFile(file);
+      return {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2)}`,
+        file,
+        workspaceId,
+        userId,
+        status: validation.isValid ? 'queued' : 'error',
+        error: validation.error
+      };
+    });
+
+    this.items = [...this.items, ...newItems];
+    this.emit();
+    this.pump();
+  }
+
+  /**
+   * Put a failed item back in the queue
+   */
+  retry(id: string) {
+    this.update(id, { status: 'queued', error: undefined });
+    this.pump();
+  }
+
+  /**
+   * Drop finished items (done or failed) from the list
+   */
+  clearFinished() {
+    this.items = this.items.filter(item => item.status !== 'done' && item.status !== 'error');
+    this.emit();
+  }
+
+  /**
+   * Remove a single item that is not currently being processed
+   */
+  remove(id: string) {
+    this.items = this.items.filter(item => item.id !== id || item.status === 'processing' || item.status === 'saving');
+    this.emit();
+  }
+
+  private emit() {
+    const snapshot = [...this.items];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private update(id: string, changes: Partial<UploadQueueItem>) {
+    this.items = this.items.map(item => item.id === id ? { ...item, ...changes } : item);
+    this.emit();
+  }
+
+  // Start queued items until the concurrency limit is reached
+  private pump() {
+    while (this.active < MAX_CONCURRENT_UPLOADS) {
+      const next = this.items.find(item => item.status === 'queued');
+      if (!next) return;
+
+      this.active++;
+      this.update(next.id, { status: 'processing' });
+      this.process(next).finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+  }
+
+  private async process(item: UploadQueueItem) {
+    try {
+      const result = await receiptProcessingService.processReceipt(item.file, item.userId, item.workspaceId);
+
+      this.update(item.id, { status: 'saving' });
+
+      // Known merchants are filed under their directory name; their default category and
+      // payment method are filled in when the expense is saved
+      const merchantMatch = await merchantService.match(item.workspaceId, result.merchant);
+
+      const { data: expense, error } = await expenseRepository.create({
+        workspace_id: item.workspaceId,
+        user_id: item.userId,
+        merchant: merchantMatch?.merchant.name || result.merchant?.trim() || item.file.name.replace(/\.[^.]+$/, ''),
+        merchant_id: merchantMatch?.merchant.id ?? null,
+        amount: Number(result.amount) || 0,
+        txn_date: isISODate(result.date) ? result.date : new Date().toISOString().split('T')[0],
+        description: result.description || null,
+        notes: result.notes || null,
+        category_id: null,
+        source: 'upload',
+        status: 'unreviewed',
+        extracted_text: result.extractedText || null,
+        ocr_confidence: Math.min(1, Math.max(0, Number(result.confidence) || 0)),
+        subtotal_amount: result.subtotal ?? null,
+        tax_amount: result.tax ?? null,
+        tip_amount: result.tip ?? null,
+        discount_amount: result.discount ?? null,
+        ...result.gst
+      });
+
+      if (error || !expense) {
+        throw new Error(error?.message || 'Failed to save expense');
+      }
+
+      if (result.lineItems.length > 0) {
+        try {
+          await lineItemService.saveLineItems(expense.id, result.lineItems);
+        } catch (lineItemError) {
+          console.warn('⚠️ Expense saved but its line items could not be saved:', lineItemError);
+        }
+      }
+
+      try {
+        await receiptStorageService.attachReceipt(expense, item.file, item.userId);
+      } catch (attachError) {
+        console.warn('⚠️ Expense saved but the receipt could not be attached:', attachError);
+      }
+
+      this.update(item.id, { status: 'done', expense });
+      this.expenseListeners.forEach(listener => listener(expense));
+    } catch (error) {
+      console.error(`❌ Failed to process ${item.file.name}:`, error);
+      this.update(item.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Processing failed'
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const receiptUploadQueue = new ReceiptUploadQueue();
@@ -0,0 +1,349 @@
+// Recurrence rules for recurring expenses
+// Schedules are stored as structured fields (see RecurrenceRule) so Postgres can advance
+// them in generate_due_recurring_expenses(). Custom rules are accepted as a subset of
+// RFC 5545 RRULE and converted to the same fields.
+
+import {
+  recurringExpenseRepository,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurringExpense,
+  RecurringExpenseInput
+} from './repositories';
+
+export type RecurrencePreset = 'none' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export const RECURRENCE_PRESETS: { value: RecurrencePreset; label: string }[] = [
+  { value: 'none', label: "Doesn't repeat" },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'custom', label: 'Custom (RRULE)' }
+];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+};
+
+const OCCURRENCES_PER_YEAR: Record<RecurrenceFrequency, number> = {
+  daily: 365,
+  weekly: 52,
+  monthly: 12,
+  yearly: 1
+};
+
+// Dates are handled as UTC calendar days so local time zones can't shift them
+const parseDate = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (iso: string, days: number) => {
+  const date = parseDate(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+};
+
+const daysInMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+// The given day of a month, clamped to the month's last day (e.g. the 31st in February)
+const clampedDate = (year: number, monthIndex: number, day: number) => {
+  const normalized = new Date(Date.UTC(year, monthIndex, 1));
+  const clampedDay = Math.min(day, daysInMonth(normalized.getUTCFullYear(), normalized.getUTCMonth()));
+  return formatDate(new Date(Date.UTC(normalized.getUTCFullYear(), normalized.getUTCMonth(), clampedDay)));
+};
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Build a rule that repeats every `interval` periods, anchored on the start date
+ * (same weekday, day of month or date of year)
+ */
+export const buildRecurrenceRule = (frequency: RecurrenceFrequency, startDate: string, interval = 1): RecurrenceRule => {
+  const start = parseDate(startDate);
+  return {
+    frequency,
+    interval_count: interval,
+    day_of_week: frequency === 'weekly' ? start.getUTCDay() : null,
+    day_of_month: frequency === 'monthly' || frequency === 'yearly' ? start.getUTCDate() : null,
+    month_of_year: frequency === 'yearly' ? start.getUTCMonth() + 1 : null,
+    end_date: null
+  };
+};
+
+/**
+ * Next occurrence strictly after `date`, which must itself be an occurrence
+ * (mirrors public.next_recurrence_date)
+ */
+export const nextOccurrence = (rule: RecurrenceRule, date: string): string => {
+  const current = parseDate(date);
+  const interval = rule.interval_count;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(date, interval);
+    case 'weekly':
+      return addDays(date, 7 * interval);
+    case 'monthly':
+      return clampedDate(current.getUTCFullYear(), current.getUTCMonth() + interval, rule.day_of_month ?? current.getUTCDate());
+    case 'yearly':
+      return clampedDate(
+        current.getUTCFullYear() + interval,
+        (rule.month_of_year ?? current.getUTCMonth() + 1) - 1,
+        rule.day_of_month ?? current.getUTCDate()
+      );
+  }
+};
+
+/**
+ * First occurrence on or after `from`
+ */
+export const firstOccurrence = (rule: RecurrenceRule, from: string): string => {
+  const start = parseDate(from);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (rule.frequency) {
+    case 'daily':
+      return from;
+    case 'weekly': {
+      const weekday = rule.day_of_week ?? start.getUTCDay();
+      return addDays(from, (weekday - start.getUTCDay() + 7) % 7);
+    }
+    case 'monthly': {
+      const day = rule.day_of_month ?? start.getUTCDate();
+      const thisMonth = clampedDate(year, month, day);
+      return thisMonth >= from ? thisMonth : clampedDate(year, month + 1, day);
+    }
+    case 'yearly': {
+      const monthIndex = (rule.month_of_year ?? month + 1) - 1;
+      const day = rule.day_of_month ?? start.getUTCDate();
+      const thisYear = clampedDate(year, monthIndex, day);
+      return thisYear >= from ? thisYear : clampedDate(year + 1, monthIndex, day);
+    }
+  }
+};
+
+/**
+ * Occurrences from `nextDue` up to and including `until`, capped at `limit`
+ */
+export const occurrencesUntil = (rule: RecurrenceRule, nextDue: string, until: string, limit = 100) => {
+  const dates: string[] = [];
+  let date = nextDue;
+  while (date <= until && dates.length < limit && (!rule.end_date || date <= rule.end_date)) {
+    dates.push(date);
+    date = nextOccurrence(rule, date);
+  }
+  return dates;
+};
+
+/**
+ * Parse a custom RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, COUNT, UNTIL) anchored
+ * on the start date. Rules needing several dates per period (e.g. BYDAY=MO,TH) are rejected.
+ */
+export const parseRRule = (text: string, startDate: string): { rule: RecurrenceRule | null; error?: string } => {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) return { rule: null, error: `Invalid part "${part}"` };
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const frequency = RRULE_FREQUENCIES[parts.get('FREQ') || ''];
+  if (!frequency) {
+    return { rule: null, error: 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY' };
+  }
+
+  const supported = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'COUNT', 'UNTIL', 'WKST'];
+  const unsupported = [...parts.keys()].find(key => !supported.includes(key));
+  if (unsupported) {
+    return { rule: null, error: `${unsupported} is not supported` };
+  }
+
+  const rule = buildRecurrenceRule(frequency, startDate, Number(parts.get('INTERVAL') || 1));
+  if (!Number.isInteger(rule.interval_count) || rule.interval_count < 1 || rule.interval_count > 365) {
+    return { rule: null, error: 'INTERVAL must be a whole number between 1 and 365' };
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    const weekday = WEEKDAYS.indexOf(byDay);
+    if (frequency !== 'weekly' || weekday < 0) {
+      return { rule: null, error: 'BYDAY is only supported as a single weekday on WEEKLY rules' };
+    }
+    rule.day_of_week = weekday;
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) {
+    const day = Number(byMonthDay);
+    if (frequency !== 'monthly' && frequency !== 'yearly') {
+      return { rule: null, error: 'BYMONTHDAY is only supported on MONTHLY and YEARLY rules' };
+    }
+    // -1 (last day of the month) becomes 31, which is clamped to each month's last day
+    if (day === -1) {
+      rule.day_of_month = 31;
+    } else if (Number.isInteger(day) && day >= 1 && day <= 31) {
+      rule.day_of_month = day;
+    } else {
+      return { rule: null, error: 'BYMONTHDAY must be a single day between 1 and 31, or -1' };
+    }
+  }
+
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth) {
+    const month = Number(byMonth);
+    if (frequency !== 'yearly' || !Number.isInteger(month) || month < 1 || month > 12) {
+      return { rule: null, error: 'BYMONTH is only supported as a single month on YEARLY rules' };
+    }
+    rule.month_of_year = month;
+  }
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return { rule: null, error: 'UNTIL must be a date like 20251231' };
+    rule.end_date = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  const count = parts.get('COUNT');
+  if (count) {
+    const total = Number(count);
+    if (!Number.isInteger(total) || total < 1) return { rule: null, error: 'COUNT must be a positive whole number' };
+    // Store COUNT as the date of the last occurrence
+    let last = firstOccurrence(rule, startDate);
+    for (let i = 1; i < total; i++) last = nextOccurrence(rule, last);
+    rule.end_date = rule.end_date && rule.end_date < last ? rule.end_date : last;
+  }
+
+  return { rule };
+};
+
+/**
+ * Turn a "Repeat" choice from the entry forms into a rule; null rule means it doesn't repeat
+ */
+export const resolveRecurrence = (preset: RecurrencePreset, customRule: string, startDate: string) => {
+  if (preset === 'none') return { rule: null };
+  if (preset === 'custom') {
+    return customRule.trim() ? parseRRule(customRule, startDate) : { rule: null, error: 'Enter an RRULE, e.g. FREQ=MONTHLY;BYMONTHDAY=5' };
+  }
+  return { rule: buildRecurrenceRule(preset, startDate) };
+};
+
+/**
+ * Human-readable schedule, e.g. "Monthly on the 5th" or "Every 2 weeks on Monday"
+ */
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const every = (unit: string, adverb: string) =>
+    rule.interval_count === 1 ? adverb : `Every ${rule.interval_count} ${unit}s`;
+
+  let text: string;
+  switch (rule.frequency) {
+    case 'daily':
+      text = every('day', 'Daily');
+      break;
+    case 'weekly':
+      text = every('week', 'Weekly') + (rule.day_of_week !== null ? ` on ${WEEKDAY_NAMES[rule.day_of_week]}` : '');
+      break;
+    case 'monthly':
+      text = every('month', 'Monthly') + (rule.day_of_month !== null
+        ? ` on the ${rule.day_of_month === 31 ? 'last day' : ordinal(rule.day_of_month)}`
+        : '');
+      break;
+    case 'yearly':
+      text = every('year', 'Yearly') + (rule.month_of_year !== null && rule.day_of_month !== null
+        ? ` on ${MONTH_NAMES[rule.month_of_year - 1]} ${rule.day_of_month}`
+        : '');
+      break;
+  }
+
+  return rule.end_date ? `${text}, until ${rule.end_date}` : text;
+};
+
+/**
+ * Cost over a year at the rule's frequency
+ */
+export const annualizedAmount = (amount: number, rule: RecurrenceRule) =>
+  (amount * OCCURRENCES_PER_YEAR[rule.frequency]) / rule.interval_count;
+
+class RecurringExpenseService {
+  /**
+   * Create a template whose first expense is generated on the first occurrence on or
+   * after its start date. Pass `startDateRecorded` when the expense for the start date
+   * was already entered, so that occurrence isn't generated a second time.
+   */
+  async createTemplate(
+    input: Omit<RecurringExpenseInput, 'next_due_date' | 'is_active'>,
+    options: { startDateRecorded?: boolean } = {}
+  ) {
+    const first = firstOccurrence(input, input.start_date);
+    const nextDue = options.startDateRecorded && first === input.start_date ? nextOccurrence(input, first) : first;
+    const isActive = !input.end_date || nextDue <= input.end_date;
+
+    const { data, error } = await recurringExpenseRepository.create({
+      ...input,
+      next_due_date: isActive ? nextDue : null,
+      is_active: isActive
+    });
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to save recurring expense');
+    }
+
+    console.log('🔁 Recurring expense created:', describeRecurrence(data));
+    return data;
+  }
+
+  /**
+   * Pause or resume a template. Resuming skips occurrences missed while paused.
+   */
+  async setActive(template: RecurringExpense, isActive: boolean) {
+    const today = formatDate(new Date());
+    const changes: Partial<RecurringExpenseInput> = { is_active: isActive };
+
+    if (isActive) {
+      let nextDue = template.next_due_date ?? firstOccurrence(template, template.start_date);
+      while (nextDue < today) nextDue = nextOccurrence(template, nextDue);
+      if (template.end_date && nextDue > template.end_date) {
+        throw new Error('This schedule has already ended');
+      }
+      changes.next_due_date = nextDue;
+    }
+
+    const { error } = await recurringExpenseRepository.update(template.id, changes);
+    if (error) {
+      throw new Error(error.message || 'Failed to update recurring expense');
+    }
+  }
+
+  /**
+   * Generate any expenses that have fallen due; used when a workspace is opened in case
+   * the daily pg_cron job isn't installed
+   */
+  async generateDue(workspaceId: string) {
+    const { data: created, error } = await recurringExpenseRepository.generateDue(workspaceId);
+    if (error) {
+      console.error('Error generating recurring expenses:', error);
+      return 0;
+    }
+    if (created > 0) {
+      console.log(`🔁 Generated ${created} recurring expense${created !== 1 ? 's' : ''}`);
+    }
+    return created;
+  }
+}
+
+// Export singleton instance
+export const recurringExpenseService = new RecurringExpenseService();
@@ -0,0 +1,343 @@
+// Reimbursement Service
+// Groups reimbursable expenses into reports that move draft -> submitted -> reimbursed, and
+// exports a report as a self-contained HTML document with its receipts embedded, which can
+// be printed or saved as PDF from the browser.
+
+import {
+  reimbursementReportRepository,
+  attachmentRepository,
+  workspaceMemberRepository,
+  Expense,
+  ReimbursementReport,
+  ReimbursementReportInput,
+  ReimbursementReportStatus
+} from './repositories';
+import { receiptStorageService } from './receipt-storage';
+import { expenseExportService } from './expense-export';
+import { formatCurrency } from './currency';
+import { EXPENSE_STATUS_LABELS } from './approvals';
+
+export const REPORT_STATUS_LABELS: Record<ReimbursementReportStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  reimbursed: 'Reimbursed'
+};
+
+export const REPORT_STATUS_COLORS: Record<ReimbursementReportStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-800',
+  reimbursed: 'bg-green-100 text-green-800'
+};
+
+export interface CurrencyTotal {
+  currency: string;
+  total: number;
+  count: number;
+}
+
+// A report with its expenses and what it adds up to in each currency
+export interface ReportWithExpenses extends ReimbursementReport {
+  expenses: Expense[];
+  totals: CurrencyTotal[];
+}
+
+/**
+ * Sum expenses per currency, largest total first
+ */
+export const totalsByCurrency = (expenses: Expense[]): CurrencyTotal[] => {
+  const totals = new Map<string, CurrencyTotal>();
+  expenses.forEach(expense => {
+    const current = totals.get(expense.currency) || { currency: expense.currency, total: 0, count: 0 };
+    totals.set(expense.currency, { ...current, total: current.total + expense.amount, count: current.count + 1 });
+  });
+  return [...totals.values()].sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Human-readable period of a report, e.g. "2025-08-01 – 2025-08-31"
+ */
+export const formatReportPeriod = (report: Pick<ReimbursementReport, 'period_start' | 'period_end'>) => {
+  if (report.period_start && report.period_end) return `${report.period_start} – ${report.period_end}`;
+  if (report.period_start) return `From ${report.period_start}`;
+  if (report.period_end) return `Until ${report.period_end}`;
+  return '';
+};
+
+// Report content is user input
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+interface EmbeddedReceipt {
+  expense: Expense;
+  fileName: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #2C3E50; margin: 40px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; font-weight: 600; }
+  .amount { text-align: right; white-space: nowrap; }
+  .totals td { font-weight: 600; border-bottom: none; }
+  .receipt { page-break-inside: avoid; margin-bottom: 24px; }
+  .receipt img { max-width: 100%; max-height: 900px; border: 1px solid #e5e7eb; }
+  @media print { body { margin: 16px; } .receipt { page-break-before: always; } }
+`;
+
+class ReimbursementService {
+  /**
+   * Load the workspace's reports with their expenses and totals
+   */
+  async loadReports(workspaceId: string): Promise<ReportWithExpenses[]> {
+    const { data: reports, error } = await reimbursementReportRepository.listForWorkspace(workspaceId);
+    if (error) {
+      throw new Error(error.message || 'Failed to load reimbursement reports');
+    }
+
+    const { data: expenses, error: expensesError } = await reimbursementReportRepository.listExpenses(reports.map(r => r.id));
+    if (expensesError) {
+      throw new Error(expensesError.message || 'Failed to load report expenses');
+    }
+
+    return reports.map(report => {
+      const reportExpenses = expenses.filter(expense => expense.reimbursement_report_id === report.id);
+      return { ...report, expenses: reportExpenses, totals: totalsByCurrency(reportExpenses) };
+    });
+  }
+
+  /**
+   * Reimbursable expenses of a claimant that can still be added to a report
+   */
+  async loadUnclaimed(workspaceId: string, userId: string) {
+    const { data, error } = await reimbursementReportRepository.listUnclaimed(workspaceId, userId);
+    if (error) {
+      throw new Error(error.message || 'Failed to load reimbursable expenses');
+    }
+    return data;
+  }
+
+  /**
+   * Create a draft report and add the given expenses to it
+   */
+  async createReport(input: ReimbursementReportInput, expenseIds: string[] = []) {
+    this.validate(input);
+
+    const { data: report, error } = await reimbursementReportRepository.create({
+      ...input,
+      name: input.name.trim(),
+      purpose: input.purpose?.trim() || null
+    });
+    if (error || !report) {
+      throw new Error(error?.message || 'Failed to create report');
+    }
+
+    if (expenseIds.length > 0) {
+      await this.addExpenses(report, expenseIds);
+    }
+
+    console.log('🧾 Reimbursement report created:', report.name, `(${expenseIds.length} expenses)`);
+    return report;
+  }
+
+  /**
+   * Rename a draft report or change its period
+   */
+  async updateReport(report: ReimbursementReport, changes: Pick<ReimbursementReport, 'name' | 'purpose' | 'period_start' | 'period_end'>) {
+    this.validate(changes);
+
+    const { error } = await reimbursementReportRepository.update(report.id, {
+      ...changes,
+      name: changes.name.trim(),
+      purpose: changes.purpose?.trim() || null
+    });
+    if (error) {
+      throw new Error(error.message || 'Failed to update report');
+    }
+  }
+
+  /**
+   * Delete a report, releasing its expenses so they can be claimed again
+   */
+  async deleteReport(report: ReimbursementReport) {
+    const { error } = await reimbursementReportRepository.delete(report.id);
+    if (error) {
+      throw new Error(error.message || 'Failed to delete report');
+    }
+  }
+
+  /**
+   * Add expenses to a draft report
+   */
+  async addExpenses(report: ReimbursementReport, expenseIds: string[]) {
+    const { error } = await reimbursementReportRepository.setExpenses(report.id, expenseIds, true);
+    if (error) {
+      throw new Error(error.message || 'Failed to add expenses to report');
+    }
+  }
+
+  /**
+   * Take expenses off a draft report
+   */
+  async removeExpenses(report: ReimbursementReport, expenseIds: string[]) {
+    const { error } = await reimbursementReportRepository.setExpenses(report.id, expenseIds, false);
+    if (error) {
+      throw new Error(error.message || 'Failed to remove expenses from report');
+    }
+  }
+
+  /**
+   * Submit, reimburse or reopen a report
+   */
+  async transition(report: ReimbursementReport, action: 'submit' | 'reimburse' | 'reopen') {
+    const { data, error } = await reimbursementReportRepository.transition(report.id, action);
+    if (error) {
+      throw new Error(error.message || 'Failed to update report');
+    }
+
+    console.log(`🧾 Report ${report.name} is now ${data}`);
+    return data;
+  }
+
+  /**
+   * Build the printable document for a report, with its receipts embedded as data URLs
+   */
+  async buildDocument(report: ReportWithExpenses, workspaceName: string, options: { autoPrint?: boolean } = {}) {
+    const [{ data: members }, receipts] = await Promise.all([
+      workspaceMemberRepository.listForWorkspace(report.workspace_id),
+      this.loadReceipts(report.expenses)
+    ]);
+
+    const claimant = members.find(member => member.user_id === report.created_by);
+    const period = formatReportPeriod(report);
+    const details = [
+      claimant && `Claimant: ${claimant.full_name || claimant.email}`,
+      period && `Period: ${period}`,
+      `Status: ${REPORT_STATUS_LABELS[report.status]}`,
+      report.submitted_at && `Submitted ${new Date(report.submitted_at).toLocaleDateString()}`,
+      report.reimbursed_at && `Reimbursed ${new Date(report.reimbursed_at).toLocaleDateString()}`
+    ].filter((detail): detail is string => !!detail);
+
+    const rows = report.expenses.map(expense => `
+      <tr>
+        <td>${escapeHtml(expense.txn_date)}</td>
+        <td>${escapeHtml(expense.merchant)}${expense.description ? `<div class="muted">${escapeHtml(expense.description)}</div>` : ''}</td>
+        <td>${escapeHtml(expense.category_name)}</td>
+        <td>${escapeHtml(EXPENSE_STATUS_LABELS[expense.status])}</td>
+        <td class="amount">${escapeHtml(formatCurrency(expense.amount, expense.currency))}</td>
+      </tr>`).join('');
+
+    const totals = report.totals.map(total => `
+      <tr class="totals">
+        <td colspan="4">Total ${escapeHtml(total.currency)} (${total.count} expense${total.count !== 1 ? 's' : ''})</td>
+        <td class="amount">${escapeHtml(formatCurrency(total.total, total.currency))}</td>
+      </tr>`).join('');
+
+    const receiptSections = receipts.map(receipt => `
+      <div class="receipt">
+        <p><strong>${escapeHtml(receipt.expense.merchant)}</strong> · ${escapeHtml(receipt.expense.txn_date)} · ${escapeHtml(formatCurrency(receipt.expense.amount, receipt.expense.currency))}</p>
+        ${receipt.mimeType.startsWith('image/')
+          ? `<img src="${receipt.dataUrl}" alt="${escapeHtml(receipt.fileName)}">`
+          : `<p><a href="${receipt.dataUrl}" download="${escapeHtml(receipt.fileName)}">${escapeHtml(receipt.fileName)}</a> <span class="muted">(open the file to view it)</span></p>`}
+      </div>`).join('');
+
+    const missingReceipts = report.expenses.filter(expense => !receipts.some(receipt => receipt.expense.id === expense.id));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.name)} – ${escapeHtml(workspaceName)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.name)}</h1>
+  <p class="muted">${escapeHtml(workspaceName)}${report.purpose ? ` · ${escapeHtml(report.purpose)}` : ''}</p>
+  <p class="muted">${details.map(escapeHtml).join(' · ')}</p>
+
+  <h2>Expenses</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Merchant</th><th>Category</th><th>Status</th><th class="amount">Amount</th></tr></thead>
+    <tbody>${rows}${totals}</tbody>
+  </table>
+
+  <h2>Receipts</h2>
+  ${receiptSections || '<p class="muted">No receipts attached.</p>'}
+  ${missingReceipts.length > 0 && receipts.length > 0
+    ? `<p class="muted">No receipt for: ${missingReceipts.map(expense => escapeHtml(`${expense.merchant} (${expense.txn_date})`)).join(', ')}</p>`
+    : ''}
+  ${options.autoPrint ? '<script>window.addEventListener("load", () => window.print());</script>' : ''}
+</body>
+</html>`;
+  }
+
+  /**
+   * Download a report as an HTML file
+   */
+  async downloadDocument(report: ReportWithExpenses, workspaceName: string) {
+    const html = await this.buildDocument(report, workspaceName);
+    const slug = report.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+    expenseExportService.download(new Blob([html], { type: 'text/html;charset=utf-8' }), `reimbursement-${slug}.html`);
+  }
+
+  private validate(input: Pick<ReimbursementReport, 'name' | 'period_start' | 'period_end'>) {
+    if (!input.name.trim()) {
+      throw new Error('Give the report a name');
+    }
+    if (input.period_start && input.period_end && input.period_end < input.period_start) {
+      throw new Error('The period ends before it starts');
+    }
+  }
+
+  /**
+   * Download every receipt of the expenses; missing files are skipped
+   */
+  private async loadReceipts(expenses: Expense[]): Promise<EmbeddedReceipt[]> {
+    const { data: attachments, error } = await attachmentRepository.listForExpenses(expenses.map(e => e.id));
+    if (error) {
+      console.error('Error loading report attachments:', error);
+    }
+
+    // Expenses from before attachments only have receipt_url
+    const files = expenses.flatMap(expense => {
+      const own = attachments.filter(attachment => attachment.expense_id === expense.id);
+      if (own.length > 0) {
+        return own.map(attachment => ({ expense, path: attachment.storage_path, fileName: attachment.file_name, mimeType: attachment.mime_type }));
+      }
+      return expense.receipt_url
+        ? [{ expense, path: expense.receipt_url, fileName: `${expense.merchant || 'receipt'}-${expense.txn_date}`, mimeType: null }]
+        : [];
+    });
+
+    const receipts = await Promise.all(files.map(async file => {
+      const { data: blob, error: downloadError } = await receiptStorageService.download(file.path);
+      if (downloadError || !blob) {
+        console.error('Error downloading receipt for report:', file.path, downloadError);
+        return null;
+      }
+      return {
+        expense: file.expense,
+        fileName: file.fileName,
+        mimeType: file.mimeType || blob.type || 'application/octet-stream',
+        dataUrl: await blobToDataUrl(blob)
+      };
+    }));
+
+    return receipts.filter((receipt): receipt is EmbeddedReceipt => receipt !== null);
+  }
+}
+
+// Export singleton instance
+export const reimbursementService = new ReimbursementService();
@@ -0,0 +1,2156 @@
+// Typed data-access layer for workspace data
+// Components go through these repositories instead of calling supabase.from() directly,
+// so column names (e.g. expenses.global_category_id) live in exactly one place.
+
+import { supabase } from './supabase';
+
+export type ExpenseSource = 'upload' | 'camera' | 'voice' | 'manual' | 'import' | 'recurring';
+// unreviewed -> submitted -> approved -> paid, or rejected back to the submitter
+export type ExpenseStatus = 'unreviewed' | 'flagged' | 'submitted' | 'approved' | 'rejected' | 'paid';
+
+// Indian GST details of an expense. CGST + SGST apply to intra-state purchases, IGST to
+// inter-state ones; tax_inclusive says whether the expense amount includes them.
+export interface GstDetails {
+  vendor_gstin: string | null;
+  hsn_sac_code: string | null;
+  gst_rate: number | null;
+  cgst_amount: number | null;
+  sgst_amount: number | null;
+  igst_amount: number | null;
+  tax_inclusive: boolean;
+  // Whether input tax credit can be claimed
+  itc_eligible: boolean;
+}
+
+// Canonical expense shape used across the app, with category and payment method names resolved
+export interface Expense extends GstDetails {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  merchant: string;
+  // Directory entry the merchant name was linked to
+  merchant_id: string | null;
+  amount: number;
+  currency: string;
+  // Amount converted to the workspace base currency; null until a rate is available
+  base_amount: number | null;
+  base_currency: string | null;
+  fx_rate: number | null;
+  txn_date: string;
+  description?: string;
+  category_id: string | null;
+  category_name: string;
+  category_confidence: number;
+  category_source?: string;
+  payment_method_id: string | null;
+  payment_method_name: string;
+  payment_method_source?: string;
+  source: ExpenseSource;
+  status: ExpenseStatus;
+  notes?: string;
+  is_reimbursable: boolean;
+  receipt_url?: string | null;
+  extracted_text?: string | null;
+  // Extraction confidence (0-1) for expenses created from receipts
+  ocr_confidence?: number | null;
+  // Template this expense was generated from, if any
+  recurring_expense_id?: string | null;
+  // Why it was last rejected; cleared on resubmission
+  rejection_reason?: string | null;
+  // Approvals collected since it was last submitted
+  approval_count: number;
+  // Reimbursement report claiming this expense, if any
+  reimbursement_report_id?: string | null;
+  // Set while the expense is in the trash
+  deleted_at?: string | null;
+  // Whether the amount is split into expense_splits
+  is_split: boolean;
+  // Receipt totals read from the receipt, when it had them
+  subtotal_amount: number | null;
+  tax_amount: number | null;
+  tip_amount: number | null;
+  discount_amount: number | null;
+  created_at: string;
+}
+
+// Fields accepted when creating an expense
+export interface ExpenseInput extends Partial<GstDetails> {
+  workspace_id: string;
+  user_id: string;
+  merchant: string;
+  // Linked by name on save when not given
+  merchant_id?: string | null;
+  amount: number;
+  currency?: string;
+  txn_date: string;
+  description?: string | null;
+  category_id: string | null;
+  category_confidence?: number | null;
+  category_source?: 'ai' | 'rule' | 'manual';
+  payment_method_id?: string | null;
+  payment_method_confidence?: number | null;
+  payment_method_source?: 'ai' | 'rule' | 'manual';
+  source: ExpenseSource;
+  status?: ExpenseStatus;
+  notes?: string | null;
+  is_reimbursable?: boolean;
+  receipt_url?: string | null;
+  extracted_text?: string | null;
+  ocr_confidence?: number | null;
+  recurring_expense_id?: string | null;
+  subtotal_amount?: number | null;
+  tax_amount?: number | null;
+  tip_amount?: number | null;
+  discount_amount?: number | null;
+}
+
+// Fields that can be changed on an existing expense
+export type ExpenseUpdate = Partial<Pick<ExpenseInput,
+  'merchant' | 'merchant_id' | 'amount' | 'currency' | 'txn_date' | 'description' | 'category_id' |
+  'payment_method_id' | 'notes' | 'is_reimbursable' | 'status' | 'receipt_url' | 'workspace_id' |
+  'category_confidence' | 'category_source' | 'payment_method_source' |
+  'subtotal_amount' | 'tax_amount' | 'tip_amount' | 'discount_amount' | keyof GstDetails
+>>;
+
+export type ExpenseSortField = 'txn_date' | 'amount' | 'merchant' | 'created_at';
+
+// Server-side filters for the Expenses view; unset fields are not applied
+export interface ExpenseFilters {
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  categoryId?: string;
+  paymentMethodId?: string;
+  status?: ExpenseStatus;
+  source?: ExpenseSource;
+  isReimbursable?: boolean;
+}
+
+export interface ExpenseSort {
+  field: ExpenseSortField;
+  ascending: boolean;
+}
+
+export interface ExpensePage {
+  expenses: Expense[];
+  // Opaque cursor for the next page, null when there are no more rows
+  nextCursor: string | null;
+}
+
+// Aggregated totals for a period, computed by the get_expense_summary RPC
+export interface ExpenseSummary {
+  // Base currency the totals are expressed in
+  currency: string;
+  total: number;
+  count: number;
+  // Expenses in the period left out of the totals because no exchange rate was found
+  unconverted_count: number;
+  previous_total: number;
+  previous_count: number;
+  top_categories: { category_id: string | null; name: string; total: number }[];
+}
+
+// A file (usually a receipt) linked to an expense, stored in the private receipts bucket
+export interface ExpenseAttachment {
+  id: string;
+  expense_id: string;
+  workspace_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  description: string;
+  color: string;
+  icon: string;
+}
+
+export interface PaymentMethod {
+  id: string;
+  name: string;
+  description: string;
+  type: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  type: string;
+  description?: string;
+  base_currency: string;
+  created_at?: string;
+}
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member';
+
+// A workspace member with the email and name from their account
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  joined_at: string;
+  email: string;
+  full_name: string | null;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  status: InvitationStatus;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+// A pending invitation addressed to the signed-in user (from list_my_invitations)
+export interface ReceivedInvitation {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  invited_by_email: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export type ApprovalAction = 'submit' | 'approve' | 'reject' | 'pay';
+
+// An expense's status after an approval action
+export interface ApprovalTransitionResult {
+  expense_id: string;
+  status: ExpenseStatus;
+  approval_count: number;
+}
+
+// Who approves a workspace's expenses and when a second approval is needed
+export interface ApprovalPolicy {
+  // Base-currency amount from which two approvers are needed; null when one is enough
+  second_approval_threshold: number | null;
+  // Designated approvers; when empty, admins and owners approve
+  approver_ids: string[];
+}
+
+// One step in an expense's approval history (from get_expense_status_history)
+export interface ExpenseStatusChange {
+  id: string;
+  action: ApprovalAction;
+  from_status: ExpenseStatus;
+  to_status: ExpenseStatus;
+  reason: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+export type ReimbursementReportStatus = 'draft' | 'submitted' | 'reimbursed';
+
+// A named group of reimbursable expenses claimed by one person
+export interface ReimbursementReport {
+  id: string;
+  workspace_id: string;
+  name: string;
+  purpose: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  status: ReimbursementReportStatus;
+  created_by: string;
+  submitted_at: string | null;
+  reimbursed_at: string | null;
+  reimbursed_by: string | null;
+  created_at: string;
+}
+
+export type ReimbursementReportInput = Pick<ReimbursementReport, 'workspace_id' | 'name' | 'purpose' | 'period_start' | 'period_end' | 'created_by'>;
+
+export type AuditedTable = 'expenses' | 'categories' | 'payment_methods' | 'workspace_members';
+// Where a change came from; worked out by the audit trigger from the row itself
+export type AuditSource = 'manual' | 'ai' | 'import' | 'voice' | 'system';
+
+// One recorded change to a row (from get_audit_log). Values are keyed by database column:
+// whole rows for inserts and deletes, only the changed columns for updates.
+export interface AuditEntry {
+  id: string;
+  action: 'insert' | 'update' | 'delete';
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  changed_fields: string[] | null;
+  source: AuditSource;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+// One part of a split expense, in the expense's currency. Splits can be booked to
+// another workspace and are converted to that workspace's base currency.
+export interface ExpenseSplit {
+  id: string;
+  expense_id: string;
+  workspace_id: string;
+  amount: number;
+  category_id: string | null;
+  is_reimbursable: boolean;
+  description: string | null;
+  position: number;
+  base_amount: number | null;
+  base_currency: string | null;
+}
+
+export type ExpenseSplitInput = Pick<ExpenseSplit, 'workspace_id' | 'amount' | 'category_id' | 'is_reimbursable' | 'description'>;
+
+// One item read from a receipt, in the expense's currency
+export interface ExpenseLineItem {
+  id: string;
+  expense_id: string;
+  position: number;
+  name: string;
+  quantity: number | null;
+  unit_price: number | null;
+  total: number;
+}
+
+export type ExpenseLineItemInput = Pick<ExpenseLineItem, 'name' | 'quantity' | 'unit_price' | 'total'>;
+
+// One GST invoice of a period (from get_gst_report), in INR
+export interface GstInvoice {
+  expense_id: string;
+  txn_date: string;
+  merchant: string;
+  vendor_gstin: string | null;
+  hsn_sac_code: string | null;
+  gst_rate: number | null;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  invoice_value: number;
+  itc_eligible: boolean;
+}
+
+// Canonical merchant of a workspace; expenses are linked to it by name or alias
+export interface Merchant {
+  id: string;
+  workspace_id: string;
+  name: string;
+  normalized_name: string;
+  aliases: string[];
+  alias_keys: string[];
+  default_category_id: string | null;
+  default_payment_method_id: string | null;
+  logo_url: string | null;
+  color: string | null;
+  // Expenses linked to it that the caller can see
+  expense_count: number;
+  created_at: string;
+}
+
+export type MerchantInput = Pick<Merchant,
+  'workspace_id' | 'name' | 'aliases' | 'default_category_id' | 'default_payment_method_id' | 'logo_url' | 'color'
+>;
+
+export type CategorizationRuleField = 'merchant' | 'description';
+
+export type CategorizationRuleMatchType = 'contains' | 'equals' | 'starts_with';
+
+// Written by an admin, or learned from repeated corrections of the same merchant
+export type CategorizationRuleSource = 'user' | 'learned';
+
+// Picks the category and/or payment method of matching expenses before AI categorization
+export interface CategorizationRule {
+  id: string;
+  workspace_id: string;
+  field: CategorizationRuleField;
+  match_type: CategorizationRuleMatchType;
+  pattern: string;
+  category_id: string | null;
+  payment_method_id: string | null;
+  source: CategorizationRuleSource;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type CategorizationRuleInput = Pick<CategorizationRule,
+  'workspace_id' | 'field' | 'match_type' | 'pattern' | 'category_id' | 'payment_method_id' | 'is_active'
+>;
+
+// A month of the current user's calls to the AI edge functions
+export interface AIUsageMonth {
+  // First day of the month, YYYY-MM-DD
+  month: string;
+  // Calls that were let through, including failed ones
+  calls: number;
+  failed_calls: number;
+  rate_limited_calls: number;
+  // Answers served from and missing from the AI result cache
+  cache_hits: number;
+  cache_misses: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  avg_latency_ms: number;
+}
+
+// Number of base-currency units for one unit of `currency` on `rate_date`
+export interface ExchangeRate {
+  id: string;
+  workspace_id: string;
+  currency: string;
+  rate_date: string;
+  rate: number;
+  source: 'manual' | 'file';
+  created_at: string;
+}
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'workspace_id' | 'currency' | 'rate_date' | 'rate' | 'source'> & {
+  created_by?: string | null;
+};
+
+export const DEFAULT_BASE_CURRENCY = 'INR';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Schedule fields shared by recurring expense templates and src/lib/recurrence.ts
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  // 0 = Sunday; weekly rules only
+  day_of_week: number | null;
+  // 1-31, clamped to the month's last day; monthly and yearly rules
+  day_of_month: number | null;
+  // 1-12; yearly rules only
+  month_of_year: number | null;
+  end_date: string | null;
+}
+
+// A template the scheduler turns into unreviewed expenses when it falls due
+export interface RecurringExpense extends RecurrenceRule {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  merchant: string;
+  amount: number;
+  currency: string | null;
+  description: string | null;
+  category_id: string | null;
+  payment_method_id: string | null;
+  notes: string | null;
+  is_reimbursable: boolean;
+  // Original text for rules entered as an RRULE
+  rrule: string | null;
+  start_date: string;
+  next_due_date: string | null;
+  last_generated_date: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type RecurringExpenseInput = Omit<RecurringExpense, 'id' | 'last_generated_date' | 'created_at'>;
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly';
+
+// Spending limit in the workspace base currency; a null category covers all spending
+export interface Budget {
+  id: string;
+  workspace_id: string;
+  category_id: string | null;
+  period: BudgetPeriod;
+  amount: number;
+  created_at: string;
+}
+
+export type BudgetInput = Pick<Budget, 'workspace_id' | 'category_id' | 'period' | 'amount'> & {
+  created_by?: string | null;
+};
+
+// One row of the get_budget_report RPC
+export interface BudgetPeriodActual {
+  budget_id: string;
+  period_start: string;
+  period_end: string;
+  budget_amount: number;
+  spent: number;
+}
+
+// Recorded once per budget period when spending crosses 50, 80 or 100%
+export interface BudgetAlert {
+  id: string;
+  workspace_id: string;
+  budget_id: string;
+  period_start: string;
+  threshold: number;
+  spent: number;
+  created_at: string;
+  dismissed_at: string | null;
+}
+
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+export const NO_PAYMENT_METHOD_LABEL = 'Not specified';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Maps an expense (or recurring template) input to the actual database column names
+const toExpenseRow = <T extends { category_id?: string | null }>(input: T) => {
+  const { category_id, ...rest } = input;
+  return category_id === undefined
+    ? rest
+    : { ...rest, global_category_id: category_id };
+};
+
+const toNullableNumber = (value: unknown) =>
+  value === null || value === undefined ? null : Number(value);
+
+// numeric columns arrive as JSON numbers or strings depending on precision
+type NumericColumn = number | string | null;
+
+// A row as the database returns it: the given columns are numeric
+type DbRow<T, NumericKeys extends keyof T> = Omit<T, NumericKeys> & { [K in NumericKeys]: NumericColumn };
+
+// Category columns are named global_category_id in the database
+type CategorizedRow<T extends { category_id: string | null }> = Omit<T, 'category_id'> & { global_category_id: string | null };
+
+// An expenses row, or an RPC row with the same columns
+interface ExpenseRow extends Partial<DbRow<GstDetails, 'gst_rate' | 'cgst_amount' | 'sgst_amount' | 'igst_amount'>> {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  merchant: string | null;
+  merchant_id?: string | null;
+  amount: NumericColumn;
+  currency: string | null;
+  base_amount?: NumericColumn;
+  base_currency?: string | null;
+  fx_rate?: NumericColumn;
+  txn_date: string;
+  description: string | null;
+  global_category_id?: string | null;
+  category_id?: string | null;
+  category_confidence?: NumericColumn;
+  category_source?: string | null;
+  payment_method_id?: string | null;
+  payment_method_source?: string | null;
+  source: ExpenseSource;
+  status: ExpenseStatus;
+  notes: string | null;
+  is_reimbursable: boolean | null;
+  receipt_url?: string | null;
+  extracted_text?: string | null;
+  ocr_confidence?: NumericColumn;
+  recurring_expense_id?: string | null;
+  rejection_reason?: string | null;
+  approval_count?: NumericColumn;
+  reimbursement_report_id?: string | null;
+  deleted_at?: string | null;
+  is_split?: boolean | null;
+  subtotal_amount?: NumericColumn;
+  tax_amount?: NumericColumn;
+  tip_amount?: NumericColumn;
+  discount_amount?: NumericColumn;
+  created_at: string;
+}
+
+// Maps a raw database row to the canonical Expense shape (names are filled in later)
+const toExpense = (row: ExpenseRow): Expense => ({
+  id: row.id,
+  workspace_id: row.workspace_id,
+  user_id: row.user_id,
+  merchant: row.merchant || '',
+  merchant_id: row.merchant_id ?? null,
+  amount: Number(row.amount) || 0,
+  currency: row.currency || DEFAULT_BASE_CURRENCY,
+  base_amount: row.base_amount === null || row.base_amount === undefined ? null : Number(row.base_amount),
+  base_currency: row.base_currency ?? null,
+  fx_rate: row.fx_rate === null || row.fx_rate === undefined ? null : Number(row.fx_rate),
+  txn_date: row.txn_date,
+  description: row.description || undefined,
+  category_id: row.global_category_id ?? row.category_id ?? null,
+  category_name: UNCATEGORIZED_LABEL,
+  category_confidence: Number(row.category_confidence) || 0,
+  category_source: row.category_source || undefined,
+  payment_method_id: row.payment_method_id ?? null,
+  payment_method_name: NO_PAYMENT_METHOD_LABEL,
+  payment_method_source: row.payment_method_source || undefined,
+  source: row.source,
+  status: row.status,
+  notes: row.notes || undefined,
+  is_reimbursable: !!row.is_reimbursable,
+  receipt_url: row.receipt_url ?? null,
+  extracted_text: row.extracted_text ?? null,
+  ocr_confidence: row.ocr_confidence === null || row.ocr_confidence === undefined ? null : Number(row.ocr_confidence),
+  recurring_expense_id: row.recurring_expense_id ?? null,
+  rejection_reason: row.rejection_reason ?? null,
+  approval_count: Number(row.approval_count) || 0,
+  reimbursement_report_id: row.reimbursement_report_id ?? null,
+  deleted_at: row.deleted_at ?? null,
+  is_split: !!row.is_split,
+  subtotal_amount: toNullableNumber(row.subtotal_amount),
+  tax_amount: toNullableNumber(row.tax_amount),
+  tip_amount: toNullableNumber(row.tip_amount),
+  discount_amount: toNullableNumber(row.discount_amount),
+  vendor_gstin: row.vendor_gstin ?? null,
+  hsn_sac_code: row.hsn_sac_code ?? null,
+  gst_rate: toNullableNumber(row.gst_rate),
+  cgst_amount: toNullableNumber(row.cgst_amount),
+  sgst_amount: toNullableNumber(row.sgst_amount),
+  igst_amount: toNullableNumber(row.igst_amount),
+  tax_inclusive: row.tax_inclusive ?? true,
+  itc_eligible: row.itc_eligible ?? true,
+  created_at: row.created_at
+});
+
+const toExpenseLineItem = (row: DbRow<ExpenseLineItem, 'position' | 'quantity' | 'unit_price' | 'total'>): ExpenseLineItem => ({
+  id: row.id,
+  expense_id: row.expense_id,
+  position: Number(row.position) || 0,
+  name: row.name,
+  quantity: toNullableNumber(row.quantity),
+  unit_price: toNullableNumber(row.unit_price),
+  total: Number(row.total) || 0
+});
+
+const toExpenseSplit = (row: CategorizedRow<DbRow<ExpenseSplit, 'amount' | 'position' | 'base_amount'>>): ExpenseSplit => ({
+  id: row.id,
+  expense_id: row.expense_id,
+  workspace_id: row.workspace_id,
+  amount: Number(row.amount) || 0,
+  category_id: row.global_category_id ?? null,
+  is_reimbursable: !!row.is_reimbursable,
+  description: row.description ?? null,
+  position: Number(row.position) || 0,
+  base_amount: row.base_amount === null || row.base_amount === undefined ? null : Number(row.base_amount),
+  base_currency: row.base_currency ?? null
+});
+
+// The workspace type is stored as business_type
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  business_type: string | null;
+  description?: string;
+  base_currency: string | null;
+  created_at: string;
+}
+
+// Selected with the count of its expenses: expenses(count)
+type MerchantRow = Omit<Merchant, 'expense_count'> & { expenses?: { count: NumericColumn }[] };
+
+const toMerchant = (row: MerchantRow): Merchant => ({
+  id: row.id,
+  workspace_id: row.workspace_id,
+  name: row.name,
+  normalized_name: row.normalized_name,
+  aliases: row.aliases || [],
+  alias_keys: row.alias_keys || [],
+  default_category_id: row.default_category_id ?? null,
+  default_payment_method_id: row.default_payment_method_id ?? null,
+  logo_url: row.logo_url ?? null,
+  color: row.color ?? null,
+  expense_count: Number(row.expenses?.[0]?.count) || 0,
+  created_at: row.created_at
+});
+
+const toCategorizationRule = (row: CategorizedRow<CategorizationRule>): CategorizationRule => ({
+  id: row.id,
+  workspace_id: row.workspace_id,
+  field: row.field,
+  match_type: row.match_type,
+  pattern: row.pattern,
+  category_id: row.global_category_id ?? null,
+  payment_method_id: row.payment_method_id ?? null,
+  source: row.source,
+  is_active: !!row.is_active,
+  created_at: row.created_at
+});
+
+const toRecurringExpense = ({ global_category_id, ...row }: CategorizedRow<DbRow<RecurringExpense, 'amount'>>): RecurringExpense => ({
+  ...row,
+  amount: Number(row.amount) || 0,
+  category_id: global_category_id ?? null
+});
+
+const toBudget = (row: CategorizedRow<DbRow<Budget, 'amount'>>): Budget => ({
+  id: row.id,
+  workspace_id: row.workspace_id,
+  category_id: row.global_category_id ?? null,
+  period: row.period,
+  amount: Number(row.amount) || 0,
+  created_at: row.created_at
+});
+
+// Quotes a value for use inside a PostgREST or() filter, where , . : ( ) are reserved
+const quoteFilterValue = (value: string | number) =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Keyset cursor: the sort value and id of the last row on the previous page
+interface ExpenseCursor {
+  value: string | number | null;
+  id: string;
+}
+
+/**
+ * PostgREST condition for the rows after a cursor. The sort column can be NULL (merchant),
+ * and NULLs sort last ascending and first descending, so they get their own branches.
+ */
+const keysetCondition = (column: string, cursor: ExpenseCursor, ascending: boolean) => {
+  const op = ascending ? 'gt' : 'lt';
+  const afterId = `id.${op}.${cursor.id}`;
+
+  if (cursor.value === null) {
+    // Within the NULLs; descending, every non-NULL row still follows
+    return ascending
+      ? `and(${column}.is.null,${afterId})`
+      : `or(and(${column}.is.null,${afterId}),${column}.not.is.null)`;
+  }
+
+  const value = quoteFilterValue(cursor.value);
+  const nullsAfter = ascending ? `,${column}.is.null` : '';
+  return `or(${column}.${op}.${value},and(${column}.eq.${value},${afterId})${nullsAfter})`;
+};
+
+// btoa/atob only handle Latin-1, and sort values (e.g. merchant names) can be any text,
+// so cursors are UTF-8 encoded base64url
+const encodeCursor = (cursor: ExpenseCursor) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+const decodeCursor = (cursor: string): ExpenseCursor | null => {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const parsed = JSON.parse(new TextDecoder().decode(bytes));
+    return parsed && typeof parsed.id === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+class CategoryRepository {
+  /**
+   * List the categories enabled for a workspace, falling back to all global categories
+   * when the workspace has no mappings yet
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data: mappingData, error: mappingError } = await supabase
+      .from('workspace_category_mappings')
+      .select(`
+        id,
+        global_categories!inner(
+          id,
+          name,
+          description,
+          color,
+          icon
+        )
+      `)
+      .eq('workspace_id', workspaceId)
+      .eq('is_active', true)
+      .order('name', { foreignTable: 'global_categories' });
+
+    if (!mappingError && mappingData && mappingData.length > 0) {
+      // Use the global_categories.id, not the mapping id. The client types embedded rows as
+      // arrays, but a mapping has exactly one category.
+      const rows = mappingData as unknown as { global_categories: Category }[];
+      const categories: Category[] = rows.map(item => ({
+        id: item.global_categories.id,
+        name: item.global_categories.name,
+        description: item.global_categories.description || '',
+        color: item.global_categories.color,
+        icon: item.global_categories.icon
+      }));
+      return { data: categories, error: null };
+    }
+
+    if (mappingError) {
+      console.warn('Workspace category mappings unavailable, falling back to global categories:', mappingError);
+    }
+
+    const { data, error } = await supabase
+      .from('global_categories')
+      .select('id, name, description, color, icon')
+      .order('name');
+
+    return { data: (data || []) as Category[], error };
+  }
+
+  /**
+   * Resolve category names for a set of category IDs
+   */
+  async getNames(ids: string[]) {
+    if (ids.length === 0) return { data: new Map<string, string>(), error: null };
+
+    const { data, error } = await supabase
+      .from('global_categories')
+      .select('id, name')
+      .in('id', ids);
+
+    return {
+      data: new Map<string, string>((data || []).map(c => [c.id, c.name])),
+      error
+    };
+  }
+}
+
+class PaymentMethodRepository {
+  /**
+   * List the payment methods configured for a workspace
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .select('id, name, description, type')
+      .eq('workspace_id', workspaceId)
+      .order('name');
+
+    return { data: (data || []) as PaymentMethod[], error };
+  }
+
+  /**
+   * Resolve payment method names for a set of payment method IDs
+   */
+  async getNames(ids: string[]) {
+    if (ids.length === 0) return { data: new Map<string, string>(), error: null };
+
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .select('id, name')
+      .in('id', ids);
+
+    return {
+      data: new Map<string, string>((data || []).map(pm => [pm.id, pm.name])),
+      error
+    };
+  }
+}
+
+class WorkspaceRepository {
+  /**
+   * List the workspaces visible to the current user, newest first
+   */
+  async list() {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    const workspaces: Workspace[] = (data || []).map((ws: WorkspaceRow) => ({
+      id: ws.id,
+      name: ws.name,
+      type: ws.business_type || 'Business',
+      description: ws.description,
+      base_currency: ws.base_currency || DEFAULT_BASE_CURRENCY,
+      created_at: ws.created_at
+    }));
+
+    return { data: workspaces, error };
+  }
+
+  /**
+   * Get the base currency a workspace reports in
+   */
+  async getBaseCurrency(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('base_currency')
+      .eq('id', workspaceId)
+      .single();
+
+    return { data: (data?.base_currency as string | undefined) || DEFAULT_BASE_CURRENCY, error };
+  }
+
+  /**
+   * Change a workspace's base currency and reconvert its expenses
+   */
+  async updateBaseCurrency(workspaceId: string, currency: string) {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ base_currency: currency })
+      .eq('id', workspaceId);
+
+    if (error) {
+      return { error };
+    }
+
+    return expenseRepository.refreshBaseAmounts(workspaceId);
+  }
+
+  /**
+   * Get how many days deleted expenses stay in a workspace's trash
+   */
+  async getTrashRetention(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('trash_retention_days')
+      .eq('id', workspaceId)
+      .single();
+
+    return { data: (data?.trash_retention_days as number | undefined) ?? DEFAULT_TRASH_RETENTION_DAYS, error };
+  }
+
+  /**
+   * Change how many days deleted expenses stay in a workspace's trash
+   */
+  async updateTrashRetention(workspaceId: string, days: number) {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ trash_retention_days: days })
+      .eq('id', workspaceId);
+
+    return { error };
+  }
+
+  /**
+   * Delete a workspace and everything in it; only owners are allowed to
+   */
+  async delete(workspaceId: string) {
+    // RLS hides the row from non-owners instead of failing, so report whether it went
+    const { data, error } = await supabase
+      .from('workspaces')
+      .delete()
+      .eq('id', workspaceId)
+      .select('id');
+
+    return { data: (data || []).length > 0, error };
+  }
+
+  /**
+   * Create a workspace and register the creator as its owner
+   */
+  async create(name: string, userId: string) {
+    const { data: workspace, error: workspaceError } = await supabase
+      .from('workspaces')
+      .insert([{ name, created_by: userId }])
+      .select('*')
+      .single();
+
+    if (workspaceError) {
+      return { data: null, error: workspaceError };
+    }
+
+    const { error: membershipError } = await supabase
+      .from('workspace_members')
+      .insert([{ workspace_id: workspace.id, user_id: userId, role: 'owner' }]);
+
+    return { data: membershipError ? null : workspace, error: membershipError };
+  }
+}
+
+class ExpenseRepository {
+  /**
+   * List expenses for a workspace, newest first, with category and payment method names resolved
+   */
+  async listForWorkspace(workspaceId: string, options: { limit?: number } = {}) {
+    const { data, error } = await supabase
+      .from('expenses')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 100);
+
+    if (error) {
+      return { data: [] as Expense[], error };
+    }
+
+    return { data: await this.withNames((data || []).map(toExpense)), error: null };
+  }
+
+  /**
+   * Fetch one page of expenses matching the given filters, using keyset pagination
+   * on the sort field with id as a tie-breaker so pages stay stable as rows are added
+   */
+  async listPage(
+    workspaceId: string,
+    filters: ExpenseFilters,
+    options: { sort?: ExpenseSort; cursor?: string | null; pageSize?: number } = {}
+  ) {
+    const sort = options.sort ?? { field: 'txn_date', ascending: false };
+    const pageSize = options.pageSize ?? 50;
+    const column = sort.field;
+
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+    const conditions = cursor ? [keysetCondition(column, cursor, sort.ascending)] : [];
+
+    const { data, error } = await this.filteredQuery(workspaceId, filters, conditions)
+      .order(column, { ascending: sort.ascending, nullsFirst: !sort.ascending })
+      .order('id', { ascending: sort.ascending })
+      .limit(pageSize + 1);
+
+    if (error) {
+      return { data: { expenses: [], nextCursor: null } as ExpensePage, error };
+    }
+
+    const rows = data || [];
+    const hasMore = rows.length > pageSize;
+    const pageRows = hasMore ? rows.slice(0, pageSize) : rows;
+    const last = pageRows[pageRows.length - 1];
+
+    const page: ExpensePage = {
+      expenses: await this.withNames(pageRows.map(toExpense)),
+      nextCursor: hasMore && last ? encodeCursor({ value: last[column] ?? null, id: last.id }) : null
+    };
+
+    return { data: page, error: null };
+  }
+
+  /**
+   * Fetch every expense matching the given filters by walking the pages, e.g. for exports
+   */
+  async listAll(workspaceId: string, filters: ExpenseFilters, sort?: ExpenseSort) {
+    const expenses: Expense[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const { data: page, error } = await this.listPage(workspaceId, filters, { sort, cursor, pageSize: 1000 });
+      if (error) {
+        return { data: expenses, error };
+      }
+      expenses.push(...page.expenses);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return { data: expenses, error: null };
+  }
+
+  /**
+   * Aggregate totals for a date range and its comparison period on the server
+   */
+  async getSummary(
+    workspaceId: string,
+    range: { start: string; end: string; previousStart: string; previousEnd: string }
+  ) {
+    const { data, error } = await supabase.rpc('get_expense_summary', {
+      p_workspace_id: workspaceId,
+      p_start: range.start,
+      p_end: range.end,
+      p_previous_start: range.previousStart,
+      p_previous_end: range.previousEnd
+    });
+
+    if (error || !data) {
+      return { data: null, error };
+    }
+
+    // numeric columns arrive as JSON numbers or strings depending on precision
+    const summary: ExpenseSummary = {
+      currency: data.currency || DEFAULT_BASE_CURRENCY,
+      total: Number(data.total) || 0,
+      count: Number(data.count) || 0,
+      unconverted_count: Number(data.unconverted_count) || 0,
+      previous_total: Number(data.previous_total) || 0,
+      previous_count: Number(data.previous_count) || 0,
+      top_categories: (data.top_categories || []).map((c: DbRow<ExpenseSummary['top_categories'][number], 'total'>) => ({
+        category_id: c.category_id ?? null,
+        name: c.name || UNCATEGORIZED_LABEL,
+        total: Number(c.total) || 0
+      }))
+    };
+
+    return { data: summary, error: null };
+  }
+
+  /**
+   * GST invoices dated within a period, oldest first
+   */
+  async getGstReport(workspaceId: string, range: { start: string; end: string }) {
+    const { data, error } = await supabase.rpc('get_gst_report', {
+      p_workspace_id: workspaceId,
+      p_start: range.start,
+      p_end: range.end
+    });
+
+    const invoices: GstInvoice[] = (data || []).map((row: DbRow<GstInvoice,
+      'gst_rate' | 'taxable_value' | 'cgst_amount' | 'sgst_amount' | 'igst_amount' | 'invoice_value'
+    >) => ({
+      expense_id: row.expense_id,
+      txn_date: row.txn_date,
+      merchant: row.merchant || '',
+      vendor_gstin: row.vendor_gstin ?? null,
+      hsn_sac_code: row.hsn_sac_code ?? null,
+      gst_rate: toNullableNumber(row.gst_rate),
+      taxable_value: Number(row.taxable_value) || 0,
+      cgst_amount: Number(row.cgst_amount) || 0,
+      sgst_amount: Number(row.sgst_amount) || 0,
+      igst_amount: Number(row.igst_amount) || 0,
+      invoice_value: Number(row.invoice_value) || 0,
+      itc_eligible: row.itc_eligible !== false
+    }));
+
+    return { data: invoices, error };
+  }
+
+  /**
+   * Recompute converted amounts for a workspace, e.g. after exchange rates change
+   */
+  async refreshBaseAmounts(workspaceId: string) {
+    const { error } = await supabase.rpc('refresh_expense_base_amounts', {
+      p_workspace_id: workspaceId
+    });
+
+    return { error };
+  }
+
+  /**
+   * Build an expenses query for a workspace with the given filters applied.
+   * Extra PostgREST logic conditions (e.g. the pagination keyset) are ANDed with the
+   * search condition so the request carries a single or() parameter.
+   */
+  private filteredQuery(workspaceId: string, filters: ExpenseFilters, conditions: string[] = []) {
+    let query = supabase
+      .from('expenses')
+      .select('*')
+      .eq('workspace_id', workspaceId);
+
+    const logic = [...conditions];
+    const search = filters.search?.trim();
+    if (search) {
+      const pattern = quoteFilterValue(`*${search}*`);
+      logic.push(`or(merchant.ilike.${pattern},notes.ilike.${pattern},line_items_text.ilike.${pattern})`);
+    }
+    if (logic.length > 0) {
+      query = query.or(`and(${logic.join(',')})`);
+    }
+    if (filters.dateFrom) query = query.gte('txn_date', filters.dateFrom);
+    if (filters.dateTo) query = query.lte('txn_date', filters.dateTo);
+    if (filters.minAmount !== undefined) query = query.gte('amount', filters.minAmount);
+    if (filters.maxAmount !== undefined) query = query.lte('amount', filters.maxAmount);
+    if (filters.categoryId) query = query.eq('global_category_id', filters.categoryId);
+    if (filters.paymentMethodId) query = query.eq('payment_method_id', filters.paymentMethodId);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.source) query = query.eq('source', filters.source);
+    if (filters.isReimbursable !== undefined) query = query.eq('is_reimbursable', filters.isReimbursable);
+
+    return query;
+  }
+
+  /**
+   * Fill in category_name and payment_method_name for a list of expenses
+   */
+  async withNames(expenses: Expense[]): Promise<Expense[]> {
+    const categoryIds = [...new Set(expenses.map(e => e.category_id).filter((id): id is string => !!id))];
+    const paymentMethodIds = [...new Set(expenses.map(e => e.payment_method_id).filter((id): id is string => !!id))];
+
+    const [categoryNames, paymentMethodNames] = await Promise.all([
+      categoryRepository.getNames(categoryIds),
+      paymentMethodRepository.getNames(paymentMethodIds)
+    ]);
+
+    if (categoryNames.error) console.error('Error resolving category names:', categoryNames.error);
+    if (paymentMethodNames.error) console.error('Error resolving payment method names:', paymentMethodNames.error);
+
+    return expenses.map(expense => ({
+      ...expense,
+      category_name: (expense.category_id && categoryNames.data.get(expense.category_id)) || UNCATEGORIZED_LABEL,
+      payment_method_name: (expense.payment_method_id && paymentMethodNames.data.get(expense.payment_method_id)) || NO_PAYMENT_METHOD_LABEL
+    }));
+  }
+
+  /**
+   * Insert a new expense; without a currency it is recorded in the workspace base currency
+   */
+  async create(input: ExpenseInput) {
+    const { data, error } = await supabase
+      .from('expenses')
+      .insert([toExpenseRow({ status: 'unreviewed', ...input })])
+      .select('*')
+      .single();
+
+    return { data: data ? toExpense(data) : null, error };
+  }
+
+  /**
+   * Insert several expenses at once, returning the inserted rows
+   */
+  async createMany(inputs: ExpenseInput[]) {
+    if (inputs.length === 0) return { data: [] as Expense[], error: null };
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .insert(inputs.map(input => toExpenseRow({ status: 'unreviewed', ...input })))
+      .select('*');
+
+    return { data: (data || []).map(toExpense), error };
+  }
+
+  /**
+   * Update one or more expenses within a workspace
+   */
+  async update(workspaceId: string, ids: string[], changes: ExpenseUpdate) {
+    const { error } = await supabase
+      .from('expenses')
+      .update(toExpenseRow(changes))
+      .in('id', ids)
+      .eq('workspace_id', workspaceId);
+
+    return { error };
+  }
+
+  /**
+   * Move expenses to the trash, returning how many were moved
+   */
+  async trash(ids: string[]) {
+    const { data, error } = await supabase.rpc('trash_expenses', { p_expense_ids: ids });
+
+    return { data: Number(data) || 0, error };
+  }
+
+  /**
+   * Take expenses back out of the trash, returning how many were restored
+   */
+  async restore(ids: string[]) {
+    const { data, error } = await supabase.rpc('restore_expenses', { p_expense_ids: ids });
+
+    return { data: Number(data) || 0, error };
+  }
+
+  /**
+   * Permanently delete expenses that are in the trash, returning how many were removed
+   */
+  async purge(ids: string[]) {
+    const { data, error } = await supabase.rpc('purge_expenses', { p_expense_ids: ids });
+
+    return { data: Number(data) || 0, error };
+  }
+
+  /**
+   * List the trashed expenses the current user may restore, most recently deleted first
+   */
+  async listTrashed(workspaceId: string) {
+    const { data, error } = await supabase.rpc('list_trashed_expenses', { p_workspace_id: workspaceId });
+
+    if (error) {
+      return { data: [] as Expense[], error };
+    }
+
+    return { data: await this.withNames((data || []).map(toExpense)), error: null };
+  }
+
+  /**
+   * Permanently delete a workspace's expenses that outlived its trash retention period
+   */
+  async purgeExpiredTrash(workspaceId: string) {
+    const { data, error } = await supabase.rpc('purge_expired_expense_trash', { p_workspace_id: workspaceId });
+
+    return { data: Number(data) || 0, error };
+  }
+}
+
+class AttachmentRepository {
+  /**
+   * List the attachments of an expense, oldest first
+   */
+  async listForExpense(expenseId: string) {
+    const { data, error } = await supabase
+      .from('expense_attachments')
+      .select('*')
+      .eq('expense_id', expenseId)
+      .order('created_at');
+
+    return { data: (data || []) as ExpenseAttachment[], error };
+  }
+
+  /**
+   * List the attachments of several expenses, oldest first
+   */
+  async listForExpenses(expenseIds: string[]) {
+    if (expenseIds.length === 0) return { data: [] as ExpenseAttachment[], error: null };
+
+    const { data, error } = await supabase
+      .from('expense_attachments')
+      .select('*')
+      .in('expense_id', expenseIds)
+      .order('created_at');
+
+    return { data: (data || []) as ExpenseAttachment[], error };
+  }
+
+  /**
+   * Record an uploaded file against an expense
+   */
+  async create(attachment: Omit<ExpenseAttachment, 'id' | 'created_at'>) {
+    const { data, error } = await supabase
+      .from('expense_attachments')
+      .insert([attachment])
+      .select('*')
+      .single();
+
+    return { data: data as ExpenseAttachment | null, error };
+  }
+
+  /**
+   * Delete attachment records by id
+   */
+  async delete(ids: string[]) {
+    if (ids.length === 0) return { error: null };
+
+    const { error } = await supabase
+      .from('expense_attachments')
+      .delete()
+      .in('id', ids);
+
+    return { error };
+  }
+}
+
+class ExchangeRateRepository {
+  /**
+   * List a workspace's exchange rates, newest first
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('rate_date', { ascending: false })
+      .order('currency');
+
+    const rates: ExchangeRate[] = (data || []).map((r: DbRow<ExchangeRate, 'rate'>) => ({ ...r, rate: Number(r.rate) }));
+    return { data: rates, error };
+  }
+
+  /**
+   * Find the rate for a currency on a date: the most recent one on or before it, else the
+   * earliest later one (mirrors find_exchange_rate() in the database)
+   */
+  async findRate(workspaceId: string, currency: string, date: string) {
+    const [before, after] = await Promise.all([
+      supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('currency', currency)
+        .lte('rate_date', date)
+        .order('rate_date', { ascending: false })
+        .limit(1),
+      supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('currency', currency)
+        .gt('rate_date', date)
+        .order('rate_date', { ascending: true })
+        .limit(1)
+    ]);
+
+    const row = before.data?.[0] ?? after.data?.[0];
+    return {
+      data: row ? { ...row, rate: Number(row.rate) } as ExchangeRate : null,
+      error: before.error || after.error
+    };
+  }
+
+  /**
+   * Insert or replace rates, keyed by workspace, currency and date
+   */
+  async upsertMany(rates: ExchangeRateInput[]) {
+    if (rates.length === 0) return { error: null };
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(rates, { onConflict: 'workspace_id,currency,rate_date' });
+
+    return { error };
+  }
+
+  /**
+   * Delete a single exchange rate
+   */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id);
+
+    return { error };
+  }
+}
+
+class RecurringExpenseRepository {
+  /**
+   * List a workspace's recurring expense templates, soonest due first
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('next_due_date', { ascending: true, nullsFirst: false });
+
+    return { data: (data || []).map(toRecurringExpense), error };
+  }
+
+  /**
+   * Create a recurring expense template
+   */
+  async create(input: RecurringExpenseInput) {
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .insert([toExpenseRow(input)])
+      .select('*')
+      .single();
+
+    return { data: data ? toRecurringExpense(data) : null, error };
+  }
+
+  /**
+   * Update a template, e.g. to pause it or change its schedule
+   */
+  async update(id: string, changes: Partial<RecurringExpenseInput>) {
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .update({ ...toExpenseRow(changes), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Delete a template; expenses already generated from it are kept
+   */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .delete()
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Create expenses for every template occurrence that has fallen due, returning how many were created
+   */
+  async generateDue(workspaceId: string) {
+    const { data, error } = await supabase.rpc('generate_due_recurring_expenses', {
+      p_workspace_id: workspaceId
+    });
+
+    return { data: Number(data) || 0, error };
+  }
+}
+
+class BudgetRepository {
+  /**
+   * List a workspace's budgets
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at');
+
+    return { data: (data || []).map(toBudget), error };
+  }
+
+  /**
+   * Create a budget
+   */
+  async create(input: BudgetInput) {
+    const { data, error } = await supabase
+      .from('budgets')
+      .insert([toExpenseRow(input)])
+      .select('*')
+      .single();
+
+    return { data: data ? toBudget(data) : null, error };
+  }
+
+  /**
+   * Change a budget's limit
+   */
+  async updateAmount(id: string, amount: number) {
+    const { error } = await supabase
+      .from('budgets')
+      .update({ amount, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Delete a budget and its alerts
+   */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('budgets')
+      .delete()
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Budget vs actual for the last `periods` periods of every budget, oldest first
+   */
+  async getReport(workspaceId: string, periods = 1) {
+    const { data, error } = await supabase.rpc('get_budget_report', {
+      p_workspace_id: workspaceId,
+      p_periods: periods
+    });
+
+    const rows: BudgetPeriodActual[] = (data || []).map((row: DbRow<BudgetPeriodActual, 'budget_amount' | 'spent'>) => ({
+      budget_id: row.budget_id,
+      period_start: row.period_start,
+      period_end: row.period_end,
+      budget_amount: Number(row.budget_amount) || 0,
+      spent: Number(row.spent) || 0
+    }));
+
+    return { data: rows, error };
+  }
+
+  /**
+   * Record alerts for thresholds already crossed, e.g. after a budget is created or lowered
+   */
+  async checkAlerts(workspaceId: string) {
+    const { error } = await supabase.rpc('check_budget_alerts', {
+      p_workspace_id: workspaceId
+    });
+
+    return { error };
+  }
+
+  /**
+   * Alerts that haven't been dismissed, newest first
+   */
+  async listOpenAlerts(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('budget_alerts')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .is('dismissed_at', null)
+      .order('created_at', { ascending: false });
+
+    const alerts: BudgetAlert[] = (data || []).map((row: DbRow<BudgetAlert, 'spent'>) => ({
+      ...row,
+      spent: Number(row.spent) || 0
+    }));
+
+    return { data: alerts, error };
+  }
+
+  /**
+   * Dismiss alerts so they stop showing on the dashboard
+   */
+  async dismissAlerts(ids: string[]) {
+    const { error } = await supabase
+      .from('budget_alerts')
+      .update({ dismissed_at: new Date().toISOString() })
+      .in('id', ids);
+
+    return { error };
+  }
+}
+
+class WorkspaceMemberRepository {
+  /**
+   * The current user's role in a workspace, or null when they aren't a member
+   */
+  async getMyRole(workspaceId: string) {
+    const { data, error } = await supabase.rpc('workspace_role', {
+      p_workspace_id: workspaceId
+    });
+
+    return { data: (data as WorkspaceRole | null) ?? null, error };
+  }
+
+  /**
+   * List a workspace's members, owners first
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase.rpc('list_workspace_members', {
+      p_workspace_id: workspaceId
+    });
+
+    const members: WorkspaceMember[] = (data || []).map((row: Omit<WorkspaceMember, 'workspace_id'>) => ({
+      ...row,
+      workspace_id: workspaceId
+    }));
+
+    return { data: members, error };
+  }
+
+  /**
+   * Change a member's role
+   */
+  async updateRole(memberId: string, role: WorkspaceRole) {
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    return { error };
+  }
+
+  /**
+   * Remove a member, or leave the workspace when it's the current user's own membership
+   */
+  async remove(memberId: string) {
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('id', memberId);
+
+    return { error };
+  }
+}
+
+class WorkspaceInvitationRepository {
+  /**
+   * Pending invitations sent from a workspace, newest first
+   */
+  async listPending(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    return { data: (data || []) as WorkspaceInvitation[], error };
+  }
+
+  /**
+   * Invite someone by email
+   */
+  async create(workspaceId: string, email: string, role: WorkspaceInvitation['role'], invitedBy: string) {
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .insert([{ workspace_id: workspaceId, email, role, invited_by: invitedBy }])
+      .select('*')
+      .single();
+
+    return { data: data as WorkspaceInvitation | null, error };
+  }
+
+  /**
+   * Withdraw a pending invitation
+   */
+  async revoke(invitationId: string) {
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .update({ status: 'revoked', responded_at: new Date().toISOString() })
+      .eq('id', invitationId);
+
+    return { error };
+  }
+
+  /**
+   * Pending invitations addressed to the current user
+   */
+  async listReceived() {
+    const { data, error } = await supabase.rpc('list_my_invitations');
+
+    return { data: (data || []) as ReceivedInvitation[], error };
+  }
+
+  /**
+   * Accept or decline an invitation, returning the workspace id
+   */
+  async respond(invitationId: string, accept: boolean) {
+    const { data, error } = await supabase.rpc('respond_to_workspace_invitation', {
+      p_invitation_id: invitationId,
+      p_accept: accept
+    });
+
+    return { data: (data as string | null) ?? null, error };
+  }
+}
+
+class ApprovalRepository {
+  /**
+   * Load a workspace's approval policy
+   */
+  async getPolicy(workspaceId: string) {
+    const [workspaceResult, approversResult] = await Promise.all([
+      supabase.from('workspaces').select('second_approval_threshold').eq('id', workspaceId).single(),
+      supabase.from('workspace_approvers').select('user_id').eq('workspace_id', workspaceId)
+    ]);
+
+    const threshold = workspaceResult.data?.second_approval_threshold;
+    const policy: ApprovalPolicy = {
+      second_approval_threshold: threshold === null || threshold === undefined ? null : Number(threshold),
+      approver_ids: (approversResult.data || []).map(row => row.user_id as string)
+    };
+
+    return { data: policy, error: workspaceResult.error || approversResult.error };
+  }
+
+  /**
+   * Set or clear the amount from which a second approval is needed
+   */
+  async updateThreshold(workspaceId: string, threshold: number | null) {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ second_approval_threshold: threshold })
+      .eq('id', workspaceId);
+
+    return { error };
+  }
+
+  /**
+   * Make members approvers
+   */
+  async addApprovers(workspaceId: string, userIds: string[], createdBy: string) {
+    if (userIds.length === 0) return { error: null };
+
+    const { error } = await supabase
+      .from('workspace_approvers')
+      .insert(userIds.map(userId => ({ workspace_id: workspaceId, user_id: userId, created_by: createdBy })));
+
+    return { error };
+  }
+
+  /**
+   * Stop members from being approvers
+   */
+  async removeApprovers(workspaceId: string, userIds: string[]) {
+    if (userIds.length === 0) return { error: null };
+
+    const { error } = await supabase
+      .from('workspace_approvers')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .in('user_id', userIds);
+
+    return { error };
+  }
+
+  /**
+   * Submit, approve, reject or pay expenses, returning their new status and approval count
+   */
+  async transition(expenseIds: string[], action: ApprovalAction, reason?: string) {
+    const { data, error } = await supabase.rpc('transition_expenses', {
+      p_expense_ids: expenseIds,
+      p_action: action,
+      p_reason: reason ?? null
+    });
+
+    const results: ApprovalTransitionResult[] = (data || []).map((row: DbRow<ApprovalTransitionResult, 'approval_count'>) => ({
+      expense_id: row.expense_id,
+      status: row.status,
+      approval_count: Number(row.approval_count) || 0
+    }));
+
+    return { data: results, error };
+  }
+
+  /**
+   * Status changes of an expense, oldest first
+   */
+  async getHistory(expenseId: string) {
+    const { data, error } = await supabase.rpc('get_expense_status_history', {
+      p_expense_id: expenseId
+    });
+
+    return { data: (data || []) as ExpenseStatusChange[], error };
+  }
+}
+
+class ReimbursementReportRepository {
+  /**
+   * List the reports visible to the current user, newest first
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('reimbursement_reports')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    return { data: (data || []) as ReimbursementReport[], error };
+  }
+
+  /**
+   * Create a draft report
+   */
+  async create(input: ReimbursementReportInput) {
+    const { data, error } = await supabase
+      .from('reimbursement_reports')
+      .insert([input])
+      .select('*')
+      .single();
+
+    return { data: data as ReimbursementReport | null, error };
+  }
+
+  /**
+   * Rename a report or change what it covers
+   */
+  async update(id: string, changes: Partial<Pick<ReimbursementReport, 'name' | 'purpose' | 'period_start' | 'period_end'>>) {
+    const { error } = await supabase
+      .from('reimbursement_reports')
+      .update(changes)
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Delete a report; its expenses are released, not deleted
+   */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('reimbursement_reports')
+      .delete()
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Expenses on the given reports, oldest first
+   */
+  async listExpenses(reportIds: string[]) {
+    if (reportIds.length === 0) return { data: [] as Expense[], error: null };
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .select('*')
+      .in('reimbursement_report_id', reportIds)
+      .order('txn_date', { ascending: true });
+
+    if (error) {
+      return { data: [] as Expense[], error };
+    }
+
+    return { data: await expenseRepository.withNames((data || []).map(toExpense)), error: null };
+  }
+
+  /**
+   * Reimbursable expenses of a claimant that aren't on a report yet
+   */
+  async listUnclaimed(workspaceId: string, userId: string) {
+    const { data, error } = await supabase
+      .from('expenses')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .eq('is_reimbursable', true)
+      .is('reimbursement_report_id', null)
+      .neq('status', 'rejected')
+      .order('txn_date', { ascending: false });
+
+    if (error) {
+      return { data: [] as Expense[], error };
+    }
+
+    return { data: await expenseRepository.withNames((data || []).map(toExpense)), error: null };
+  }
+
+  /**
+   * Add expenses to a draft report, or take them off it
+   */
+  async setExpenses(reportId: string, expenseIds: string[], attach: boolean) {
+    const { data, error } = await supabase.rpc('set_reimbursement_report_expenses', {
+      p_report_id: reportId,
+      p_expense_ids: expenseIds,
+      p_attach: attach
+    });
+
+    return { data: Number(data) || 0, error };
+  }
+
+  /**
+   * Submit, reimburse or reopen a report, returning its new status
+   */
+  async transition(reportId: string, action: 'submit' | 'reimburse' | 'reopen') {
+    const { data, error } = await supabase.rpc('transition_reimbursement_report', {
+      p_report_id: reportId,
+      p_action: action
+    });
+
+    return { data: (data as ReimbursementReportStatus | null) ?? null, error };
+  }
+}
+
+class AuditLogRepository {
+  /**
+   * Recorded changes to one row, oldest first
+   */
+  async listForRecord(table: AuditedTable, recordId: string) {
+    const { data, error } = await supabase.rpc('get_audit_log', {
+      p_table_name: table,
+      p_record_id: recordId
+    });
+
+    return { data: (data || []) as AuditEntry[], error };
+  }
+}
+
+class ExpenseSplitRepository {
+  /**
+   * Splits of the given expenses, in order
+   */
+  async listForExpenses(expenseIds: string[]) {
+    if (expenseIds.length === 0) return { data: [] as ExpenseSplit[], error: null };
+
+    const { data, error } = await supabase
+      .from('expense_splits')
+      .select('*')
+      .in('expense_id', expenseIds)
+      .order('position', { ascending: true });
+
+    return { data: (data || []).map(toExpenseSplit), error };
+  }
+
+  /**
+   * Replace an expense's splits; an empty list removes the split
+   */
+  async replace(expenseId: string, splits: ExpenseSplitInput[]) {
+    const { data, error } = await supabase.rpc('set_expense_splits', {
+      p_expense_id: expenseId,
+      p_splits: splits
+    });
+
+    return { data: (data || []).map(toExpenseSplit), error };
+  }
+}
+
+class ExpenseLineItemRepository {
+  /**
+   * Line items of an expense, in receipt order
+   */
+  async listForExpense(expenseId: string) {
+    const { data, error } = await supabase
+      .from('expense_line_items')
+      .select('*')
+      .eq('expense_id', expenseId)
+      .order('position', { ascending: true });
+
+    return { data: (data || []).map(toExpenseLineItem), error };
+  }
+
+  /**
+   * Replace an expense's line items
+   */
+  async replace(expenseId: string, items: ExpenseLineItemInput[]) {
+    const { data, error } = await supabase.rpc('set_expense_line_items', {
+      p_expense_id: expenseId,
+      p_items: items
+    });
+
+    return { data: (data || []).map(toExpenseLineItem), error };
+  }
+}
+
+class MerchantRepository {
+  /**
+   * List a workspace's merchant directory with expense counts, by name
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('merchants')
+      .select('*, expenses(count)')
+      .eq('workspace_id', workspaceId)
+      .order('name');
+
+    return { data: (data || []).map(toMerchant), error };
+  }
+
+  /**
+   * Add a merchant to the directory
+   */
+  async create(input: MerchantInput) {
+    const { data, error } = await supabase
+      .from('merchants')
+      .insert([input])
+      .select('*, expenses(count)')
+      .single();
+
+    return { data: data ? toMerchant(data) : null, error };
+  }
+
+  /**
+   * Update a merchant; renaming it renames its expenses too
+   */
+  async update(id: string, changes: Partial<Omit<MerchantInput, 'workspace_id'>>) {
+    const { error } = await supabase
+      .from('merchants')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Remove a merchant from the directory; its expenses keep their merchant name
+   */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('merchants')
+      .delete()
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Merge duplicates into one merchant, moving their expenses and names over
+   */
+  async merge(targetId: string, sourceIds: string[]) {
+    const { data, error } = await supabase.rpc('merge_merchants', {
+      p_target_id: targetId,
+      p_source_ids: sourceIds
+    });
+
+    return { data: data ? toMerchant(data) : null, error };
+  }
+}
+
+class CategorizationRuleRepository {
+  /**
+   * List a workspace's categorization rules, including inactive ones
+   */
+  async listForWorkspace(workspaceId: string) {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at');
+
+    return { data: (data || []).map(toCategorizationRule), error };
+  }
+
+  /**
+   * Create a rule written by the current user
+   */
+  async create(input: CategorizationRuleInput) {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .insert([toExpenseRow({ ...input, source: 'user' })])
+      .select('*')
+      .single();
+
+    return { data: data ? toCategorizationRule(data) : null, error };
+  }
+
+  /**
+   * Update a rule; editing a learned rule makes it the admin's own
+   */
+  async update(id: string, changes: Partial<Omit<CategorizationRuleInput, 'workspace_id'>>) {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .update({ ...toExpenseRow(changes), source: 'user', updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Turn a rule on or off without changing who wrote it
+   */
+  async setActive(id: string, isActive: boolean) {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Delete a rule
+   */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .delete()
+      .eq('id', id);
+
+    return { error };
+  }
+
+  /**
+   * Record that an automatically picked category was corrected; returns the learned rule
+   * when the correction created or changed one
+   */
+  async recordCorrection(workspaceId: string, merchant: string, suggestedCategoryId: string | null, correctedCategoryId: string) {
+    const { data, error } = await supabase.rpc('record_category_correction', {
+      p_workspace_id: workspaceId,
+      p_merchant: merchant,
+      p_suggested_category_id: suggestedCategoryId,
+      p_corrected_category_id: correctedCategoryId
+    });
+
+    return { data: (data || []).map(toCategorizationRule) as CategorizationRule[], error };
+  }
+}
+
+class AIUsageRepository {
+  /**
+   * The current user's AI usage for the last `months` months, newest first; months without
+   * calls are left out
+   */
+  async getMonthlyUsage(months = 12) {
+    const { data, error } = await supabase.rpc('get_ai_usage_by_month', { p_months: months });
+
+    const usage: AIUsageMonth[] = (data || []).map((row: DbRow<AIUsageMonth, Exclude<keyof AIUsageMonth, 'month'>>) => ({
+      month: row.month,
+      calls: Number(row.calls) || 0,
+      failed_calls: Number(row.failed_calls) || 0,
+      rate_limited_calls: Number(row.rate_limited_calls) || 0,
+      cache_hits: Number(row.cache_hits) || 0,
+      cache_misses: Number(row.cache_misses) || 0,
+      prompt_tokens: Number(row.prompt_tokens) || 0,
+      completion_tokens: Number(row.completion_tokens) || 0,
+      avg_latency_ms: Number(row.avg_latency_ms) || 0
+    }));
+
+    return { data: usage, error };
+  }
+}
+
+// Export singleton instances
+export const categoryRepository = new CategoryRepository();
+export const paymentMethodRepository = new PaymentMethodRepository();
+export const workspaceRepository = new WorkspaceRepository();
+export const expenseRepository = new ExpenseRepository();
+export const attachmentRepository = new AttachmentRepository();
+export const exchangeRateRepository = new ExchangeRateRepository();
+export const recurringExpenseRepository = new RecurringExpenseRepository();
+export const budgetRepository = new BudgetRepository();
+export const workspaceMemberRepository = new WorkspaceMemberRepository();
+export const workspaceInvitationRepository = new WorkspaceInvitationRepository();
+export const approvalRepository = new ApprovalRepository();
+export const reimbursementReportRepository = new ReimbursementReportRepository();
+export const auditLogRepository = new AuditLogRepository();
+export const expenseSplitRepository = new ExpenseSplitRepository();
+export const expenseLineItemRepository = new ExpenseLineItemRepository();
+export const merchantRepository = new MerchantRepository();
+export const categorizationRuleRepository = new CategorizationRuleRepository();
+export const aiUsageRepository = new AIUsageRepository();
+
+/**
+ * Load the categories, payment methods and base currency needed by the expense entry forms
+ */
+export const loadExpenseFormData = async (workspaceId: string) => {
+  const [categories, paymentMethods, baseCurrency] = await Promise.all([
+    categoryRepository.listForWorkspace(workspaceId),
+    paymentMethodRepository.listForWorkspace(workspaceId),
+    workspaceRepository.getBaseCurrency(workspaceId)
+  ]);
+
+  if (categories.error) console.error('Error fetching categories:', categories.error);
+  if (paymentMethods.error) console.error('Error fetching payment methods:', paymentMethods.error);
+  if (baseCurrency.error) console.error('Error fetching base currency:', baseCurrency.error);
+
+  return {
+    categories: categories.data,
+    paymentMethods: paymentMethods.data,
+    baseCurrency: baseCurrency.data
+  };
+};
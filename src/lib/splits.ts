@@ -0,0 +1,103 @@
+// Split Service
+// An expense can be split into parts with their own amount, category, workspace and
+// reimbursable flag. Parts are in the expense's currency and must add up to its amount;
+// dashboard totals and budgets then count the parts instead of the expense.
+
+import {
+  expenseSplitRepository,
+  categoryRepository,
+  Category,
+  Expense,
+  ExpenseSplit,
+  ExpenseSplitInput
+} from './repositories';
+
+// Amounts are compared in cents so floating point sums like 0.1 + 0.2 still match
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * How much of the expense is not assigned to a split yet (negative when over-assigned)
+ */
+export const unassignedAmount = (total: number, splits: Pick<ExpenseSplitInput, 'amount'>[]) =>
+  (toCents(total) - splits.reduce((sum, split) => sum + toCents(split.amount || 0), 0)) / 100;
+
+/**
+ * Divide an amount into equal parts; leftover cents go to the first parts
+ */
+export const divideEvenly = (total: number, parts: number) => {
+  const cents = toCents(total);
+  const base = Math.floor(cents / parts);
+  return Array.from({ length: parts }, (_, i) => (base + (i < cents - base * parts ? 1 : 0)) / 100);
+};
+
+/**
+ * Problems that would stop the splits from being saved, or null when they're fine.
+ * No splits at all is valid and removes the split.
+ */
+export const validateSplits = (expense: Pick<Expense, 'amount'>, splits: ExpenseSplitInput[]) => {
+  if (splits.length === 0) return null;
+  if (splits.length === 1) return 'Split an expense into at least two parts';
+  if (splits.some(split => !split.workspace_id)) return 'Choose a business for every part';
+  if (splits.some(split => !(split.amount > 0))) return 'Every part needs an amount above zero';
+
+  const remaining = unassignedAmount(expense.amount, splits);
+  if (remaining > 0) return `${remaining.toFixed(2)} of the expense is not assigned yet`;
+  if (remaining < 0) return `The parts are ${(-remaining).toFixed(2)} more than the expense`;
+
+  return null;
+};
+
+class SplitService {
+  /**
+   * Splits of an expense, in order
+   */
+  async loadSplits(expenseId: string): Promise<ExpenseSplit[]> {
+    const { data, error } = await expenseSplitRepository.listForExpenses([expenseId]);
+
+    if (error) {
+      console.error('❌ Error loading expense splits:', error);
+      throw new Error(error.message || 'Failed to load splits');
+    }
+
+    return data;
+  }
+
+  /**
+   * Categories enabled for each of the given workspaces, keyed by workspace id
+   */
+  async loadCategories(workspaceIds: string[]) {
+    const ids = [...new Set(workspaceIds.filter(Boolean))];
+    const results = await Promise.all(ids.map(id => categoryRepository.listForWorkspace(id)));
+
+    const categories: Record<string, Category[]> = {};
+    results.forEach((result, index) => {
+      if (result.error) console.error('Error fetching categories:', result.error);
+      categories[ids[index]] = result.data;
+    });
+    return categories;
+  }
+
+  /**
+   * Replace an expense's splits after checking they add up; an empty list removes the split
+   */
+  async saveSplits(expense: Pick<Expense, 'id' | 'amount'>, splits: ExpenseSplitInput[]) {
+    const problem = validateSplits(expense, splits);
+    if (problem) throw new Error(problem);
+
+    const { data, error } = await expenseSplitRepository.replace(expense.id, splits.map(split => ({
+      ...split,
+      description: split.description?.trim() || null
+    })));
+
+    if (error) {
+      console.error('❌ Error saving expense splits:', error);
+      throw new Error(error.message || 'Failed to save splits');
+    }
+
+    console.log(splits.length > 0 ? `✂️ Split expense into ${data.length} parts` : '✂️ Removed expense split');
+    return data;
+  }
+}
+
+// Export singleton instance
+export const splitService = new SplitService();
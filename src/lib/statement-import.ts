@@ -0,0 +1,432 @@
+// Statement Import Service
+// Parses CSV and OFX/QFX bank exports into expense rows, flags likely duplicates of
+// existing expenses and inserts the accepted rows as unreviewed imports.
+
+import { expenseRepository, Category, Expense, ExpenseInput } from './repositories';
+import { aiCategorizationService, ExpenseContext } from './ai-categorization';
+
+export type ImportField = 'merchant' | 'amount' | 'txn_date' | 'currency' | 'notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'txn_date', label: 'Date', required: true },
+  { field: 'merchant', label: 'Merchant', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'currency', label: 'Currency', required: false },
+  { field: 'notes', label: 'Notes', required: false }
+];
+
+// Column index for each field, or null when the field is not mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface ParsedStatement {
+  format: 'csv' | 'ofx';
+  headers: string[];
+  rows: string[][];
+  // Pre-filled from header names; OFX files always use the same columns
+  suggestedMapping: ColumnMapping;
+  suggestedDateFormat: DateFormat;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  merchant: string;
+  amount: number;
+  txn_date: string;
+  currency: string;
+  notes: string;
+  // Deposits/refunds in the statement; not selected for import by default
+  isCredit: boolean;
+  errors: string[];
+  duplicateOf?: Expense;
+  // Row number of an earlier row in the file it looks like; repeated purchases are
+  // legitimate, so it can still be imported
+  duplicateOfRow?: number;
+}
+
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  txn_date: /^(txn |transaction |value |posting |posted )?date$|^date/i,
+  merchant: /merchant|payee|description|narration|particulars|name|details/i,
+  amount: /amount|debit|withdrawal/i,
+  currency: /currency|ccy/i,
+  notes: /notes?|memo|remarks?|reference|ref/i
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Semicolon-separated exports are common from European banks
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(cell => cell.trim()))
+    .filter(r => r.some(cell => cell !== ''));
+};
+
+/**
+ * Extract transactions from an OFX/QFX statement (SGML or XML flavour)
+ */
+export const parseOfx = (text: string): { currency: string; rows: string[][] } => {
+  const tag = (block: string, name: string) => {
+    const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  };
+
+  const currency = tag(text, 'CURDEF') || 'INR';
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  const rows = blocks.map(block => {
+    // DTPOSTED is YYYYMMDD[HHMMSS[.XXX]][TZ]
+    const posted = tag(block, 'DTPOSTED');
+    const date = posted.length >= 8 ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}` : '';
+    const name = tag(block, 'NAME') || tag(block, 'PAYEE');
+    const memo = tag(block, 'MEMO');
+    return [date, name || memo, tag(block, 'TRNAMT'), tag(block, 'CURRENCY') || currency, name ? memo : ''];
+  });
+
+  return { currency, rows };
+};
+
+/**
+ * Parse a date string using the given format, falling back to textual months ("05 Jan 2025")
+ */
+export const parseImportDate = (value: string, format: DateFormat): string | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  const numeric = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+  if (numeric) {
+    let [year, month, day] = [0, 0, 0];
+    const [a, b, c] = numeric.slice(1).map(Number);
+    if (numeric[1].length === 4) {
+      [year, month, day] = [a, b, c];
+    } else if (format === 'MM/DD/YYYY') {
+      [year, month, day] = [c, a, b];
+    } else {
+      [year, month, day] = [c, b, a];
+    }
+    if (year < 100) year += 2000;
+    return isValidDate(year, month, day) ? formatDate(year, month, day) : null;
+  }
+
+  const textual = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-,]*(\d{2,4})/);
+  if (textual) {
+    const month = MONTHS.indexOf(textual[2].toLowerCase()) + 1;
+    let year = Number(textual[3]);
+    if (year < 100) year += 2000;
+    const day = Number(textual[1]);
+    return month > 0 && isValidDate(year, month, day) ? formatDate(year, month, day) : null;
+  }
+
+  return null;
+};
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+const formatDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Parse an amount such as "₹1,234.50", "(120.00)" or "-45" into a signed number
+ */
+export const parseImportAmount = (value: string): number | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bdr\.?$/i.test(text);
+  const digits = text.replace(/[^0-9.]/g, '');
+  if (!digits) return null;
+
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+// Normalise merchant names for duplicate comparison ("AMAZON.IN*123" ~ "Amazon"), keeping
+// letters of any script
+const normaliseMerchant = (merchant: string) =>
+  merchant.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const daysBetween = (a: string, b: string) =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+
+class StatementImportService {
+  /**
+   * Read a CSV or OFX/QFX file into raw rows plus a suggested column mapping
+   */
+  async parseFile(file: File): Promise<ParsedStatement> {
+    const text = await file.text();
+    const isOfx = /\.(ofx|qfx)$/i.test(file.name) || /<OFX>/i.test(text);
+
+    if (isOfx) {
+      const { rows } = parseOfx(text);
+      if (rows.length === 0) {
+        throw new Error('No transactions found in this OFX/QFX file');
+      }
+      return {
+        format: 'ofx',
+        headers: ['Date', 'Name', 'Amount', 'Currency', 'Memo'],
+        rows,
+        suggestedMapping: { txn_date: 0, merchant: 1, amount: 2, currency: 3, notes: 4 },
+        suggestedDateFormat: 'YYYY-MM-DD'
+      };
+    }
+
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers || rows.length === 0) {
+      throw new Error('The file does not contain any data rows');
+    }
+
+    return {
+      format: 'csv',
+      headers,
+      rows,
+      suggestedMapping: this.suggestMapping(headers),
+      suggestedDateFormat: this.suggestDateFormat(rows, headers)
+    };
+  }
+
+  /**
+   * Guess which column holds each field from the header names
+   */
+  suggestMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = { txn_date: null, merchant: null, amount: null, currency: null, notes: null };
+    const used = new Set<number>();
+
+    for (const { field } of IMPORT_FIELDS) {
+      const index = headers.findIndex((header, i) => !used.has(i) && HEADER_HINTS[field].test(header));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Guess day-first vs month-first dates from values where the first part exceeds 12
+   */
+  private suggestDateFormat(rows: string[][], headers: string[]): DateFormat {
+    const dateColumn = this.suggestMapping(headers).txn_date;
+    if (dateColumn === null) return 'DD/MM/YYYY';
+
+    for (const row of rows.slice(0, 50)) {
+      const match = (row[dateColumn] || '').match(/^(\d{1,4})[/.-](\d{1,2})[/.-]/);
+      if (!match) continue;
+      if (match[1].length === 4) return 'YYYY-MM-DD';
+      if (Number(match[2]) > 12) return 'MM/DD/YYYY';
+    }
+
+    // Indian banks export day-first dates
+    return 'DD/MM/YYYY';
+  }
+
+  /**
+   * Apply a column mapping to raw rows, validating each value
+   */
+  mapRows(rows: string[][], mapping: ColumnMapping, dateFormat: DateFormat, defaultCurrency = 'INR'): ImportRow[] {
+    const cell = (row: string[], field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? '' : (row[index] || '').trim();
+    };
+
+    // Statements that list spending as negative amounts mark deposits/refunds as positive
+    const amountsAreSigned = mapping.amount !== null &&
+      rows.some(row => (parseImportAmount(row[mapping.amount as number] || '') ?? 0) < 0);
+
+    return rows.map((row, index) => {
+      const errors: string[] = [];
+      const txnDate = parseImportDate(cell(row, 'txn_date'), dateFormat);
+      const amount = parseImportAmount(cell(row, 'amount'));
+      const merchant = cell(row, 'merchant');
+      const currency = cell(row, 'currency').toUpperCase();
+
+      if (!txnDate) errors.push('Invalid date');
+      if (amount === null || amount === 0) errors.push('Invalid amount');
+      if (!merchant) errors.push('Missing merchant');
+
+      return {
+        rowNumber: index + 1,
+        merchant,
+        amount: Math.abs(amount || 0),
+        txn_date: txnDate || '',
+        currency: /^[A-Z]{3}$/.test(currency) ? currency : defaultCurrency,
+        notes: cell(row, 'notes'),
+        isCredit: amountsAreSigned && amount !== null && amount > 0,
+        errors
+      };
+    });
+  }
+
+  /**
+   * Flag rows that likely duplicate an existing expense (same amount, close date, similar merchant)
+   * or an earlier row in the same file
+   */
+  async findDuplicates(workspaceId: string, rows: ImportRow[]): Promise<ImportRow[]> {
+    const dates = rows.filter(r => r.txn_date).map(r => r.txn_date).sort();
+    if (dates.length === 0) return rows;
+
+    const shift = (date: string, days: number) => {
+      const d = new Date(date);
+      d.setUTCDate(d.getUTCDate() + days);
+      return d.toISOString().split('T')[0];
+    };
+
+    const { data: existing, error } = await expenseRepository.listAll(workspaceId, {
+      dateFrom: shift(dates[0], -3),
+      dateTo: shift(dates[dates.length - 1], 3)
+    });
+
+    if (error) {
+      console.error('Error loading expenses for duplicate check:', error);
+    }
+
+    const seen: ImportRow[] = [];
+    return rows.map(row => {
+      const isSame = (merchant: string, amount: number, date: string) => {
+        if (Math.abs(amount - row.amount) > 0.005 || daysBetween(date, row.txn_date) > 3) return false;
+        const a = normaliseMerchant(merchant);
+        const b = normaliseMerchant(row.merchant);
+        // Without a name to compare, amount and date alone aren't enough
+        return !!a && !!b && (a.includes(b) || b.includes(a));
+      };
+
+      const duplicateOf = existing.find(e => isSame(e.merchant, e.amount, e.txn_date));
+      const duplicateInFile = seen.find(r => r.txn_date === row.txn_date && isSame(r.merchant, r.amount, r.txn_date));
+      seen.push(row);
+
+      if (duplicateOf) return { ...row, duplicateOf };
+      if (duplicateInFile) return { ...row, duplicateOfRow: duplicateInFile.rowNumber };
+      return row;
+    });
+  }
+
+  /**
+   * Insert accepted rows as unreviewed imports, then categorize them in batches
+   */
+  async importRows(workspaceId: string, userId: string, rows: ImportRow[], categories: Category[]) {
+    const inputs: ExpenseInput[] = rows.map(row => ({
+      workspace_id: workspaceId,
+      user_id: userId,
+      merchant: row.merchant,
+      amount: row.amount,
+      currency: row.currency,
+      txn_date: row.txn_date,
+      notes: row.notes || null,
+      category_id: null,
+      source: 'import',
+      status: 'unreviewed'
+    }));
+
+    const { data: inserted, error } = await expenseRepository.createMany(inputs);
+    if (error) {
+      throw new Error(error.message || 'Failed to import expenses');
+    }
+
+    console.log(`📥 Imported ${inserted.length} expenses`);
+
+    const categorized = await this.categorizeImported(workspaceId, inserted, categories);
+    return { imported: inserted.length, categorized };
+  }
+
+  /**
+   * Run imported expenses through batch AI categorization and store the matched categories
+   */
+  private async categorizeImported(workspaceId: string, expenses: Expense[], categories: Category[]) {
+    if (!aiCategorizationService.isAvailable() || categories.length === 0) {
+      return 0;
+    }
+
+    const BATCH_SIZE = 20;
+    let categorized = 0;
+
+    for (let start = 0; start < expenses.length; start += BATCH_SIZE) {
+      const batch = expenses.slice(start, start + BATCH_SIZE);
+      const contexts: ExpenseContext[] = batch.map(e => ({
+        workspaceId,
+        merchant: e.merchant,
+        amount: e.amount,
+        currency: e.currency,
+        date: e.txn_date,
+        notes: e.notes
+      }));
+
+      try {
+        const results = await aiCategorizationService.categorizeExpensesBatch(contexts, categories);
+
+        await Promise.all(batch.map(async (expense, i) => {
+          const result = results[i];
+          if (!result) return;
+
+          const category = result.categoryId && categories.find(c => c.id === result.categoryId);
+          if (!category) return;
+
+          const { error } = await expenseRepository.update(workspaceId, [expense.id], {
+            category_id: category.id,
+            category_confidence: result.confidence,
+            category_source: result.matchedRule?.setsCategory ? 'rule' : 'ai'
+          });
+          if (error) {
+            console.error('Error saving category for imported expense:', error);
+          } else {
+            categorized++;
+          }
+        }));
+      } catch (error) {
+        console.error('Batch categorization of imported expenses failed:', error);
+      }
+    }
+
+    return categorized;
+  }
+}
+
+// Export singleton instance
+export const statementImportService = new StatementImportService();
@@ -0,0 +1,155 @@
+// Team Service
+// Workspace members, roles and email invitations. Permissions are enforced by the RLS
+// policies in 20250811170000_add_workspace_roles.sql; WORKSPACE_PERMISSIONS mirrors them
+// so the UI can hide actions a role isn't allowed to take.
+
+import { supabase } from './supabase';
+import {
+  workspaceMemberRepository,
+  workspaceInvitationRepository,
+  workspaceRepository,
+  WorkspaceRole,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  ReceivedInvitation
+} from './repositories';
+
+export type WorkspacePermission =
+  | 'submit_expenses'
+  | 'review_expenses'
+  | 'manage_settings'
+  | 'manage_members'
+  | 'delete_workspace';
+
+// Lowest role allowed to do each thing
+const WORKSPACE_PERMISSIONS: Record<WorkspacePermission, WorkspaceRole> = {
+  submit_expenses: 'member',
+  review_expenses: 'admin',
+  manage_settings: 'admin',
+  manage_members: 'admin',
+  delete_workspace: 'owner'
+};
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { member: 1, admin: 2, owner: 3 };
+
+export const ROLE_OPTIONS: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'member', label: 'Member', description: 'Submits expenses and edits their own until reviewed' },
+  { value: 'admin', label: 'Admin', description: 'Also reviews expenses, manages categories, budgets and the team' },
+  { value: 'owner', label: 'Owner', description: 'Full control, including deleting the business' }
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Whether a role may perform an action; a null role (not a member) may do nothing
+ */
+export const can = (role: WorkspaceRole | null, permission: WorkspacePermission) =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[WORKSPACE_PERMISSIONS[permission]];
+
+/**
+ * Roles the current user can give others: admins can't create owners
+ */
+export const assignableRoles = (myRole: WorkspaceRole | null) =>
+  ROLE_OPTIONS.filter(option => myRole === 'owner' || (myRole === 'admin' && option.value !== 'owner'));
+
+class TeamService {
+  /**
+   * Invite someone by email and send them a notification. Returns whether the email went
+   * out; the invitation is valid either way and shows up when they sign in.
+   */
+  async invite(
+    workspaceId: string,
+    invitedBy: string,
+    email: string,
+    role: WorkspaceInvitation['role'],
+    members: WorkspaceMember[] = []
+  ) {
+    const normalized = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalized)) {
+      throw new Error('Enter a valid email address');
+    }
+    if (members.some(member => member.email.toLowerCase() === normalized)) {
+      throw new Error(`${normalized} is already a member`);
+    }
+
+    const { data: invitation, error } = await workspaceInvitationRepository.create(workspaceId, normalized, role, invitedBy);
+    if (error || !invitation) {
+      // Unique violation on the pending-invitation index
+      if (error?.code === '23505') {
+        throw new Error(`${normalized} already has a pending invitation`);
+      }
+      throw new Error(error?.message || 'Failed to create invitation');
+    }
+
+    const { data, error: sendError } = await supabase.functions.invoke('workspace-invitations', {
+      body: { invitationId: invitation.id, redirectTo: window.location.origin }
+    });
+
+    if (sendError || !data?.sent) {
+      console.warn('Invitation email not sent:', sendError || data?.reason);
+    } else {
+      console.log('✉️ Invitation sent to', normalized);
+    }
+
+    return { invitation, emailSent: !sendError && !!data?.sent };
+  }
+
+  /**
+   * Withdraw a pending invitation
+   */
+  async revoke(invitation: WorkspaceInvitation) {
+    const { error } = await workspaceInvitationRepository.revoke(invitation.id);
+    if (error) {
+      throw new Error(error.message || 'Failed to revoke invitation');
+    }
+  }
+
+  /**
+   * Change a member's role; the database refuses to demote the last owner
+   */
+  async changeRole(member: WorkspaceMember, role: WorkspaceRole) {
+    const { error } = await workspaceMemberRepository.updateRole(member.id, role);
+    if (error) {
+      throw new Error(error.message || 'Failed to change role');
+    }
+  }
+
+  /**
+   * Remove a member, or leave when it's the current user
+   */
+  async removeMember(member: WorkspaceMember) {
+    const { error } = await workspaceMemberRepository.remove(member.id);
+    if (error) {
+      throw new Error(error.message || 'Failed to remove member');
+    }
+  }
+
+  /**
+   * Accept or decline an invitation; returns the workspace id
+   */
+  async respond(invitation: ReceivedInvitation, accept: boolean) {
+    const { data, error } = await workspaceInvitationRepository.respond(invitation.id, accept);
+    if (error) {
+      throw new Error(error.message || 'Failed to respond to invitation');
+    }
+
+    console.log(accept ? '🤝 Joined workspace' : '👋 Declined invitation to', invitation.workspace_name);
+    return data;
+  }
+
+  /**
+   * Delete a workspace with everything in it (owners only)
+   */
+  async deleteWorkspace(workspaceId: string) {
+    const { data: deleted, error } = await workspaceRepository.delete(workspaceId);
+    if (error) {
+      throw new Error(error.message || 'Failed to delete business');
+    }
+    if (!deleted) {
+      throw new Error('Only owners can delete this business');
+    }
+  }
+}
+
+// Export singleton instance
+export const teamService = new TeamService();
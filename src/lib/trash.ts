@@ -0,0 +1,120 @@
+// Trash Service
+// Deleted expenses go to the trash first so a delete can be undone. They stay there for the
+// workspace's retention period and are then purged, by pg_cron where it is installed and
+// by the app whenever a workspace is opened.
+
+import { expenseRepository, workspaceRepository, Expense } from './repositories';
+
+// How long the undo toast stays up after a delete
+export const UNDO_DELETE_TIMEOUT_MS = 8000;
+
+/**
+ * Days left before a trashed expense is purged, never below zero
+ */
+export const daysUntilPurge = (expense: Expense, retentionDays: number, now = new Date()) => {
+  if (!expense.deleted_at) return retentionDays;
+  const purgeAt = new Date(expense.deleted_at).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / (24 * 60 * 60 * 1000)));
+};
+
+class TrashService {
+  /**
+   * Move expenses to the trash
+   */
+  async moveToTrash(expenseIds: string[]) {
+    const { data, error } = await expenseRepository.trash(expenseIds);
+
+    if (error) {
+      console.error('❌ Error moving expenses to the trash:', error);
+      throw new Error(error.message || 'Failed to delete expenses');
+    }
+
+    console.log(`🗑️ Moved ${data} expense(s) to the trash`);
+    return data;
+  }
+
+  /**
+   * Take expenses back out of the trash
+   */
+  async restore(expenseIds: string[]) {
+    const { data, error } = await expenseRepository.restore(expenseIds);
+
+    if (error) {
+      console.error('❌ Error restoring expenses:', error);
+      throw new Error(error.message || 'Failed to restore expenses');
+    }
+
+    console.log(`♻️ Restored ${data} expense(s)`);
+    return data;
+  }
+
+  /**
+   * Permanently delete trashed expenses
+   */
+  async purge(expenseIds: string[]) {
+    const { data, error } = await expenseRepository.purge(expenseIds);
+
+    if (error) {
+      console.error('❌ Error purging expenses:', error);
+      throw new Error(error.message || 'Failed to delete expenses permanently');
+    }
+
+    return data;
+  }
+
+  /**
+   * Load a workspace's trash and its retention period
+   */
+  async loadTrash(workspaceId: string) {
+    const [trashed, retention] = await Promise.all([
+      expenseRepository.listTrashed(workspaceId),
+      workspaceRepository.getTrashRetention(workspaceId)
+    ]);
+
+    if (trashed.error) {
+      console.error('❌ Error loading the trash:', trashed.error);
+      throw new Error(trashed.error.message || 'Failed to load the trash');
+    }
+    if (retention.error) {
+      console.error('Error loading trash retention:', retention.error);
+    }
+
+    return { expenses: trashed.data, retentionDays: retention.data };
+  }
+
+  /**
+   * Change how many days expenses stay in the trash
+   */
+  async saveRetention(workspaceId: string, days: number) {
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      throw new Error('Keep deleted expenses for between 1 and 365 days');
+    }
+
+    const { error } = await workspaceRepository.updateTrashRetention(workspaceId, days);
+
+    if (error) {
+      console.error('❌ Error saving trash retention:', error);
+      throw new Error(error.message || 'Failed to save the retention period');
+    }
+  }
+
+  /**
+   * Purge a workspace's expired trash; failures are only logged since pg_cron retries daily
+   */
+  async purgeExpired(workspaceId: string) {
+    const { data, error } = await expenseRepository.purgeExpiredTrash(workspaceId);
+
+    if (error) {
+      console.error('Error purging expired trash:', error);
+      return 0;
+    }
+
+    if (data > 0) {
+      console.log(`🧹 Purged ${data} expired expense(s) from the trash`);
+    }
+    return data;
+  }
+}
+
+// Export singleton instance
+export const trashService = new TrashService();
@@ -1,14 +1,18 @@
 import { aiCategorizationService, ExpenseContext } from './ai-categorization';
+import { supabase } from './supabase';
+import { detectCurrency } from './currency';
 
 export interface VoiceAnalysisResult {
   merchant: string;
   amount: number;
+  currency: string;
   description: string;
   date?: string;
   notes?: string;
   confidence: number;
   rawText: string;
   // AI categorization results
+  aiCategoryId?: string;
   aiCategory?: string;
   aiConfidence?: number;
   aiReasoning?: string;
@@ -23,15 +27,17 @@ export interface VoiceAnalysisError {
 
 class VoiceAnalysisService {
   /**
-   * Analyze voice input text and extract expense details
+   * Analyze voice input text and extract expense details. The currency is taken from
+   * the words or symbols used, falling back to the workspace base currency. Given the
+   * workspace, its categorization rules are applied before the AI picks a category.
    */
-  async analyzeVoiceInput(voiceText: string): Promise<VoiceAnalysisResult | VoiceAnalysisError> {
+  async analyzeVoiceInput(voiceText: string, defaultCurrency = 'INR', workspaceId?: string): Promise<VoiceAnalysisResult | VoiceAnalysisError> {
     try {
       // Clean and normalize the input text
       const cleanedText = this.cleanVoiceText(voiceText);
       
-      // Use OpenAI to extract structured information
-      const extractedInfo = await this.extractExpenseInfo(cleanedText);
+      // Use the AI provider to extract structured information
+      const extractedInfo = await this.extractExpenseInfo(cleanedText, workspaceId);
       
       if (!extractedInfo) {
         return {
@@ -41,11 +47,15 @@ class VoiceAnalysisService {
         };
       }
 
+      // Symbols like ₹ and € are stripped by cleanVoiceText, so detect on the raw text
+      const currency = extractedInfo.currency || detectCurrency(voiceText) || defaultCurrency;
+
       // Create expense context for AI categorization
       const expenseContext: ExpenseContext = {
+        workspaceId,
         merchant: extractedInfo.merchant,
         amount: extractedInfo.amount,
-        currency: 'INR', // Default currency
+        currency,
         date: extractedInfo.date,
         description: extractedInfo.description,
         notes: extractedInfo.notes
@@ -57,12 +67,14 @@ class VoiceAnalysisService {
       return {
         merchant: extractedInfo.merchant,
         amount: extractedInfo.amount,
+        currency,
         description: extractedInfo.description,
         date: extractedInfo.date,
         notes: extractedInfo.notes,
         confidence: Math.min(extractedInfo.confidence * aiResult.confidence, 0.95),
         rawText: voiceText,
         // Include AI categorization results
+        aiCategoryId: aiResult.categoryId,
         aiCategory: aiResult.category,
         aiConfidence: aiResult.confidence,
         aiReasoning: aiResult.reasoning,
@@ -92,75 +104,23 @@ class VoiceAnalysisService {
   }
 
   /**
-   * Extract expense information using OpenAI
+   * Extract expense information with the voice-extraction edge function
    */
-  private async extractExpenseInfo(voiceText: string): Promise<any> {
+  private async extractExpenseInfo(voiceText: string, workspaceId?: string): Promise<any> {
     try {
-      // Get OpenAI API key from environment
-      const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      if (!openaiApiKey) {
-        // Fallback to rule-based extraction if no API key
-        return this.fallbackExtraction(voiceText);
-      }
-
-      const prompt = `Extract expense information from this voice input: "${voiceText}"
-
-Please respond with valid JSON in this exact format:
-{
-  "merchant": "merchant name",
-  "amount": number (extract the amount, default to 0 if not found),
-  "description": "what the expense was for",
-  "date": "date if mentioned (YYYY-MM-DD format, or null if not specified)",
-  "notes": "any additional notes or context",
-  "confidence": number between 0.7 and 1.0
-}
-
-Examples:
-- "I spent $25 on lunch at McDonald's yesterday" → {"merchant": "McDonald's", "amount": 25, "description": "lunch", "date": "yesterday", "notes": null, "confidence": 0.95}
-- "Coffee from Starbucks $4.50" → {"merchant": "Starbucks", "amount": 4.50, "description": "coffee", "date": null, "notes": null, "confidence": 0.9}
-- "Uber ride to airport cost me 35 dollars" → {"merchant": "Uber", "amount": 35, "description": "ride to airport", "date": null, "notes": null, "confidence": 0.9}
-
-Rules:
-1. Extract the exact merchant name mentioned
-2. Convert all amounts to numbers
-3. Create a clear description of what was purchased
-4. If date is mentioned, try to convert to YYYY-MM-DD format
-5. Set confidence based on how clear the information is
-6. Always respond with valid JSON`;
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expense data extraction expert. Always respond with valid JSON.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 300
-        })
+      // The voice-extraction edge function holds the AI provider's key
+      const { data, error } = await supabase.functions.invoke('voice-extraction', {
+        body: { text: voiceText, workspaceId }
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+      if (error) {
+        throw new Error(`Voice extraction failed: ${error.message}`);
       }
 
-      const data = await response.json();
-      const aiResponse = data.choices[0]?.message?.content || '';
-      
-      // Parse the JSON response
-      const extracted = JSON.parse(aiResponse);
+      const extracted = data?.extracted;
+      if (!extracted) {
+        throw new Error('No response from AI extraction');
+      }
       
       // Validate the extracted data
       if (!extracted.merchant || !extracted.amount || !extracted.description) {
@@ -176,6 +136,9 @@ Rules:
       return {
         merchant: extracted.merchant,
         amount: parseFloat(extracted.amount) || 0,
+        currency: typeof extracted.currency === 'string' && /^[A-Z]{3}$/i.test(extracted.currency)
+          ? extracted.currency.toUpperCase()
+          : null,
         description: extracted.description,
         date: processedDate,
         notes: extracted.notes || null,
@@ -183,14 +146,14 @@ Rules:
       };
 
     } catch (error) {
-      console.error('OpenAI extraction failed:', error);
+      console.error('AI extraction failed:', error);
       // Fallback to rule-based extraction
       return this.fallbackExtraction(voiceText);
     }
   }
 
   /**
-   * Fallback rule-based extraction when OpenAI is not available
+   * Fallback rule-based extraction when the AI provider is not available
    */
   private fallbackExtraction(voiceText: string): any {
     const text = voiceText.toLowerCase();
@@ -243,6 +206,7 @@ Rules:
     return {
       merchant: merchant.charAt(0).toUpperCase() + merchant.slice(1),
       amount: amount,
+      currency: detectCurrency(voiceText),
       description: description,
       date: date,
       notes: null,
@@ -0,0 +1,96 @@
+import type { AICall } from './ai-usage.ts'
+
+// Cache of AI categorization answers, per workspace, keyed on the normalized merchant
+// name, an amount bucket and the categories the AI chose from
+// (20250811280000_add_ai_categorization_cache.sql). Answers expire after
+// AI_CACHE_TTL_HOURS (default a week; 0 turns the cache off). Lookups are counted in the
+// call's usage record. The cache only saves AI calls, so when it fails it is skipped.
+
+export type AICacheRequestType = 'categorization' | 'suggestions'
+
+export interface AICacheInput {
+  merchant: string
+  // Left out where the answer doesn't depend on the amount
+  amount?: number | null
+}
+
+const ttlHoursFromEnv = () => {
+  const value = Deno.env.get('AI_CACHE_TTL_HOURS')?.trim()
+  return value && Number.isFinite(Number(value)) ? Number(value) : 24 * 7
+}
+
+const CACHE_TTL_SECONDS = Math.round(ttlHoursFromEnv() * 3600)
+
+/**
+ * Key of a set of categories (their ids and names): the same whatever their order or case
+ */
+const categorySetKey = async (categories: string[]) => {
+  const names = [...new Set(categories.map(name => name.trim().toLowerCase()))].sort().join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(names))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export class AIResultCache {
+  private categorySet: Promise<string> | null = null
+
+  constructor(
+    private readonly call: AICall,
+    private readonly requestType: AICacheRequestType,
+    private readonly categories: string[]
+  ) {}
+
+  private get isEnabled() {
+    return CACHE_TTL_SECONDS > 0 && !!this.call.workspaceId
+  }
+
+  private categorySetKey() {
+    this.categorySet ??= categorySetKey(this.categories)
+    return this.categorySet
+  }
+
+  /**
+   * The cached answer for each input, or null where there is none
+   */
+  async get<T>(inputs: AICacheInput[]): Promise<(T | null)[]> {
+    const results: (T | null)[] = inputs.map(() => null)
+    if (!this.isEnabled || inputs.length === 0) return results
+
+    const { data, error } = await this.call.admin.rpc('get_ai_cache_entries', {
+      p_workspace_id: this.call.workspaceId,
+      p_request_type: this.requestType,
+      p_category_set: await this.categorySetKey(),
+      p_inputs: inputs.map(({ merchant, amount }) => ({ merchant, amount: amount ?? null }))
+    })
+
+    if (error) {
+      console.error('AI cache lookup failed:', error)
+      return results
+    }
+
+    for (const row of (data || []) as { input_index: number; cached_result: T }[]) {
+      results[row.input_index] = row.cached_result
+    }
+    const hits = results.filter(result => result !== null).length
+    this.call.countCacheLookups(hits, inputs.length - hits)
+    return results
+  }
+
+  /**
+   * Cache answers from the AI; fallback answers shouldn't be stored
+   */
+  async put<T>(entries: Array<AICacheInput & { result: T }>) {
+    if (!this.isEnabled || entries.length === 0) return
+
+    const { error } = await this.call.admin.rpc('put_ai_cache_entries', {
+      p_workspace_id: this.call.workspaceId,
+      p_request_type: this.requestType,
+      p_category_set: await this.categorySetKey(),
+      p_entries: entries.map(({ merchant, amount, result }) => ({ merchant, amount: amount ?? null, result })),
+      p_ttl_seconds: CACHE_TTL_SECONDS
+    })
+
+    if (error) {
+      console.error('Failed to cache AI answers:', error)
+    }
+  }
+}
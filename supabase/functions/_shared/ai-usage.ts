@@ -0,0 +1,225 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCaller, jsonResponse } from './http.ts'
+import type { LLMProvider } from './llm.ts'
+
+// Authentication, rate limits and usage metering for the AI edge functions.
+// startAICall() checks the caller's session, resolves their workspace, and applies the
+// rate limits while reserving the call's row in ai_usage_events; the AICall it returns
+// meters the AI provider and completes that row when the function finishes
+// (20250811270000_add_ai_usage.sql).
+// Limits are calls per user and per workspace, 0 turns one off:
+// AI_RATE_LIMIT_USER_PER_MINUTE, AI_RATE_LIMIT_USER_PER_DAY,
+// AI_RATE_LIMIT_WORKSPACE_PER_MINUTE, AI_RATE_LIMIT_WORKSPACE_PER_DAY
+
+export type AIFunctionName =
+  | 'ai-categorization'
+  | 'conversational-ai'
+  | 'pdf-processing'
+  | 'receipt-analysis'
+  | 'voice-extraction'
+
+// fallback: answered without the AI provider, because it isn't configured or failed.
+// Rate-limited calls are recorded by reserve_ai_call().
+export type AIUsageOutcome = 'success' | 'fallback' | 'error'
+
+const limitFromEnv = (name: string, fallback: number) => {
+  const value = Deno.env.get(name)?.trim()
+  return value && Number.isFinite(Number(value)) ? Number(value) : fallback
+}
+
+const RATE_LIMITS = [
+  { key: 'user_minute', max: limitFromEnv('AI_RATE_LIMIT_USER_PER_MINUTE', 20), retryAfter: 60, message: 'Too many AI requests, try again in a minute' },
+  { key: 'user_day', max: limitFromEnv('AI_RATE_LIMIT_USER_PER_DAY', 500), retryAfter: 3600, message: 'Daily AI limit reached, try again tomorrow' },
+  { key: 'workspace_minute', max: limitFromEnv('AI_RATE_LIMIT_WORKSPACE_PER_MINUTE', 60), retryAfter: 60, message: 'Your workspace is making too many AI requests, try again in a minute' },
+  { key: 'workspace_day', max: limitFromEnv('AI_RATE_LIMIT_WORKSPACE_PER_DAY', 2000), retryAfter: 3600, message: 'Your workspace reached its daily AI limit, try again tomorrow' }
+] as const
+
+const adminClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+/**
+ * The workspace a call is billed to: the requested one when the caller is a member of it,
+ * otherwise the first workspace they joined. Undefined when the caller isn't a member of
+ * the requested workspace.
+ */
+const resolveWorkspace = async (admin: SupabaseClient, userId: string, requestedWorkspaceId?: string | null) => {
+  let query = admin
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', userId)
+
+  query = requestedWorkspaceId
+    ? query.eq('workspace_id', requestedWorkspaceId)
+    : query.order('joined_at', { ascending: true })
+
+  const { data, error } = await query.limit(1)
+  if (error) throw new Error(`Failed to resolve workspace: ${error.message}`)
+
+  const workspaceId: string | null = data?.[0]?.workspace_id ?? null
+  return requestedWorkspaceId && !workspaceId ? undefined : workspaceId
+}
+
+export class AICall {
+  private readonly startedAt = Date.now()
+  private promptTokens = 0
+  private completionTokens = 0
+  private completions = 0
+  private provider: string | null = null
+  private model: string | null = null
+  private lastError: string | null = null
+  private cacheHits = 0
+  private cacheMisses = 0
+  private eventId: string | null = null
+  private recorded = false
+
+  constructor(
+    readonly functionName: AIFunctionName,
+    readonly userId: string,
+    readonly workspaceId: string | null,
+    // Service role client, also used by the AI result cache
+    readonly admin: SupabaseClient
+  ) {}
+
+  /**
+   * Count answers found in and missing from the AI result cache
+   */
+  countCacheLookups(hits: number, misses: number) {
+    this.cacheHits += hits
+    this.cacheMisses += misses
+  }
+
+  /**
+   * The provider to use for this call: `provider`, adding up the tokens of every completion
+   */
+  meter(provider: LLMProvider): LLMProvider {
+    return {
+      name: provider.name,
+      isConfigured: provider.isConfigured,
+      taskConfig: task => provider.taskConfig(task),
+      complete: async request => {
+        try {
+          const response = await provider.complete(request)
+          this.completions++
+          this.provider = response.provider
+          this.model = response.model
+          this.promptTokens += response.usage?.promptTokens || 0
+          this.completionTokens += response.usage?.completionTokens || 0
+          return response
+        } catch (error) {
+          this.provider = provider.name
+          this.lastError = error instanceof Error ? error.message : String(error)
+          throw error
+        }
+      }
+    }
+  }
+
+  /**
+   * Check the rate limits and reserve this call's usage record in one step, so parallel
+   * calls can't all get under a limit. Returns the limit the call exceeds, already recorded
+   * as rate limited, or null. Throws when usage can't be checked.
+   */
+  async reserve() {
+    const { data, error } = await this.admin.rpc('reserve_ai_call', {
+      p_user_id: this.userId,
+      p_workspace_id: this.workspaceId,
+      p_function_name: this.functionName,
+      p_limits: RATE_LIMITS.map(({ key, max, message }) => ({ key, max, message }))
+    })
+    if (error) throw new Error(`Failed to check AI rate limits: ${error.message}`)
+
+    const reservation: { event_id: string, exceeded_limit: string | null } | undefined = data?.[0]
+    if (!reservation) throw new Error('Failed to check AI rate limits: no usage record reserved')
+
+    this.eventId = reservation.event_id
+    if (!reservation.exceeded_limit) return null
+
+    this.recorded = true
+    return RATE_LIMITS.find(limit => limit.key === reservation.exceeded_limit) || null
+  }
+
+  /**
+   * Complete the reserved usage record; only the first outcome counts. Metering never fails
+   * a call.
+   */
+  async record(outcome: AIUsageOutcome, errorMessage?: string | null) {
+    if (this.recorded || !this.eventId) return
+    this.recorded = true
+
+    const { error } = await this.admin.from('ai_usage_events').update({
+      provider: this.provider,
+      model: this.model,
+      prompt_tokens: this.promptTokens,
+      completion_tokens: this.completionTokens,
+      latency_ms: Date.now() - this.startedAt,
+      outcome,
+      error_message: errorMessage ?? this.lastError,
+      cache_hits: this.cacheHits,
+      cache_misses: this.cacheMisses
+    }).eq('id', this.eventId)
+
+    if (error) {
+      console.error('Failed to record AI usage:', error)
+    }
+  }
+
+  /**
+   * Record the call from the response it ends with and return that response. A successful
+   * response without any completion or cached answer was a fallback answer.
+   */
+  async finish(response: Response) {
+    if (!response.ok) {
+      const body = await response.clone().json().catch(() => null)
+      await this.record('error', body?.message || body?.error || `HTTP ${response.status}`)
+    } else {
+      await this.record(this.completions > 0 || this.cacheHits > 0 ? 'success' : 'fallback')
+    }
+    return response
+  }
+}
+
+/**
+ * Start metering a call to an AI function. Returns the error response to send instead when
+ * the caller isn't signed in, isn't a member of the requested workspace or is over a rate
+ * limit, and refuses calls while the rate limits can't be checked; rate-limited calls are
+ * recorded too.
+ */
+export const startAICall = async (
+  req: Request,
+  functionName: AIFunctionName,
+  requestedWorkspaceId?: string | null
+): Promise<AICall | Response> => {
+  const user = await getCaller(req)
+  if (!user) {
+    return jsonResponse({ error: 'Unauthorized', message: 'Sign in to use AI features' }, 401)
+  }
+
+  const admin = adminClient()
+  const workspaceId = await resolveWorkspace(admin, user.id, requestedWorkspaceId)
+  if (workspaceId === undefined) {
+    return jsonResponse({ error: 'Forbidden', message: 'You are not a member of this workspace' }, 403)
+  }
+
+  const call = new AICall(functionName, user.id, workspaceId, admin)
+  let limit: Awaited<ReturnType<AICall['reserve']>>
+  try {
+    limit = await call.reserve()
+  } catch (error) {
+    console.error(error)
+    return jsonResponse(
+      { error: 'Service unavailable', message: 'AI features are unavailable right now, try again in a minute' },
+      503,
+      { 'Retry-After': '60' }
+    )
+  }
+
+  if (limit) {
+    return jsonResponse(
+      { error: 'Rate limit exceeded', message: limit.message },
+      429,
+      { 'Retry-After': String(limit.retryAfter) }
+    )
+  }
+
+  return call
+}
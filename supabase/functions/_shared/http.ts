@@ -0,0 +1,31 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Request helpers for edge functions called from the app
+
+// ALLOWED_ORIGIN limits browser calls to the app's origin, e.g. https://app.example.com
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') || '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+}
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders, ...headers }
+  })
+
+/**
+ * The signed-in user whose session JWT came with the request, or null. The anon key alone
+ * passes the gateway's JWT check, so functions that spend AI credits check for a user.
+ */
+export const getCaller = async (req: Request) => {
+  const authorization = req.headers.get('Authorization')
+  if (!authorization) return null
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } }
+  })
+  const { data: { user } } = await client.auth.getUser()
+  return user
+}
@@ -0,0 +1,329 @@
+// LLM Provider
+// One chat-completion interface for the edge functions, so prompts don't care which model
+// answers them. Backends:
+// - openai: api.openai.com
+// - local: any OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1) or
+//   llama.cpp's llama-server (http://localhost:8080/v1); no API key needed
+// - mock: canned, deterministic answers for tests and offline development
+// Each task (categorization, receipt analysis, ...) has its own model, temperature, token
+// limit and timeout, all overridable from the environment (see llmConfigFromEnv()).
+// API keys are edge function secrets; nothing here may run in the browser.
+
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+export type LLMTask =
+  | 'categorization'
+  | 'category_suggestions'
+  | 'conversation'
+  | 'voice_extraction'
+  | 'receipt_analysis'
+  | 'pdf_analysis';
+
+export interface LLMTaskConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    // JSON-encoded arguments
+    arguments: string;
+  };
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: LLMToolCall[];
+  tool_call_id?: string;
+}
+
+export interface LLMTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+  // Name of a tool the model must call
+  toolChoice?: string;
+  // Per-call changes to the task's settings
+  overrides?: Partial<LLMTaskConfig>;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  // False when the backend can't be called, e.g. OpenAI without an API key
+  readonly isConfigured: boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // Settings used for a task, after environment overrides
+  taskConfig(task: LLMTask): LLMTaskConfig;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  apiKey?: string | null;
+  // Base URL of the OpenAI-compatible API, up to and including /v1
+  baseUrl?: string | null;
+  // Model for every task that doesn't set its own
+  model?: string | null;
+  tasks?: Partial<Record<LLMTask, Partial<LLMTaskConfig>>>;
+  // Mock answers by task, replacing the defaults in MOCK_RESPONSES
+  mockResponses?: Partial<Record<LLMTask, string>>;
+}
+
+// Models and limits per task when nothing is configured
+export const DEFAULT_TASK_CONFIG: Record<LLMTask, LLMTaskConfig> = {
+  categorization: { model: 'gpt-3.5-turbo', temperature: 0.1, maxTokens: 200, timeoutMs: 15000 },
+  category_suggestions: { model: 'gpt-3.5-turbo', temperature: 0.1, maxTokens: 100, timeoutMs: 10000 },
+  conversation: { model: 'gpt-4o', temperature: 0.3, maxTokens: 800, timeoutMs: 30000 },
+  voice_extraction: { model: 'gpt-3.5-turbo', temperature: 0.1, maxTokens: 300, timeoutMs: 20000 },
+  receipt_analysis: { model: 'gpt-3.5-turbo', temperature: 0.1, maxTokens: 1000, timeoutMs: 30000 },
+  pdf_analysis: { model: 'gpt-4o', temperature: 0.1, maxTokens: 1500, timeoutMs: 60000 }
+};
+
+export const LLM_TASKS = Object.keys(DEFAULT_TASK_CONFIG) as LLMTask[];
+
+const DEFAULT_BASE_URLS: Record<Exclude<LLMProviderName, 'mock'>, string> = {
+  openai: 'https://api.openai.com/v1',
+  local: 'http://localhost:11434/v1'
+};
+
+// Local servers don't have the OpenAI models; this one is in Ollama's library
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+// What the mock provider answers: valid, recognizably fake results for each task
+export const MOCK_RESPONSES: Record<LLMTask, string> = {
+  categorization: JSON.stringify({
+    category: 'Other',
+    confidence: 0.7,
+    reasoning: 'Mock categorization',
+    suggestedPaymentMethod: 'Credit Card'
+  }),
+  category_suggestions: 'Other, Office Supplies, Travel',
+  conversation: JSON.stringify({
+    message: 'Got it. How much was it, and where did you spend it?',
+    extractedData: {},
+    nextStep: 'collecting',
+    isComplete: false,
+    needsUserInput: true
+  }),
+  voice_extraction: JSON.stringify({
+    merchant: 'Mock Merchant',
+    amount: 1,
+    currency: null,
+    description: 'Mock expense',
+    date: null,
+    notes: null,
+    confidence: 0.7
+  }),
+  receipt_analysis: JSON.stringify({
+    merchant: 'Mock Merchant',
+    amount: 1,
+    description: 'Mock receipt',
+    confidence: 0.7,
+    lineItems: []
+  }),
+  pdf_analysis: JSON.stringify({
+    merchant: 'Mock Merchant',
+    amount: 1,
+    description: 'Mock receipt',
+    confidence: 0.7,
+    lineItems: []
+  })
+};
+
+export class LLMError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+const resolveTaskConfig = (config: LLMConfig, task: LLMTask): LLMTaskConfig => {
+  const defaults = DEFAULT_TASK_CONFIG[task];
+  const model = config.tasks?.[task]?.model
+    || config.model
+    || (config.provider === 'local' ? DEFAULT_LOCAL_MODEL : defaults.model);
+  return { ...defaults, ...config.tasks?.[task], model };
+};
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly isConfigured: boolean;
+  private readonly baseUrl: string;
+
+  constructor(readonly name: 'openai' | 'local', private readonly config: LLMConfig) {
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URLS[name]).replace(/\/+$/, '');
+    this.isConfigured = name === 'local' || !!config.apiKey;
+  }
+
+  taskConfig(task: LLMTask) {
+    return resolveTaskConfig(this.config, task);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.isConfigured) {
+      throw new LLMError(`The ${this.name} AI provider is not configured`);
+    }
+
+    const settings = { ...this.taskConfig(request.task), ...request.overrides };
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), settings.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: settings.model,
+          messages: request.messages,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          ...(request.tools ? { tools: request.tools } : {}),
+          ...(request.toolChoice ? { tool_choice: { type: 'function', function: { name: request.toolChoice } } } : {})
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        console.error(`AI provider (${this.name}) error response:`, errorText);
+        throw new LLMError(`AI provider (${this.name}) error: ${response.status} ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      return {
+        content: message?.content ?? null,
+        toolCalls: message?.tool_calls || [],
+        provider: this.name,
+        model: data.model || settings.model,
+        usage: data.usage
+          ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 }
+          : null
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new LLMError(`AI provider (${this.name}) timed out after ${settings.timeoutMs}ms on ${request.task}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly isConfigured = true;
+  // Every request answered, oldest first, for assertions in tests
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private readonly config: LLMConfig) {}
+
+  taskConfig(task: LLMTask) {
+    return { ...resolveTaskConfig(this.config, task), model: 'mock' };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    const content = this.config.mockResponses?.[request.task] ?? MOCK_RESPONSES[request.task];
+
+    // A forced tool call gets the canned answer as its arguments
+    const toolCalls: LLMToolCall[] = request.toolChoice
+      ? [{ id: `mock-${this.requests.length}`, type: 'function', function: { name: request.toolChoice, arguments: content } }]
+      : [];
+
+    return {
+      content: request.toolChoice ? null : content,
+      toolCalls,
+      provider: this.name,
+      model: 'mock',
+      usage: { promptTokens: 0, completionTokens: 0 }
+    };
+  }
+}
+
+/**
+ * Provider for a configuration
+ */
+export const createLLMProvider = (config: LLMConfig): LLMProvider =>
+  config.provider === 'mock' ? new MockProvider(config) : new OpenAICompatibleProvider(config.provider, config);
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Configuration from environment variables, read with an optional `prefix`:
+ * - LLM_PROVIDER: openai (default), local or mock
+ * - LLM_BASE_URL: API base URL for openai or local
+ * - LLM_API_KEY, or OPENAI_API_KEY
+ * - LLM_MODEL: model for all tasks
+ * - LLM_<TASK>_MODEL, _TEMPERATURE, _MAX_TOKENS, _TIMEOUT_MS: per task, e.g.
+ *   LLM_RECEIPT_ANALYSIS_MODEL
+ */
+export const llmConfigFromEnv = (env: Record<string, string | undefined>, prefix = ''): LLMConfig => {
+  const get = (name: string) => env[`${prefix}${name}`]?.trim() || undefined;
+  const provider = get('LLM_PROVIDER')?.toLowerCase();
+
+  const tasks: Partial<Record<LLMTask, Partial<LLMTaskConfig>>> = {};
+  LLM_TASKS.forEach(task => {
+    const key = `LLM_${task.toUpperCase()}`;
+    const overrides: Partial<LLMTaskConfig> = {
+      model: get(`${key}_MODEL`),
+      temperature: toNumber(get(`${key}_TEMPERATURE`)),
+      maxTokens: toNumber(get(`${key}_MAX_TOKENS`)),
+      timeoutMs: toNumber(get(`${key}_TIMEOUT_MS`))
+    };
+    const set = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    if (Object.keys(set).length > 0) tasks[task] = set;
+  });
+
+  return {
+    provider: provider === 'local' || provider === 'mock' ? provider : 'openai',
+    apiKey: get('LLM_API_KEY') || get('OPENAI_API_KEY') || null,
+    baseUrl: get('LLM_BASE_URL') || null,
+    model: get('LLM_MODEL') || null,
+    tasks
+  };
+};
+
+/**
+ * Parse a JSON answer, tolerating the ```json fences some models wrap it in
+ */
+export const parseJsonContent = <T = unknown>(content: string | null): T => {
+  const clean = (content || '').replace(/```json\s*|\s*```/g, '').trim();
+  return JSON.parse(clean) as T;
+};
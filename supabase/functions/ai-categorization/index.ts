@@ -1,7 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/http.ts'
+import { createLLMProvider, llmConfigFromEnv, parseJsonContent, LLMProvider } from '../_shared/llm.ts'
+import { AICall, startAICall } from '../_shared/ai-usage.ts'
+import { AIResultCache } from '../_shared/ai-cache.ts'
 
-// Default categories that the AI can choose from
+const provider = createLLMProvider(llmConfigFromEnv(Deno.env.toObject()))
+
+// Categories the AI chooses from when the request doesn't send the workspace's own
 const DEFAULT_CATEGORIES = [
   'Food & Dining',
   'Transportation',
@@ -34,6 +40,8 @@ const PAYMENT_METHOD_PATTERNS = {
 };
 
 interface ExpenseContext {
+  // Workspace the expense belongs to; usage is billed to it
+  workspaceId?: string;
   merchant: string;
   amount: number;
   currency: string;
@@ -42,7 +50,23 @@ interface ExpenseContext {
   notes?: string;
 }
 
+// One of the workspace's categories (global_categories.id); without them, the default
+// category names double as ids
+interface CategoryOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+interface CategorySuggestion {
+  categoryId: string;
+  category: string;
+}
+
 interface AICategorizationResult {
+  // The chosen category, always one of those offered; null when a fallback answer
+  // matches none of them
+  categoryId: string | null;
   category: string;
   confidence: number;
   reasoning: string;
@@ -52,266 +76,222 @@ interface AICategorizationResult {
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
-    return new Response('ok', {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      }
-    })
+    return new Response('ok', { headers: corsHeaders })
   }
 
+  let call: AICall | undefined
+
   try {
     // Verify the request method
     if (req.method !== 'POST') {
-      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-        status: 405,
-        headers: { 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ error: 'Method not allowed' }, 405)
     }
 
     // Get the request body
     const body = await req.json()
     const { expense, expenses, requestType } = body
+    const categories = categoryOptions(body.categories)
+
+    // Check the caller and their rate limits
+    const started = await startAICall(req, 'ai-categorization', (expense || expenses?.[0])?.workspaceId)
+    if (started instanceof Response) return started
+    call = started
+    const llm = call.meter(provider)
+    const categorySet = categories.map(category => `${category.id}:${category.name}`)
+    const categorizationCache = new AIResultCache(call, 'categorization', categorySet)
     
     // Handle different request types
     if (requestType === 'batch' && Array.isArray(expenses)) {
-      return await handleBatchCategorization(expenses)
+      return await call.finish(await handleBatchCategorization(llm, categorizationCache, categories, expenses))
     } else if (requestType === 'suggestions' && expense) {
-      return await handleCategorySuggestions(expense)
+      const suggestionsCache = new AIResultCache(call, 'suggestions', categorySet)
+      return await call.finish(await handleCategorySuggestions(llm, suggestionsCache, categories, expense))
     } else if (expense && expense.merchant) {
-      return await handleSingleCategorization(expense)
+      return await call.finish(await handleSingleCategorization(llm, categorizationCache, categories, expense))
     } else {
-      return new Response(JSON.stringify({ error: 'Invalid request format' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      })
+      return await call.finish(jsonResponse({ error: 'Invalid request format' }, 400))
     }
 
   } catch (error) {
     console.error('Error in AI categorization:', error)
     
-    return new Response(JSON.stringify({ 
+    const response = jsonResponse({
       error: 'Categorization failed',
       message: error.message || 'Unknown error'
-    }), {
-      status: 500,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    }, 500)
+    return call ? await call.finish(response) : response
   }
 })
 
-async function handleSingleCategorization(expense: ExpenseContext) {
-  // Get OpenAI API key from environment
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-  
-  if (!openaiApiKey) {
-    // Fallback to rule-based categorization if no API key
-    const fallbackResult = fallbackCategorization(expense)
-    return new Response(JSON.stringify(fallbackResult), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+/**
+ * The categories sent with the request, or the default ones. Entries without an id or
+ * name are dropped.
+ */
+function categoryOptions(categories: unknown): CategoryOption[] {
+  const options = Array.isArray(categories)
+    ? categories
+      .filter(category => typeof category?.id === 'string' && typeof category?.name === 'string' && category.name.trim())
+      .map(category => ({
+        id: category.id,
+        name: category.name.trim(),
+        description: typeof category.description === 'string' ? category.description.trim() : undefined
+      }))
+    : []
+
+  return options.length > 0 ? options : DEFAULT_CATEGORIES.map(name => ({ id: name, name }))
+}
+
+async function handleSingleCategorization(llm: LLMProvider, cache: AIResultCache, categories: CategoryOption[], expense: ExpenseContext) {
+  // Answered before for this merchant and a similar amount
+  const [cached] = await cache.get<AICategorizationResult>([expense])
+  if (cached) {
+    return jsonResponse(cached)
+  }
+
+  if (!llm.isConfigured) {
+    // Fallback to rule-based categorization if no AI provider
+    const fallbackResult = fallbackCategorization(categories, expense)
+    return jsonResponse(fallbackResult)
   }
 
   try {
-    // Call OpenAI for categorization
-    const aiResult = await categorizeWithOpenAI(expense, openaiApiKey)
+    const aiResult = await categorizeWithAI(llm, categories, expense)
+    await cache.put([{ merchant: expense.merchant, amount: expense.amount, result: aiResult }])
     
-    return new Response(JSON.stringify(aiResult), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    return jsonResponse(aiResult)
   } catch (error) {
-    console.error('OpenAI categorization failed:', error)
+    console.error('AI categorization failed:', error)
     // Fallback to rule-based categorization
-    const fallbackResult = fallbackCategorization(expense)
-    return new Response(JSON.stringify(fallbackResult), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    const fallbackResult = fallbackCategorization(categories, expense)
+    return jsonResponse(fallbackResult)
   }
 }
 
-async function handleBatchCategorization(expenses: ExpenseContext[]) {
-  // Get OpenAI API key from environment
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-  
-  if (!openaiApiKey) {
-    // Fallback to rule-based categorization for all expenses
-    const fallbackResults = expenses.map(expense => fallbackCategorization(expense))
-    return new Response(JSON.stringify(fallbackResults), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+async function handleBatchCategorization(llm: LLMProvider, cache: AIResultCache, categories: CategoryOption[], expenses: ExpenseContext[]) {
+  const cached = await cache.get<AICategorizationResult>(expenses)
+
+  if (!llm.isConfigured) {
+    // Fallback to rule-based categorization for the expenses that weren't cached
+    const fallbackResults = expenses.map((expense, index) => cached[index] || fallbackCategorization(categories, expense))
+    return jsonResponse(fallbackResults)
   }
 
   try {
+    const answered: Array<{ merchant: string; amount: number; result: AICategorizationResult }> = []
+
     // Process expenses in parallel for better performance
-    const categorizationPromises = expenses.map(async (expense) => {
+    const categorizationPromises = expenses.map(async (expense, index) => {
+      const cachedResult = cached[index]
+      if (cachedResult) return cachedResult
+
       try {
-        return await categorizeWithOpenAI(expense, openaiApiKey)
+        const result = await categorizeWithAI(llm, categories, expense)
+        answered.push({ merchant: expense.merchant, amount: expense.amount, result })
+        return result
       } catch (error) {
         console.error(`Failed to categorize expense for ${expense.merchant}:`, error)
-        return fallbackCategorization(expense)
+        return fallbackCategorization(categories, expense)
       }
     })
 
     const results = await Promise.all(categorizationPromises)
+    await cache.put(answered)
     
-    return new Response(JSON.stringify(results), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    return jsonResponse(results)
   } catch (error) {
     console.error('Batch categorization failed:', error)
     // Fallback to rule-based categorization for all expenses
-    const fallbackResults = expenses.map(expense => fallbackCategorization(expense))
-    return new Response(JSON.stringify(fallbackResults), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    const fallbackResults = expenses.map(expense => fallbackCategorization(categories, expense))
+    return jsonResponse(fallbackResults)
   }
 }
 
-async function handleCategorySuggestions(expense: ExpenseContext) {
-  // Get OpenAI API key from environment
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-  
-  if (!openaiApiKey) {
+async function handleCategorySuggestions(llm: LLMProvider, cache: AIResultCache, categories: CategoryOption[], expense: ExpenseContext) {
+  // Suggestions only depend on the merchant
+  const [cached] = await cache.get<{ suggestions: CategorySuggestion[] }>([{ merchant: expense.merchant }])
+  if (cached) {
+    return jsonResponse(cached)
+  }
+
+  if (!llm.isConfigured) {
     // Fallback to rule-based suggestions
-    const fallbackSuggestions = getFallbackSuggestions(expense.merchant)
-    return new Response(JSON.stringify({ suggestions: fallbackSuggestions }), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    const fallbackSuggestions = getFallbackSuggestions(categories, expense.merchant)
+    return jsonResponse({ suggestions: fallbackSuggestions })
   }
 
   try {
     // Create a prompt for category suggestions
-    const prompt = `Given this merchant name: "${expense.merchant}", suggest the top 3 most likely expense categories from this list: ${DEFAULT_CATEGORIES.join(', ')}. Respond with just the category names separated by commas.`
+    const prompt = `Given this merchant name: "${expense.merchant}", suggest the top 3 most likely expense categories from this list (id: name):
+${categories.map(category => `- ${category.id}: ${category.name}`).join('\n')}
+
+Respond with just the category ids separated by commas.`
     
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expense categorization expert. Respond with category names separated by commas.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 100
-      })
+    const response = await llm.complete({
+      task: 'category_suggestions',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expense categorization expert. Respond with category ids separated by commas.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
     })
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    const aiResponse = data.choices[0]?.message?.content || ''
+    const aiResponse = response.content || ''
     
-    // Parse the suggestions
-    const suggestions = aiResponse.split(',').map(s => s.trim()).filter(s => DEFAULT_CATEGORIES.includes(s))
+    // Parse the suggestions, dropping ids that weren't offered
+    const suggestions = [...new Set(aiResponse.split(',').map(s => s.trim()))]
+      .map(id => categories.find(category => category.id === id))
+      .filter((category): category is CategoryOption => !!category)
+      .map(category => ({ categoryId: category.id, category: category.name }))
     
+    if (suggestions.length > 0) {
+      await cache.put([{ merchant: expense.merchant, result: { suggestions: suggestions.slice(0, 3) } }])
+    }
+
     // Ensure we have at least 3 suggestions
-    const finalSuggestions = suggestions.length > 0 ? suggestions : getFallbackSuggestions(expense.merchant)
+    const finalSuggestions = suggestions.length > 0 ? suggestions : getFallbackSuggestions(categories, expense.merchant)
     
-    return new Response(JSON.stringify({ suggestions: finalSuggestions.slice(0, 3) }), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    return jsonResponse({ suggestions: finalSuggestions.slice(0, 3) })
   } catch (error) {
     console.error('AI suggestions failed:', error)
     // Fallback to rule-based suggestions
-    const fallbackSuggestions = getFallbackSuggestions(expense.merchant)
-    return new Response(JSON.stringify({ suggestions: fallbackSuggestions }), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    const fallbackSuggestions = getFallbackSuggestions(categories, expense.merchant)
+    return jsonResponse({ suggestions: fallbackSuggestions })
   }
 }
 
-async function categorizeWithOpenAI(expense: ExpenseContext, apiKey: string): Promise<AICategorizationResult> {
-  const prompt = buildPrompt(expense)
+async function categorizeWithAI(llm: LLMProvider, categories: CategoryOption[], expense: ExpenseContext): Promise<AICategorizationResult> {
+  const prompt = buildPrompt(categories, expense)
   
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expense categorization expert. Always respond with valid JSON.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.1,
-      max_tokens: 200
-    })
+  const response = await llm.complete({
+    task: 'categorization',
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expense categorization expert. Always respond with valid JSON.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ]
   })
 
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`)
-  }
-
-  const data = await response.json()
-  const aiResponse = data.choices[0]?.message?.content || ''
-  
-  return parseAIResponse(aiResponse)
+  return parseAIResponse(categories, response.content || '')
 }
 
-function buildPrompt(expense: ExpenseContext): string {
-  const categories = DEFAULT_CATEGORIES.join(', ')
+function buildPrompt(categories: CategoryOption[], expense: ExpenseContext): string {
+  const categoryList = categories
+    .map(category => `- id: ${category.id}, name: ${category.name}${category.description ? `, description: ${category.description}` : ''}`)
+    .join('\n')
+  const otherCategory = findCategory(categories, 'Other')
   
-  return `You are an expense categorization expert. Analyze the following expense and categorize it into one of these categories: ${categories}
+  return `You are an expense categorization expert. Analyze the following expense and categorize it into one of these categories:
+${categoryList}
 
 Expense Details:
 - Merchant: ${expense.merchant}
@@ -322,22 +302,24 @@ Expense Details:
 
 Please respond in this exact JSON format:
 {
-  "category": "exact_category_name_from_list",
+  "categoryId": "exact_category_id_from_list",
+  "category": "name_of_that_category",
   "confidence": 0.95,
   "reasoning": "Brief explanation of why this category was chosen",
   "suggestedPaymentMethod": "Credit Card"
 }
 
 Rules:
-1. Choose the most specific and appropriate category from the list
+1. Choose the most specific and appropriate category from the list, using its description when it has one; categoryId must be one of the listed ids
 2. Confidence should be between 0.7 and 1.0
 3. Reasoning should be clear and concise
 4. Suggested payment method should be one of: Credit Card, Debit Card, Cash, Bank Transfer, Digital Wallet
-5. If the expense doesn't clearly fit any category, use "Other" with lower confidence
+5. If the expense doesn't clearly fit any category, ${otherCategory ? `use "${otherCategory.name}" (id ${otherCategory.id})` : 'use the closest one'} with lower confidence
 6. Use the description field as the primary source for categorization when available
 
 Example response:
 {
+  "categoryId": "id_of_the_transportation_category",
   "category": "Transportation",
   "confidence": 0.95,
   "reasoning": "Ride-sharing service based on merchant 'Uber' and description 'Ride from airport to downtown'",
@@ -345,26 +327,24 @@ Example response:
 }`
 }
 
-function parseAIResponse(response: string): AICategorizationResult {
+function parseAIResponse(categories: CategoryOption[], response: string): AICategorizationResult {
   try {
-    // Clean the response (remove markdown formatting if present)
-    const cleanResponse = response.replace(/```json\s*|\s*```/g, '').trim()
-    const parsed = JSON.parse(cleanResponse)
+    const parsed = parseJsonContent<AICategorizationResult>(response)
     
     // Validate the response
-    if (!parsed.category || !parsed.confidence || !parsed.reasoning) {
+    if (!parsed.categoryId || !parsed.confidence || !parsed.reasoning) {
       throw new Error('Invalid AI response format')
     }
 
-    // Ensure category is from our allowed list
-    if (!DEFAULT_CATEGORIES.includes(parsed.category)) {
-      parsed.category = 'Other'
-      parsed.confidence = Math.max(parsed.confidence * 0.8, 0.7)
-      parsed.reasoning = `AI suggested "${parsed.category}" but it's not in our category list, so using "Other"`
+    // Reject categories that weren't offered; the caller falls back instead
+    const category = categories.find(option => option.id === parsed.categoryId)
+    if (!category) {
+      throw new Error(`AI chose category "${parsed.categoryId}", which isn't one of the workspace's categories`)
     }
 
     return {
-      category: parsed.category,
+      categoryId: category.id,
+      category: category.name,
       confidence: Math.max(0.7, Math.min(1.0, parsed.confidence)),
       reasoning: parsed.reasoning,
       suggestedPaymentMethod: parsed.suggestedPaymentMethod
@@ -375,7 +355,14 @@ function parseAIResponse(response: string): AICategorizationResult {
   }
 }
 
-function fallbackCategorization(expense: ExpenseContext): AICategorizationResult {
+/**
+ * The offered category with this name, ignoring case
+ */
+function findCategory(categories: CategoryOption[], name: string) {
+  return categories.find(category => category.name.toLowerCase() === name.toLowerCase())
+}
+
+function fallbackCategorization(categories: CategoryOption[], expense: ExpenseContext): AICategorizationResult {
   const merchant = expense.merchant.toLowerCase()
   const amount = expense.amount
 
@@ -423,15 +410,19 @@ function fallbackCategorization(expense: ExpenseContext): AICategorizationResult
   // Payment method suggestion based on category
   const suggestedPaymentMethod = PAYMENT_METHOD_PATTERNS[category as keyof typeof PAYMENT_METHOD_PATTERNS]?.[0] || 'Credit Card'
 
+  // The pattern's category when the workspace has it, otherwise its "Other" category
+  const match = findCategory(categories, category) || findCategory(categories, 'Other')
+
   return {
-    category,
+    categoryId: match?.id ?? null,
+    category: match?.name ?? category,
     confidence,
     reasoning,
     suggestedPaymentMethod
   }
 }
 
-function getFallbackSuggestions(merchant: string): string[] {
+function getFallbackSuggestions(categories: CategoryOption[], merchant: string): CategorySuggestion[] {
   const merchantLower = merchant.toLowerCase();
   const suggestions: string[] = [];
 
@@ -489,5 +480,9 @@ function getFallbackSuggestions(merchant: string): string[] {
     suggestions.push('Taxes');
   }
 
-  return suggestions;
+  // Only the workspace's own categories can be suggested
+  return suggestions
+    .map(name => findCategory(categories, name))
+    .filter((category): category is CategoryOption => !!category)
+    .map(category => ({ categoryId: category.id, category: category.name }));
 }
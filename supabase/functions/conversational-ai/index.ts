@@ -1,4 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/http.ts'
+import { createLLMProvider, llmConfigFromEnv, LLMProvider } from '../_shared/llm.ts'
+import { AICall, startAICall } from '../_shared/ai-usage.ts'
+
+const provider = createLLMProvider(llmConfigFromEnv(Deno.env.toObject()))
 
 interface ConversationContext {
   messages: Array<{
@@ -39,67 +44,50 @@ interface ConversationResponse {
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
-    return new Response('ok', {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      }
-    })
+    return new Response('ok', { headers: corsHeaders })
   }
 
+  let call: AICall | undefined
+
   try {
     if (req.method !== 'POST') {
-      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-        status: 405,
-        headers: { 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ error: 'Method not allowed' }, 405)
     }
 
     const body = await req.json()
-    const { userMessage, context, requestType } = body
+    const { userMessage, context, workspaceId, requestType } = body
+
+    // Check the caller and their rate limits
+    const started = await startAICall(req, 'conversational-ai', workspaceId)
+    if (started instanceof Response) return started
+    call = started
     
     if (requestType !== 'conversation' || !userMessage || !context) {
-      return new Response(JSON.stringify({ error: 'Invalid request format' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      })
+      return await call.finish(jsonResponse({ error: 'Invalid request format' }, 400))
     }
 
-    const response = await processConversation(userMessage, context)
+    const response = await processConversation(call.meter(provider), userMessage, context)
     
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    return await call.finish(jsonResponse(response))
 
   } catch (error) {
     console.error('Error in conversational AI:', error)
     
-    return new Response(JSON.stringify({ 
+    const response = jsonResponse({
       error: 'Conversation processing failed',
       message: error.message || 'Unknown error'
-    }), {
-      status: 500,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    }, 500)
+    return call ? await call.finish(response) : response
   }
 })
 
 async function processConversation(
+  llm: LLMProvider,
   userMessage: string, 
   context: ConversationContext
 ): Promise<ConversationResponse> {
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-  
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not configured')
+  if (!llm.isConfigured) {
+    throw new Error('AI provider not configured')
   }
 
   // Build the conversation history
@@ -115,91 +103,77 @@ async function processConversation(
   const systemPrompt = buildConversationPrompt(context)
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          ...messages.slice(-10) // Keep last 10 messages for context
-        ],
-        temperature: 0.3,
-        max_tokens: 800,
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'process_expense_conversation',
-              description: 'Process user message and extract expense information',
-              parameters: {
-                type: 'object',
-                properties: {
-                  message: {
-                    type: 'string',
-                    description: 'Natural response to the user'
-                  },
-                  extractedData: {
-                    type: 'object',
-                    properties: {
-                      amount: { type: 'string', description: 'Expense amount (numbers only)' },
-                      merchant: { type: 'string', description: 'Merchant or business name' },
-                      description: { type: 'string', description: 'What was purchased' },
-                      date: { type: 'string', description: 'Date in YYYY-MM-DD format' },
-                      category: { type: 'string', description: 'Expense category' },
-                      notes: { type: 'string', description: 'Additional notes' }
-                    }
-                  },
-                  nextStep: {
-                    type: 'string',
-                    enum: ['initial', 'collecting', 'confirming', 'editing', 'complete'],
-                    description: 'Next conversation step'
-                  },
-                  isComplete: {
-                    type: 'boolean',
-                    description: 'Whether expense is ready to save'
-                  },
-                  needsUserInput: {
-                    type: 'boolean',
-                    description: 'Whether user input is needed'
-                  },
-                  suggestedActions: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Suggested actions for the user'
+    const response = await llm.complete({
+      task: 'conversation',
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        ...messages.slice(-10) // Keep last 10 messages for context
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'process_expense_conversation',
+            description: 'Process user message and extract expense information',
+            parameters: {
+              type: 'object',
+              properties: {
+                message: {
+                  type: 'string',
+                  description: 'Natural response to the user'
+                },
+                extractedData: {
+                  type: 'object',
+                  properties: {
+                    amount: { type: 'string', description: 'Expense amount (numbers only)' },
+                    merchant: { type: 'string', description: 'Merchant or business name' },
+                    description: { type: 'string', description: 'What was purchased' },
+                    date: { type: 'string', description: 'Date in YYYY-MM-DD format' },
+                    category: { type: 'string', description: 'Expense category' },
+                    notes: { type: 'string', description: 'Additional notes' }
                   }
                 },
-                required: ['message', 'extractedData', 'nextStep', 'isComplete', 'needsUserInput']
-              }
+                nextStep: {
+                  type: 'string',
+                  enum: ['initial', 'collecting', 'confirming', 'editing', 'complete'],
+                  description: 'Next conversation step'
+                },
+                isComplete: {
+                  type: 'boolean',
+                  description: 'Whether expense is ready to save'
+                },
+                needsUserInput: {
+                  type: 'boolean',
+                  description: 'Whether user input is needed'
+                },
+                suggestedActions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Suggested actions for the user'
+                }
+              },
+              required: ['message', 'extractedData', 'nextStep', 'isComplete', 'needsUserInput']
             }
           }
-        ],
-        tool_choice: { type: 'function', function: { name: 'process_expense_conversation' } }
-      })
+        }
+      ],
+      toolChoice: 'process_expense_conversation'
     })
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    console.log('OpenAI raw response:', JSON.stringify(data, null, 2))
+    console.log(`AI raw response (${response.provider}/${response.model}):`, JSON.stringify(response, null, 2))
     
-    const toolCalls = data.choices[0]?.message?.tool_calls
+    const toolCalls = response.toolCalls
     
-    if (!toolCalls || toolCalls.length === 0) {
-      throw new Error('No tool calls in OpenAI response')
+    if (toolCalls.length === 0) {
+      throw new Error('No tool calls in AI response')
     }
     
     const functionCall = toolCalls[0]?.function
     if (!functionCall || functionCall.name !== 'process_expense_conversation') {
-      throw new Error('Invalid OpenAI response format')
+      throw new Error('Invalid AI response format')
     }
 
     const result = JSON.parse(functionCall.arguments)
@@ -219,7 +193,7 @@ async function processConversation(
     }
 
   } catch (error) {
-    console.error('OpenAI conversation processing failed:', error)
+    console.error('AI conversation processing failed:', error)
     throw error
   }
 }
@@ -1,10 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import * as pdfParse from "https://esm.sh/pdf-parse@1.1.1"
+import { corsHeaders, jsonResponse } from '../_shared/http.ts'
+import { createLLMProvider, llmConfigFromEnv, parseJsonContent, LLMProvider } from '../_shared/llm.ts'
+import { AICall, startAICall } from '../_shared/ai-usage.ts'
+
+const provider = createLLMProvider(llmConfigFromEnv(Deno.env.toObject()))
 
 interface PDFProcessingRequest {
   fileData: string; // base64-encoded PDF data
   fileName: string;
-  userId?: string;
+  // Workspace the receipt belongs to; usage is billed to it
+  workspaceId?: string;
+}
+
+interface ReceiptLineItem {
+  name: string;
+  quantity: number | null;
+  unit_price: number | null;
+  total: number;
 }
 
 interface PDFProcessingResult {
@@ -15,104 +28,86 @@ interface PDFProcessingResult {
   notes?: string;
   confidence: number;
   extractedText: string;
+  lineItems: ReceiptLineItem[];
+  subtotal?: number;
+  tax?: number;
+  tip?: number;
+  discount?: number;
+  vendorGstin?: string;
+  hsnSacCode?: string;
+  gstRate?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
+  taxInclusive?: boolean;
 }
 
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
-    return new Response('ok', {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      }
-    })
+    return new Response('ok', { headers: corsHeaders })
   }
 
+  let call: AICall | undefined
+
   try {
     // Verify the request method
     if (req.method !== 'POST') {
-      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-        status: 405,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      })
+      return jsonResponse({ error: 'Method not allowed' }, 405)
     }
 
     // Get the request body
     const body = await req.json()
-    const { fileData, fileName, userId }: PDFProcessingRequest = body
+    const { fileData, fileName, workspaceId }: PDFProcessingRequest = body
+
+    // Check the caller and their rate limits
+    const started = await startAICall(req, 'pdf-processing', workspaceId)
+    if (started instanceof Response) return started
+    call = started
     
     // Validate required fields
     if (!fileData || !fileName) {
-      return new Response(JSON.stringify({ 
+      return await call.finish(jsonResponse({
         error: 'Missing required fields',
         message: 'fileData and fileName are required'
-      }), {
-        status: 400,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      })
+      }, 400))
     }
 
-    // Get OpenAI API key from environment (only needed for AI analysis)
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-    
-    if (!openaiApiKey) {
-      return new Response(JSON.stringify({ 
-        error: 'OpenAI API key not configured',
-        message: 'Please configure OPENAI_API_KEY environment variable for AI analysis'
-      }), {
-        status: 500,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      })
+    // The AI provider is needed for analysis
+    if (!provider.isConfigured) {
+      return await call.finish(jsonResponse({
+        error: 'AI provider not configured',
+        message: 'Please configure OPENAI_API_KEY, or LLM_PROVIDER for a local model, for AI analysis'
+      }, 500))
     }
 
     // Process the PDF
-    const result = await processPDFWithPdfParse(fileData, fileName, openaiApiKey, userId)
+    const result = await processPDFWithPdfParse(call.meter(provider), fileData, fileName, call.userId)
     
-    return new Response(JSON.stringify(result), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    return await call.finish(jsonResponse(result))
 
   } catch (error) {
     console.error('Error in PDF processing:', error)
     
-    return new Response(JSON.stringify({ 
+    const response = jsonResponse({
       error: 'PDF processing failed',
       message: error.message || 'Unknown error occurred during PDF processing'
-    }), {
-      status: 500,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    })
+    }, 500)
+    return call ? await call.finish(response) : response
   }
 })
 
 async function processPDFWithPdfParse(
+  llm: LLMProvider,
   fileData: string, 
   fileName: string, 
-  apiKey: string, 
   userId?: string
 ): Promise<PDFProcessingResult> {
   try {
     console.log(`📄 Processing PDF: ${fileName} for user: ${userId || 'anonymous'}`)
     
     // Step 1: Extract text from PDF using pdf-parse
-    const extractedText = await extractTextFromPDF(fileData, apiKey)
+    const extractedText = await extractTextFromPDF(fileData)
     
     if (!extractedText || extractedText.trim().length === 0) {
       throw new Error('No text could be extracted from the PDF')
@@ -121,7 +116,7 @@ async function processPDFWithPdfParse(
     console.log('📝 Extracted text length:', extractedText.length)
     
     // Step 2: Analyze the extracted text for receipt data using AI
-    const receiptData = await analyzeReceiptText(extractedText, apiKey)
+    const receiptData = await analyzeReceiptText(llm, extractedText)
     
     console.log('✅ PDF processing completed successfully')
     return {
@@ -139,12 +134,13 @@ async function processPDFWithPdfParse(
       description: 'Could not process receipt',
       confidence: 0.7,
       extractedText: '',
+      lineItems: [],
       notes: `Processing failed: ${error.message}`
     }
   }
 }
 
-async function extractTextFromPDF(fileData: string, apiKey: string): Promise<string> {
+async function extractTextFromPDF(fileData: string): Promise<string> {
   try {
     console.log('📄 Extracting text from PDF using pdf-parse...')
     
@@ -173,7 +169,7 @@ async function extractTextFromPDF(fileData: string, apiKey: string): Promise<str
   }
 }
 
-async function analyzeReceiptText(text: string, apiKey: string): Promise<Omit<PDFProcessingResult, 'extractedText'>> {
+async function analyzeReceiptText(llm: LLMProvider, text: string): Promise<Omit<PDFProcessingResult, 'extractedText'>> {
   const prompt = `You are a receipt analysis expert. Analyze the following extracted text from a receipt/invoice and extract structured information.
 
 Extracted Text:
@@ -186,7 +182,21 @@ Please respond in this exact JSON format:
   "description": "Brief description of what was purchased",
   "date": "2024-01-15",
   "notes": "Any additional relevant information",
-  "confidence": 0.95
+  "confidence": 0.95,
+  "lineItems": [
+    { "name": "Item name", "quantity": 2, "unit_price": 10.00, "total": 20.00 }
+  ],
+  "subtotal": 110.00,
+  "tax": 13.45,
+  "tip": 0,
+  "discount": 0,
+  "vendorGstin": "27AAPFU0939F1ZV",
+  "hsnSacCode": "998314",
+  "gstRate": 18,
+  "cgst": 9.9,
+  "sgst": 9.9,
+  "igst": 0,
+  "taxInclusive": false
 }
 
 Rules:
@@ -196,6 +206,10 @@ Rules:
 4. date: Extract date in YYYY-MM-DD format (optional, omit if not clear)
 5. notes: Any additional relevant information like payment method, tax info, etc. (optional)
 6. confidence: Your confidence in the extraction (0.7-1.0, required)
+7. lineItems: Every purchased item with its name and line total; quantity and unit_price are null when not printed (use [] if no items are listed)
+8. subtotal, tax, tip, discount: Those amounts as printed on the receipt (omit any that are absent; add up multiple taxes)
+9. vendorGstin, hsnSacCode, gstRate, cgst, sgst, igst: GST details of Indian invoices as printed (omit any that are absent; gstRate is CGST + SGST combined, or IGST)
+10. taxInclusive: true if the item prices already include the tax, false if it is added on top
 
 Important:
 - If you can't find a clear total amount, use the largest monetary value you can identify
@@ -204,46 +218,27 @@ Important:
 - Only include date if you're confident about it
 - Set confidence lower if the text is unclear or incomplete`
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a receipt analysis expert. Always respond with valid JSON in the exact format requested.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.1,
-      max_tokens: 500
-    })
+  const response = await llm.complete({
+    task: 'pdf_analysis',
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a receipt analysis expert. Always respond with valid JSON in the exact format requested.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ]
   })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('OpenAI analysis API error:', response.status, errorText)
-    throw new Error(`OpenAI analysis API error: ${response.status} ${response.statusText}`)
-  }
-
-  const data = await response.json()
-  const aiResponse = data.choices[0]?.message?.content || ''
-  
-  return parseReceiptAnalysis(aiResponse)
+  return parseReceiptAnalysis(response.content || '')
 }
 
 function parseReceiptAnalysis(response: string): Omit<PDFProcessingResult, 'extractedText'> {
   try {
-    // Clean the response (remove markdown formatting if present)
-    const cleanResponse = response.replace(/```json\s*|\s*```/g, '').trim()
-    const parsed = JSON.parse(cleanResponse)
+    // Nothing in the AI's answer can be trusted until it's been checked
+    const parsed = parseJsonContent<Record<string, unknown>>(response)
     
     // Validate required fields
     if (!parsed.merchant || typeof parsed.amount !== 'number' || !parsed.description || typeof parsed.confidence !== 'number') {
@@ -255,7 +250,8 @@ function parseReceiptAnalysis(response: string): Omit<PDFProcessingResult, 'extr
       merchant: String(parsed.merchant).trim() || 'Unknown',
       amount: Math.max(0, Number(parsed.amount) || 0),
       description: String(parsed.description).trim() || 'Receipt processing',
-      confidence: Math.max(0.7, Math.min(1.0, Number(parsed.confidence) || 0.7))
+      confidence: Math.max(0.7, Math.min(1.0, Number(parsed.confidence) || 0.7)),
+      lineItems: parseLineItems(parsed.lineItems)
     }
 
     // Add optional fields if present and valid
@@ -274,6 +270,27 @@ function parseReceiptAnalysis(response: string): Omit<PDFProcessingResult, 'extr
       }
     }
 
+    for (const key of ['subtotal', 'tax', 'tip', 'discount', 'gstRate', 'cgst', 'sgst', 'igst'] as const) {
+      const amount = toAmount(parsed[key])
+      if (amount !== null) {
+        result[key] = amount
+      }
+    }
+
+    const gstin = String(parsed.vendorGstin ?? '').replace(/\s+/g, '').toUpperCase()
+    if (/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) {
+      result.vendorGstin = gstin
+    }
+
+    const hsnSacCode = String(parsed.hsnSacCode ?? '').replace(/\D/g, '')
+    if (/^[0-9]{4,8}$/.test(hsnSacCode)) {
+      result.hsnSacCode = hsnSacCode
+    }
+
+    if (typeof parsed.taxInclusive === 'boolean') {
+      result.taxInclusive = parsed.taxInclusive
+    }
+
     return result
     
   } catch (error) {
@@ -286,10 +303,34 @@ function parseReceiptAnalysis(response: string): Omit<PDFProcessingResult, 'extr
       amount: 0,
       description: 'Receipt processing failed',
       confidence: 0.7,
+      lineItems: [],
       notes: `Parsing error: ${error.message}`
     }
   }
 }
 
+// Non-negative amount rounded to cents, or null when the value isn't a number
+function toAmount(value: unknown): number | null {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value ?? ''))
+  return Number.isFinite(amount) ? Math.round(Math.abs(amount) * 100) / 100 : null
+}
+
+// Keep the line items that have a name and a total (or quantity and unit price to work it out)
+function parseLineItems(items: unknown): ReceiptLineItem[] {
+  if (!Array.isArray(items)) return []
+
+  return items.flatMap((item) => {
+    if (!item || typeof item !== 'object') return []
+
+    const name = String(item.name ?? '').trim()
+    const quantity = toAmount(item.quantity)
+    const unitPrice = toAmount(item.unit_price)
+    const total = toAmount(item.total) ??
+      (quantity !== null && unitPrice !== null ? Math.round(quantity * unitPrice * 100) / 100 : null)
+
+    return name && total !== null ? [{ name, quantity, unit_price: unitPrice, total }] : []
+  })
+}
+
 
 
@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/http.ts'
+import { createLLMProvider, llmConfigFromEnv, parseJsonContent } from '../_shared/llm.ts'
+import { AICall, startAICall } from '../_shared/ai-usage.ts'
+
+// Turns the OCR text of a receipt into expense fields for the app, so the AI provider's key
+// stays on the server. The app fills anything missing from the text itself.
+
+const provider = createLLMProvider(llmConfigFromEnv(Deno.env.toObject()))
+
+const SYSTEM_PROMPT = `You are an expert at analyzing receipt text and extracting structured expense data.
+
+Parse the receipt text and extract the following information:
+- merchant: The business name
+- amount: The total amount (number only, no currency symbols)
+- description: Brief description of what was purchased
+- date: Date in YYYY-MM-DD format (if available)
+- notes: Any additional relevant information
+- lineItems: Every purchased item as { "name", "quantity", "unit_price", "total" } (use null for a quantity or unit price that isn't printed)
+- subtotal, tax, tip, discount: Those amounts if printed on the receipt (numbers, omit if absent; sum multiple taxes)
+- vendorGstin: The seller's 15-character GSTIN, if printed (Indian invoices)
+- hsnSacCode: The HSN or SAC code, if printed
+- gstRate: The GST rate in percent (CGST + SGST combined, or IGST)
+- cgst, sgst, igst: Those GST amounts, if printed (omit if absent)
+- taxInclusive: true if the printed item prices already include the tax, false if tax is added on top
+
+Return ONLY a valid JSON object with these fields. If information is unclear or missing, use reasonable defaults or leave empty string for optional fields.
+
+Example:
+{
+  "merchant": "Starbucks",
+  "amount": 5.94,
+  "description": "Coffee",
+  "date": "2024-01-15",
+  "notes": "Business meeting coffee",
+  "confidence": 0.95,
+  "lineItems": [
+    { "name": "Caffe Latte", "quantity": 1, "unit_price": 4.95, "total": 4.95 }
+  ],
+  "subtotal": 4.95,
+  "tax": 0.99,
+  "taxInclusive": false
+}`
+
+interface ReceiptAnalysisRequest {
+  // OCR text of the receipt
+  text: string
+  // Workspace the expense belongs to; usage is billed to it
+  workspaceId?: string
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  let call: AICall | undefined
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const { text, workspaceId }: ReceiptAnalysisRequest = await req.json()
+
+    // Check the caller and their rate limits
+    const started = await startAICall(req, 'receipt-analysis', workspaceId)
+    if (started instanceof Response) return started
+    call = started
+
+    if (!text?.trim()) {
+      return await call.finish(jsonResponse({ error: 'text is required' }, 400))
+    }
+
+    if (!provider.isConfigured) {
+      return await call.finish(jsonResponse({ error: 'AI provider not configured' }, 503))
+    }
+
+    const response = await call.meter(provider).complete({
+      task: 'receipt_analysis',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: `Analyze this receipt text and extract expense data:\n\n${text}` }
+      ]
+    })
+
+    if (!response.content) {
+      return await call.finish(jsonResponse({ error: 'No response from AI analysis' }, 502))
+    }
+
+    try {
+      return await call.finish(jsonResponse({ analysis: parseJsonContent(response.content) }))
+    } catch {
+      console.error('Failed to parse AI response:', response.content)
+      return await call.finish(jsonResponse({ error: 'Failed to parse receipt data from AI response' }, 502))
+    }
+
+  } catch (error) {
+    console.error('Receipt analysis error:', error)
+    const response = jsonResponse({ error: error instanceof Error ? error.message : 'Receipt analysis failed' }, 500)
+    return call ? await call.finish(response) : response
+  }
+})
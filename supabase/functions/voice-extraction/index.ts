@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/http.ts'
+import { createLLMProvider, llmConfigFromEnv, parseJsonContent } from '../_shared/llm.ts'
+import { AICall, startAICall } from '../_shared/ai-usage.ts'
+
+// Extracts merchant, amount, currency and the rest of an expense from a voice transcript,
+// so the AI provider's key stays on the server. The app validates the answer and falls
+// back to its own rule-based extraction when this fails.
+
+const provider = createLLMProvider(llmConfigFromEnv(Deno.env.toObject()))
+
+const buildPrompt = (voiceText: string) => `Extract expense information from this voice input: "${voiceText}"
+
+Please respond with valid JSON in this exact format:
+{
+  "merchant": "merchant name",
+  "amount": number (extract the amount, default to 0 if not found),
+  "currency": "3-letter ISO currency code if a currency is mentioned, or null",
+  "description": "what the expense was for",
+  "date": "date if mentioned (YYYY-MM-DD format, or null if not specified)",
+  "notes": "any additional notes or context",
+  "confidence": number between 0.7 and 1.0
+}
+
+Examples:
+- "I spent $25 on lunch at McDonald's yesterday" → {"merchant": "McDonald's", "amount": 25, "currency": "USD", "description": "lunch", "date": "yesterday", "notes": null, "confidence": 0.95}
+- "Coffee from Starbucks 250 rupees" → {"merchant": "Starbucks", "amount": 250, "currency": "INR", "description": "coffee", "date": null, "notes": null, "confidence": 0.9}
+- "Uber ride to airport cost me 35" → {"merchant": "Uber", "amount": 35, "currency": null, "description": "ride to airport", "date": null, "notes": null, "confidence": 0.9}
+
+Rules:
+1. Extract the exact merchant name mentioned
+2. Convert all amounts to numbers
+3. Create a clear description of what was purchased
+4. If date is mentioned, try to convert to YYYY-MM-DD format
+5. Set confidence based on how clear the information is
+6. Always respond with valid JSON`
+
+interface VoiceExtractionRequest {
+  // Cleaned transcript of what the user said
+  text: string
+  // Workspace the expense belongs to; usage is billed to it
+  workspaceId?: string
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  let call: AICall | undefined
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const { text, workspaceId }: VoiceExtractionRequest = await req.json()
+
+    // Check the caller and their rate limits
+    const started = await startAICall(req, 'voice-extraction', workspaceId)
+    if (started instanceof Response) return started
+    call = started
+
+    if (!text?.trim()) {
+      return await call.finish(jsonResponse({ error: 'text is required' }, 400))
+    }
+
+    if (!provider.isConfigured) {
+      return await call.finish(jsonResponse({ error: 'AI provider not configured' }, 503))
+    }
+
+    const response = await call.meter(provider).complete({
+      task: 'voice_extraction',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expense data extraction expert. Always respond with valid JSON.'
+        },
+        {
+          role: 'user',
+          content: buildPrompt(text)
+        }
+      ]
+    })
+
+    try {
+      return await call.finish(jsonResponse({ extracted: parseJsonContent(response.content) }))
+    } catch {
+      console.error('Failed to parse AI response:', response.content)
+      return await call.finish(jsonResponse({ error: 'Failed to parse expense data from AI response' }, 502))
+    }
+
+  } catch (error) {
+    console.error('Voice extraction error:', error)
+    const response = jsonResponse({ error: error instanceof Error ? error.message : 'Voice extraction failed' }, 500)
+    return call ? await call.finish(response) : response
+  }
+})
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Sends the email for a workspace invitation created by the app.
+// The invitation is read with the caller's token, so RLS only lets workspace admins send
+// one. People without an account get a Supabase sign-up invite; existing users are
+// emailed through Resend when RESEND_API_KEY is set. Accepting happens in the app.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  })
+
+// Workspace names and emails are user input
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+interface InvitationRequest {
+  invitationId: string
+  // Where the invitee lands after signing in; defaults to APP_URL
+  redirectTo?: string
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const authorization = req.headers.get('Authorization')
+    if (!authorization) {
+      return jsonResponse({ error: 'Missing authorization' }, 401)
+    }
+
+    const { invitationId, redirectTo }: InvitationRequest = await req.json()
+    if (!invitationId) {
+      return jsonResponse({ error: 'invitationId is required' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } }
+    })
+
+    // RLS only returns invitations to admins of the workspace
+    const { data: invitation, error: invitationError } = await callerClient
+      .from('workspace_invitations')
+      .select('id, email, role, status, workspace_id, workspaces(name)')
+      .eq('id', invitationId)
+      .maybeSingle()
+
+    if (invitationError || !invitation) {
+      return jsonResponse({ error: 'Invitation not found' }, 404)
+    }
+    if (invitation.status !== 'pending') {
+      return jsonResponse({ error: `Invitation is ${invitation.status}` }, 409)
+    }
+
+    const { data: { user: inviter } } = await callerClient.auth.getUser()
+    const workspaceName = (invitation.workspaces as { name?: string } | null)?.name || 'a workspace'
+    const appUrl = redirectTo || Deno.env.get('APP_URL') || supabaseUrl
+
+    // New users: Supabase sends a sign-up link; the invitation shows up once they sign in
+    const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const { error: inviteError } = await adminClient.auth.admin.inviteUserByEmail(invitation.email, {
+      redirectTo: appUrl,
+      data: { invited_to_workspace: invitation.workspace_id }
+    })
+
+    if (!inviteError) {
+      return jsonResponse({ sent: true, via: 'signup' })
+    }
+
+    // Existing users can't be invited through auth, so send a plain email instead
+    const resendApiKey = Deno.env.get('RESEND_API_KEY')
+    if (!resendApiKey) {
+      console.log('Invitee already has an account and RESEND_API_KEY is not set; skipping email')
+      return jsonResponse({ sent: false, reason: 'email_not_configured' })
+    }
+
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${resendApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: Deno.env.get('INVITATION_EMAIL_FROM') || 'Expense IQ <no-reply@expenseiq.app>',
+        to: invitation.email,
+        subject: `You've been invited to ${workspaceName} on Expense IQ`,
+        html: `<p>${escapeHtml(inviter?.email || 'A teammate')} invited you to join <strong>${escapeHtml(workspaceName)}</strong> as ${invitation.role === 'admin' ? 'an admin' : 'a member'}.</p>
+<p><a href="${escapeHtml(appUrl)}">Sign in to Expense IQ</a> to accept or decline the invitation.</p>`
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Resend API error:', response.status, errorText)
+      return jsonResponse({ sent: false, reason: 'email_failed' })
+    }
+
+    return jsonResponse({ sent: true, via: 'email' })
+
+  } catch (error) {
+    console.error('Error sending workspace invitation:', error)
+
+    return jsonResponse({
+      error: 'Failed to send invitation',
+      message: error.message || 'Unknown error'
+    }, 500)
+  }
+})
@@ -0,0 +1,55 @@
+-- Add Expense Summary RPC
+-- Aggregates dashboard totals in Postgres so the dashboard no longer sums
+-- a client-side page of rows. Runs as the caller, so expense RLS still applies.
+
+-- 1) Index to support range scans per workspace
+CREATE INDEX IF NOT EXISTS idx_expenses_workspace_txn_date ON public.expenses(workspace_id, txn_date);
+
+-- 2) Summary for a period plus the comparison period
+CREATE OR REPLACE FUNCTION public.get_expense_summary(
+  p_workspace_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_previous_start DATE,
+  p_previous_end DATE,
+  p_top_categories INTEGER DEFAULT 3
+)
+RETURNS JSONB AS $$
+  WITH current_period AS (
+    SELECT e.amount, e.global_category_id
+    FROM public.expenses e
+    WHERE e.workspace_id = p_workspace_id
+      AND e.txn_date BETWEEN p_start AND p_end
+  ),
+  previous_period AS (
+    SELECT e.amount
+    FROM public.expenses e
+    WHERE e.workspace_id = p_workspace_id
+      AND e.txn_date BETWEEN p_previous_start AND p_previous_end
+  ),
+  category_totals AS (
+    SELECT
+      cp.global_category_id AS category_id,
+      COALESCE(gc.name, 'Uncategorized') AS name,
+      SUM(cp.amount) AS total
+    FROM current_period cp
+    LEFT JOIN public.global_categories gc ON gc.id = cp.global_category_id
+    GROUP BY cp.global_category_id, gc.name
+    ORDER BY total DESC
+    LIMIT p_top_categories
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COALESCE(SUM(amount), 0) FROM current_period),
+    'count', (SELECT COUNT(*) FROM current_period),
+    'previous_total', (SELECT COALESCE(SUM(amount), 0) FROM previous_period),
+    'previous_count', (SELECT COUNT(*) FROM previous_period),
+    'top_categories', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('category_id', ct.category_id, 'name', ct.name, 'total', ct.total) ORDER BY ct.total DESC)
+       FROM category_totals ct),
+      '[]'::jsonb
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION public.get_expense_summary(UUID, DATE, DATE, DATE, DATE, INTEGER) TO authenticated;
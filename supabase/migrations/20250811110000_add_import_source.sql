@@ -0,0 +1,24 @@
+-- Add 'import' Expense Source
+-- Rows brought in through the CSV/OFX import wizard are tagged source = 'import'.
+-- Depending on which setup script created the table, expenses.source is either the
+-- expense_source enum or text with a CHECK constraint, so handle both.
+
+-- 1) Extend the enum when it exists
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'expense_source') THEN
+    ALTER TYPE expense_source ADD VALUE IF NOT EXISTS 'import';
+  END IF;
+END $$;
+
+-- 2) Replace the CHECK constraint when source is text
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses'
+      AND column_name = 'source' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE public.expenses DROP CONSTRAINT IF EXISTS expenses_source_check;
+    ALTER TABLE public.expenses ADD CONSTRAINT expenses_source_check
+      CHECK (source IN ('manual', 'upload', 'camera', 'voice', 'import'));
+  END IF;
+END $$;
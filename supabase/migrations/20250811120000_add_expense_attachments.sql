@@ -0,0 +1,92 @@
+-- Add Expense Attachments
+-- Receipts live in a private `receipts` storage bucket under {workspace_id}/ and are
+-- served through signed URLs. expenses.receipt_url holds the storage path of the
+-- primary receipt; expense_attachments records every file linked to an expense.
+
+-- 1) Primary receipt path on expenses
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS receipt_url TEXT;
+
+-- 2) Attachments table
+CREATE TABLE IF NOT EXISTS public.expense_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_attachments_expense_id ON public.expense_attachments(expense_id);
+CREATE INDEX IF NOT EXISTS idx_expense_attachments_workspace_id ON public.expense_attachments(workspace_id);
+
+-- 3) RLS, matching the expenses policy
+ALTER TABLE public.expense_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS expense_attachments_rw ON public.expense_attachments;
+CREATE POLICY expense_attachments_rw ON public.expense_attachments
+FOR ALL USING (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+) WITH CHECK (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+);
+
+-- 4) Private receipts bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Objects are stored as {workspace_id}/{file}; legacy uploads used receipts/{user_id}/{file}
+DROP POLICY IF EXISTS receipts_select ON storage.objects;
+CREATE POLICY receipts_select ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'receipts' AND (
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM public.workspaces WHERE created_by = auth.uid()
+    )
+    OR (
+      (storage.foldername(name))[1] = 'receipts'
+      AND (storage.foldername(name))[2] = auth.uid()::text
+    )
+  )
+);
+
+DROP POLICY IF EXISTS receipts_insert ON storage.objects;
+CREATE POLICY receipts_insert ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'receipts' AND (storage.foldername(name))[1] IN (
+    SELECT id::text FROM public.workspaces WHERE created_by = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS receipts_delete ON storage.objects;
+CREATE POLICY receipts_delete ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'receipts' AND (
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM public.workspaces WHERE created_by = auth.uid()
+    )
+    OR (
+      (storage.foldername(name))[1] = 'receipts'
+      AND (storage.foldername(name))[2] = auth.uid()::text
+    )
+  )
+);
+
+-- 5) Backfill: convert stored public URLs into storage paths and record them as attachments
+UPDATE public.expenses
+SET receipt_url = regexp_replace(receipt_url, '^.*/storage/v1/object/public/receipts/', '')
+WHERE receipt_url LIKE '%/storage/v1/object/public/receipts/%';
+
+INSERT INTO public.expense_attachments (expense_id, workspace_id, storage_path, file_name, uploaded_by, created_at)
+SELECT e.id, e.workspace_id, e.receipt_url, regexp_replace(e.receipt_url, '^.*/', ''), e.user_id, e.created_at
+FROM public.expenses e
+WHERE e.receipt_url IS NOT NULL
+  AND e.receipt_url NOT LIKE 'http%'
+ON CONFLICT (storage_path) DO NOTHING;
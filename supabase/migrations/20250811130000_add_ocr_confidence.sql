@@ -0,0 +1,9 @@
+-- Add OCR Confidence to Expenses
+-- Receipts processed through the batch upload queue keep the extraction confidence
+-- reported by OCR/AI analysis, separate from the category confidence.
+
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS ocr_confidence NUMERIC(3,2)
+  CHECK (ocr_confidence IS NULL OR (ocr_confidence >= 0 AND ocr_confidence <= 1));
+
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS extracted_text TEXT;
@@ -0,0 +1,171 @@
+-- Add Multi-Currency Support
+-- Each workspace reports in a base currency. Exchange rates are stored per workspace
+-- (loaded from a file or entered by hand) and every expense keeps its original amount
+-- plus the amount converted to the base currency, which all totals are computed from.
+
+-- 1) Base currency per workspace
+ALTER TABLE public.workspaces ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'INR';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'workspaces_base_currency_check'
+  ) THEN
+    ALTER TABLE public.workspaces
+      ADD CONSTRAINT workspaces_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+  END IF;
+END $$;
+
+-- 2) Exchange rates: `rate` is the number of base-currency units for one unit of `currency`
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_date DATE NOT NULL,
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'file')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (workspace_id, currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON public.exchange_rates(workspace_id, currency, rate_date);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS exchange_rates_rw ON public.exchange_rates;
+CREATE POLICY exchange_rates_rw ON public.exchange_rates
+FOR ALL USING (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+) WITH CHECK (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+);
+
+-- 3) Converted amount on expenses (NULL when no rate is available yet)
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS base_amount NUMERIC(12,2);
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS base_currency TEXT;
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(18,8);
+
+-- Expenses without an explicit currency are recorded in the workspace base currency
+ALTER TABLE public.expenses ALTER COLUMN currency DROP DEFAULT;
+
+-- 4) Convert on write. The rate for a date is the most recent one on or before it, else the
+--    earliest later one (before the first rate of a currency is entered).
+CREATE OR REPLACE FUNCTION public.find_exchange_rate(p_workspace_id UUID, p_currency TEXT, p_date DATE)
+RETURNS NUMERIC AS $$
+  SELECT r.rate
+  FROM public.exchange_rates r
+  WHERE r.workspace_id = p_workspace_id
+    AND r.currency = p_currency
+  ORDER BY (r.rate_date > p_date), ABS(r.rate_date - p_date)
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION public.convert_expense_to_base_currency()
+RETURNS trigger AS $$
+DECLARE
+  ws_currency TEXT;
+  found_rate NUMERIC(18,8);
+BEGIN
+  SELECT w.base_currency INTO ws_currency
+  FROM public.workspaces w
+  WHERE w.id = NEW.workspace_id;
+
+  ws_currency := COALESCE(ws_currency, 'INR');
+  NEW.currency := UPPER(COALESCE(NULLIF(NEW.currency, ''), ws_currency));
+  NEW.base_currency := ws_currency;
+
+  IF NEW.currency = ws_currency THEN
+    found_rate := 1;
+  ELSE
+    found_rate := public.find_exchange_rate(NEW.workspace_id, NEW.currency, NEW.txn_date);
+  END IF;
+
+  NEW.fx_rate := found_rate;
+  NEW.base_amount := CASE WHEN found_rate IS NULL THEN NULL ELSE ROUND(NEW.amount * found_rate, 2) END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS expenses_convert_to_base_currency ON public.expenses;
+CREATE TRIGGER expenses_convert_to_base_currency
+  BEFORE INSERT OR UPDATE OF amount, currency, txn_date, workspace_id ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.convert_expense_to_base_currency();
+
+-- 5) Recompute converted amounts after rates or the base currency change
+CREATE OR REPLACE FUNCTION public.refresh_expense_base_amounts(p_workspace_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  -- Re-assigning currency fires the conversion trigger
+  UPDATE public.expenses e
+  SET currency = e.currency
+  FROM public.workspaces w
+  WHERE w.id = e.workspace_id
+    AND e.workspace_id = p_workspace_id
+    AND (e.currency <> w.base_currency OR e.base_currency IS DISTINCT FROM w.base_currency OR e.base_amount IS NULL);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.refresh_expense_base_amounts(UUID) TO authenticated;
+
+-- 6) Backfill existing expenses
+UPDATE public.expenses SET currency = COALESCE(currency, 'INR');
+
+-- 7) Summary totals in the base currency; unconverted expenses are counted but not summed
+CREATE OR REPLACE FUNCTION public.get_expense_summary(
+  p_workspace_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_previous_start DATE,
+  p_previous_end DATE,
+  p_top_categories INTEGER DEFAULT 3
+)
+RETURNS JSONB AS $$
+  WITH current_period AS (
+    SELECT e.base_amount, e.global_category_id
+    FROM public.expenses e
+    WHERE e.workspace_id = p_workspace_id
+      AND e.txn_date BETWEEN p_start AND p_end
+  ),
+  previous_period AS (
+    SELECT e.base_amount
+    FROM public.expenses e
+    WHERE e.workspace_id = p_workspace_id
+      AND e.txn_date BETWEEN p_previous_start AND p_previous_end
+  ),
+  category_totals AS (
+    SELECT
+      cp.global_category_id AS category_id,
+      COALESCE(gc.name, 'Uncategorized') AS name,
+      SUM(cp.base_amount) AS total
+    FROM current_period cp
+    LEFT JOIN public.global_categories gc ON gc.id = cp.global_category_id
+    WHERE cp.base_amount IS NOT NULL
+    GROUP BY cp.global_category_id, gc.name
+    ORDER BY total DESC
+    LIMIT p_top_categories
+  )
+  SELECT jsonb_build_object(
+    'currency', (SELECT w.base_currency FROM public.workspaces w WHERE w.id = p_workspace_id),
+    'total', (SELECT COALESCE(SUM(base_amount), 0) FROM current_period),
+    'count', (SELECT COUNT(*) FROM current_period),
+    'unconverted_count', (SELECT COUNT(*) FROM current_period WHERE base_amount IS NULL),
+    'previous_total', (SELECT COALESCE(SUM(base_amount), 0) FROM previous_period),
+    'previous_count', (SELECT COUNT(*) FROM previous_period),
+    'top_categories', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('category_id', ct.category_id, 'name', ct.name, 'total', ct.total) ORDER BY ct.total DESC)
+       FROM category_totals ct),
+      '[]'::jsonb
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,186 @@
+-- Add Recurring Expenses
+-- Templates for bills that repeat (rent, SaaS, utilities). generate_due_recurring_expenses()
+-- creates an unreviewed expense for every occurrence that has fallen due; it runs daily
+-- through pg_cron where available and is also called by the app when a workspace loads.
+
+-- 1) 'recurring' expense source (enum or CHECK, see 20250811110000_add_import_source.sql)
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'expense_source') THEN
+    ALTER TYPE expense_source ADD VALUE IF NOT EXISTS 'recurring';
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses'
+      AND column_name = 'source' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE public.expenses DROP CONSTRAINT IF EXISTS expenses_source_check;
+    ALTER TABLE public.expenses ADD CONSTRAINT expenses_source_check
+      CHECK (source IN ('manual', 'upload', 'camera', 'voice', 'import', 'recurring'));
+  END IF;
+END $$;
+
+-- 2) Templates. The schedule is stored as structured fields so Postgres can advance it;
+--    rrule keeps the original text for custom rules entered by the user.
+CREATE TABLE IF NOT EXISTS public.recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  merchant TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT,
+  description TEXT,
+  global_category_id UUID REFERENCES public.global_categories(id) ON DELETE SET NULL,
+  payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+  notes TEXT,
+  is_reimbursable BOOLEAN NOT NULL DEFAULT false,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 365),
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  month_of_year INTEGER CHECK (month_of_year BETWEEN 1 AND 12),
+  rrule TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_due_date DATE,
+  last_generated_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_workspace_id ON public.recurring_expenses(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_due ON public.recurring_expenses(next_due_date) WHERE is_active;
+
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS recurring_expenses_rw ON public.recurring_expenses;
+CREATE POLICY recurring_expenses_rw ON public.recurring_expenses
+FOR ALL USING (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+) WITH CHECK (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+);
+
+-- 3) Link generated expenses to their template; one expense per template per date
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS recurring_expense_id UUID REFERENCES public.recurring_expenses(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_recurring_occurrence
+  ON public.expenses(recurring_expense_id, txn_date)
+  WHERE recurring_expense_id IS NOT NULL;
+
+-- 4) Next occurrence after p_date (keep in sync with nextOccurrence in src/lib/recurrence.ts)
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  p_frequency TEXT,
+  p_interval INTEGER,
+  p_day_of_month INTEGER,
+  p_month_of_year INTEGER,
+  p_date DATE
+)
+RETURNS DATE AS $$
+DECLARE
+  target_month DATE;
+BEGIN
+  IF p_frequency = 'daily' THEN
+    RETURN p_date + p_interval;
+  ELSIF p_frequency = 'weekly' THEN
+    RETURN p_date + 7 * p_interval;
+  ELSIF p_frequency = 'monthly' THEN
+    target_month := date_trunc('month', p_date)::date + make_interval(months => p_interval);
+  ELSE
+    target_month := make_date(
+      EXTRACT(YEAR FROM p_date)::int + p_interval,
+      COALESCE(p_month_of_year, EXTRACT(MONTH FROM p_date)::int),
+      1
+    );
+  END IF;
+
+  -- Clamp e.g. the 31st to the last day of shorter months
+  RETURN target_month + LEAST(
+    COALESCE(p_day_of_month, EXTRACT(DAY FROM p_date)::int),
+    EXTRACT(DAY FROM (target_month + INTERVAL '1 month' - INTERVAL '1 day'))::int
+  ) - 1;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 5) Create expenses for every due occurrence, catching up on missed ones.
+--    Runs as the caller, so the app only generates for its own workspaces; pg_cron runs
+--    it as the table owner for all workspaces.
+CREATE OR REPLACE FUNCTION public.generate_due_recurring_expenses(p_workspace_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  template RECORD;
+  due_date DATE;
+  created_count INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  FOR template IN
+    SELECT * FROM public.recurring_expenses r
+    WHERE r.is_active
+      AND r.next_due_date IS NOT NULL
+      AND r.next_due_date <= CURRENT_DATE
+      AND (p_workspace_id IS NULL OR r.workspace_id = p_workspace_id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    due_date := template.next_due_date;
+
+    WHILE due_date IS NOT NULL AND due_date <= CURRENT_DATE LOOP
+      IF template.end_date IS NOT NULL AND due_date > template.end_date THEN
+        due_date := NULL;
+        EXIT;
+      END IF;
+
+      INSERT INTO public.expenses (
+        workspace_id, user_id, merchant, amount, currency, txn_date, description,
+        global_category_id, payment_method_id, notes, is_reimbursable,
+        source, status, category_source, recurring_expense_id
+      ) VALUES (
+        template.workspace_id, template.user_id, template.merchant, template.amount, template.currency,
+        due_date, template.description, template.global_category_id, template.payment_method_id,
+        template.notes, template.is_reimbursable, 'recurring', 'unreviewed', 'manual', template.id
+      )
+      ON CONFLICT (recurring_expense_id, txn_date) WHERE recurring_expense_id IS NOT NULL DO NOTHING;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      created_count := created_count + inserted;
+
+      UPDATE public.recurring_expenses
+      SET last_generated_date = due_date
+      WHERE id = template.id;
+
+      due_date := public.next_recurrence_date(
+        template.frequency, template.interval_count, template.day_of_month, template.month_of_year, due_date
+      );
+    END LOOP;
+
+    UPDATE public.recurring_expenses
+    SET next_due_date = CASE WHEN template.end_date IS NOT NULL AND due_date > template.end_date THEN NULL ELSE due_date END,
+        is_active = NOT (due_date IS NULL OR (template.end_date IS NOT NULL AND due_date > template.end_date)),
+        updated_at = now()
+    WHERE id = template.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.generate_due_recurring_expenses(UUID) TO authenticated;
+
+-- 6) Daily schedule when pg_cron is installed
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'generate-recurring-expenses';
+    PERFORM cron.schedule(
+      'generate-recurring-expenses',
+      '15 0 * * *',
+      'SELECT public.generate_due_recurring_expenses()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,178 @@
+-- Add Budgets
+-- Spending limits per workspace, category and period (in the workspace base currency).
+-- Crossing 50/80/100% of a budget records an in-app alert once per budget period; alerts
+-- are checked whenever an expense is written and when a budget is saved.
+
+-- 1) Budgets. A NULL category is a limit on all spending in the workspace.
+CREATE TABLE IF NOT EXISTS public.budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  global_category_id UUID REFERENCES public.global_categories(id) ON DELETE CASCADE,
+  period TEXT NOT NULL CHECK (period IN ('monthly', 'quarterly', 'yearly')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- One budget per category and period (NULLs compare equal via COALESCE)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_unique
+  ON public.budgets(workspace_id, COALESCE(global_category_id, '00000000-0000-0000-0000-000000000000'::uuid), period);
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS budgets_rw ON public.budgets;
+CREATE POLICY budgets_rw ON public.budgets
+FOR ALL USING (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+) WITH CHECK (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+);
+
+-- 2) Alerts, one per budget, period and threshold
+CREATE TABLE IF NOT EXISTS public.budget_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  threshold INTEGER NOT NULL CHECK (threshold IN (50, 80, 100)),
+  spent NUMERIC(12,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  dismissed_at TIMESTAMPTZ,
+  UNIQUE (budget_id, period_start, threshold)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_alerts_open ON public.budget_alerts(workspace_id) WHERE dismissed_at IS NULL;
+
+ALTER TABLE public.budget_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS budget_alerts_rw ON public.budget_alerts;
+CREATE POLICY budget_alerts_rw ON public.budget_alerts
+FOR ALL USING (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+) WITH CHECK (
+  workspace_id IN (
+    SELECT id FROM public.workspaces WHERE created_by = auth.uid()
+  )
+);
+
+-- 3) Budget periods are calendar months, quarters or years
+CREATE OR REPLACE FUNCTION public.budget_period_start(p_period TEXT, p_date DATE)
+RETURNS DATE AS $$
+  SELECT date_trunc(
+    CASE p_period WHEN 'monthly' THEN 'month' WHEN 'quarterly' THEN 'quarter' ELSE 'year' END,
+    p_date
+  )::date;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.budget_period_end(p_period TEXT, p_start DATE)
+RETURNS DATE AS $$
+  SELECT (p_start + CASE p_period
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    WHEN 'quarterly' THEN INTERVAL '3 months'
+    ELSE INTERVAL '1 year'
+  END)::date - 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 4) Budget vs actual for the last p_periods periods of every budget, oldest first.
+--    Only converted amounts count, matching get_expense_summary.
+CREATE OR REPLACE FUNCTION public.get_budget_report(
+  p_workspace_id UUID,
+  p_periods INTEGER DEFAULT 12,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  budget_id UUID,
+  period_start DATE,
+  period_end DATE,
+  budget_amount NUMERIC,
+  spent NUMERIC
+) AS $$
+  WITH periods AS (
+    SELECT
+      b.id AS budget_id,
+      b.global_category_id,
+      b.amount,
+      s.start_date AS period_start,
+      public.budget_period_end(b.period, s.start_date) AS period_end
+    FROM public.budgets b
+    CROSS JOIN LATERAL (
+      SELECT public.budget_period_start(
+        b.period,
+        (public.budget_period_start(b.period, p_as_of) - CASE b.period
+          WHEN 'monthly' THEN make_interval(months => n)
+          WHEN 'quarterly' THEN make_interval(months => 3 * n)
+          ELSE make_interval(years => n)
+        END)::date
+      ) AS start_date
+      FROM generate_series(0, GREATEST(p_periods, 1) - 1) AS n
+    ) s
+    WHERE b.workspace_id = p_workspace_id
+  )
+  SELECT
+    p.budget_id,
+    p.period_start,
+    p.period_end,
+    p.amount,
+    COALESCE((
+      SELECT SUM(e.base_amount)
+      FROM public.expenses e
+      WHERE e.workspace_id = p_workspace_id
+        AND e.txn_date BETWEEN p.period_start AND p.period_end
+        AND (p.global_category_id IS NULL OR e.global_category_id = p.global_category_id)
+    ), 0)
+  FROM periods p
+  ORDER BY p.budget_id, p.period_start;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.get_budget_report(UUID, INTEGER, DATE) TO authenticated;
+
+-- 5) Record alerts for thresholds crossed in the periods containing p_date
+CREATE OR REPLACE FUNCTION public.check_budget_alerts(p_workspace_id UUID, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  created_count INTEGER;
+BEGIN
+  WITH current_spend AS (
+    SELECT r.budget_id, r.period_start, r.budget_amount, r.spent
+    FROM public.get_budget_report(p_workspace_id, 1, p_date) r
+  ),
+  inserted AS (
+    INSERT INTO public.budget_alerts (workspace_id, budget_id, period_start, threshold, spent)
+    SELECT p_workspace_id, cs.budget_id, cs.period_start, t.threshold, cs.spent
+    FROM current_spend cs
+    CROSS JOIN (VALUES (50), (80), (100)) AS t(threshold)
+    WHERE cs.spent >= cs.budget_amount * t.threshold / 100.0
+    ON CONFLICT (budget_id, period_start, threshold) DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO created_count FROM inserted;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.check_budget_alerts(UUID, DATE) TO authenticated;
+
+-- 6) Check after every expense write; base_amount is set by the BEFORE trigger
+CREATE OR REPLACE FUNCTION public.check_budget_alerts_for_expense()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.budgets b WHERE b.workspace_id = NEW.workspace_id) THEN
+    PERFORM public.check_budget_alerts(NEW.workspace_id, NEW.txn_date);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS expenses_check_budget_alerts ON public.expenses;
+CREATE TRIGGER expenses_check_budget_alerts
+AFTER INSERT OR UPDATE OF amount, base_amount, global_category_id, txn_date ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.check_budget_alerts_for_expense();
@@ -0,0 +1,461 @@
+-- Add Workspace Roles and Invitations
+-- Workspaces can now be shared. Access comes from workspace_members instead of
+-- workspaces.created_by, and every policy checks the caller's role:
+--   member: see the workspace, submit expenses and edit their own until they are reviewed
+--   admin:  also review (approve) and edit any expense, manage categories, payment methods,
+--           exchange rates, budgets and members, and invite people
+--   owner:  also delete the workspace and add or remove other owners
+-- Role lookups go through SECURITY DEFINER helpers so policies on workspace_members don't
+-- query themselves (the recursion fixed in 20250810174000_final_rls_fix.sql).
+
+-- 1) Make sure every creator is an owner member (older workspaces may lack the row)
+INSERT INTO public.workspace_members (workspace_id, user_id, role)
+SELECT w.id, w.created_by, 'owner'
+FROM public.workspaces w
+WHERE w.created_by IS NOT NULL
+ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+-- 2) Role helpers
+CREATE OR REPLACE FUNCTION public.workspace_role_rank(p_role TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_role WHEN 'owner' THEN 3 WHEN 'admin' THEN 2 WHEN 'member' THEN 1 ELSE 0 END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The caller's role in a workspace, or NULL when they aren't a member
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT m.role
+  FROM public.workspace_members m
+  WHERE m.workspace_id = p_workspace_id AND m.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the caller has at least p_role in a workspace
+CREATE OR REPLACE FUNCTION public.has_workspace_role(p_workspace_id UUID, p_role TEXT DEFAULT 'member')
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.workspace_role_rank(public.workspace_role(p_workspace_id)) >= public.workspace_role_rank(p_role), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A new workspace's creator may add themselves as the first owner
+CREATE OR REPLACE FUNCTION public.can_claim_workspace(p_workspace_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspaces w
+    WHERE w.id = p_workspace_id AND w.created_by = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.workspace_members m WHERE m.workspace_id = p_workspace_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.workspace_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_workspace_role(UUID, TEXT) TO authenticated;
+
+-- 3) A workspace always keeps at least one owner
+CREATE OR REPLACE FUNCTION public.ensure_workspace_has_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    -- Deleting the workspace itself cascades to its members
+    AND EXISTS (SELECT 1 FROM public.workspaces w WHERE w.id = OLD.workspace_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workspace_members m
+      WHERE m.workspace_id = OLD.workspace_id AND m.role = 'owner' AND m.id <> OLD.id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS workspace_members_keep_owner ON public.workspace_members;
+CREATE TRIGGER workspace_members_keep_owner
+BEFORE UPDATE OF role OR DELETE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.ensure_workspace_has_owner();
+
+-- 4) Invitations, accepted or declined by the invitee through the RPCs below
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email) AND position('@' IN email) > 1),
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '14 days',
+  responded_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_invitations_pending
+  ON public.workspace_invitations(workspace_id, email)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email ON public.workspace_invitations(email);
+
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- 5) Replace every workspace policy with role-based ones
+DO $$
+DECLARE
+  pol RECORD;
+BEGIN
+  FOR pol IN
+    SELECT schemaname, tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'workspaces', 'workspace_members', 'workspace_invitations', 'expenses', 'categories',
+        'payment_methods', 'expense_attachments', 'exchange_rates', 'recurring_expenses',
+        'budgets', 'budget_alerts', 'workspace_category_mappings'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I.%I', pol.policyname, pol.schemaname, pol.tablename);
+  END LOOP;
+END $$;
+
+-- Workspaces: members read, admins edit settings, owners delete
+CREATE POLICY workspaces_select ON public.workspaces
+FOR SELECT USING (created_by = auth.uid() OR public.has_workspace_role(id));
+
+CREATE POLICY workspaces_insert ON public.workspaces
+FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY workspaces_update ON public.workspaces
+FOR UPDATE USING (public.has_workspace_role(id, 'admin'))
+WITH CHECK (public.has_workspace_role(id, 'admin'));
+
+CREATE POLICY workspaces_delete ON public.workspaces
+FOR DELETE USING (public.has_workspace_role(id, 'owner'));
+
+-- Members: everyone in a workspace sees the team; admins manage it, only owners touch
+-- owner rows; anyone may leave
+CREATE POLICY wm_select ON public.workspace_members
+FOR SELECT USING (user_id = auth.uid() OR public.has_workspace_role(workspace_id));
+
+CREATE POLICY wm_insert ON public.workspace_members
+FOR INSERT WITH CHECK (
+  (public.has_workspace_role(workspace_id, 'admin') AND (role <> 'owner' OR public.has_workspace_role(workspace_id, 'owner')))
+  OR (public.can_claim_workspace(workspace_id) AND user_id = auth.uid() AND role = 'owner')
+);
+
+CREATE POLICY wm_update ON public.workspace_members
+FOR UPDATE USING (
+  public.has_workspace_role(workspace_id, 'admin') AND (role <> 'owner' OR public.has_workspace_role(workspace_id, 'owner'))
+) WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin') AND (role <> 'owner' OR public.has_workspace_role(workspace_id, 'owner'))
+);
+
+CREATE POLICY wm_delete ON public.workspace_members
+FOR DELETE USING (
+  user_id = auth.uid()
+  OR (public.has_workspace_role(workspace_id, 'admin') AND (role <> 'owner' OR public.has_workspace_role(workspace_id, 'owner')))
+);
+
+-- Invitations: admins manage them; invitees can see their own
+CREATE POLICY workspace_invitations_select ON public.workspace_invitations
+FOR SELECT USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR email = lower(auth.jwt() ->> 'email')
+);
+
+CREATE POLICY workspace_invitations_insert ON public.workspace_invitations
+FOR INSERT WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin') AND invited_by = auth.uid() AND status = 'pending'
+);
+
+CREATE POLICY workspace_invitations_update ON public.workspace_invitations
+FOR UPDATE USING (public.has_workspace_role(workspace_id, 'admin'))
+WITH CHECK (public.has_workspace_role(workspace_id, 'admin'));
+
+CREATE POLICY workspace_invitations_delete ON public.workspace_invitations
+FOR DELETE USING (public.has_workspace_role(workspace_id, 'admin'));
+
+-- Expenses: members submit and edit their own until reviewed; admins review and edit all
+CREATE POLICY expenses_select ON public.expenses
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY expenses_insert ON public.expenses
+FOR INSERT WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status <> 'reviewed')
+);
+
+CREATE POLICY expenses_update ON public.expenses
+FOR UPDATE USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status <> 'reviewed')
+) WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status <> 'reviewed')
+);
+
+CREATE POLICY expenses_delete ON public.expenses
+FOR DELETE USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status <> 'reviewed')
+);
+
+-- Attachments follow their expense; uploaders and admins can remove them
+CREATE POLICY expense_attachments_select ON public.expense_attachments
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY expense_attachments_insert ON public.expense_attachments
+FOR INSERT WITH CHECK (public.has_workspace_role(workspace_id));
+
+CREATE POLICY expense_attachments_delete ON public.expense_attachments
+FOR DELETE USING (
+  public.has_workspace_role(workspace_id, 'admin') OR uploaded_by = auth.uid()
+);
+
+-- Recurring templates: members manage their own, admins all
+CREATE POLICY recurring_expenses_select ON public.recurring_expenses
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY recurring_expenses_write ON public.recurring_expenses
+FOR ALL USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid())
+) WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid())
+);
+
+-- Budget alerts are raised by expense writes from any member, and any member may dismiss them
+CREATE POLICY budget_alerts_rw ON public.budget_alerts
+FOR ALL USING (public.has_workspace_role(workspace_id))
+WITH CHECK (public.has_workspace_role(workspace_id));
+
+-- Workspace settings: members read, admins write
+DO $$
+DECLARE
+  tbl TEXT;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['categories', 'payment_methods', 'exchange_rates', 'budgets', 'workspace_category_mappings']
+  LOOP
+    -- workspace_category_mappings predates these migrations and may not exist locally
+    CONTINUE WHEN to_regclass('public.' || tbl) IS NULL;
+
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT USING (public.has_workspace_role(workspace_id))',
+      tbl || '_select', tbl
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL USING (public.has_workspace_role(workspace_id, ''admin'')) WITH CHECK (public.has_workspace_role(workspace_id, ''admin''))',
+      tbl || '_write', tbl
+    );
+  END LOOP;
+END $$;
+
+-- 6) Receipts bucket: any member reads and uploads, uploaders and admins delete
+DROP POLICY IF EXISTS receipts_select ON storage.objects;
+CREATE POLICY receipts_select ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'receipts' AND (
+    (storage.foldername(name))[1] IN (
+      SELECT workspace_id::text FROM public.workspace_members WHERE user_id = auth.uid()
+    )
+    OR (
+      (storage.foldername(name))[1] = 'receipts'
+      AND (storage.foldername(name))[2] = auth.uid()::text
+    )
+  )
+);
+
+DROP POLICY IF EXISTS receipts_insert ON storage.objects;
+CREATE POLICY receipts_insert ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'receipts' AND (storage.foldername(name))[1] IN (
+    SELECT workspace_id::text FROM public.workspace_members WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS receipts_delete ON storage.objects;
+CREATE POLICY receipts_delete ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'receipts' AND (
+    (
+      (storage.foldername(name))[1] IN (
+        SELECT workspace_id::text FROM public.workspace_members WHERE user_id = auth.uid()
+      )
+      AND owner = auth.uid()
+    )
+    OR (storage.foldername(name))[1] IN (
+      SELECT workspace_id::text FROM public.workspace_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+    OR (
+      (storage.foldername(name))[1] = 'receipts'
+      AND (storage.foldername(name))[2] = auth.uid()::text
+    )
+  )
+);
+
+-- 7) Team and invitation RPCs
+
+-- Members with their email and name, which live in auth.users and user_profiles
+CREATE OR REPLACE FUNCTION public.list_workspace_members(p_workspace_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  role TEXT,
+  joined_at TIMESTAMPTZ,
+  email TEXT,
+  full_name TEXT
+) AS $$
+BEGIN
+  IF NOT public.has_workspace_role(p_workspace_id) THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.user_id, m.role, m.joined_at, u.email::text, p.full_name
+  FROM public.workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.user_profiles p ON p.user_id = m.user_id
+  WHERE m.workspace_id = p_workspace_id
+  ORDER BY public.workspace_role_rank(m.role) DESC, m.joined_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.list_workspace_members(UUID) TO authenticated;
+
+-- Pending invitations for the signed-in user's email, with names they can't read yet
+CREATE OR REPLACE FUNCTION public.list_my_invitations()
+RETURNS TABLE (
+  id UUID,
+  workspace_id UUID,
+  workspace_name TEXT,
+  role TEXT,
+  invited_by_email TEXT,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+) AS $$
+  SELECT i.id, i.workspace_id, w.name, i.role, u.email::text, i.created_at, i.expires_at
+  FROM public.workspace_invitations i
+  JOIN public.workspaces w ON w.id = i.workspace_id
+  LEFT JOIN auth.users u ON u.id = i.invited_by
+  WHERE i.email = lower(auth.jwt() ->> 'email')
+    AND i.status = 'pending'
+    AND i.expires_at > now()
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.list_my_invitations() TO authenticated;
+
+-- Accept or decline an invitation addressed to the caller; returns the workspace id
+CREATE OR REPLACE FUNCTION public.respond_to_workspace_invitation(p_invitation_id UUID, p_accept BOOLEAN)
+RETURNS UUID AS $$
+DECLARE
+  invitation public.workspace_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.workspace_invitations
+  WHERE id = p_invitation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR invitation.email <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation has already been %', invitation.status;
+  END IF;
+  IF invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+
+  IF p_accept THEN
+    -- Someone who is already a member keeps their current role
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+  END IF;
+
+  UPDATE public.workspace_invitations
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = now()
+  WHERE id = p_invitation_id;
+
+  RETURN invitation.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_workspace_invitation(UUID, BOOLEAN) TO authenticated;
+
+-- 8) Recurring expenses are generated under the template author's name, which members
+--    can't insert for others, so the generator now runs as its owner after checking
+--    that the signed-in caller belongs to the workspace. Only backend jobs run it for all.
+
+-- Backend jobs: pg_cron (its own database session) and edge functions using the service
+-- role. App requests come in through PostgREST's authenticator session.
+CREATE OR REPLACE FUNCTION public.is_backend_caller()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.role(), '') = 'service_role' OR session_user <> 'authenticator';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.generate_due_recurring_expenses(p_workspace_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  template RECORD;
+  due_date DATE;
+  created_count INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  IF NOT public.is_backend_caller()
+    AND (auth.uid() IS NULL OR p_workspace_id IS NULL OR NOT public.has_workspace_role(p_workspace_id))
+  THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  FOR template IN
+    SELECT * FROM public.recurring_expenses r
+    WHERE r.is_active
+      AND r.next_due_date IS NOT NULL
+      AND r.next_due_date <= CURRENT_DATE
+      AND (p_workspace_id IS NULL OR r.workspace_id = p_workspace_id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    due_date := template.next_due_date;
+
+    WHILE due_date IS NOT NULL AND due_date <= CURRENT_DATE LOOP
+      IF template.end_date IS NOT NULL AND due_date > template.end_date THEN
+        due_date := NULL;
+        EXIT;
+      END IF;
+
+      INSERT INTO public.expenses (
+        workspace_id, user_id, merchant, amount, currency, txn_date, description,
+        global_category_id, payment_method_id, notes, is_reimbursable,
+        source, status, category_source, recurring_expense_id
+      ) VALUES (
+        template.workspace_id, template.user_id, template.merchant, template.amount, template.currency,
+        due_date, template.description, template.global_category_id, template.payment_method_id,
+        template.notes, template.is_reimbursable, 'recurring', 'unreviewed', 'manual', template.id
+      )
+      ON CONFLICT (recurring_expense_id, txn_date) WHERE recurring_expense_id IS NOT NULL DO NOTHING;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      created_count := created_count + inserted;
+
+      UPDATE public.recurring_expenses
+      SET last_generated_date = due_date
+      WHERE id = template.id;
+
+      due_date := public.next_recurrence_date(
+        template.frequency, template.interval_count, template.day_of_month, template.month_of_year, due_date
+      );
+    END LOOP;
+
+    UPDATE public.recurring_expenses
+    SET next_due_date = CASE WHEN template.end_date IS NOT NULL AND due_date > template.end_date THEN NULL ELSE due_date END,
+        is_active = NOT (due_date IS NULL OR (template.end_date IS NOT NULL AND due_date > template.end_date)),
+        updated_at = now()
+    WHERE id = template.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.generate_due_recurring_expenses(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_due_recurring_expenses(UUID) TO authenticated, service_role;
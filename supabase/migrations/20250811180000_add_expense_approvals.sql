@@ -0,0 +1,313 @@
+-- Add Expense Approval Workflow
+-- Expenses move through an approval chain instead of being flipped to 'reviewed':
+--   unreviewed -> submitted -> approved -> paid
+--                          \-> rejected (with a reason) -> submitted again
+-- 'flagged' is kept for expenses set aside before submission, and existing 'reviewed'
+-- expenses become 'approved'. Each workspace chooses its approvers (admins when none are
+-- chosen) and an amount, in its base currency, from which a second approver is needed.
+-- Status changes only happen through transition_expenses(), which records every step in
+-- expense_status_history.
+
+-- 1) New statuses
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  -- The original CHECK was created inline, so look its name up
+  FOR constraint_name IN
+    SELECT c.conname
+    FROM pg_constraint c
+    WHERE c.conrelid = 'public.expenses'::regclass
+      AND c.contype = 'c'
+      AND pg_get_constraintdef(c.oid) ILIKE '%status%'
+  LOOP
+    EXECUTE format('ALTER TABLE public.expenses DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END $$;
+
+UPDATE public.expenses SET status = 'approved' WHERE status = 'reviewed';
+
+ALTER TABLE public.expenses
+  ADD CONSTRAINT expenses_status_check
+  CHECK (status IN ('unreviewed', 'flagged', 'submitted', 'approved', 'rejected', 'paid'));
+
+-- Why the last approver rejected the expense; cleared when it is resubmitted
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+-- Approvals collected since the expense was last submitted
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS approval_count INTEGER NOT NULL DEFAULT 0;
+
+-- 2) Approval policy per workspace
+-- Expenses at or above this base-currency amount need two different approvers; NULL means one is enough
+ALTER TABLE public.workspaces ADD COLUMN IF NOT EXISTS second_approval_threshold NUMERIC(12,2)
+  CHECK (second_approval_threshold IS NULL OR second_approval_threshold > 0);
+
+CREATE TABLE IF NOT EXISTS public.workspace_approvers (
+  workspace_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id),
+  -- Approvers must be members; leaving the workspace removes them
+  FOREIGN KEY (workspace_id, user_id)
+    REFERENCES public.workspace_members(workspace_id, user_id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.workspace_approvers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS workspace_approvers_select ON public.workspace_approvers;
+CREATE POLICY workspace_approvers_select ON public.workspace_approvers
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+DROP POLICY IF EXISTS workspace_approvers_insert ON public.workspace_approvers;
+CREATE POLICY workspace_approvers_insert ON public.workspace_approvers
+FOR INSERT WITH CHECK (public.has_workspace_role(workspace_id, 'admin'));
+
+DROP POLICY IF EXISTS workspace_approvers_delete ON public.workspace_approvers;
+CREATE POLICY workspace_approvers_delete ON public.workspace_approvers
+FOR DELETE USING (public.has_workspace_role(workspace_id, 'admin'));
+
+-- Whether the caller may approve or reject expenses in a workspace
+CREATE OR REPLACE FUNCTION public.is_expense_approver(p_workspace_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.workspace_approvers a WHERE a.workspace_id = p_workspace_id)
+      THEN EXISTS (
+        SELECT 1 FROM public.workspace_approvers a
+        WHERE a.workspace_id = p_workspace_id AND a.user_id = auth.uid()
+      )
+    ELSE public.has_workspace_role(p_workspace_id, 'admin')
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_expense_approver(UUID) TO authenticated;
+
+-- 3) Status history
+CREATE TABLE IF NOT EXISTS public.expense_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('submit', 'approve', 'reject', 'pay')),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS expense_status_history_expense_idx
+  ON public.expense_status_history(expense_id, created_at);
+
+ALTER TABLE public.expense_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by transition_expenses(); members can read it
+DROP POLICY IF EXISTS expense_status_history_select ON public.expense_status_history;
+CREATE POLICY expense_status_history_select ON public.expense_status_history
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+-- 4) Members edit their own expenses until they are submitted; admins edit all.
+-- Status itself is guarded by the trigger below, for admins too.
+DROP POLICY IF EXISTS expenses_insert ON public.expenses;
+CREATE POLICY expenses_insert ON public.expenses
+FOR INSERT WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS expenses_update ON public.expenses;
+CREATE POLICY expenses_update ON public.expenses
+FOR UPDATE USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status IN ('unreviewed', 'flagged', 'rejected'))
+) WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status IN ('unreviewed', 'flagged', 'rejected'))
+);
+
+DROP POLICY IF EXISTS expenses_delete ON public.expenses;
+CREATE POLICY expenses_delete ON public.expenses
+FOR DELETE USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND user_id = auth.uid() AND status IN ('unreviewed', 'flagged', 'rejected'))
+);
+
+-- 5) Only transition_expenses() may move an expense into the approval chain
+CREATE OR REPLACE FUNCTION public.guard_expense_status()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.expense_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('unreviewed', 'flagged') THEN
+      RAISE EXCEPTION 'New expenses start as unreviewed';
+    END IF;
+    NEW.approval_count := 0;
+    NEW.rejection_reason := NULL;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status IN ('unreviewed', 'flagged') AND NEW.status IN ('unreviewed', 'flagged')) THEN
+    RAISE EXCEPTION 'Expenses are submitted, approved, rejected and paid through the approval workflow';
+  ELSE
+    NEW.approval_count := OLD.approval_count;
+    NEW.rejection_reason := OLD.rejection_reason;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS expenses_guard_status ON public.expenses;
+CREATE TRIGGER expenses_guard_status
+  BEFORE INSERT OR UPDATE ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.guard_expense_status();
+
+-- 6) Move expenses through the workflow and record each step.
+-- p_action is submit, approve, reject or pay; rejecting needs a reason. Nobody approves an
+-- expense they recorded, so every approval is someone else's. The whole batch fails if any
+-- expense can't make the transition. Returns each expense's new status.
+CREATE OR REPLACE FUNCTION public.transition_expenses(
+  p_expense_ids UUID[],
+  p_action TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS TABLE (expense_id UUID, status TEXT, approval_count INTEGER) AS $$
+DECLARE
+  expense RECORD;
+  next_status TEXT;
+  next_count INTEGER;
+  required INTEGER;
+  threshold NUMERIC;
+  last_submitted TIMESTAMPTZ;
+BEGIN
+  IF p_action NOT IN ('submit', 'approve', 'reject', 'pay') THEN
+    RAISE EXCEPTION 'Unknown action %', p_action;
+  END IF;
+  IF p_action = 'reject' AND COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for rejecting';
+  END IF;
+
+  PERFORM set_config('app.expense_transition', 'on', true);
+
+  FOR expense IN
+    SELECT e.* FROM public.expenses e
+    WHERE e.id = ANY(p_expense_ids)
+    ORDER BY e.id
+    FOR UPDATE
+  LOOP
+    IF NOT public.has_workspace_role(expense.workspace_id) THEN
+      RAISE EXCEPTION 'Not a member of this workspace';
+    END IF;
+
+    next_count := expense.approval_count;
+
+    IF p_action = 'submit' THEN
+      IF expense.status NOT IN ('unreviewed', 'flagged', 'rejected') THEN
+        RAISE EXCEPTION '% (%) is already %', expense.merchant, expense.txn_date, expense.status;
+      END IF;
+      IF expense.user_id <> auth.uid() AND NOT public.has_workspace_role(expense.workspace_id, 'admin') THEN
+        RAISE EXCEPTION 'Only the person who recorded % (%) or an admin can submit it', expense.merchant, expense.txn_date;
+      END IF;
+      next_status := 'submitted';
+      next_count := 0;
+
+    ELSIF p_action IN ('approve', 'reject') THEN
+      IF NOT public.is_expense_approver(expense.workspace_id) THEN
+        RAISE EXCEPTION 'You are not an approver for this workspace';
+      END IF;
+      IF expense.status <> 'submitted' THEN
+        RAISE EXCEPTION '% (%) is % and not waiting for approval', expense.merchant, expense.txn_date, expense.status;
+      END IF;
+
+      IF p_action = 'reject' THEN
+        next_status := 'rejected';
+        next_count := 0;
+      ELSE
+        IF expense.user_id = auth.uid() THEN
+          RAISE EXCEPTION 'You recorded % (%), so someone else has to approve it', expense.merchant, expense.txn_date;
+        END IF;
+
+        -- A second approval has to come from someone else
+        SELECT max(h.created_at) INTO last_submitted
+        FROM public.expense_status_history h
+        WHERE h.expense_id = expense.id AND h.action = 'submit';
+
+        IF EXISTS (
+          SELECT 1 FROM public.expense_status_history h
+          WHERE h.expense_id = expense.id
+            AND h.action = 'approve'
+            AND h.actor_id = auth.uid()
+            AND h.created_at >= COALESCE(last_submitted, '-infinity'::timestamptz)
+        ) THEN
+          RAISE EXCEPTION 'You already approved % (%); it needs a second approver', expense.merchant, expense.txn_date;
+        END IF;
+
+        SELECT w.second_approval_threshold INTO threshold
+        FROM public.workspaces w WHERE w.id = expense.workspace_id;
+
+        required := CASE
+          WHEN threshold IS NOT NULL AND COALESCE(expense.base_amount, expense.amount) >= threshold THEN 2
+          ELSE 1
+        END;
+        next_count := expense.approval_count + 1;
+        next_status := CASE WHEN next_count >= required THEN 'approved' ELSE 'submitted' END;
+      END IF;
+
+    ELSE -- pay
+      IF NOT public.has_workspace_role(expense.workspace_id, 'admin') THEN
+        RAISE EXCEPTION 'Only admins can mark expenses as paid';
+      END IF;
+      IF expense.status <> 'approved' THEN
+        RAISE EXCEPTION '% (%) has to be approved before it is paid', expense.merchant, expense.txn_date;
+      END IF;
+      next_status := 'paid';
+    END IF;
+
+    UPDATE public.expenses e
+    SET status = next_status,
+        approval_count = next_count,
+        rejection_reason = CASE
+          WHEN p_action = 'reject' THEN btrim(p_reason)
+          WHEN p_action = 'submit' THEN NULL
+          ELSE e.rejection_reason
+        END
+    WHERE e.id = expense.id;
+
+    INSERT INTO public.expense_status_history (expense_id, workspace_id, action, from_status, to_status, reason, actor_id)
+    VALUES (expense.id, expense.workspace_id, p_action, expense.status, next_status, NULLIF(btrim(p_reason), ''), auth.uid());
+
+    expense_id := expense.id;
+    status := next_status;
+    approval_count := next_count;
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('app.expense_transition', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.transition_expenses(UUID[], TEXT, TEXT) TO authenticated;
+
+-- 7) History with the actor's email and name, oldest first
+CREATE OR REPLACE FUNCTION public.get_expense_status_history(p_expense_id UUID)
+RETURNS TABLE (
+  id UUID,
+  action TEXT,
+  from_status TEXT,
+  to_status TEXT,
+  reason TEXT,
+  actor_id UUID,
+  actor_email TEXT,
+  actor_name TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+  SELECT h.id, h.action, h.from_status, h.to_status, h.reason, h.actor_id,
+         u.email::TEXT, p.full_name, h.created_at
+  FROM public.expense_status_history h
+  LEFT JOIN auth.users u ON u.id = h.actor_id
+  LEFT JOIN public.user_profiles p ON p.user_id = h.actor_id
+  WHERE h.expense_id = p_expense_id
+    AND public.has_workspace_role(h.workspace_id)
+  ORDER BY h.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_expense_status_history(UUID) TO authenticated;
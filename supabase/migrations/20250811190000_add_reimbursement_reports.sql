@@ -0,0 +1,246 @@
+-- Add Reimbursement Reports
+-- Reimbursable expenses are grouped into named reports (a month, a trip, a client) that
+-- move draft -> submitted -> reimbursed. An expense belongs to at most one report, and only
+-- the person who paid for it can claim it. Submitting a report submits its expenses for
+-- approval; reimbursing it needs every expense approved and marks them paid.
+-- Expenses are attached and statuses changed through SECURITY DEFINER functions because
+-- members can't edit their expenses once they are submitted.
+
+-- 1) Reports
+CREATE TABLE IF NOT EXISTS public.reimbursement_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  -- What the report covers, e.g. the trip or client
+  purpose TEXT,
+  period_start DATE,
+  period_end DATE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'reimbursed')),
+  -- The claimant; only their own expenses can be added
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  submitted_at TIMESTAMPTZ,
+  reimbursed_at TIMESTAMPTZ,
+  reimbursed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (period_start IS NULL OR period_end IS NULL OR period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS reimbursement_reports_workspace_idx
+  ON public.reimbursement_reports(workspace_id, created_at DESC);
+
+-- 2) Expenses point at the report claiming them
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS reimbursement_report_id UUID
+  REFERENCES public.reimbursement_reports(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'expenses_reimbursement_report_reimbursable'
+  ) THEN
+    ALTER TABLE public.expenses
+      ADD CONSTRAINT expenses_reimbursement_report_reimbursable
+      CHECK (reimbursement_report_id IS NULL OR is_reimbursable);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS expenses_reimbursement_report_idx
+  ON public.expenses(reimbursement_report_id)
+  WHERE reimbursement_report_id IS NOT NULL;
+
+-- 3) Claimants see and edit their own drafts; admins see and manage every report
+ALTER TABLE public.reimbursement_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS reimbursement_reports_select ON public.reimbursement_reports;
+CREATE POLICY reimbursement_reports_select ON public.reimbursement_reports
+FOR SELECT USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND created_by = auth.uid())
+);
+
+DROP POLICY IF EXISTS reimbursement_reports_insert ON public.reimbursement_reports;
+CREATE POLICY reimbursement_reports_insert ON public.reimbursement_reports
+FOR INSERT WITH CHECK (
+  public.has_workspace_role(workspace_id) AND created_by = auth.uid() AND status = 'draft'
+);
+
+DROP POLICY IF EXISTS reimbursement_reports_update ON public.reimbursement_reports;
+CREATE POLICY reimbursement_reports_update ON public.reimbursement_reports
+FOR UPDATE USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND created_by = auth.uid() AND status = 'draft')
+) WITH CHECK (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND created_by = auth.uid() AND status = 'draft')
+);
+
+DROP POLICY IF EXISTS reimbursement_reports_delete ON public.reimbursement_reports;
+CREATE POLICY reimbursement_reports_delete ON public.reimbursement_reports
+FOR DELETE USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (public.has_workspace_role(workspace_id) AND created_by = auth.uid() AND status = 'draft')
+);
+
+-- Status, claimant and workspace only change through transition_reimbursement_report()
+CREATE OR REPLACE FUNCTION public.guard_reimbursement_report()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.reimbursement_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id THEN
+    RAISE EXCEPTION 'Reports are submitted and reimbursed through the reimbursement workflow';
+  END IF;
+
+  NEW.submitted_at := OLD.submitted_at;
+  NEW.reimbursed_at := OLD.reimbursed_at;
+  NEW.reimbursed_by := OLD.reimbursed_by;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reimbursement_reports_guard ON public.reimbursement_reports;
+CREATE TRIGGER reimbursement_reports_guard
+  BEFORE UPDATE ON public.reimbursement_reports
+  FOR EACH ROW EXECUTE FUNCTION public.guard_reimbursement_report();
+
+-- 4) Add expenses to a draft report, or take them out (p_attach = false).
+-- Returns the number of expenses changed.
+CREATE OR REPLACE FUNCTION public.set_reimbursement_report_expenses(
+  p_report_id UUID,
+  p_expense_ids UUID[],
+  p_attach BOOLEAN DEFAULT true
+)
+RETURNS INTEGER AS $$
+DECLARE
+  report public.reimbursement_reports%ROWTYPE;
+  changed INTEGER;
+BEGIN
+  SELECT * INTO report FROM public.reimbursement_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF report.id IS NULL
+    OR NOT (report.created_by = auth.uid() OR public.has_workspace_role(report.workspace_id, 'admin'))
+    OR NOT public.has_workspace_role(report.workspace_id) THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+  IF report.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft reports can be changed; reopen it first';
+  END IF;
+
+  IF p_attach THEN
+    IF EXISTS (
+      SELECT 1 FROM public.expenses e
+      WHERE e.id = ANY(p_expense_ids)
+        AND (
+          e.workspace_id <> report.workspace_id
+          OR e.user_id <> report.created_by
+          OR NOT e.is_reimbursable
+          OR e.status = 'rejected'
+          OR (e.reimbursement_report_id IS NOT NULL AND e.reimbursement_report_id <> report.id)
+        )
+    ) THEN
+      RAISE EXCEPTION 'Only reimbursable expenses paid by the claimant that are not rejected or on another report can be added';
+    END IF;
+
+    UPDATE public.expenses e
+    SET reimbursement_report_id = report.id
+    WHERE e.id = ANY(p_expense_ids) AND e.reimbursement_report_id IS NULL;
+  ELSE
+    UPDATE public.expenses e
+    SET reimbursement_report_id = NULL
+    WHERE e.id = ANY(p_expense_ids) AND e.reimbursement_report_id = report.id;
+  END IF;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_reimbursement_report_expenses(UUID, UUID[], BOOLEAN) TO authenticated;
+
+-- 5) Submit, reimburse or reopen a report. Returns the new status.
+--   submit:    claimant or admin, draft with at least one expense; submits its new expenses for approval
+--   reimburse: admin, submitted with every expense approved; marks the expenses paid
+--   reopen:    claimant or admin, submitted back to draft
+CREATE OR REPLACE FUNCTION public.transition_reimbursement_report(p_report_id UUID, p_action TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  report public.reimbursement_reports%ROWTYPE;
+  next_status TEXT;
+  pending UUID[];
+BEGIN
+  SELECT * INTO report FROM public.reimbursement_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF report.id IS NULL
+    OR NOT (report.created_by = auth.uid() OR public.has_workspace_role(report.workspace_id, 'admin'))
+    OR NOT public.has_workspace_role(report.workspace_id) THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF p_action = 'submit' THEN
+    IF report.status <> 'draft' THEN
+      RAISE EXCEPTION 'Report is already %', report.status;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.expenses e WHERE e.reimbursement_report_id = report.id) THEN
+      RAISE EXCEPTION 'Add at least one expense before submitting';
+    END IF;
+
+    SELECT array_agg(e.id) INTO pending
+    FROM public.expenses e
+    WHERE e.reimbursement_report_id = report.id AND e.status IN ('unreviewed', 'flagged');
+    IF pending IS NOT NULL THEN
+      PERFORM public.transition_expenses(pending, 'submit');
+    END IF;
+    next_status := 'submitted';
+
+  ELSIF p_action = 'reimburse' THEN
+    IF NOT public.has_workspace_role(report.workspace_id, 'admin') THEN
+      RAISE EXCEPTION 'Only admins can mark reports as reimbursed';
+    END IF;
+    IF report.status <> 'submitted' THEN
+      RAISE EXCEPTION 'Only submitted reports can be reimbursed';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.expenses e
+      WHERE e.reimbursement_report_id = report.id AND e.status NOT IN ('approved', 'paid')
+    ) THEN
+      RAISE EXCEPTION 'Every expense on the report has to be approved first';
+    END IF;
+
+    SELECT array_agg(e.id) INTO pending
+    FROM public.expenses e
+    WHERE e.reimbursement_report_id = report.id AND e.status = 'approved';
+    IF pending IS NOT NULL THEN
+      PERFORM public.transition_expenses(pending, 'pay');
+    END IF;
+    next_status := 'reimbursed';
+
+  ELSIF p_action = 'reopen' THEN
+    IF report.status <> 'submitted' THEN
+      RAISE EXCEPTION 'Only submitted reports can be reopened';
+    END IF;
+    next_status := 'draft';
+
+  ELSE
+    RAISE EXCEPTION 'Unknown action %', p_action;
+  END IF;
+
+  PERFORM set_config('app.reimbursement_transition', 'on', true);
+
+  UPDATE public.reimbursement_reports
+  SET status = next_status,
+      submitted_at = CASE WHEN p_action = 'submit' THEN now() WHEN p_action = 'reopen' THEN NULL ELSE submitted_at END,
+      reimbursed_at = CASE WHEN p_action = 'reimburse' THEN now() ELSE reimbursed_at END,
+      reimbursed_by = CASE WHEN p_action = 'reimburse' THEN auth.uid() ELSE reimbursed_by END
+  WHERE id = report.id;
+
+  PERFORM set_config('app.reimbursement_transition', 'off', true);
+
+  RETURN next_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.transition_reimbursement_report(UUID, TEXT) TO authenticated;
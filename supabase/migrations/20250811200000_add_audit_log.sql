@@ -0,0 +1,170 @@
+-- Add Audit Log
+-- Every insert, update and delete on expenses, categories, payment_methods and
+-- workspace_members is recorded by an AFTER trigger in an append-only table, with the old
+-- and new values of the changed columns, who made the change and where it came from.
+-- The source is worked out from the row itself: expenses say how they were captured
+-- (expenses.source) and whether AI picked the category or payment method (*_source), and
+-- changes made without a signed-in user come from scheduled jobs or the service role.
+
+-- 1) Audit log
+-- No foreign keys on purpose: entries outlive the rows (and workspaces) they describe,
+-- and a cascade delete would otherwise fail while logging the deletes it causes.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- Whole row for inserts and deletes, only the changed columns for updates
+  old_values JSONB,
+  new_values JSONB,
+  changed_fields TEXT[],
+  actor_id UUID,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'ai', 'import', 'voice', 'system')),
+  -- Wall-clock time so changes made in one transaction keep their order
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_record_idx
+  ON public.audit_log(table_name, record_id, created_at);
+CREATE INDEX IF NOT EXISTS audit_log_workspace_idx
+  ON public.audit_log(workspace_id, created_at DESC);
+
+-- 2) Members read the history of expenses; settings and membership history is for admins.
+-- There are no write policies: rows are only added by the trigger below.
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS audit_log_select ON public.audit_log;
+CREATE POLICY audit_log_select ON public.audit_log
+FOR SELECT USING (
+  public.has_workspace_role(workspace_id, 'admin')
+  OR (table_name = 'expenses' AND public.has_workspace_role(workspace_id))
+);
+
+REVOKE INSERT, UPDATE, DELETE ON public.audit_log FROM anon, authenticated;
+
+-- Entries can't be changed or removed, not even by the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- 3) Record a row change
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  row_data JSONB;
+  changed TEXT[];
+  change_source TEXT;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  row_data := COALESCE(new_row, old_row);
+
+  change_source := CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN TG_TABLE_NAME <> 'expenses' THEN 'manual'
+    WHEN TG_OP = 'INSERT' AND new_row->>'source' IN ('voice', 'import') THEN new_row->>'source'
+    WHEN TG_OP = 'INSERT' AND new_row->>'source' = 'recurring' THEN 'system'
+    WHEN TG_OP = 'INSERT' AND (
+      new_row->>'source' IN ('upload', 'camera')
+      OR new_row->>'category_source' = 'ai'
+      OR new_row->>'payment_method_source' = 'ai'
+    ) THEN 'ai'
+    WHEN TG_OP = 'UPDATE' AND (
+      (new_row->>'category_source' = 'ai' AND new_row->'global_category_id' IS DISTINCT FROM old_row->'global_category_id')
+      OR (new_row->>'payment_method_source' = 'ai' AND new_row->'payment_method_id' IS DISTINCT FROM old_row->'payment_method_id')
+    ) THEN 'ai'
+    ELSE 'manual'
+  END;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO changed
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row->n.key
+      AND n.key <> 'updated_at';
+
+    -- Nothing worth recording, e.g. an update that rewrote the same values
+    IF changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT jsonb_object_agg(k, old_row->k), jsonb_object_agg(k, new_row->k)
+    INTO old_row, new_row
+    FROM unnest(changed) AS k;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    workspace_id, table_name, record_id, action, old_values, new_values, changed_fields, actor_id, source
+  ) VALUES (
+    (row_data->>'workspace_id')::UUID,
+    TG_TABLE_NAME,
+    (row_data->>'id')::UUID,
+    lower(TG_OP),
+    old_row,
+    new_row,
+    changed,
+    auth.uid(),
+    change_source
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+DECLARE
+  tbl TEXT;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['expenses', 'categories', 'payment_methods', 'workspace_members']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON public.%I', tbl || '_audit', tbl);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      tbl || '_audit', tbl
+    );
+  END LOOP;
+END $$;
+
+-- 4) Timeline of one record with the actor's name, oldest first
+CREATE OR REPLACE FUNCTION public.get_audit_log(p_table_name TEXT, p_record_id UUID)
+RETURNS TABLE (
+  id UUID,
+  action TEXT,
+  old_values JSONB,
+  new_values JSONB,
+  changed_fields TEXT[],
+  source TEXT,
+  actor_id UUID,
+  actor_email TEXT,
+  actor_name TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+  SELECT a.id, a.action, a.old_values, a.new_values, a.changed_fields, a.source, a.actor_id,
+         u.email::TEXT, p.full_name, a.created_at
+  FROM public.audit_log a
+  LEFT JOIN auth.users u ON u.id = a.actor_id
+  LEFT JOIN public.user_profiles p ON p.user_id = a.actor_id
+  WHERE a.table_name = p_table_name
+    AND a.record_id = p_record_id
+    AND (
+      public.has_workspace_role(a.workspace_id, 'admin')
+      OR (a.table_name = 'expenses' AND public.has_workspace_role(a.workspace_id))
+    )
+  ORDER BY a.created_at, a.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_audit_log(TEXT, UUID) TO authenticated;
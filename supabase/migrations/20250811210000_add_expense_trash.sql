@@ -0,0 +1,219 @@
+-- Add Expense Trash
+-- Deleting an expense moves it to the trash (deleted_at) instead of removing the row, so it
+-- can be restored. Trashed expenses are hidden from every query by the select policy and
+-- can't be submitted or approved; they are listed, restored and purged through the
+-- functions below and removed for good once they outlive the workspace's retention period.
+
+-- 1) Columns
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS expenses_trash_idx
+  ON public.expenses(workspace_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Days an expense stays in the trash before it is purged
+ALTER TABLE public.workspaces
+  ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- 2) Hide trashed expenses. Summaries and budget reports run as the caller, so they skip
+--    them too; SECURITY DEFINER functions are kept off them by the trigger below.
+DROP POLICY IF EXISTS expenses_select ON public.expenses;
+CREATE POLICY expenses_select ON public.expenses
+FOR SELECT USING (public.has_workspace_role(workspace_id) AND deleted_at IS NULL);
+
+-- Expenses only move in and out of the trash through trash_expenses() and
+-- restore_expenses(), and trashed ones can't be submitted, approved or put on a report.
+-- Other changes are let through so ON DELETE SET NULL from categories, payment methods
+-- and templates still reaches trashed rows.
+CREATE OR REPLACE FUNCTION public.guard_trashed_expense()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.expense_trash', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at OR NEW.deleted_by IS DISTINCT FROM OLD.deleted_by THEN
+    RAISE EXCEPTION 'Expenses are moved to and from the trash with trash_expenses() and restore_expenses()';
+  END IF;
+  IF OLD.deleted_at IS NOT NULL AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR (NEW.reimbursement_report_id IS NOT NULL AND NEW.reimbursement_report_id IS DISTINCT FROM OLD.reimbursement_report_id)
+  ) THEN
+    RAISE EXCEPTION '% (%) is in the trash; restore it first', OLD.merchant, OLD.txn_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS expenses_guard_trash ON public.expenses;
+CREATE TRIGGER expenses_guard_trash
+  BEFORE UPDATE ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.guard_trashed_expense();
+
+-- Same rule as the delete policy: your own expenses until they are submitted, or any as admin
+CREATE OR REPLACE FUNCTION public.can_delete_expense(p_workspace_id UUID, p_user_id UUID, p_status TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_workspace_role(p_workspace_id, 'admin')
+    OR (
+      public.has_workspace_role(p_workspace_id)
+      AND p_user_id = auth.uid()
+      AND p_status IN ('unreviewed', 'flagged', 'rejected')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3) Move expenses to the trash. Expenses on a draft reimbursement report are taken off
+--    it; ones on a submitted or reimbursed report can't be deleted.
+--    Returns the number of expenses moved.
+CREATE OR REPLACE FUNCTION public.trash_expenses(p_expense_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  expense RECORD;
+  moved INTEGER;
+BEGIN
+  FOR expense IN
+    SELECT e.*, r.status AS report_status
+    FROM public.expenses e
+    LEFT JOIN public.reimbursement_reports r ON r.id = e.reimbursement_report_id
+    WHERE e.id = ANY(p_expense_ids) AND e.deleted_at IS NULL
+  LOOP
+    IF NOT public.can_delete_expense(expense.workspace_id, expense.user_id, expense.status) THEN
+      RAISE EXCEPTION 'You can''t delete % (%)', expense.merchant, expense.txn_date;
+    END IF;
+    IF expense.report_status IN ('submitted', 'reimbursed') THEN
+      RAISE EXCEPTION '% (%) is on a % reimbursement report', expense.merchant, expense.txn_date, expense.report_status;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.expense_trash', 'on', true);
+
+  UPDATE public.expenses e
+  SET deleted_at = now(),
+      deleted_by = auth.uid(),
+      reimbursement_report_id = NULL
+  WHERE e.id = ANY(p_expense_ids) AND e.deleted_at IS NULL;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  PERFORM set_config('app.expense_trash', 'off', true);
+
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.trash_expenses(UUID[]) TO authenticated;
+
+-- 4) Take expenses back out of the trash. Returns the number restored.
+CREATE OR REPLACE FUNCTION public.restore_expenses(p_expense_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = ANY(p_expense_ids)
+      AND e.deleted_at IS NOT NULL
+      AND NOT public.can_delete_expense(e.workspace_id, e.user_id, e.status)
+  ) THEN
+    RAISE EXCEPTION 'You can only restore expenses you could delete';
+  END IF;
+
+  PERFORM set_config('app.expense_trash', 'on', true);
+
+  UPDATE public.expenses e
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE e.id = ANY(p_expense_ids) AND e.deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS restored = ROW_COUNT;
+
+  PERFORM set_config('app.expense_trash', 'off', true);
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.restore_expenses(UUID[]) TO authenticated;
+
+-- 5) Permanently delete expenses that are in the trash. Returns the number removed.
+CREATE OR REPLACE FUNCTION public.purge_expenses(p_expense_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = ANY(p_expense_ids)
+      AND e.deleted_at IS NOT NULL
+      AND NOT public.can_delete_expense(e.workspace_id, e.user_id, e.status)
+  ) THEN
+    RAISE EXCEPTION 'You can only purge expenses you could delete';
+  END IF;
+
+  DELETE FROM public.expenses e
+  WHERE e.id = ANY(p_expense_ids) AND e.deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.purge_expenses(UUID[]) TO authenticated;
+
+-- 6) The trash of a workspace, most recently deleted first: members see what they could
+--    restore, admins see everything
+CREATE OR REPLACE FUNCTION public.list_trashed_expenses(p_workspace_id UUID)
+RETURNS SETOF public.expenses AS $$
+  SELECT e.*
+  FROM public.expenses e
+  WHERE e.workspace_id = p_workspace_id
+    AND e.deleted_at IS NOT NULL
+    AND public.can_delete_expense(e.workspace_id, e.user_id, e.status)
+  ORDER BY e.deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.list_trashed_expenses(UUID) TO authenticated;
+
+-- 7) Purge expenses that have been in the trash longer than the retention period.
+--    The app calls this for the workspace it opens; only backend jobs (pg_cron) run it for
+--    all of them.
+CREATE OR REPLACE FUNCTION public.purge_expired_expense_trash(p_workspace_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  IF NOT public.is_backend_caller()
+    AND (auth.uid() IS NULL OR p_workspace_id IS NULL OR NOT public.has_workspace_role(p_workspace_id))
+  THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  DELETE FROM public.expenses e
+  USING public.workspaces w
+  WHERE w.id = e.workspace_id
+    AND e.deleted_at IS NOT NULL
+    AND e.deleted_at < now() - make_interval(days => w.trash_retention_days)
+    AND (p_workspace_id IS NULL OR e.workspace_id = p_workspace_id);
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_expense_trash(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_expired_expense_trash(UUID) TO authenticated, service_role;
+
+-- 8) Daily schedule when pg_cron is installed
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'purge-expense-trash';
+    PERFORM cron.schedule(
+      'purge-expense-trash',
+      '30 0 * * *',
+      'SELECT public.purge_expired_expense_trash()'
+    );
+  END IF;
+END $$;
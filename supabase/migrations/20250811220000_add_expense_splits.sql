@@ -0,0 +1,393 @@
+-- Add Expense Splits
+-- One receipt can cover several things: an expense can be split into line items, each with
+-- its own amount, category, workspace and reimbursable flag. Splits are in the expense's
+-- currency and always add up to its amount. Totals and budgets count the splits instead
+-- of the expense they belong to, so a split booked to another workspace shows up there.
+
+-- 1) Splits
+CREATE TABLE IF NOT EXISTS public.expense_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  -- Workspace the split is booked to; may differ from the expense's
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  global_category_id UUID REFERENCES public.global_categories(id) ON DELETE SET NULL,
+  is_reimbursable BOOLEAN NOT NULL DEFAULT false,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Amount converted to the split workspace's base currency, like expenses.base_amount
+  base_amount NUMERIC(12,2),
+  base_currency TEXT,
+  fx_rate NUMERIC(18,8),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS expense_splits_expense_idx ON public.expense_splits(expense_id, position);
+CREATE INDEX IF NOT EXISTS expense_splits_workspace_idx ON public.expense_splits(workspace_id);
+
+-- Lets lists show which expenses are split without loading the splits
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS is_split BOOLEAN NOT NULL DEFAULT false;
+
+-- 2) Members of either workspace see the splits; they are only written by set_expense_splits()
+ALTER TABLE public.expense_splits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS expense_splits_select ON public.expense_splits;
+CREATE POLICY expense_splits_select ON public.expense_splits
+FOR SELECT USING (
+  public.has_workspace_role(workspace_id)
+  OR EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id)
+);
+
+-- 3) Convert splits to their workspace's base currency, with the expense's currency and date
+--    and the same rate lookup as expenses
+CREATE OR REPLACE FUNCTION public.convert_split_to_base_currency()
+RETURNS trigger AS $$
+DECLARE
+  expense_currency TEXT;
+  expense_date DATE;
+  ws_currency TEXT;
+  found_rate NUMERIC(18,8);
+BEGIN
+  SELECT e.currency, e.txn_date INTO expense_currency, expense_date
+  FROM public.expenses e
+  WHERE e.id = NEW.expense_id;
+
+  SELECT w.base_currency INTO ws_currency
+  FROM public.workspaces w
+  WHERE w.id = NEW.workspace_id;
+
+  ws_currency := COALESCE(ws_currency, 'INR');
+  NEW.base_currency := ws_currency;
+
+  IF expense_currency = ws_currency THEN
+    found_rate := 1;
+  ELSE
+    found_rate := public.find_exchange_rate(NEW.workspace_id, expense_currency, expense_date);
+  END IF;
+
+  NEW.fx_rate := found_rate;
+  NEW.base_amount := CASE WHEN found_rate IS NULL THEN NULL ELSE ROUND(NEW.amount * found_rate, 2) END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS expense_splits_convert_to_base_currency ON public.expense_splits;
+CREATE TRIGGER expense_splits_convert_to_base_currency
+  BEFORE INSERT OR UPDATE ON public.expense_splits
+  FOR EACH ROW EXECUTE FUNCTION public.convert_split_to_base_currency();
+
+-- Reconvert splits when their expense's currency or date changes
+CREATE OR REPLACE FUNCTION public.reconvert_expense_splits()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_split THEN
+    -- Re-assigning amount fires the conversion trigger
+    UPDATE public.expense_splits s SET amount = s.amount WHERE s.expense_id = NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS expenses_reconvert_splits ON public.expenses;
+CREATE TRIGGER expenses_reconvert_splits
+  AFTER UPDATE OF currency, txn_date ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.reconvert_expense_splits();
+
+-- refresh_expense_base_amounts() now also reconverts splits booked to the workspace
+CREATE OR REPLACE FUNCTION public.refresh_split_base_amounts(p_workspace_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF NOT public.has_workspace_role(p_workspace_id) THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  UPDATE public.expense_splits s
+  SET amount = s.amount
+  WHERE s.workspace_id = p_workspace_id;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_split_base_amounts(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.refresh_split_base_amounts(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_expense_base_amounts(p_workspace_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  -- Re-assigning currency fires the conversion trigger
+  UPDATE public.expenses e
+  SET currency = e.currency
+  FROM public.workspaces w
+  WHERE w.id = e.workspace_id
+    AND e.workspace_id = p_workspace_id
+    AND (e.currency <> w.base_currency OR e.base_currency IS DISTINCT FROM w.base_currency OR e.base_amount IS NULL);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  PERFORM public.refresh_split_base_amounts(p_workspace_id);
+
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- 4) Splits must add up to their expense. Checked at commit so an expense's amount and its
+--    splits can be changed together.
+CREATE OR REPLACE FUNCTION public.check_expense_split_total()
+RETURNS trigger AS $$
+DECLARE
+  target_id UUID;
+  expense_amount NUMERIC;
+  split_total NUMERIC;
+BEGIN
+  IF TG_TABLE_NAME = 'expenses' THEN
+    target_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    target_id := OLD.expense_id;
+  ELSE
+    target_id := NEW.expense_id;
+  END IF;
+
+  SELECT e.amount INTO expense_amount FROM public.expenses e WHERE e.id = target_id;
+  -- The expense itself was deleted
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT SUM(s.amount) INTO split_total FROM public.expense_splits s WHERE s.expense_id = target_id;
+
+  IF split_total IS NOT NULL AND split_total <> expense_amount THEN
+    RAISE EXCEPTION 'Splits add up to % but the expense is %', split_total, expense_amount;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS expense_splits_check_total ON public.expense_splits;
+CREATE CONSTRAINT TRIGGER expense_splits_check_total
+  AFTER INSERT OR UPDATE OR DELETE ON public.expense_splits
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_expense_split_total();
+
+DROP TRIGGER IF EXISTS expenses_check_split_total ON public.expenses;
+CREATE CONSTRAINT TRIGGER expenses_check_split_total
+  AFTER UPDATE OF amount ON public.expenses
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_expense_split_total();
+
+-- 5) Replace an expense's splits. p_splits is a JSON array of
+--    { amount, workspace_id, category_id, is_reimbursable, description }; an empty array
+--    removes the split. Whoever may edit the expense may split it, into workspaces they
+--    belong to. Returns the new splits.
+CREATE OR REPLACE FUNCTION public.set_expense_splits(p_expense_id UUID, p_splits JSONB)
+RETURNS SETOF public.expense_splits AS $$
+DECLARE
+  expense public.expenses%ROWTYPE;
+  split_count INTEGER := jsonb_array_length(COALESCE(p_splits, '[]'::jsonb));
+  split_total NUMERIC;
+BEGIN
+  SELECT * INTO expense FROM public.expenses WHERE id = p_expense_id FOR UPDATE;
+
+  IF expense.id IS NULL OR expense.deleted_at IS NOT NULL OR NOT public.has_workspace_role(expense.workspace_id) THEN
+    RAISE EXCEPTION 'Expense not found';
+  END IF;
+  -- Same rule as editing the expense
+  IF NOT public.can_delete_expense(expense.workspace_id, expense.user_id, expense.status) THEN
+    RAISE EXCEPTION 'You can''t change % (%) any more', expense.merchant, expense.txn_date;
+  END IF;
+  IF split_count = 1 THEN
+    RAISE EXCEPTION 'Split an expense into at least two parts';
+  END IF;
+
+  IF split_count > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_splits) s
+      WHERE NOT public.has_workspace_role((s->>'workspace_id')::UUID)
+    ) THEN
+      RAISE EXCEPTION 'Splits can only go to businesses you belong to';
+    END IF;
+
+    SELECT SUM((s->>'amount')::NUMERIC) INTO split_total FROM jsonb_array_elements(p_splits) s;
+    IF split_total <> expense.amount THEN
+      RAISE EXCEPTION 'Splits add up to % but the expense is %', split_total, expense.amount;
+    END IF;
+  END IF;
+
+  DELETE FROM public.expense_splits s WHERE s.expense_id = expense.id;
+
+  INSERT INTO public.expense_splits (
+    expense_id, workspace_id, amount, global_category_id, is_reimbursable, description, position
+  )
+  SELECT
+    expense.id,
+    (s.value->>'workspace_id')::UUID,
+    (s.value->>'amount')::NUMERIC,
+    NULLIF(s.value->>'category_id', '')::UUID,
+    COALESCE((s.value->>'is_reimbursable')::BOOLEAN, false),
+    NULLIF(btrim(s.value->>'description'), ''),
+    s.ordinality::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_splits, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality);
+
+  UPDATE public.expenses e SET is_split = split_count > 0 WHERE e.id = expense.id;
+
+  RETURN QUERY
+    SELECT * FROM public.expense_splits s WHERE s.expense_id = expense.id ORDER BY s.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_expense_splits(UUID, JSONB) TO authenticated;
+
+-- 6) What a workspace actually spent: its unsplit expenses plus the splits booked to it,
+--    wherever the split expense lives. Trashed expenses and their splits don't count.
+CREATE OR REPLACE FUNCTION public.expense_allocations(p_workspace_id UUID)
+RETURNS TABLE (
+  expense_id UUID,
+  split_id UUID,
+  txn_date DATE,
+  base_amount NUMERIC,
+  global_category_id UUID,
+  is_reimbursable BOOLEAN
+) AS $$
+  SELECT e.id, NULL::UUID, e.txn_date, e.base_amount, e.global_category_id, e.is_reimbursable
+  FROM public.expenses e
+  WHERE e.workspace_id = p_workspace_id
+    AND e.deleted_at IS NULL
+    AND NOT e.is_split
+    AND public.has_workspace_role(p_workspace_id)
+  UNION ALL
+  SELECT s.expense_id, s.id, e.txn_date, s.base_amount, s.global_category_id, s.is_reimbursable
+  FROM public.expense_splits s
+  JOIN public.expenses e ON e.id = s.expense_id
+  WHERE s.workspace_id = p_workspace_id
+    AND e.deleted_at IS NULL
+    AND public.has_workspace_role(p_workspace_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.expense_allocations(UUID) TO authenticated;
+
+-- 7) Summary and budget totals count allocations instead of expenses
+CREATE OR REPLACE FUNCTION public.get_expense_summary(
+  p_workspace_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_previous_start DATE,
+  p_previous_end DATE,
+  p_top_categories INTEGER DEFAULT 3
+)
+RETURNS JSONB AS $$
+  WITH allocations AS (
+    SELECT * FROM public.expense_allocations(p_workspace_id)
+  ),
+  current_period AS (
+    SELECT a.base_amount, a.global_category_id
+    FROM allocations a
+    WHERE a.txn_date BETWEEN p_start AND p_end
+  ),
+  previous_period AS (
+    SELECT a.base_amount
+    FROM allocations a
+    WHERE a.txn_date BETWEEN p_previous_start AND p_previous_end
+  ),
+  category_totals AS (
+    SELECT
+      cp.global_category_id AS category_id,
+      COALESCE(gc.name, 'Uncategorized') AS name,
+      SUM(cp.base_amount) AS total
+    FROM current_period cp
+    LEFT JOIN public.global_categories gc ON gc.id = cp.global_category_id
+    WHERE cp.base_amount IS NOT NULL
+    GROUP BY cp.global_category_id, gc.name
+    ORDER BY total DESC
+    LIMIT p_top_categories
+  )
+  SELECT jsonb_build_object(
+    'currency', (SELECT w.base_currency FROM public.workspaces w WHERE w.id = p_workspace_id),
+    'total', (SELECT COALESCE(SUM(base_amount), 0) FROM current_period),
+    'count', (SELECT COUNT(*) FROM current_period),
+    'unconverted_count', (SELECT COUNT(*) FROM current_period WHERE base_amount IS NULL),
+    'previous_total', (SELECT COALESCE(SUM(base_amount), 0) FROM previous_period),
+    'previous_count', (SELECT COUNT(*) FROM previous_period),
+    'top_categories', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('category_id', ct.category_id, 'name', ct.name, 'total', ct.total) ORDER BY ct.total DESC)
+       FROM category_totals ct),
+      '[]'::jsonb
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION public.get_budget_report(
+  p_workspace_id UUID,
+  p_periods INTEGER DEFAULT 12,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  budget_id UUID,
+  period_start DATE,
+  period_end DATE,
+  budget_amount NUMERIC,
+  spent NUMERIC
+) AS $$
+  WITH periods AS (
+    SELECT
+      b.id AS budget_id,
+      b.global_category_id,
+      b.amount,
+      s.start_date AS period_start,
+      public.budget_period_end(b.period, s.start_date) AS period_end
+    FROM public.budgets b
+    CROSS JOIN LATERAL (
+      SELECT public.budget_period_start(
+        b.period,
+        (public.budget_period_start(b.period, p_as_of) - CASE b.period
+          WHEN 'monthly' THEN make_interval(months => n)
+          WHEN 'quarterly' THEN make_interval(months => 3 * n)
+          ELSE make_interval(years => n)
+        END)::date
+      ) AS start_date
+      FROM generate_series(0, GREATEST(p_periods, 1) - 1) AS n
+    ) s
+    WHERE b.workspace_id = p_workspace_id
+  ),
+  allocations AS (
+    SELECT * FROM public.expense_allocations(p_workspace_id)
+  )
+  SELECT
+    p.budget_id,
+    p.period_start,
+    p.period_end,
+    p.amount,
+    COALESCE((
+      SELECT SUM(a.base_amount)
+      FROM allocations a
+      WHERE a.txn_date BETWEEN p.period_start AND p.period_end
+        AND (p.global_category_id IS NULL OR a.global_category_id = p.global_category_id)
+    ), 0)
+  FROM periods p
+  ORDER BY p.budget_id, p.period_start;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- 8) Check budgets of the workspaces splits are booked to
+CREATE OR REPLACE FUNCTION public.check_budget_alerts_for_split()
+RETURNS trigger AS $$
+DECLARE
+  expense_date DATE;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.budgets b WHERE b.workspace_id = NEW.workspace_id) THEN
+    SELECT e.txn_date INTO expense_date FROM public.expenses e WHERE e.id = NEW.expense_id;
+    PERFORM public.check_budget_alerts(NEW.workspace_id, expense_date);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS expense_splits_check_budget_alerts ON public.expense_splits;
+CREATE TRIGGER expense_splits_check_budget_alerts
+  AFTER INSERT OR UPDATE ON public.expense_splits
+  FOR EACH ROW EXECUTE FUNCTION public.check_budget_alerts_for_split();
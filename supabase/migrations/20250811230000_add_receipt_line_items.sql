@@ -0,0 +1,88 @@
+-- Add Receipt Line Items
+-- Receipt extraction now returns the individual items on a receipt along with its subtotal,
+-- tax, tip and discount. Items are kept in expense_line_items; their names are also copied
+-- to expenses.line_items_text so the expense search finds an expense by what was bought.
+
+-- 1) Receipt totals on expenses
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS subtotal_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS tip_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS line_items_text TEXT;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS expenses_line_items_text_idx
+  ON public.expenses USING gin (line_items_text gin_trgm_ops)
+  WHERE line_items_text IS NOT NULL;
+
+-- 2) Line items, in the expense's currency
+CREATE TABLE IF NOT EXISTS public.expense_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  quantity NUMERIC(12,3),
+  unit_price NUMERIC(12,2),
+  total NUMERIC(12,2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS expense_line_items_expense_idx ON public.expense_line_items(expense_id, position);
+CREATE INDEX IF NOT EXISTS expense_line_items_workspace_idx ON public.expense_line_items(workspace_id);
+
+-- 3) Visible with the expense; written only by set_expense_line_items()
+ALTER TABLE public.expense_line_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS expense_line_items_select ON public.expense_line_items;
+CREATE POLICY expense_line_items_select ON public.expense_line_items
+FOR SELECT USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id));
+
+-- 4) Replace an expense's line items. p_items is a JSON array of
+--    { name, quantity, unit_price, total }; items without a name are skipped.
+--    Returns the new items.
+CREATE OR REPLACE FUNCTION public.set_expense_line_items(p_expense_id UUID, p_items JSONB)
+RETURNS SETOF public.expense_line_items AS $$
+DECLARE
+  expense public.expenses%ROWTYPE;
+BEGIN
+  SELECT * INTO expense FROM public.expenses WHERE id = p_expense_id FOR UPDATE;
+
+  IF expense.id IS NULL OR expense.deleted_at IS NOT NULL OR NOT public.has_workspace_role(expense.workspace_id) THEN
+    RAISE EXCEPTION 'Expense not found';
+  END IF;
+  -- Same rule as editing the expense
+  IF NOT public.can_delete_expense(expense.workspace_id, expense.user_id, expense.status) THEN
+    RAISE EXCEPTION 'You can''t change % (%) any more', expense.merchant, expense.txn_date;
+  END IF;
+
+  DELETE FROM public.expense_line_items li WHERE li.expense_id = expense.id;
+
+  INSERT INTO public.expense_line_items (expense_id, workspace_id, position, name, quantity, unit_price, total)
+  SELECT
+    expense.id,
+    expense.workspace_id,
+    i.ordinality::INTEGER,
+    btrim(i.value->>'name'),
+    NULLIF(i.value->>'quantity', '')::NUMERIC,
+    NULLIF(i.value->>'unit_price', '')::NUMERIC,
+    COALESCE(NULLIF(i.value->>'total', '')::NUMERIC, 0)
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS i(value, ordinality)
+  WHERE btrim(COALESCE(i.value->>'name', '')) <> '';
+
+  UPDATE public.expenses e
+  SET line_items_text = (
+    SELECT string_agg(li.name, E'\n' ORDER BY li.position)
+    FROM public.expense_line_items li
+    WHERE li.expense_id = expense.id
+  )
+  WHERE e.id = expense.id;
+
+  RETURN QUERY
+    SELECT * FROM public.expense_line_items li WHERE li.expense_id = expense.id ORDER BY li.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_expense_line_items(UUID, JSONB) TO authenticated;
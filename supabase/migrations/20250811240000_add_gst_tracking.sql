@@ -0,0 +1,79 @@
+-- Add GST Tracking
+-- Indian GST details per expense for input tax credit (ITC): the vendor's GSTIN, the
+-- HSN/SAC code, the rate and the CGST/SGST (intra-state) or IGST (inter-state) charged.
+-- tax_inclusive says whether the expense amount already includes the GST. get_gst_report()
+-- lists the GST invoices of a period for the claimable-GST report.
+
+-- 1) Columns
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS vendor_gstin TEXT
+    CHECK (vendor_gstin IS NULL OR vendor_gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  ADD COLUMN IF NOT EXISTS hsn_sac_code TEXT
+    CHECK (hsn_sac_code IS NULL OR hsn_sac_code ~ '^[0-9]{4,8}$'),
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) CHECK (gst_rate IS NULL OR gst_rate BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC(12,2) CHECK (cgst_amount IS NULL OR cgst_amount >= 0),
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC(12,2) CHECK (sgst_amount IS NULL OR sgst_amount >= 0),
+  ADD COLUMN IF NOT EXISTS igst_amount NUMERIC(12,2) CHECK (igst_amount IS NULL OR igst_amount >= 0),
+  ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT true,
+  -- Blocked credits (e.g. food, personal use) are tracked but not claimable
+  ADD COLUMN IF NOT EXISTS itc_eligible BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS expenses_gst_idx
+  ON public.expenses(workspace_id, txn_date)
+  WHERE vendor_gstin IS NOT NULL OR cgst_amount IS NOT NULL OR sgst_amount IS NOT NULL OR igst_amount IS NOT NULL;
+
+-- 2) GST invoices of a period, one row per expense, in INR. Expenses recorded in other
+--    currencies and rejected ones are left out; trashed ones are hidden by RLS since this
+--    runs as the caller. The rate falls back to the tax over the taxable value when it
+--    wasn't recorded. Input tax credit needs the vendor GSTIN, so invoices without one are
+--    never eligible.
+CREATE OR REPLACE FUNCTION public.get_gst_report(p_workspace_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  expense_id UUID,
+  txn_date DATE,
+  merchant TEXT,
+  vendor_gstin TEXT,
+  hsn_sac_code TEXT,
+  gst_rate NUMERIC,
+  taxable_value NUMERIC,
+  cgst_amount NUMERIC,
+  sgst_amount NUMERIC,
+  igst_amount NUMERIC,
+  invoice_value NUMERIC,
+  itc_eligible BOOLEAN
+) AS $$
+  WITH gst AS (
+    SELECT
+      e.*,
+      COALESCE(e.cgst_amount, 0) + COALESCE(e.sgst_amount, 0) + COALESCE(e.igst_amount, 0) AS total_tax
+    FROM public.expenses e
+    WHERE e.workspace_id = p_workspace_id
+      AND e.txn_date BETWEEN p_start AND p_end
+      AND e.currency = 'INR'
+      AND e.status <> 'rejected'
+      AND (e.vendor_gstin IS NOT NULL OR e.cgst_amount IS NOT NULL OR e.sgst_amount IS NOT NULL OR e.igst_amount IS NOT NULL)
+  ),
+  valued AS (
+    SELECT
+      g.*,
+      CASE WHEN g.tax_inclusive THEN g.amount - g.total_tax ELSE g.amount END AS taxable
+    FROM gst g
+  )
+  SELECT
+    v.id,
+    v.txn_date,
+    v.merchant,
+    v.vendor_gstin,
+    v.hsn_sac_code,
+    COALESCE(v.gst_rate, CASE WHEN v.taxable > 0 THEN ROUND(v.total_tax * 100 / v.taxable, 2) END),
+    v.taxable,
+    COALESCE(v.cgst_amount, 0),
+    COALESCE(v.sgst_amount, 0),
+    COALESCE(v.igst_amount, 0),
+    v.taxable + v.total_tax,
+    v.itc_eligible AND v.vendor_gstin IS NOT NULL
+  FROM valued v
+  ORDER BY v.txn_date, v.merchant;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.get_gst_report(UUID, DATE, DATE) TO authenticated;
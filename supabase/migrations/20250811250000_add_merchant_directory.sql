@@ -0,0 +1,230 @@
+-- Add Merchant Directory
+-- The same vendor arrives as "McDonald's", "MCDONALDS #1234" or "mcd" depending on whether
+-- it came from OCR, voice or manual entry. Each workspace now keeps a directory of
+-- merchants with a canonical name, aliases, a default category and payment method and a
+-- logo or color. Expenses are linked to a merchant by normalized name or alias when they
+-- are written (the app fuzzy-matches before saving); unknown names are added to the
+-- directory so duplicates can be merged later.
+
+-- 1) Normalized merchant key: lower case, no punctuation, store numbers or company suffixes.
+--    Letters and digits of any script are kept, so non-Latin names get a key too.
+--    Mirrored by normalizeMerchantName() in src/lib/merchants.ts.
+CREATE OR REPLACE FUNCTION public.normalize_merchant_name(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(COALESCE(p_name, '')), '[''’`]', '', 'g'),
+        '[^[:alnum:]]+', ' ', 'g'),
+      -- Store numbers and company suffixes
+      '(^| )([0-9]+|inc|llc|ltd|pvt|private|limited|co|corp|corporation|company|the)(?= |$)', ' ', 'g'),
+    ' +', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2) Merchants
+CREATE TABLE IF NOT EXISTS public.merchants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  normalized_name TEXT NOT NULL,
+  -- Other spellings as entered, and their normalized keys (kept by the trigger below)
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  alias_keys TEXT[] NOT NULL DEFAULT '{}',
+  default_category_id UUID REFERENCES public.global_categories(id) ON DELETE SET NULL,
+  default_payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+  logo_url TEXT,
+  color TEXT CHECK (color IS NULL OR color ~ '^#[0-9A-Fa-f]{6}$'),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (workspace_id, normalized_name)
+);
+
+CREATE INDEX IF NOT EXISTS merchants_alias_keys_idx ON public.merchants USING gin (alias_keys);
+
+CREATE OR REPLACE FUNCTION public.normalize_merchant_row()
+RETURNS trigger AS $$
+BEGIN
+  NEW.name := btrim(NEW.name);
+  NEW.normalized_name := public.normalize_merchant_name(NEW.name);
+  NEW.aliases := COALESCE(ARRAY(
+    SELECT DISTINCT btrim(a) FROM unnest(NEW.aliases) a
+    WHERE public.normalize_merchant_name(a) NOT IN ('', NEW.normalized_name)
+  ), '{}');
+  NEW.alias_keys := COALESCE(ARRAY(
+    SELECT DISTINCT public.normalize_merchant_name(a) FROM unnest(NEW.aliases) a
+  ), '{}');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS merchants_normalize ON public.merchants;
+CREATE TRIGGER merchants_normalize
+  BEFORE INSERT OR UPDATE OF name, aliases ON public.merchants
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_merchant_row();
+
+-- 3) Members see the directory; admins edit it. New names are added by the expense trigger.
+ALTER TABLE public.merchants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS merchants_select ON public.merchants;
+CREATE POLICY merchants_select ON public.merchants
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+DROP POLICY IF EXISTS merchants_write ON public.merchants;
+CREATE POLICY merchants_write ON public.merchants
+FOR ALL USING (public.has_workspace_role(workspace_id, 'admin'))
+WITH CHECK (public.has_workspace_role(workspace_id, 'admin'));
+
+-- 4) Link expenses to merchants, starting with the existing ones. The most common spelling
+--    of each merchant becomes its name.
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS merchant_id UUID REFERENCES public.merchants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS expenses_merchant_idx ON public.expenses(merchant_id);
+
+INSERT INTO public.merchants (workspace_id, name)
+SELECT DISTINCT ON (workspace_id, key) workspace_id, merchant
+FROM (
+  SELECT e.workspace_id, e.merchant, public.normalize_merchant_name(e.merchant) AS key, count(*) AS uses
+  FROM public.expenses e
+  WHERE e.merchant_id IS NULL
+  GROUP BY e.workspace_id, e.merchant
+) spellings
+WHERE key <> ''
+ORDER BY workspace_id, key, uses DESC, merchant
+ON CONFLICT (workspace_id, normalized_name) DO NOTHING;
+
+UPDATE public.expenses e
+SET merchant_id = m.id
+FROM public.merchants m
+WHERE e.merchant_id IS NULL
+  AND m.workspace_id = e.workspace_id
+  AND m.normalized_name = public.normalize_merchant_name(e.merchant);
+
+-- An expense keeps a merchant picked for it in the same workspace; otherwise it is linked
+-- by name, then alias, adding the name to the directory when nothing matches. New expenses
+-- without a category or payment method take the merchant's defaults.
+CREATE OR REPLACE FUNCTION public.link_expense_merchant()
+RETURNS trigger AS $$
+DECLARE
+  merchant_key TEXT := public.normalize_merchant_name(NEW.merchant);
+  linked public.merchants%ROWTYPE;
+BEGIN
+  IF merchant_key = '' THEN
+    NEW.merchant_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.merchant_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.merchant_id IS DISTINCT FROM OLD.merchant_id) THEN
+    SELECT * INTO linked FROM public.merchants m
+    WHERE m.id = NEW.merchant_id AND m.workspace_id = NEW.workspace_id;
+  ELSIF TG_OP = 'UPDATE' AND NEW.merchant IS NOT DISTINCT FROM OLD.merchant AND NEW.workspace_id = OLD.workspace_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF linked.id IS NULL THEN
+    SELECT * INTO linked FROM public.merchants m
+    WHERE m.workspace_id = NEW.workspace_id
+      AND (m.normalized_name = merchant_key OR merchant_key = ANY(m.alias_keys))
+    ORDER BY m.normalized_name = merchant_key DESC, m.created_at
+    LIMIT 1;
+  END IF;
+
+  IF linked.id IS NULL THEN
+    INSERT INTO public.merchants (workspace_id, name)
+    VALUES (NEW.workspace_id, NEW.merchant)
+    ON CONFLICT (workspace_id, normalized_name) DO UPDATE SET updated_at = public.merchants.updated_at
+    RETURNING * INTO linked;
+  END IF;
+
+  NEW.merchant_id := linked.id;
+  IF TG_OP = 'INSERT' THEN
+    NEW.global_category_id := COALESCE(NEW.global_category_id, linked.default_category_id);
+    NEW.payment_method_id := COALESCE(NEW.payment_method_id, linked.default_payment_method_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS expenses_link_merchant ON public.expenses;
+CREATE TRIGGER expenses_link_merchant
+  BEFORE INSERT OR UPDATE OF merchant, merchant_id, workspace_id ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.link_expense_merchant();
+
+-- 5) Renaming a merchant renames its expenses
+CREATE OR REPLACE FUNCTION public.rename_merchant_expenses()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.expenses e
+  SET merchant = NEW.name
+  WHERE e.merchant_id = NEW.id AND e.merchant IS DISTINCT FROM NEW.name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS merchants_rename_expenses ON public.merchants;
+CREATE TRIGGER merchants_rename_expenses
+  AFTER UPDATE OF name ON public.merchants
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION public.rename_merchant_expenses();
+
+-- 6) Merge duplicates into one merchant. The others' names and aliases become aliases of
+--    the target, their expenses move to it (and take its name), and they are deleted.
+--    Defaults and the logo are kept from the target, or taken from a duplicate that has them.
+CREATE OR REPLACE FUNCTION public.merge_merchants(p_target_id UUID, p_source_ids UUID[])
+RETURNS public.merchants AS $$
+DECLARE
+  target public.merchants%ROWTYPE;
+  merged public.merchants%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.merchants WHERE id = p_target_id FOR UPDATE;
+
+  IF target.id IS NULL OR NOT public.has_workspace_role(target.workspace_id, 'admin') THEN
+    RAISE EXCEPTION 'Merchant not found';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.merchants m
+    WHERE m.id = ANY(p_source_ids) AND m.workspace_id <> target.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'Merchants can only be merged within a workspace';
+  END IF;
+
+  UPDATE public.merchants m
+  SET
+    aliases = m.aliases || ARRAY(
+      SELECT a FROM public.merchants s, unnest(s.name || s.aliases) a
+      WHERE s.id = ANY(p_source_ids) AND s.id <> m.id
+    ),
+    default_category_id = COALESCE(m.default_category_id, (
+      SELECT s.default_category_id FROM public.merchants s
+      WHERE s.id = ANY(p_source_ids) AND s.default_category_id IS NOT NULL LIMIT 1
+    )),
+    default_payment_method_id = COALESCE(m.default_payment_method_id, (
+      SELECT s.default_payment_method_id FROM public.merchants s
+      WHERE s.id = ANY(p_source_ids) AND s.default_payment_method_id IS NOT NULL LIMIT 1
+    )),
+    logo_url = COALESCE(m.logo_url, (
+      SELECT s.logo_url FROM public.merchants s
+      WHERE s.id = ANY(p_source_ids) AND s.logo_url IS NOT NULL LIMIT 1
+    )),
+    color = COALESCE(m.color, (
+      SELECT s.color FROM public.merchants s
+      WHERE s.id = ANY(p_source_ids) AND s.color IS NOT NULL LIMIT 1
+    )),
+    updated_at = now()
+  WHERE m.id = target.id;
+
+  UPDATE public.expenses e
+  SET merchant_id = target.id, merchant = target.name
+  WHERE e.merchant_id = ANY(p_source_ids) AND e.merchant_id <> target.id;
+
+  DELETE FROM public.merchants m
+  WHERE m.id = ANY(p_source_ids) AND m.id <> target.id;
+
+  SELECT * INTO merged FROM public.merchants WHERE id = target.id;
+  RETURN merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.merge_merchants(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,108 @@
+-- Add Categorization Rules
+-- Rules pick the category and/or payment method of an expense before AI categorization
+-- runs, e.g. "merchant contains uber -> Transportation, Company Card". Admins write rules;
+-- others are learned: overriding an automatically picked category is recorded as a
+-- correction, and once the same merchant has been corrected to the same category twice a
+-- learned rule files it there from then on.
+
+-- 1) Rules. Patterns are matched case-insensitively; merchant patterns against the
+--    normalized merchant name (see normalize_merchant_name()).
+CREATE TABLE IF NOT EXISTS public.categorization_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  field TEXT NOT NULL DEFAULT 'merchant' CHECK (field IN ('merchant', 'description')),
+  match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'equals', 'starts_with')),
+  pattern TEXT NOT NULL CHECK (btrim(pattern) <> ''),
+  global_category_id UUID REFERENCES public.global_categories(id) ON DELETE SET NULL,
+  payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'learned')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS categorization_rules_unique
+  ON public.categorization_rules(workspace_id, field, match_type, lower(pattern));
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+-- Everyone's categorization uses the rules; admins manage them
+DROP POLICY IF EXISTS categorization_rules_select ON public.categorization_rules;
+CREATE POLICY categorization_rules_select ON public.categorization_rules
+FOR SELECT USING (public.has_workspace_role(workspace_id));
+
+DROP POLICY IF EXISTS categorization_rules_write ON public.categorization_rules;
+CREATE POLICY categorization_rules_write ON public.categorization_rules
+FOR ALL USING (public.has_workspace_role(workspace_id, 'admin'))
+WITH CHECK (public.has_workspace_role(workspace_id, 'admin'));
+
+-- 2) Corrections of automatically picked categories, written by record_category_correction()
+CREATE TABLE IF NOT EXISTS public.categorization_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  merchant TEXT NOT NULL,
+  merchant_key TEXT NOT NULL,
+  suggested_category_id UUID REFERENCES public.global_categories(id) ON DELETE SET NULL,
+  corrected_category_id UUID NOT NULL REFERENCES public.global_categories(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS categorization_corrections_merchant_idx
+  ON public.categorization_corrections(workspace_id, merchant_key, corrected_category_id);
+
+ALTER TABLE public.categorization_corrections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS categorization_corrections_select ON public.categorization_corrections;
+CREATE POLICY categorization_corrections_select ON public.categorization_corrections
+FOR SELECT USING (public.has_workspace_role(workspace_id, 'admin'));
+
+-- 3) Record a correction and learn from it. Returns the learned rule when this correction
+--    created or changed one. A rule an admin wrote for the same merchant is never replaced.
+CREATE OR REPLACE FUNCTION public.record_category_correction(
+  p_workspace_id UUID,
+  p_merchant TEXT,
+  p_suggested_category_id UUID,
+  p_corrected_category_id UUID
+)
+RETURNS SETOF public.categorization_rules AS $$
+DECLARE
+  normalized_merchant TEXT := public.normalize_merchant_name(p_merchant);
+  corrections INTEGER;
+BEGIN
+  IF NOT public.has_workspace_role(p_workspace_id) THEN
+    RAISE EXCEPTION 'Workspace not found';
+  END IF;
+  IF normalized_merchant = '' OR p_corrected_category_id IS NULL
+    OR p_corrected_category_id IS NOT DISTINCT FROM p_suggested_category_id THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.categorization_corrections (
+    workspace_id, merchant, merchant_key, suggested_category_id, corrected_category_id, user_id
+  ) VALUES (
+    p_workspace_id, btrim(p_merchant), normalized_merchant, p_suggested_category_id, p_corrected_category_id, auth.uid()
+  );
+
+  SELECT count(*) INTO corrections
+  FROM public.categorization_corrections c
+  WHERE c.workspace_id = p_workspace_id
+    AND c.merchant_key = normalized_merchant
+    AND c.corrected_category_id = p_corrected_category_id;
+
+  IF corrections < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    INSERT INTO public.categorization_rules AS r (workspace_id, field, match_type, pattern, global_category_id, source)
+    VALUES (p_workspace_id, 'merchant', 'equals', normalized_merchant, p_corrected_category_id, 'learned')
+    ON CONFLICT (workspace_id, field, match_type, lower(pattern)) DO UPDATE
+      SET global_category_id = EXCLUDED.global_category_id, is_active = true, updated_at = now()
+      WHERE r.source = 'learned' AND r.global_category_id IS DISTINCT FROM EXCLUDED.global_category_id
+    RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_category_correction(UUID, TEXT, UUID, UUID) TO authenticated;
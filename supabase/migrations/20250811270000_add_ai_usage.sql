@@ -0,0 +1,144 @@
+-- Add AI Usage Metering
+-- Every call to an AI edge function (ai-categorization, conversational-ai, pdf-processing,
+-- receipt-analysis, voice-extraction) is recorded with its tokens, latency and outcome.
+-- The functions reserve a record before calling the AI provider, checking the rate limits
+-- for users and workspaces in the same step, and fill it in when done; users see their own
+-- usage by month.
+
+-- 1) Usage records
+CREATE TABLE IF NOT EXISTS public.ai_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  -- fallback: answered without the AI provider (not configured or it failed);
+  -- pending: reserved, the call is still running
+  outcome TEXT NOT NULL CHECK (outcome IN ('pending', 'success', 'fallback', 'error', 'rate_limited')),
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_events_user_idx
+  ON public.ai_usage_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS ai_usage_events_workspace_idx
+  ON public.ai_usage_events(workspace_id, created_at DESC);
+
+ALTER TABLE public.ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge functions (service role); read by the user and workspace admins
+DROP POLICY IF EXISTS ai_usage_events_select ON public.ai_usage_events;
+CREATE POLICY ai_usage_events_select ON public.ai_usage_events
+FOR SELECT USING (
+  user_id = auth.uid()
+  OR (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, 'admin'))
+);
+
+-- 2) Calls counted against the rate limits: everything but rejected calls, over the last
+--    minute and day, for a user and a workspace
+CREATE OR REPLACE FUNCTION public.get_ai_rate_limit_counts(p_user_id UUID, p_workspace_id UUID)
+RETURNS TABLE (
+  user_minute INTEGER,
+  user_day INTEGER,
+  workspace_minute INTEGER,
+  workspace_day INTEGER
+) AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE e.user_id = p_user_id AND e.created_at > now() - interval '1 minute')::INTEGER,
+    COUNT(*) FILTER (WHERE e.user_id = p_user_id)::INTEGER,
+    COUNT(*) FILTER (WHERE e.workspace_id = p_workspace_id AND e.created_at > now() - interval '1 minute')::INTEGER,
+    COUNT(*) FILTER (WHERE e.workspace_id = p_workspace_id)::INTEGER
+  FROM public.ai_usage_events e
+  WHERE (e.user_id = p_user_id OR e.workspace_id = p_workspace_id)
+    AND e.outcome <> 'rate_limited'
+    AND e.created_at > now() - interval '1 day';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_ai_rate_limit_counts(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_ai_rate_limit_counts(UUID, UUID) TO service_role;
+
+-- 3) Check the limits and reserve a pending record in one step, called by the edge
+--    functions. Calls of the same user or workspace wait for each other here, so parallel
+--    calls can't all get under a limit. p_limits is a JSON array of { key, max, message }
+--    checked in order, key being a column of get_ai_rate_limit_counts() and 0 turning a
+--    limit off. Returns the record, and the limit reached when the call is rejected; the
+--    record of a rejected call is already complete.
+CREATE OR REPLACE FUNCTION public.reserve_ai_call(
+  p_user_id UUID,
+  p_workspace_id UUID,
+  p_function_name TEXT,
+  p_limits JSONB
+)
+RETURNS TABLE (event_id UUID, exceeded_limit TEXT) AS $$
+DECLARE
+  counts JSONB;
+  lim RECORD;
+  new_id UUID;
+BEGIN
+  -- Always user before workspace, so two calls can't wait on each other
+  PERFORM pg_advisory_xact_lock(hashtext('ai_usage:user:' || p_user_id));
+  IF p_workspace_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('ai_usage:workspace:' || p_workspace_id));
+  END IF;
+
+  SELECT to_jsonb(c) INTO counts FROM public.get_ai_rate_limit_counts(p_user_id, p_workspace_id) c;
+
+  FOR lim IN
+    SELECT l->>'key' AS key, (l->>'max')::INTEGER AS max, l->>'message' AS message
+    FROM jsonb_array_elements(p_limits) l
+  LOOP
+    IF lim.max > 0
+      AND (p_workspace_id IS NOT NULL OR lim.key NOT LIKE 'workspace%')
+      AND COALESCE((counts->>lim.key)::INTEGER, 0) >= lim.max
+    THEN
+      INSERT INTO public.ai_usage_events (user_id, workspace_id, function_name, outcome, error_message)
+      VALUES (p_user_id, p_workspace_id, p_function_name, 'rate_limited', lim.message)
+      RETURNING id INTO new_id;
+
+      RETURN QUERY SELECT new_id, lim.key;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.ai_usage_events (user_id, workspace_id, function_name, outcome)
+  VALUES (p_user_id, p_workspace_id, p_function_name, 'pending')
+  RETURNING id INTO new_id;
+
+  RETURN QUERY SELECT new_id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_call(UUID, UUID, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_ai_call(UUID, UUID, TEXT, JSONB) TO service_role;
+
+-- 4) The caller's AI usage per month, newest first
+CREATE OR REPLACE FUNCTION public.get_ai_usage_by_month(p_months INTEGER DEFAULT 12)
+RETURNS TABLE (
+  month DATE,
+  calls INTEGER,
+  failed_calls INTEGER,
+  rate_limited_calls INTEGER,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  avg_latency_ms INTEGER
+) AS $$
+  SELECT
+    date_trunc('month', e.created_at)::DATE,
+    COUNT(*) FILTER (WHERE e.outcome <> 'rate_limited')::INTEGER,
+    COUNT(*) FILTER (WHERE e.outcome = 'error')::INTEGER,
+    COUNT(*) FILTER (WHERE e.outcome = 'rate_limited')::INTEGER,
+    COALESCE(SUM(e.prompt_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.completion_tokens), 0)::BIGINT,
+    COALESCE(AVG(e.latency_ms) FILTER (WHERE e.outcome <> 'rate_limited'), 0)::INTEGER
+  FROM public.ai_usage_events e
+  WHERE e.user_id = auth.uid()
+    AND e.created_at >= date_trunc('month', now()) - make_interval(months => GREATEST(p_months, 1) - 1)
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_by_month(INTEGER) TO authenticated;
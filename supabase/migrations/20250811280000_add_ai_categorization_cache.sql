@@ -0,0 +1,210 @@
+-- Add AI Categorization Cache
+-- The ai-categorization edge function answers the same merchant over and over: every
+-- pause while typing in the expense form asks again. Answers are now cached per workspace,
+-- keyed on the normalized merchant name, an amount bucket and the set of categories the AI
+-- chose from, and expire after a TTL (AI_CACHE_TTL_HOURS). Changing a workspace's
+-- categories clears its cache. Usage records count cache hits and misses.
+
+-- 1) Cache keys. Amounts within the same quarter of a power of ten share a bucket
+--    (..., 5.62-10, 10-17.8, 17.8-31.6, 31.6-56.2, 56.2-100, ...). Buckets are offset by
+--    1000 so that 0 only means no amount.
+CREATE OR REPLACE FUNCTION public.ai_cache_amount_bucket(p_amount NUMERIC)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN p_amount IS NULL OR p_amount = 0 THEN 0
+    ELSE floor(log(abs(p_amount)) * 4)::INTEGER + 1000
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+--    Merchants are keyed on their normalized name, or on the trimmed lower-case name when
+--    nothing is left of it after normalization (e.g. "#12" or "Ltd."); only blank names
+--    aren't cached.
+CREATE OR REPLACE FUNCTION public.ai_cache_merchant_key(p_merchant TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(NULLIF(public.normalize_merchant_name(p_merchant), ''), lower(btrim(COALESCE(p_merchant, ''))));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2) Cached answers. result is the function's answer as sent to the app.
+CREATE TABLE IF NOT EXISTS public.ai_categorization_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  request_type TEXT NOT NULL CHECK (request_type IN ('categorization', 'suggestions')),
+  -- Hash of the category names offered to the AI
+  category_set TEXT NOT NULL,
+  merchant_key TEXT NOT NULL,
+  amount_bucket INTEGER NOT NULL DEFAULT 0,
+  result JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (workspace_id, request_type, category_set, merchant_key, amount_bucket)
+);
+
+CREATE INDEX IF NOT EXISTS ai_categorization_cache_expires_idx
+  ON public.ai_categorization_cache(workspace_id, expires_at);
+
+-- Only the edge functions (service role) read and write the cache
+ALTER TABLE public.ai_categorization_cache ENABLE ROW LEVEL SECURITY;
+
+-- 3) Look up answers for a list of expenses ([{ "merchant": ..., "amount": ... }]).
+--    Returns the position in the list (from 0) and the answer of each hit.
+CREATE OR REPLACE FUNCTION public.get_ai_cache_entries(
+  p_workspace_id UUID,
+  p_request_type TEXT,
+  p_category_set TEXT,
+  p_inputs JSONB
+)
+RETURNS TABLE (input_index INTEGER, cached_result JSONB) AS $$
+  SELECT (input.idx - 1)::INTEGER, c.result
+  FROM jsonb_array_elements(p_inputs) WITH ORDINALITY AS input(value, idx)
+  JOIN public.ai_categorization_cache c
+    ON c.workspace_id = p_workspace_id
+    AND c.request_type = p_request_type
+    AND c.category_set = p_category_set
+    AND c.merchant_key = public.ai_cache_merchant_key(input.value->>'merchant')
+    AND c.amount_bucket = public.ai_cache_amount_bucket((input.value->>'amount')::NUMERIC)
+    AND c.expires_at > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4) Store answers ([{ "merchant": ..., "amount": ..., "result": ... }]) for p_ttl_seconds,
+--    replacing older ones for the same key, and drop the workspace's expired entries
+CREATE OR REPLACE FUNCTION public.put_ai_cache_entries(
+  p_workspace_id UUID,
+  p_request_type TEXT,
+  p_category_set TEXT,
+  p_entries JSONB,
+  p_ttl_seconds INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.ai_categorization_cache
+  WHERE workspace_id = p_workspace_id AND expires_at <= now();
+
+  INSERT INTO public.ai_categorization_cache (
+    workspace_id, request_type, category_set, merchant_key, amount_bucket, result, expires_at
+  )
+  SELECT DISTINCT ON (merchant_key, amount_bucket)
+    p_workspace_id, p_request_type, p_category_set, merchant_key, amount_bucket, entry.value->'result',
+    now() + make_interval(secs => p_ttl_seconds)
+  FROM jsonb_array_elements(p_entries) AS entry(value),
+    LATERAL (SELECT
+      public.ai_cache_merchant_key(entry.value->>'merchant') AS merchant_key,
+      public.ai_cache_amount_bucket((entry.value->>'amount')::NUMERIC) AS amount_bucket
+    ) AS entry_key
+  WHERE merchant_key <> ''
+  ON CONFLICT (workspace_id, request_type, category_set, merchant_key, amount_bucket)
+  DO UPDATE SET result = EXCLUDED.result, created_at = now(), expires_at = EXCLUDED.expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_ai_cache_entries(UUID, TEXT, TEXT, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.put_ai_cache_entries(UUID, TEXT, TEXT, JSONB, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_ai_cache_entries(UUID, TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.put_ai_cache_entries(UUID, TEXT, TEXT, JSONB, INTEGER) TO service_role;
+
+-- 5) Changing categories clears cached answers: a workspace's own when its category
+--    mappings change, everyone's when a global category changes
+CREATE OR REPLACE FUNCTION public.clear_workspace_ai_cache()
+RETURNS trigger AS $$
+BEGIN
+  DELETE FROM public.ai_categorization_cache
+  WHERE workspace_id IN (
+    SELECT workspace_id FROM changed_rows
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.clear_ai_cache()
+RETURNS trigger AS $$
+BEGIN
+  DELETE FROM public.ai_categorization_cache;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+  -- workspace_category_mappings predates these migrations and may not exist locally
+  IF to_regclass('public.workspace_category_mappings') IS NOT NULL THEN
+    DROP TRIGGER IF EXISTS workspace_category_mappings_insert_clear_ai_cache ON public.workspace_category_mappings;
+    CREATE TRIGGER workspace_category_mappings_insert_clear_ai_cache
+    AFTER INSERT ON public.workspace_category_mappings
+    REFERENCING NEW TABLE AS changed_rows
+    FOR EACH STATEMENT EXECUTE FUNCTION public.clear_workspace_ai_cache();
+
+    DROP TRIGGER IF EXISTS workspace_category_mappings_update_clear_ai_cache ON public.workspace_category_mappings;
+    CREATE TRIGGER workspace_category_mappings_update_clear_ai_cache
+    AFTER UPDATE ON public.workspace_category_mappings
+    REFERENCING NEW TABLE AS changed_rows
+    FOR EACH STATEMENT EXECUTE FUNCTION public.clear_workspace_ai_cache();
+
+    DROP TRIGGER IF EXISTS workspace_category_mappings_delete_clear_ai_cache ON public.workspace_category_mappings;
+    CREATE TRIGGER workspace_category_mappings_delete_clear_ai_cache
+    AFTER DELETE ON public.workspace_category_mappings
+    REFERENCING OLD TABLE AS changed_rows
+    FOR EACH STATEMENT EXECUTE FUNCTION public.clear_workspace_ai_cache();
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS global_categories_clear_ai_cache ON public.global_categories;
+CREATE TRIGGER global_categories_clear_ai_cache
+AFTER INSERT OR UPDATE OR DELETE ON public.global_categories
+FOR EACH STATEMENT EXECUTE FUNCTION public.clear_ai_cache();
+
+-- 6) Cache hits and misses in the usage records. Calls answered entirely from the cache
+--    cost nothing, so they don't count against the rate limits.
+ALTER TABLE public.ai_usage_events
+  ADD COLUMN IF NOT EXISTS cache_hits INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_misses INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.get_ai_rate_limit_counts(p_user_id UUID, p_workspace_id UUID)
+RETURNS TABLE (
+  user_minute INTEGER,
+  user_day INTEGER,
+  workspace_minute INTEGER,
+  workspace_day INTEGER
+) AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE e.user_id = p_user_id AND e.created_at > now() - interval '1 minute')::INTEGER,
+    COUNT(*) FILTER (WHERE e.user_id = p_user_id)::INTEGER,
+    COUNT(*) FILTER (WHERE e.workspace_id = p_workspace_id AND e.created_at > now() - interval '1 minute')::INTEGER,
+    COUNT(*) FILTER (WHERE e.workspace_id = p_workspace_id)::INTEGER
+  FROM public.ai_usage_events e
+  WHERE (e.user_id = p_user_id OR e.workspace_id = p_workspace_id)
+    AND e.outcome <> 'rate_limited'
+    AND NOT (e.cache_hits > 0 AND e.cache_misses = 0)
+    AND e.created_at > now() - interval '1 day';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The result gains a column, so the function is recreated
+DROP FUNCTION IF EXISTS public.get_ai_usage_by_month(INTEGER);
+CREATE FUNCTION public.get_ai_usage_by_month(p_months INTEGER DEFAULT 12)
+RETURNS TABLE (
+  month DATE,
+  calls INTEGER,
+  failed_calls INTEGER,
+  rate_limited_calls INTEGER,
+  cache_hits BIGINT,
+  cache_misses BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  avg_latency_ms INTEGER
+) AS $$
+  SELECT
+    date_trunc('month', e.created_at)::DATE,
+    COUNT(*) FILTER (WHERE e.outcome <> 'rate_limited')::INTEGER,
+    COUNT(*) FILTER (WHERE e.outcome = 'error')::INTEGER,
+    COUNT(*) FILTER (WHERE e.outcome = 'rate_limited')::INTEGER,
+    COALESCE(SUM(e.cache_hits), 0)::BIGINT,
+    COALESCE(SUM(e.cache_misses), 0)::BIGINT,
+    COALESCE(SUM(e.prompt_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.completion_tokens), 0)::BIGINT,
+    COALESCE(AVG(e.latency_ms) FILTER (WHERE e.outcome <> 'rate_limited'), 0)::INTEGER
+  FROM public.ai_usage_events e
+  WHERE e.user_id = auth.uid()
+    AND e.created_at >= date_trunc('month', now()) - make_interval(months => GREATEST(p_months, 1) - 1)
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_by_month(INTEGER) TO authenticated;